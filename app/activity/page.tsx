@@ -23,7 +23,15 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Activity, Calendar, Filter, FileText, User } from "lucide-react";
+import {
+  Activity,
+  Calendar,
+  Filter,
+  FileText,
+  ShieldAlert,
+  ShieldCheck,
+  User,
+} from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "react-hot-toast";
 import { Toaster } from "react-hot-toast";
@@ -113,6 +121,12 @@ export default function ActivityPage() {
         return <FileText className="h-4 w-4" />;
       case "annotation_added":
         return <Activity className="h-4 w-4" />;
+      case "scan_clean":
+        return <ShieldCheck className="h-4 w-4" />;
+      case "malware_detected":
+      case "scan_failed":
+      case "quarantine_released":
+        return <ShieldAlert className="h-4 w-4" />;
       default:
         return <Activity className="h-4 w-4" />;
     }
@@ -123,7 +137,13 @@ export default function ActivityPage() {
       case "document_uploaded":
         return "bg-blue-100 text-blue-800";
       case "annotation_added":
+      case "scan_clean":
         return "bg-green-100 text-green-800";
+      case "malware_detected":
+        return "bg-red-100 text-red-800";
+      case "scan_failed":
+      case "quarantine_released":
+        return "bg-amber-100 text-amber-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -310,6 +330,11 @@ export default function ActivityPage() {
                                     {activity.action.replace("_", " ")}
                                   </Badge>
                                 </div>
+                                {activity.details && (
+                                  <p className="text-xs text-gray-500 mt-1">
+                                    {activity.details}
+                                  </p>
+                                )}
                               </TableCell>
                               <TableCell>
                                 <div className="flex items-center gap-2">
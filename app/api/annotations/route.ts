@@ -107,10 +107,12 @@ export async function GET(request: NextRequest) {
         a.position_y,
         a.created_at,
         a.updated_at,
-        u.name as user_name,
+        a.share_link_id,
+        COALESCE(u.name, CONCAT(sl.recipient, ' (guest)')) as user_name,
         u.email as user_email
       FROM annotations a
       LEFT JOIN users u ON a.user_id = u.id
+      LEFT JOIN document_share_links sl ON a.share_link_id = sl.id
       WHERE a.document_id = ?
     `;
     const params: any[] = [documentId];
@@ -34,13 +34,15 @@ export async function GET(request: NextRequest) {
       SELECT COUNT(DISTINCT d.id) as total_count
       FROM documents d
       LEFT JOIN document_assignments da ON d.id = da.document_id
-      WHERE d.uploaded_by = ? OR da.assigned_to = ?
+      WHERE d.deleted_at IS NULL
+        AND (d.uploaded_by = ? OR da.assigned_to = ?)
     `;
 
     // Get documents currently assigned to the user
     const assignedToUserQuery = `
       SELECT COUNT(DISTINCT da1.document_id) as assigned_count
       FROM document_assignments da1
+      JOIN documents d ON d.id = da1.document_id AND d.deleted_at IS NULL
       WHERE da1.assigned_to = ?
       AND da1.created_at = (
         SELECT MAX(da2.created_at)
@@ -52,17 +54,32 @@ export async function GET(request: NextRequest) {
     // Get recent activity count (assignments from today)
     const recentActivityQuery = `
       SELECT COUNT(*) as activity_count
-      FROM document_assignments 
-      WHERE assigned_to = ? 
-      AND DATE(created_at) = CURDATE()
+      FROM document_assignments da
+      JOIN documents d ON d.id = da.document_id AND d.deleted_at IS NULL
+      WHERE da.assigned_to = ?
+      AND DATE(da.created_at) = CURDATE()
+    `;
+
+    // Get open assignments past their due date, the user's own and those
+    // escalated to them
+    const overdueQuery = `
+      SELECT COUNT(*) as overdue_count
+      FROM document_assignments da
+      JOIN documents d ON d.id = da.document_id AND d.deleted_at IS NULL
+      WHERE (da.assigned_to = ? OR da.escalated_to = ?)
+      AND da.status = 'assigned' AND da.closed_at IS NULL
+      AND d.status = 'in_review'
+      AND da.due_at < NOW()
     `;
 
     // Execute all queries
-    const [totalResult, assignedResult, activityResult] = await Promise.all([
-      DatabaseService.query(totalDocumentsQuery, [userId, userId]),
-      DatabaseService.query(assignedToUserQuery, [userId]),
-      DatabaseService.query(recentActivityQuery, [userId]),
-    ]);
+    const [totalResult, assignedResult, activityResult, overdueResult] =
+      await Promise.all([
+        DatabaseService.query(totalDocumentsQuery, [userId, userId]),
+        DatabaseService.query(assignedToUserQuery, [userId]),
+        DatabaseService.query(recentActivityQuery, [userId]),
+        DatabaseService.query(overdueQuery, [userId, userId]),
+      ]);
 
     // Extract counts from results - handle different MySQL result formats
     const extractCount = (result: any, fieldName: string): number => {
@@ -101,15 +118,17 @@ export async function GET(request: NextRequest) {
     const totalDocuments = extractCount(totalResult, "total_count");
     const assignedToUser = extractCount(assignedResult, "assigned_count");
     const recentActivity = extractCount(activityResult, "activity_count");
+    const overdueAssignments = extractCount(overdueResult, "overdue_count");
 
     console.log("Dashboard stats:", {
       totalDocuments,
       assignedToUser,
       recentActivity,
+      overdueAssignments,
     });
 
     return NextResponse.json(
-      { totalDocuments, assignedToUser, recentActivity },
+      { totalDocuments, assignedToUser, recentActivity, overdueAssignments },
       { status: 200 }
     );
   } catch (err: any) {
@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { DatabaseService } from "@/lib/database";
 import { AuthService } from "@/lib/auth";
+import { AssignmentSlaService } from "@/lib/assignment-sla";
 
 /**
  * Normalize various mysql2 / mysql return shapes into an array of rows.
@@ -47,7 +48,8 @@ export async function PUT(
       );
     }
 
-    const { name, description } = await request.json();
+    const body = await request.json();
+    const { name, description } = body;
 
     if (!name || !name.trim()) {
       return NextResponse.json(
@@ -56,6 +58,12 @@ export async function PUT(
       );
     }
 
+    // Due dates of its members' assignments and who chases overdue ones
+    const sla = await AssignmentSlaService.parseDepartmentSla(body);
+    if (!sla.ok) {
+      return NextResponse.json({ error: sla.error }, { status: sla.status });
+    }
+
     // Check if department exists
     const existingRows = normalizeRows(
       await DatabaseService.query(
@@ -92,9 +100,17 @@ export async function PUT(
     // Update department
     await DatabaseService.query(
       `UPDATE departments 
-       SET name = ?, description = ?, updated_by = ?, updated_at = NOW()
+       SET name = ?, description = ?, sla_days = ?, head_user_id = ?,
+           updated_by = ?, updated_at = NOW()
        WHERE id = ?`,
-      [name.trim(), description?.trim() || null, userId, params.id]
+      [
+        name.trim(),
+        description?.trim() || null,
+        sla.slaDays,
+        sla.headUserId,
+        userId,
+        params.id,
+      ]
     );
 
     return NextResponse.json({
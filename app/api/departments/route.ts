@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { DatabaseService } from "@/lib/database";
 import { AuthService } from "@/lib/auth";
+import { AssignmentSlaService } from "@/lib/assignment-sla";
 import { randomUUID } from "crypto";
 
 /**
@@ -41,7 +42,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { name, description } = await request.json();
+    const body = await request.json();
+    const { name, description } = body;
 
     if (!name || !name.trim()) {
       return NextResponse.json(
@@ -50,6 +52,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Due dates of its members' assignments and who chases overdue ones
+    const sla = await AssignmentSlaService.parseDepartmentSla(body);
+    if (!sla.ok) {
+      return NextResponse.json({ error: sla.error }, { status: sla.status });
+    }
+
     // Check if department already exists (safe normalization)
     const existingRows = normalizeRows(
       await DatabaseService.query(`SELECT id FROM departments WHERE name = ?`, [
@@ -70,9 +78,16 @@ export async function POST(request: NextRequest) {
 
     // Create new department (insert explicit id)
     await DatabaseService.query(
-      `INSERT INTO departments (id, name, description, people_count, created_by, created_at) 
-       VALUES (?, ?, ?, 0, ?, NOW())`,
-      [deptId, name.trim(), description?.trim() || null, userId]
+      `INSERT INTO departments (id, name, description, people_count, created_by, created_at, sla_days, head_user_id) 
+       VALUES (?, ?, ?, 0, ?, NOW(), ?, ?)`,
+      [
+        deptId,
+        name.trim(),
+        description?.trim() || null,
+        userId,
+        sla.slaDays,
+        sla.headUserId,
+      ]
     );
 
     return NextResponse.json({
@@ -83,6 +98,8 @@ export async function POST(request: NextRequest) {
         description: description?.trim() || null,
         people_count: 0,
         created_by: userId,
+        sla_days: sla.slaDays,
+        head_user_id: sla.headUserId,
       },
     });
   } catch (error) {
@@ -111,9 +128,11 @@ export async function GET(request: NextRequest) {
       SELECT 
         d.*,
         u.name as created_by_name,
+        head.name as head_user_name,
         COUNT(u2.id) as user_count
       FROM departments d
       LEFT JOIN users u ON d.created_by = u.id
+      LEFT JOIN users head ON d.head_user_id = head.id
       LEFT JOIN users u2 ON d.id = u2.department_id
       GROUP BY d.id
       ORDER BY d.name
@@ -69,10 +69,14 @@ export async function GET(request: NextRequest) {
 
     // If we have assignments, get user names
     if (assignments.length > 0) {
-      // Build a flat array of user ids (assigned_to and assigned_by) in an ES5-compatible way
+      // Build a flat array of user ids (assigned_to, assigned_by,
+      // escalated_to, delegated_from and acted_by) in an ES5-compatible way
       const rawUserIds: any[] = assignments.reduce((acc: any[], a: any) => {
         if (a && a.assigned_to) acc.push(a.assigned_to);
         if (a && a.assigned_by) acc.push(a.assigned_by);
+        if (a && a.escalated_to) acc.push(a.escalated_to);
+        if (a && a.delegated_from) acc.push(a.delegated_from);
+        if (a && a.acted_by) acc.push(a.acted_by);
         return acc;
       }, []);
 
@@ -117,6 +121,31 @@ export async function GET(request: NextRequest) {
         updated_at: assignment.updated_at
           ? new Date(assignment.updated_at).toISOString()
           : null,
+        workflow_step_id: assignment.workflow_step_id || null,
+        note: assignment.note || null,
+        decided_at: assignment.decided_at
+          ? new Date(assignment.decided_at).toISOString()
+          : null,
+        closed_at: assignment.closed_at
+          ? new Date(assignment.closed_at).toISOString()
+          : null,
+        due_at: assignment.due_at
+          ? new Date(assignment.due_at).toISOString()
+          : null,
+        escalated_at: assignment.escalated_at
+          ? new Date(assignment.escalated_at).toISOString()
+          : null,
+        escalated_to_name: assignment.escalated_to
+          ? userMap.get(assignment.escalated_to) || null
+          : null,
+        delegated_from: assignment.delegated_from || null,
+        delegated_from_name: assignment.delegated_from
+          ? userMap.get(assignment.delegated_from) || null
+          : null,
+        acted_by_name: assignment.acted_by
+          ? userMap.get(assignment.acted_by) || null
+          : null,
+        outcome: assignment.outcome || null,
       }));
     }
 
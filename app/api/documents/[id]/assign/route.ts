@@ -2,6 +2,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { DatabaseService } from "@/lib/database";
 import { AuthService } from "@/lib/auth";
+import { DocumentReviewService } from "@/lib/document-reviews";
+import { DocumentWorkflowService } from "@/lib/document-workflows";
+import { OutOfOfficeService } from "@/lib/out-of-office";
 import { randomUUID } from "crypto";
 
 /** Normalize DB return shapes into an array of rows. */
@@ -18,6 +21,16 @@ function normalizeRows(result: any): any[] {
   return [];
 }
 
+/**
+ * POST /api/documents/[id]/assign
+ * Body: { assigned_to: string | string[], completion?: "all" | "any" | "count",
+ *         required_approvals?: number, notify?: boolean, due_at?: string }
+ * Several reviewers review the document in parallel; completion says how
+ * many of them must approve it (defaults to all). due_at (ISO) defaults to
+ * each reviewer's department SLA, counted from submission. An
+ * out-of-office delegate may reassign for the absent assignee they cover
+ * for.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -57,8 +70,19 @@ export async function POST(
       );
     }
 
-    const { assigned_to, notify = false } = await request.json();
-    if (!assigned_to) {
+    const {
+      assigned_to,
+      completion = null,
+      required_approvals = null,
+      notify = false,
+      due_at = null,
+    } = await request.json();
+    const reviewerIds: string[] = (
+      Array.isArray(assigned_to) ? assigned_to : [assigned_to]
+    )
+      .filter(Boolean)
+      .map((id: unknown) => String(id));
+    if (reviewerIds.length === 0) {
       return NextResponse.json(
         { error: "assigned_to is required" },
         { status: 400 }
@@ -72,11 +96,13 @@ export async function POST(
       currentUserId,
       typeof currentUserId
     );
-    console.log("New assignee ID:", assigned_to, typeof assigned_to);
+    console.log("New reviewer IDs:", reviewerIds);
 
     // Verify document exists and get current assignment
     const documentCheckRaw = await DatabaseService.query(
-      "SELECT id, title, assigned_to_user FROM documents WHERE id = ?",
+      `SELECT id, title, assigned_to_user, assigned_to_role,
+              assigned_to_department
+       FROM documents WHERE id = ? AND deleted_at IS NULL`,
       [documentId]
     );
     const documentRows = normalizeRows(documentCheckRaw);
@@ -90,6 +116,30 @@ export async function POST(
 
     const document = documentRows[0];
     const currentAssignee = document?.assigned_to_user;
+
+    const workflow = await DocumentWorkflowService.activeWorkflowName(
+      documentId
+    );
+    if (workflow) {
+      console.log("❌ Document is on a workflow:", workflow);
+      return NextResponse.json(
+        {
+          error: `The document is on the "${workflow}" workflow, which assigns its reviewers`,
+        },
+        { status: 409 }
+      );
+    }
+    // A queued document reaches a reviewer by being claimed from its queue
+    if (
+      !currentAssignee &&
+      (document.assigned_to_role || document.assigned_to_department)
+    ) {
+      console.log("❌ Document is waiting in a queue");
+      return NextResponse.json(
+        { error: "The document is waiting in a queue; claim it first" },
+        { status: 409 }
+      );
+    }
     const documentTitle = document?.title;
 
     // Enhanced debug logging
@@ -116,9 +166,28 @@ export async function POST(
     console.log("Are they equal?", currentAssigneeStr === userIdStr);
     console.log("Is document unassigned?", !currentAssigneeStr);
 
-    // Permission logic: Allow if unassigned OR current user is the assignee
+    // Reviewers still on the document (any of them may hand it on)
+    const reviewerRowsRaw = await DatabaseService.query(
+      `SELECT assigned_to FROM document_assignments
+       WHERE document_id = ? AND workflow_step_id IS NULL
+         AND status <> 'closed' AND closed_at IS NULL`,
+      [documentId]
+    );
+    const currentReviewers = normalizeRows(reviewerRowsRaw).map((r) =>
+      String(r.assigned_to)
+    );
+
+    // A delegate acts for the assignee they cover for
+    const actingFor = await OutOfOfficeService.delegatorsOf(userIdStr);
+    const isAssignee = (id: string) =>
+      currentAssigneeStr === id || currentReviewers.includes(id);
+    const onBehalfOf = isAssignee(userIdStr)
+      ? null
+      : actingFor.find(isAssignee) ?? null;
+
+    // Permission logic: Allow if unassigned OR current user is an assignee
     const hasPermission =
-      !currentAssigneeStr || currentAssigneeStr === userIdStr;
+      !currentAssigneeStr || isAssignee(userIdStr) || onBehalfOf !== null;
 
     console.log("User has permission to reassign?", hasPermission);
 
@@ -131,9 +200,10 @@ export async function POST(
     }
 
     console.log("✅ Permission granted: User can reassign document");
+    if (onBehalfOf) console.log("🤝 Acting on behalf of:", onBehalfOf);
 
     // Prevent self-assignment
-    if (String(assigned_to) === userIdStr) {
+    if (reviewerIds.includes(userIdStr)) {
       console.log("❌ Cannot assign to self");
       return NextResponse.json(
         { error: "Cannot assign document to yourself" },
@@ -141,111 +211,112 @@ export async function POST(
       );
     }
 
-    // Update document assignment
-    console.log("Updating document assignment...");
-    const updateResult = await DatabaseService.query(
-      "UPDATE documents SET assigned_to_user = ? WHERE id = ?",
-      [assigned_to, documentId]
-    );
-    console.log("Update result:", updateResult);
-
-    // Create assignment record
-    const assignmentId = randomUUID();
-    console.log("Creating assignment record...");
-    await DatabaseService.query(
-      `INSERT INTO document_assignments 
-       (id, document_id, assigned_to, assigned_by, roles, status, notified_at) 
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [
-        assignmentId,
-        documentId,
-        assigned_to,
-        currentUserId,
-        "Reviewer",
-        "assigned",
-        notify ? new Date().toISOString().slice(0, 19).replace("T", " ") : null,
-      ]
-    );
-
-    // Create notification for the assigned user (best-effort)
-    try {
-      console.log("🔔 Creating notification for assigned user...");
-
-      // Get current user's name for the notification message
-      const currentUserResultRaw = await DatabaseService.query(
-        "SELECT name FROM users WHERE id = ?",
-        [currentUserId]
-      );
-      const currentUserRows = normalizeRows(currentUserResultRaw);
-      const currentUserName = (currentUserRows[0]?.name as string) || "A user";
-
-      // Get assigned user's details for verification
-      const assignedUserResultRaw = await DatabaseService.query(
-        "SELECT id, name, email FROM users WHERE id = ?",
-        [assigned_to]
+    // Update document assignment and reviewer records
+    console.log("Updating document reviewers...");
+    const result = await DocumentReviewService.setReviewers({
+      documentId,
+      assignedBy: userIdStr,
+      reviewerIds,
+      completion,
+      requiredApprovals: required_approvals,
+      notify: Boolean(notify),
+      dueAt: due_at ? String(due_at) : null,
+      onBehalfOf,
+    });
+    if (!result.ok) {
+      console.log("❌ Assignment rejected:", result.error);
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
       );
-      const assignedUserRows = normalizeRows(assignedUserResultRaw);
-      const assignedUserRow = assignedUserRows[0] || null;
-
-      let assignedUserName = "the user";
-      let assignedUserId = assigned_to;
-      if (assignedUserRow) {
-        assignedUserName = assignedUserRow.name || assignedUserName;
-        assignedUserId = assignedUserRow.id || assignedUserId;
+    }
+    console.log("Added reviewers:", result.added);
+
+    // Create notification for each added reviewer (best-effort)
+    for (const assigned_to of result.added) {
+      try {
+        console.log("🔔 Creating notification for assigned user...");
+
+        // Get current user's name for the notification message
+        const currentUserResultRaw = await DatabaseService.query(
+          "SELECT name FROM users WHERE id = ?",
+          [currentUserId]
+        );
+        const currentUserRows = normalizeRows(currentUserResultRaw);
+        const currentUserName =
+          (currentUserRows[0]?.name as string) || "A user";
+
+        // Get assigned user's details for verification
+        const assignedUserResultRaw = await DatabaseService.query(
+          "SELECT id, name, email FROM users WHERE id = ?",
+          [assigned_to]
+        );
+        const assignedUserRows = normalizeRows(assignedUserResultRaw);
+        const assignedUserRow = assignedUserRows[0] || null;
+
+        let assignedUserName = "the user";
+        let assignedUserId = assigned_to;
+        if (assignedUserRow) {
+          assignedUserName = assignedUserRow.name || assignedUserName;
+          assignedUserId = assignedUserRow.id || assignedUserId;
+        }
+
+        console.log("🔔 Notification details:", {
+          currentUserId,
+          currentUserName,
+          assignedUserId,
+          assignedUserName,
+          documentTitle,
+        });
+
+        const notificationMessage = `${currentUserName} assigned the document "${documentTitle}" to you`;
+
+        // Create notification for the specific assigned user
+        const notificationId = randomUUID();
+        const notificationSql = `
+          INSERT INTO notifications 
+          (id, user_id, type, message, related_document_id, sender_id, is_read, created_at)
+          VALUES (?, ?, 'document_assigned', ?, ?, ?, 0, NOW())
+        `;
+
+        const notificationParams = [
+          notificationId,
+          assignedUserId,
+          notificationMessage,
+          documentId,
+          currentUserId,
+        ];
+
+        console.log(
+          "🔔 Creating notification with params:",
+          notificationParams
+        );
+
+        await DatabaseService.query(notificationSql, notificationParams);
+
+        console.log(
+          `✅ Notification created for user: ${assignedUserName} (ID: ${assignedUserId})`
+        );
+
+        // Optional verification (debug)
+        const verifyNotificationRaw = await DatabaseService.query(
+          "SELECT id, user_id, message FROM notifications WHERE id = ?",
+          [notificationId]
+        );
+        console.log(
+          "🔔 Notification verification:",
+          normalizeRows(verifyNotificationRaw)
+        );
+      } catch (notifyErr) {
+        // Don't fail the assignment if notification fails
+        console.error("❌ Failed to create notification:", notifyErr);
+        console.error("🔔 Notification error context:", {
+          assigned_to,
+          currentUserId,
+          documentId,
+          documentTitle,
+        });
       }
-
-      console.log("🔔 Notification details:", {
-        currentUserId,
-        currentUserName,
-        assignedUserId,
-        assignedUserName,
-        documentTitle,
-      });
-
-      const notificationMessage = `${currentUserName} assigned the document "${documentTitle}" to you`;
-
-      // Create notification for the specific assigned user
-      const notificationId = randomUUID();
-      const notificationSql = `
-        INSERT INTO notifications 
-        (id, user_id, type, message, related_document_id, sender_id, is_read, created_at)
-        VALUES (?, ?, 'document_assigned', ?, ?, ?, 0, NOW())
-      `;
-
-      const notificationParams = [
-        notificationId,
-        assignedUserId,
-        notificationMessage,
-        documentId,
-        currentUserId,
-      ];
-
-      console.log("🔔 Creating notification with params:", notificationParams);
-
-      await DatabaseService.query(notificationSql, notificationParams);
-
-      console.log(
-        `✅ Notification created for user: ${assignedUserName} (ID: ${assignedUserId})`
-      );
-
-      // Optional verification (debug)
-      const verifyNotificationRaw = await DatabaseService.query(
-        "SELECT id, user_id, message FROM notifications WHERE id = ?",
-        [notificationId]
-      );
-      console.log(
-        "🔔 Notification verification:",
-        normalizeRows(verifyNotificationRaw)
-      );
-    } catch (notifyErr) {
-      // Don't fail the assignment if notification fails
-      console.error("❌ Failed to create notification:", notifyErr);
-      console.error("🔔 Notification error context:", {
-        assigned_to,
-        currentUserId,
-        documentId,
-        documentTitle,
-      });
     }
 
     // Fetch updated document with user names (normalize result)
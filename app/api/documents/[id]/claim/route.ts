@@ -0,0 +1,93 @@
+// app/api/documents/[id]/claim/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentQueueService } from "@/lib/document-queues";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) return null;
+    return {
+      userId: String(userId),
+      isAdmin: String(decoded?.role ?? "").toLowerCase() === "admin",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /api/documents/[id]/claim
+ * Take a document from the caller's role or department queue; they become
+ * its assignee and hold its lock.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await DocumentQueueService.claim(params.id, auth.userId);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log(`📥 Document ${params.id} claimed by ${auth.userId}`);
+    return NextResponse.json({ claimed: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Claim document error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to claim document" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]/claim
+ * Release a claimed document back to its queue. Admins may release anyone's
+ * claim.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await DocumentQueueService.release(
+      params.id,
+      auth.userId,
+      auth.isAdmin
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log(`📤 Document ${params.id} released by ${auth.userId}`);
+    return NextResponse.json({ released: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Release document error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to release document" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+// app/api/documents/[id]/compare/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import { DocumentVersionService } from "@/lib/document-versions";
+import { comparePdfs } from "@/lib/pdf-compare";
+import { getStorage } from "@/lib/storage";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseVersion(value: string | null): number | null | "invalid" {
+  if (value === null || value === "") return null;
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : "invalid";
+}
+
+/**
+ * GET /api/documents/[id]/compare?from=N&to=M
+ * Page-by-page text diff between two versions of a document. `to`
+ * defaults to the latest version and `from` to the one before it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const doc = access.document;
+
+    const searchParams = new URL(request.url).searchParams;
+    const fromParam = parseVersion(searchParams.get("from"));
+    const toParam = parseVersion(searchParams.get("to"));
+    if (fromParam === "invalid" || toParam === "invalid") {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+    }
+
+    const to = await DocumentVersionService.getVersion(doc.id, toParam);
+    if (!to) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+    const fromNumber = fromParam ?? to.version_number - 1;
+    if (fromNumber < 1) {
+      return NextResponse.json(
+        { error: "The document has only one version to compare" },
+        { status: 400 }
+      );
+    }
+    if (fromNumber === to.version_number) {
+      return NextResponse.json(
+        { error: "Choose two different versions" },
+        { status: 400 }
+      );
+    }
+    const from = await DocumentVersionService.getVersion(doc.id, fromNumber);
+    if (!from) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    console.log(
+      `🔍 Comparing document ${doc.id} v${from.version_number} → v${to.version_number}`
+    );
+    const storage = getStorage();
+    const comparison = await comparePdfs(
+      await storage.get(from.file_path),
+      await storage.get(to.file_path)
+    );
+
+    const summarize = (v: typeof from) => ({
+      version_number: v.version_number,
+      uploader_name: v.uploader_name ?? null,
+      change_note: v.change_note,
+      created_at: v.created_at,
+    });
+
+    return NextResponse.json({
+      document_id: doc.id,
+      from: summarize(from),
+      to: summarize(to),
+      ...comparison,
+    });
+  } catch (err: any) {
+    if (err?.code === "ENOENT" || err?.name === "NoSuchKey") {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    console.error("❌ Compare versions error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to compare versions" },
+      { status: 500 }
+    );
+  }
+}
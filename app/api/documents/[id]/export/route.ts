@@ -0,0 +1,80 @@
+// app/api/documents/[id]/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import {
+  DocumentExportService,
+  EXPORT_FORMATS,
+  exportFileName,
+  isExportFormat,
+} from "@/lib/document-export";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/documents/[id]/export?format=pdf
+ * The current version with its annotations (and the caller's watermark,
+ * if a policy applies) flattened into the pages, as an attachment.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const format = new URL(request.url).searchParams.get("format") ?? "pdf";
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const doc = access.document;
+
+    console.log(`📤 Exporting document ${doc.id} for user ${userId}`);
+    const output = await DocumentExportService.exportPdf(doc, userId);
+
+    return new NextResponse(output, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Length": String(output.length),
+        "Cache-Control": "private, no-store",
+        "Content-Disposition": `attachment; filename="${exportFileName(
+          doc.title
+        )}"`,
+      },
+    });
+  } catch (err: any) {
+    if (err?.code === "ENOENT" || err?.name === "NoSuchKey") {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    console.error("❌ Export document error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to export document" },
+      { status: 500 }
+    );
+  }
+}
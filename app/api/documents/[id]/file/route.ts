@@ -0,0 +1,166 @@
+// app/api/documents/[id]/file/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import { DocumentVersionService } from "@/lib/document-versions";
+import { burnWatermark } from "@/lib/pdf-watermark";
+import { getStorage, type ByteRange } from "@/lib/storage";
+import { WatermarkPolicyService } from "@/lib/watermark-policies";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    return (
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a single-range "bytes=" header against a known file size.
+ * Returns null when the header is absent or not something we serve
+ * partially (e.g. multiple ranges), and "invalid" when unsatisfiable.
+ */
+function parseRange(
+  header: string | null,
+  size: number
+): ByteRange | "invalid" | null {
+  if (!header || size <= 0) return null;
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+
+  const [, startStr, endStr] = match;
+  if (!startStr && !endStr) return "invalid";
+
+  let start: number;
+  let end: number;
+  if (!startStr) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - Number(endStr), 0);
+    end = size - 1;
+  } else {
+    start = Number(startStr);
+    end = endStr ? Math.min(Number(endStr), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) return "invalid";
+  return { start, end };
+}
+
+/**
+ * GET /api/documents/[id]/file?version=N&download=1
+ * Streams the document's file to the uploader or an assignee.
+ * Supports Range requests so the viewer can load pages progressively.
+ * When a watermark policy applies to the caller, the file is served whole
+ * with the watermark burned in, whether viewed or downloaded.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const doc = access.document;
+
+    const searchParams = new URL(request.url).searchParams;
+    const versionParam = searchParams.get("version");
+    const requestedVersion = versionParam ? Number(versionParam) : null;
+    if (requestedVersion !== null && !Number.isInteger(requestedVersion)) {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+    }
+
+    const version = await DocumentVersionService.getVersion(
+      doc.id,
+      requestedVersion
+    );
+    if (requestedVersion !== null && !version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    const filePath: string = version?.file_path || doc.file_path;
+    if (!filePath) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const fileName = `${String(doc.title || "document").replace(
+      /[^a-zA-Z0-9._-]+/g,
+      "_"
+    )}.pdf`;
+    const download = Boolean(searchParams.get("download"));
+
+    const watermark = await WatermarkPolicyService.resolveForUser(
+      doc,
+      String(userId)
+    );
+    if (watermark) {
+      const output = await burnWatermark(
+        await getStorage().get(filePath),
+        watermark
+      );
+      return new NextResponse(output, {
+        status: 200,
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Length": String(output.length),
+          "Cache-Control": "private, no-store",
+          "Content-Disposition": `${
+            download ? "attachment" : "inline"
+          }; filename="${fileName}"`,
+        },
+      });
+    }
+
+    const knownSize = Number(version?.file_size ?? doc.file_size ?? 0);
+    const range = parseRange(request.headers.get("range"), knownSize);
+    if (range === "invalid") {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${knownSize}` },
+      });
+    }
+
+    const file = await getStorage().stream(filePath, range ?? undefined);
+
+    const headers: Record<string, string> = {
+      "Content-Type": file.contentType,
+      "Content-Length": String(file.end - file.start + 1),
+      "Accept-Ranges": "bytes",
+      "Cache-Control": "private, no-cache",
+      "Content-Disposition": `${
+        download ? "attachment" : "inline"
+      }; filename="${fileName}"`,
+    };
+    if (range) {
+      headers["Content-Range"] = `bytes ${file.start}-${file.end}/${file.size}`;
+    }
+
+    return new NextResponse(Readable.toWeb(file.body) as ReadableStream, {
+      status: range ? 206 : 200,
+      headers,
+    });
+  } catch (err: any) {
+    if (err?.code === "ENOENT" || err?.name === "NoSuchKey") {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    console.error("❌ Stream document file error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to load file" },
+      { status: 500 }
+    );
+  }
+}
@@ -56,7 +56,8 @@ export async function POST(
         { status: 400 }
       );
 
-    // Atomic lock update
+    // Atomic lock update. A lock that came with claiming the document from
+    // a team queue doesn't go stale; it lasts until the claim is released.
     const sql = `
       UPDATE documents
       SET locked_by = ?, locked_at = NOW()
@@ -64,7 +65,14 @@ export async function POST(
         AND (
           locked_by IS NULL
           OR locked_by = ?
-          OR locked_at < (NOW() - INTERVAL 3 MINUTE)
+          OR (
+            locked_at < (NOW() - INTERVAL 3 MINUTE)
+            AND NOT (
+              locked_by <=> assigned_to_user
+              AND (assigned_to_role IS NOT NULL
+                OR assigned_to_department IS NOT NULL)
+            )
+          )
         )
     `;
 
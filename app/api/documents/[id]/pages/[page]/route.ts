@@ -0,0 +1,104 @@
+// app/api/documents/[id]/pages/[page]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import { DocumentVersionService } from "@/lib/document-versions";
+import { renderPdfPages } from "@/lib/pdf-render";
+import { getStorage } from "@/lib/storage";
+
+const MIN_WIDTH = 200;
+const MAX_WIDTH = 1600;
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/documents/[id]/pages/[page]?version=N&width=800
+ * A PNG of one page of a version, rendered on request. Unlike thumbnails
+ * these are not stored; the compare view uses them for every page.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; page: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const pageNumber = Number(params.page);
+    const width = Number(searchParams.get("width") ?? 800);
+    const versionParam = searchParams.get("version");
+    const requestedVersion = versionParam ? Number(versionParam) : null;
+
+    if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+      return NextResponse.json({ error: "Invalid page" }, { status: 400 });
+    }
+    if (!Number.isInteger(width) || width < MIN_WIDTH || width > MAX_WIDTH) {
+      return NextResponse.json(
+        { error: `width must be ${MIN_WIDTH}-${MAX_WIDTH}` },
+        { status: 400 }
+      );
+    }
+    if (requestedVersion !== null && !Number.isInteger(requestedVersion)) {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+    }
+
+    const version = await DocumentVersionService.getVersion(
+      access.document.id,
+      requestedVersion
+    );
+    if (!version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    const { pages } = await renderPdfPages(
+      await getStorage().get(version.file_path),
+      [{ pageNumber, width }]
+    );
+    if (pages.length === 0) {
+      return NextResponse.json({ error: "Page not found" }, { status: 404 });
+    }
+    const png = pages[0].image;
+
+    return new NextResponse(new Uint8Array(png), {
+      status: 200,
+      headers: {
+        "Content-Type": "image/png",
+        "Content-Length": String(png.length),
+        // A specific revision never changes; "latest" does on every upload
+        "Cache-Control": requestedVersion
+          ? "private, max-age=86400, immutable"
+          : "private, no-cache",
+      },
+    });
+  } catch (err: any) {
+    if (err?.code === "ENOENT" || err?.name === "NoSuchKey") {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    console.error("❌ Document page render error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to render page" },
+      { status: 500 }
+    );
+  }
+}
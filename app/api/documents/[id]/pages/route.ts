@@ -0,0 +1,148 @@
+// app/api/documents/[id]/pages/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import {
+  DocumentPageService,
+  parsePageOperations,
+} from "@/lib/document-pages";
+import { PdfParseError } from "@/lib/pdf-objects";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/documents/[id]/pages
+ * Returns { pages: [{ page_number, width, height, rotate }] } for the
+ * current version.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const pages = await DocumentPageService.listPages(access.document);
+    return NextResponse.json({
+      current_version: Number(access.document.current_version ?? 1),
+      pages,
+    });
+  } catch (err: any) {
+    if (err?.code === "ENOENT" || err?.name === "NoSuchKey") {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    if (err instanceof PdfParseError) {
+      return NextResponse.json({ error: err.message }, { status: 422 });
+    }
+    console.error("❌ List document pages error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to read pages" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/pages
+ * Body: { operations: PageOperation[], change_note?: string }
+ * Applies rotate / delete / reorder / insert / split in order and saves
+ * the result as a new version. Split pages become new documents.
+ * Only the uploader or the current assignee may edit pages. `warning` is
+ * set when the version was saved but annotations couldn't be remapped.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const doc = access.document;
+
+    const canEdit =
+      String(doc.uploaded_by) === userId ||
+      String(doc.assigned_to_user ?? "") === userId;
+    if (!canEdit) {
+      return NextResponse.json(
+        { error: "Only the uploader or the current assignee can edit pages" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parsePageOperations(body?.operations);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const changeNote =
+      typeof body?.change_note === "string" ? body.change_note.trim() : "";
+
+    const result = await DocumentPageService.apply({
+      document: doc,
+      userId,
+      operations: parsed.operations,
+      changeNote: changeNote || null,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log(
+      `📄 Page operations saved as version ${result.version.version_number} of document ${doc.id}` +
+        (result.split_documents.length
+          ? `, split into ${result.split_documents.length} new document(s)`
+          : "")
+    );
+    return NextResponse.json(
+      {
+        version: result.version,
+        page_count: result.page_count,
+        split_documents: result.split_documents,
+        warning: result.warning ?? null,
+      },
+      { status: 201 }
+    );
+  } catch (err: any) {
+    if (err?.code === "ENOENT" || err?.name === "NoSuchKey") {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    console.error("❌ Document page operations error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to edit pages" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { DatabaseService } from "@/lib/database";
 import { AuthService } from "@/lib/auth";
-import { CloudinaryService } from "@/lib/cloudinary";
+import { DocumentAccessService } from "@/lib/document-access";
+import { DocumentVersionService } from "@/lib/document-versions";
+import { DocumentLifecycleService } from "@/lib/document-lifecycle";
+import { DocumentQueueService } from "@/lib/document-queues";
+import { getAvailableActions, normalizeStatus } from "@/lib/document-status";
+import { DocumentTrashService } from "@/lib/document-trash";
+import { DocumentWorkflowService } from "@/lib/document-workflows";
+import { OutOfOfficeService } from "@/lib/out-of-office";
+import { assigneeReviewerIds } from "@/lib/review-quorum";
+import { previousAssignee } from "@/lib/review-outcomes";
+import { isDocumentClassification } from "@/lib/watermark";
+import { WatermarkPolicyService } from "@/lib/watermark-policies";
 
 export async function GET(
   request: NextRequest,
@@ -32,6 +43,21 @@ export async function GET(
     }
     console.log("✅ Authenticated user:", userId);
 
+    const isAdmin = String(decoded?.role ?? "").toLowerCase() === "admin";
+    // Quarantined documents stay visible, without their file, to the
+    // uploader and admins (checked once the row is loaded)
+    const access = await DocumentAccessService.checkAccess(
+      params.id,
+      String(userId)
+    );
+    if (!access.allowed && access.reason === "not_found") {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    if (!access.allowed && access.reason === "forbidden") {
+      console.log("❌ No access to document:", params.id);
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     // 2) Query document
     console.log("Fetching document:", params.id);
 
@@ -42,6 +68,7 @@ export async function GET(
     u1.name as uploader_name,
     u2.name as assigned_user_name,
     dept.name as assigned_department_name,
+    qr.name as assigned_to_role_name,
     d.locked_by,
     d.locked_at,
     u3.name as locked_by_name,
@@ -50,8 +77,9 @@ export async function GET(
   LEFT JOIN users u1 ON d.uploaded_by = u1.id
   LEFT JOIN users u2 ON d.assigned_to_user = u2.id
   LEFT JOIN departments dept ON d.assigned_to_department = dept.id
+  LEFT JOIN roles qr ON d.assigned_to_role = qr.id
   LEFT JOIN users u3 ON d.locked_by = u3.id
-  WHERE d.id = ?
+  WHERE d.id = ? AND d.deleted_at IS NULL
   LIMIT 1
 `;
 
@@ -72,48 +100,137 @@ export async function GET(
     }
 
     const docRow = rows[0];
+    if (
+      !access.allowed &&
+      !isAdmin &&
+      String(docRow.uploaded_by) !== String(userId)
+    ) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     console.log("Found document:", docRow.title ?? docRow.id);
 
-    const filePath = docRow.file_path || "";
-
-    let fileUrl = filePath;
-    if (filePath.includes("cloudinary.com")) {
-      const publicIdMatch = filePath.match(/\/(documents\/[^?]+)/);
-      if (publicIdMatch) {
-        let publicId = publicIdMatch[1];
-        publicId = publicId.split("?")[0];
-        publicId = publicId.replace(/\.pdf\.pdf$/, ".pdf");
-        const baseUrl = `https://res.cloudinary.com/${process.env.CLOUDINARY_CLOUD_NAME}/raw/upload`;
-        fileUrl = `${baseUrl}/${publicId}`;
-        console.log("🔗 Generated PDF URL:", fileUrl);
-      } else {
-        fileUrl = filePath
-          .replace("/image/upload/", "/raw/upload/")
-          .replace(/\.pdf\.pdf/, ".pdf")
-          .split("?")[0];
-        console.log("⚠️ Using cleaned fallback URL:", fileUrl);
-      }
+    // Serve the latest version unless ?version=N asks for an older revision
+    const versionParam = new URL(request.url).searchParams.get("version");
+    const requestedVersion = versionParam ? Number(versionParam) : null;
+    if (requestedVersion !== null && !Number.isInteger(requestedVersion)) {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+    }
+
+    const version = await DocumentVersionService.getVersion(
+      docRow.id,
+      requestedVersion
+    );
+    if (requestedVersion !== null && !version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
     }
 
+    const filePath = version?.file_path || docRow.file_path || "";
+
+    // Files are only served through the access-checked file route, and
+    // not at all while quarantined
+    const quarantined = docRow.status === "quarantined";
+    const fileUrl = quarantined
+      ? ""
+      : version
+      ? `/api/documents/${docRow.id}/file?version=${version.version_number}`
+      : `/api/documents/${docRow.id}/file`;
+
+    const [lastTransition] =
+      await DocumentLifecycleService.listTransitions(docRow.id);
+    const watermark = await WatermarkPolicyService.resolveForUser(
+      docRow,
+      String(userId)
+    );
+    // Approving and rejecting happen on the workflow's steps instead
+    const onWorkflow = !!(await DocumentWorkflowService.activeWorkflowName(
+      docRow.id
+    ));
+    // Reviewers outside a workflow, who decide in parallel
+    const reviewerRows: any = await DatabaseService.query(
+      `SELECT assigned_to, assigned_by, status, workflow_step_id, closed_at
+       FROM document_assignments
+       WHERE document_id = ? AND workflow_step_id IS NULL
+         AND closed_at IS NULL`,
+      [docRow.id]
+    );
+    const reviewers = Array.isArray(reviewerRows) ? reviewerRows : [];
+    const reviewerIds = assigneeReviewerIds(reviewers);
+    // Absent users whose assignments this user covers for
+    const actingFor = await OutOfOfficeService.delegatorsOf(String(userId));
+    // Role and department documents wait in a team queue until claimed
+    const queue = await DocumentQueueService.claimState(
+      docRow,
+      String(userId),
+      isAdmin
+    );
+
     const document = {
       id: docRow.id,
       title: docRow.title,
       file_path: filePath,
       file_url: fileUrl,
-      file_size:
-        typeof docRow.file_size === "number"
-          ? docRow.file_size
-          : Number(docRow.file_size ?? 0),
+      file_size: version
+        ? version.file_size
+        : typeof docRow.file_size === "number"
+        ? docRow.file_size
+        : Number(docRow.file_size ?? 0),
+      current_version: Number(docRow.current_version ?? 1),
+      version_number: version?.version_number ?? 1,
+      version_uploaded_by: version?.uploaded_by ?? docRow.uploaded_by,
+      version_uploader_name: version?.uploader_name ?? null,
+      version_created_at: version?.created_at ?? docRow.created_at,
       uploaded_by: docRow.uploaded_by,
       uploader_name: docRow.uploader_name ?? null,
-      status: docRow.status ?? "active",
+      status: normalizeStatus(docRow.status),
+      available_actions: getAvailableActions(
+        {
+          ...docRow,
+          reviewer_ids: reviewerIds,
+          previous_assignee: previousAssignee(
+            reviewers,
+            [String(userId), ...actingFor],
+            docRow.uploaded_by
+          ),
+        },
+        { id: userId, isAdmin, actingFor }
+      ).filter((a) => !onWorkflow || a.action === "withdraw"),
+      can_delete: isAdmin || String(docRow.uploaded_by) === String(userId),
+      classification: docRow.classification ?? null,
+      can_classify: isAdmin || String(docRow.uploaded_by) === String(userId),
+      watermark,
+      scan: {
+        status: docRow.scan_status ?? null,
+        result: docRow.scan_result ?? null,
+        scanned_at: docRow.scanned_at ?? null,
+      },
+      can_review_quarantine: quarantined && isAdmin,
+      last_transition: lastTransition
+        ? {
+            action: lastTransition.action,
+            to_status: lastTransition.to_status,
+            actor_name: lastTransition.actor_name ?? null,
+            on_behalf_of_name: lastTransition.on_behalf_of_name ?? null,
+            reason: lastTransition.reason ?? null,
+            created_at: lastTransition.created_at,
+          }
+        : null,
       created_at: docRow.created_at,
       updated_at: docRow.updated_at,
       assigned_to_user: docRow.assigned_to_user ?? null,
       assigned_to_department: docRow.assigned_to_department ?? null,
       assigned_user_name: docRow.assigned_user_name ?? null,
       assigned_department_name: docRow.assigned_department_name ?? null,
+      assigned_to_role: docRow.assigned_to_role ?? null,
+      queue: queue.queue,
+      can_claim: queue.can_claim && !onWorkflow,
+      can_release: queue.can_release,
+      acting_for: actingFor,
+      review_completion: docRow.review_completion ?? null,
+      review_required_approvals:
+        docRow.review_required_approvals == null
+          ? null
+          : Number(docRow.review_required_approvals),
       locked_by: docRow.locked_by ?? null,
       locked_by_name: docRow.locked_by_name ?? null,
       locked_by_email: docRow.locked_by_email ?? null,
@@ -126,3 +243,121 @@ export async function GET(
     return NextResponse.json({ error: error?.message || String(error) }, { status: 500 });
   }
 }
+
+/**
+ * PATCH /api/documents/[id]
+ * Body: { classification } - public, internal, confidential, restricted or
+ * null. The uploader or an admin only; the classification picks the
+ * watermark policy.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const token = request.cookies.get("auth-token")?.value ?? null;
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+    const isAdmin = String(decoded?.role ?? "").toLowerCase() === "admin";
+
+    const body = await request.json().catch(() => null);
+    if (!body || !("classification" in body)) {
+      return NextResponse.json(
+        { error: "Nothing to update" },
+        { status: 400 }
+      );
+    }
+    const classification = body.classification || null;
+    if (classification !== null && !isDocumentClassification(classification)) {
+      return NextResponse.json(
+        { error: "Unknown classification" },
+        { status: 400 }
+      );
+    }
+
+    const rows: any = await DatabaseService.query(
+      `SELECT uploaded_by FROM documents WHERE id = ? AND deleted_at IS NULL`,
+      [params.id]
+    );
+    const doc = (Array.isArray(rows?.[0]) ? rows[0] : rows)?.[0];
+    if (!doc) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    if (!isAdmin && String(doc.uploaded_by) !== String(userId)) {
+      return NextResponse.json(
+        { error: "Only the uploader or an admin can classify a document" },
+        { status: 403 }
+      );
+    }
+
+    await DatabaseService.query(
+      `UPDATE documents SET classification = ?, updated_at = NOW() WHERE id = ?`,
+      [classification, params.id]
+    );
+
+    console.log(`🏷️ Document ${params.id} classified as`, classification);
+    return NextResponse.json({ classification }, { status: 200 });
+  } catch (error: any) {
+    console.error("Update document error:", error);
+    return NextResponse.json(
+      { error: error?.message || "Failed to update document" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]
+ * Moves the document to the trash. It can be restored or purged from
+ * /api/documents/trash/[id].
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const token = request.cookies.get("auth-token")?.value ?? null;
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+    const isAdmin = String(decoded?.role ?? "").toLowerCase() === "admin";
+
+    const result = await DocumentTrashService.softDelete(params.id, {
+      id: userId,
+      isAdmin,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("🗑️ Document moved to trash:", params.id);
+    return NextResponse.json(
+      { message: "Document moved to trash" },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error("Delete document error:", error);
+    return NextResponse.json(
+      { error: error?.message || "Failed to delete document" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+// app/api/documents/[id]/scan/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DatabaseService } from "@/lib/database";
+import { DocumentScanService } from "@/lib/document-scan";
+import { DocumentUploadService } from "@/lib/document-upload";
+import { DocumentVersionService } from "@/lib/document-versions";
+import { getStorage } from "@/lib/storage";
+
+/** Normalize DB return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) return null;
+    return {
+      userId: String(userId),
+      isAdmin: String(decoded?.role ?? "").toLowerCase() === "admin",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /api/documents/[id]/scan
+ * Body: { action: "rescan" | "release" }. Admins only, for quarantined
+ * documents. "rescan" scans the file again and releases the document if
+ * it comes back clean; "release" lets it out regardless.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!auth.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can review quarantined documents" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const action = body?.action;
+    if (action !== "rescan" && action !== "release") {
+      return NextResponse.json(
+        { error: 'action must be "rescan" or "release"' },
+        { status: 400 }
+      );
+    }
+
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT id, status FROM documents
+         WHERE id = ? AND deleted_at IS NULL
+         LIMIT 1`,
+        [params.id]
+      )
+    );
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    if (rows[0].status !== "quarantined") {
+      return NextResponse.json(
+        { error: "Document is not quarantined" },
+        { status: 409 }
+      );
+    }
+
+    if (action === "rescan") {
+      const rescan = await DocumentScanService.rescan(params.id, auth.userId);
+      if (!rescan) {
+        return NextResponse.json({ error: "File not found" }, { status: 404 });
+      }
+      if (rescan.outcome.status !== "clean") {
+        console.log(`🛡️ ${params.id} is still quarantined after rescan`);
+        return NextResponse.json(
+          { released: false, scan: rescan.outcome },
+          { status: 200 }
+        );
+      }
+
+      const result = await DocumentUploadService.releaseQuarantined(
+        params.id,
+        auth.userId,
+        rescan.buffer,
+        "Clean on rescan"
+      );
+      if (!result.ok) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+      console.log(`✅ ${params.id} released after a clean rescan`);
+      return NextResponse.json(
+        { released: true, scan: rescan.outcome },
+        { status: 200 }
+      );
+    }
+
+    const version = await DocumentVersionService.getVersion(params.id);
+    if (!version) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    const result = await DocumentUploadService.releaseQuarantined(
+      params.id,
+      auth.userId,
+      await getStorage().get(version.file_path),
+      "Released without a clean scan"
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    console.log(`⚠️ ${params.id} released from quarantine by ${auth.userId}`);
+    return NextResponse.json({ released: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Quarantine review error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to review document" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+// app/api/documents/[id]/share-links/[linkId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import { ShareLinkService } from "@/lib/share-links";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/documents/[id]/share-links/[linkId]
+ * The link with its audit trail (opens, unlocks, downloads, annotations).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; linkId: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const link = (await ShareLinkService.list(access.document.id)).find(
+      (l) => l.id === params.linkId
+    );
+    if (!link) {
+      return NextResponse.json(
+        { error: "Share link not found" },
+        { status: 404 }
+      );
+    }
+
+    const events = await ShareLinkService.listEvents(link.id);
+    return NextResponse.json({ link, events }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Fetch share link error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch share link" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]/share-links/[linkId]
+ * Revokes the link at once; the record and its audit trail are kept.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; linkId: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const result = await ShareLinkService.revoke(
+      access.document.id,
+      params.linkId,
+      userId,
+      String(access.document.uploaded_by)
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("🔒 Share link revoked:", params.linkId);
+    return NextResponse.json({ link: result.link }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Revoke share link error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to revoke share link" },
+      { status: 500 }
+    );
+  }
+}
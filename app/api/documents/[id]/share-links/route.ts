@@ -0,0 +1,102 @@
+// app/api/documents/[id]/share-links/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import { ShareLinkService } from "@/lib/share-links";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/documents/[id]/share-links
+ * Every link created for the document, including expired and revoked ones.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const links = await ShareLinkService.list(access.document.id);
+    return NextResponse.json({ links }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Fetch share links error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch share links" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/share-links
+ * Creates a link for someone without an account.
+ * Body: { recipient, scopes?: ("view"|"annotate"|"download")[],
+ *         expiresInHours?, password? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const result = await ShareLinkService.create(access.document.id, userId, {
+      recipient: body?.recipient,
+      scopes: Array.isArray(body?.scopes) ? body.scopes.map(String) : undefined,
+      expiresInHours:
+        body?.expiresInHours != null ? Number(body.expiresInHours) : undefined,
+      password: body?.password ? String(body.password) : undefined,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log(
+      `🔗 Share link ${result.link.id} created for document`,
+      access.document.id
+    );
+    return NextResponse.json({ link: result.link }, { status: 201 });
+  } catch (err: any) {
+    console.error("❌ Create share link error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to create share link" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+// app/api/documents/[id]/thumbnail/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import { DocumentVersionService } from "@/lib/document-versions";
+import {
+  DocumentThumbnailService,
+  THUMBNAIL_VARIANTS,
+  type ThumbnailVariant,
+} from "@/lib/document-thumbnails";
+import { getStorage } from "@/lib/storage";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    return (
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/documents/[id]/thumbnail?page=1&size=thumb|preview&version=N
+ * Returns a PNG of a page to the uploader or an assignee. Revisions
+ * without thumbnails yet are rendered on first request.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const pageNumber = Number(searchParams.get("page") ?? 1);
+    const variant = (searchParams.get("size") ?? "thumb") as ThumbnailVariant;
+    const versionParam = searchParams.get("version");
+    const requestedVersion = versionParam ? Number(versionParam) : null;
+
+    if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+      return NextResponse.json({ error: "Invalid page" }, { status: 400 });
+    }
+    if (!THUMBNAIL_VARIANTS.includes(variant)) {
+      return NextResponse.json({ error: "Invalid size" }, { status: 400 });
+    }
+    if (requestedVersion !== null && !Number.isInteger(requestedVersion)) {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+    }
+
+    const version = await DocumentVersionService.getVersion(
+      access.document.id,
+      requestedVersion
+    );
+    if (!version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    const thumbnail = await DocumentThumbnailService.ensureThumbnail(
+      version,
+      pageNumber,
+      variant
+    );
+    if (!thumbnail) {
+      return NextResponse.json(
+        { error: "No thumbnail for this page" },
+        { status: 404 }
+      );
+    }
+
+    const png = await getStorage().get(thumbnail.file_path);
+
+    return new NextResponse(new Uint8Array(png), {
+      status: 200,
+      headers: {
+        "Content-Type": "image/png",
+        "Content-Length": String(png.length),
+        // A specific revision never changes; "latest" does on every upload
+        "Cache-Control": requestedVersion
+          ? "private, max-age=86400, immutable"
+          : "private, no-cache",
+      },
+    });
+  } catch (err: any) {
+    if (err?.code === "ENOENT" || err?.name === "NoSuchKey") {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    console.error("❌ Document thumbnail error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to load thumbnail" },
+      { status: 500 }
+    );
+  }
+}
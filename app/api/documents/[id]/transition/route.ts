@@ -0,0 +1,113 @@
+// app/api/documents/[id]/transition/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DatabaseService } from "@/lib/database";
+import { DocumentLifecycleService } from "@/lib/document-lifecycle";
+import { randomUUID } from "crypto";
+
+/**
+ * POST /api/documents/[id]/transition
+ * Body: { action: "submit" | "withdraw" | "approve" | "reject" |
+ *           "request_changes" | "send_back" | "archive" | "unarchive",
+ *         reason?: string }
+ * Returns { transition, review } with the recorded status change. A
+ * reviewer's decision that doesn't reach the review's quorum yet returns
+ * a null transition and the tally in review. Rejecting and requesting
+ * changes need a reason; send_back returns the document to the reviewer
+ * who handed it on, who is notified.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const token = request.cookies.get("auth-token")?.value ?? null;
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+    const isAdmin = String(decoded?.role ?? "").toLowerCase() === "admin";
+
+    const body = await request.json().catch(() => ({}));
+    const action = typeof body?.action === "string" ? body.action : "";
+    if (!action) {
+      return NextResponse.json(
+        { error: "action is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await DocumentLifecycleService.transition({
+      documentId: params.id,
+      action,
+      userId,
+      isAdmin,
+      reason: typeof body?.reason === "string" ? body.reason : null,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    if (result.transition) {
+      console.log(
+        `✅ Document ${params.id}: ${result.transition.from_status} → ${result.transition.to_status} by ${userId}`
+      );
+    } else {
+      console.log(
+        `🗳️ Document ${params.id}: ${action} by ${userId} recorded, ${result.review?.approved ?? 0}/${result.review?.needed ?? 0} approvals`
+      );
+    }
+
+    // Notification is best-effort; the document was already sent back
+    if (result.sentBackTo) {
+      try {
+        const rows: any = await DatabaseService.query(
+          `SELECT d.title, u.name AS actor_name
+           FROM documents d
+           LEFT JOIN users u ON u.id = ?
+           WHERE d.id = ?`,
+          [String(userId), params.id]
+        );
+        const row = Array.isArray(rows) ? rows[0] : null;
+        const reason = result.transition?.reason;
+        await DatabaseService.query(
+          `INSERT INTO notifications
+           (id, user_id, type, message, related_document_id, sender_id, is_read, created_at)
+           VALUES (?, ?, 'document_assigned', ?, ?, ?, 0, NOW())`,
+          [
+            randomUUID(),
+            result.sentBackTo,
+            `${row?.actor_name ?? "A reviewer"} sent "${
+              row?.title ?? "a document"
+            }" back to you${reason ? `: ${reason}` : ""}`,
+            params.id,
+            String(userId),
+          ]
+        );
+      } catch (notifyErr) {
+        console.error("❌ Failed to create notification:", notifyErr);
+      }
+    }
+
+    return NextResponse.json(
+      { transition: result.transition, review: result.review },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("❌ Document transition error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to change document status" },
+      { status: 500 }
+    );
+  }
+}
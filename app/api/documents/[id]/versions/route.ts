@@ -0,0 +1,237 @@
+// app/api/documents/[id]/versions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { DatabaseService } from "@/lib/database";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import { DocumentVersionService } from "@/lib/document-versions";
+import { DocumentSearchService } from "@/lib/document-search";
+import { DocumentContentService } from "@/lib/document-content";
+import { DocumentThumbnailService } from "@/lib/document-thumbnails";
+import { DocumentScanService } from "@/lib/document-scan";
+import { getLifecycleActors } from "@/lib/document-status";
+import { OutOfOfficeService } from "@/lib/out-of-office";
+import { assigneeReviewerIds } from "@/lib/review-quorum";
+
+/** Normalize DB return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    return (
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/documents/[id]/versions
+ * Returns { versions: DocumentVersion[] } (newest first) to anyone who
+ * may open the document
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const versions = await DocumentVersionService.listVersions(params.id);
+
+    return NextResponse.json(
+      {
+        versions,
+        current_version: Number(access.document.current_version ?? 1),
+      },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("❌ Fetch document versions error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch versions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/versions
+ * FormData: file (PDF), change_note (optional)
+ * Only the uploader or an assignee may add a revision: any reviewer still
+ * to decide, or the out-of-office delegate of one. The file is scanned
+ * for malware first and turned away unless it comes back clean.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  let storageKey: string | null = null;
+
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const docRows = normalizeRows(
+      await DatabaseService.query(
+        "SELECT id, title, status, uploaded_by, assigned_to_user FROM documents WHERE id = ? AND deleted_at IS NULL LIMIT 1",
+        [params.id]
+      )
+    );
+    if (docRows.length === 0) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const doc = docRows[0];
+    // The same reviewers and delegates who may decide on the document
+    const reviewerRows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT assigned_to, status, workflow_step_id, closed_at
+         FROM document_assignments
+         WHERE document_id = ? AND workflow_step_id IS NULL
+           AND closed_at IS NULL`,
+        [doc.id]
+      )
+    );
+    const actingFor = await OutOfOfficeService.delegatorsOf(String(userId));
+    const actors = getLifecycleActors(
+      { ...doc, reviewer_ids: assigneeReviewerIds(reviewerRows) },
+      { id: String(userId), actingFor }
+    );
+    if (!actors.includes("uploader") && !actors.includes("assignee")) {
+      return NextResponse.json(
+        {
+          error:
+            "Only the uploader or an assignee can upload a new version",
+        },
+        { status: 403 }
+      );
+    }
+    if (doc.status === "quarantined") {
+      return NextResponse.json(
+        { error: "Document is quarantined" },
+        { status: 409 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const changeNote = ((formData.get("change_note") as string) ?? "").trim();
+
+    if (!file) {
+      return NextResponse.json({ error: "File is required" }, { status: 400 });
+    }
+
+    if (file.type !== "application/pdf") {
+      return NextResponse.json(
+        { error: "Only PDF files are allowed" },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    const scan = await DocumentScanService.scan(buffer, file.name);
+    if (scan.status !== "clean") {
+      const current = await DocumentVersionService.getVersion(params.id);
+      await DocumentScanService.record({
+        documentId: params.id,
+        title: doc.title,
+        userId,
+        outcome: scan,
+        versionNumber: (current?.version_number ?? 0) + 1,
+      });
+      const rejection = DocumentScanService.rejection(scan, false);
+      return NextResponse.json(
+        { error: rejection.error },
+        { status: rejection.status }
+      );
+    }
+
+    // Identical bytes already stored for any version are shared, not copied
+    const stored = await DocumentContentService.store(
+      buffer,
+      file.name,
+      file.type
+    );
+    storageKey = stored.key;
+
+    const version = await DocumentVersionService.createVersion({
+      documentId: params.id,
+      filePath: storageKey,
+      fileSize: buffer.length,
+      mimeType: file.type,
+      contentHash: stored.contentHash,
+      uploadedBy: userId,
+      changeNote: changeNote || null,
+    });
+
+    console.log(
+      `✅ Version ${version.version_number} created for document:`,
+      params.id
+    );
+
+    await DocumentScanService.record({
+      documentId: params.id,
+      title: doc.title,
+      userId,
+      outcome: scan,
+      versionNumber: version.version_number,
+    });
+
+    try {
+      await DocumentSearchService.indexVersion(
+        params.id,
+        version.version_number,
+        buffer
+      );
+    } catch (indexErr) {
+      console.error("⚠️ Text extraction failed:", indexErr);
+    }
+
+    try {
+      await DocumentThumbnailService.generateForVersion(
+        params.id,
+        version.version_number,
+        buffer
+      );
+    } catch (thumbErr) {
+      console.error("⚠️ Thumbnail rendering failed:", thumbErr);
+    }
+
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (err: any) {
+    console.error("❌ Upload document version error:", err);
+    if (storageKey) {
+      try {
+        await DocumentContentService.release(storageKey);
+      } catch (e) {
+        console.error("Failed to remove file after version error:", e);
+      }
+    }
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to upload version" },
+      { status: 500 }
+    );
+  }
+}
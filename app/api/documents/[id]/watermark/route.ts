@@ -0,0 +1,96 @@
+// app/api/documents/[id]/watermark/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import { burnWatermark } from "@/lib/pdf-watermark";
+import { WatermarkPolicyService } from "@/lib/watermark-policies";
+
+/** Largest export accepted for watermarking (WATERMARK_MAX_BYTES) */
+const MAX_BYTES = parseInt(
+  process.env.WATERMARK_MAX_BYTES || String(100 * 1024 * 1024)
+);
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /api/documents/[id]/watermark
+ * Body: a PDF exported from the viewer. Returns it with the caller's
+ * watermark burned in, or unchanged when no policy applies.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(params.id, userId);
+    if (!access.allowed) {
+      return access.reason === "not_found"
+        ? NextResponse.json({ error: "Document not found" }, { status: 404 })
+        : NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const declared = Number(request.headers.get("content-length") ?? 0);
+    if (declared > MAX_BYTES) {
+      return NextResponse.json(
+        { error: "Export is too large to watermark" },
+        { status: 413 }
+      );
+    }
+    const pdf = Buffer.from(await request.arrayBuffer());
+    if (pdf.length > MAX_BYTES) {
+      return NextResponse.json(
+        { error: "Export is too large to watermark" },
+        { status: 413 }
+      );
+    }
+    if (pdf.subarray(0, 5).toString("latin1") !== "%PDF-") {
+      return NextResponse.json(
+        { error: "Body must be a PDF" },
+        { status: 400 }
+      );
+    }
+
+    const watermark = await WatermarkPolicyService.resolveForUser(
+      access.document,
+      userId
+    );
+    const output = watermark ? await burnWatermark(pdf, watermark) : pdf;
+    if (watermark) {
+      console.log(
+        `💧 Watermarked export of document ${access.document.id} for`,
+        userId
+      );
+    }
+
+    return new NextResponse(output, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Length": String(output.length),
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err: any) {
+    console.error("❌ Watermark export error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to watermark export" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+// app/api/documents/[id]/workflow/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import { normalizeStatus } from "@/lib/document-status";
+import { DocumentWorkflowService } from "@/lib/document-workflows";
+import { WorkflowTemplateService } from "@/lib/workflow-templates";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) return null;
+    return {
+      userId: String(userId),
+      isAdmin: String(decoded?.role ?? "").toLowerCase() === "admin",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/documents/[id]/workflow
+ * The document's latest workflow run (or null), plus the templates it
+ * could be started on when the caller may start one.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const access = await DocumentAccessService.checkAccess(
+      params.id,
+      auth.userId
+    );
+    if (!access.allowed) {
+      if (access.reason === "not_found") {
+        return NextResponse.json(
+          { error: "Document not found" },
+          { status: 404 }
+        );
+      }
+      if (!auth.isAdmin) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    const workflow = await DocumentWorkflowService.get(params.id);
+    const doc = access.allowed ? access.document : null;
+    const status = doc ? normalizeStatus(doc.status) : null;
+    const canStart =
+      !!doc &&
+      (auth.isAdmin || String(doc.uploaded_by) === auth.userId) &&
+      (status === "draft" || status === "rejected") &&
+      workflow?.status !== "active";
+
+    return NextResponse.json(
+      {
+        workflow,
+        can_start: canStart,
+        templates: canStart
+          ? await WorkflowTemplateService.listForDocument(doc)
+          : [],
+      },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("❌ Fetch document workflow error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch workflow" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/workflow
+ * Body: { action: "start", templateId } to put the document on a
+ * workflow, or { action: "approve" | "reject", comment? } to decide on
+ * the current step. Rejecting needs a comment. Returns { workflow }.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const action = body?.action;
+    let result;
+    if (action === "start") {
+      if (typeof body?.templateId !== "string" || !body.templateId) {
+        return NextResponse.json(
+          { error: "templateId is required" },
+          { status: 400 }
+        );
+      }
+      result = await DocumentWorkflowService.start({
+        documentId: params.id,
+        templateId: body.templateId,
+        userId: auth.userId,
+        isAdmin: auth.isAdmin,
+      });
+    } else if (action === "approve" || action === "reject") {
+      result = await DocumentWorkflowService.decide({
+        documentId: params.id,
+        userId: auth.userId,
+        decision: action,
+        comment: typeof body?.comment === "string" ? body.comment : null,
+      });
+    } else {
+      return NextResponse.json(
+        { error: 'action must be "start", "approve" or "reject"' },
+        { status: 400 }
+      );
+    }
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log(
+      `🔀 Document ${params.id} workflow ${action} by ${auth.userId}: ${result.workflow.status}`
+    );
+    return NextResponse.json({ workflow: result.workflow }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Document workflow error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to update workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+// app/api/documents/compare/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { comparePdfs } from "@/lib/pdf-compare";
+
+/** Largest file accepted on either side (COMPARE_MAX_BYTES) */
+const MAX_BYTES = parseInt(
+  process.env.COMPARE_MAX_BYTES || String(50 * 1024 * 1024)
+);
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /api/documents/compare
+ * Form data: before, after (PDF files). Page-by-page text diff between
+ * two files that need not be stored, e.g. a revision sent back by email.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const files: Buffer[] = [];
+    for (const field of ["before", "after"]) {
+      const file = formData.get(field);
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { error: "Both before and after files are required" },
+          { status: 400 }
+        );
+      }
+      if (file.size > MAX_BYTES) {
+        return NextResponse.json(
+          { error: `${file.name} is too large to compare` },
+          { status: 413 }
+        );
+      }
+      const data = Buffer.from(await file.arrayBuffer());
+      if (data.subarray(0, 5).toString("latin1") !== "%PDF-") {
+        return NextResponse.json(
+          { error: `${file.name} is not a PDF` },
+          { status: 400 }
+        );
+      }
+      files.push(data);
+    }
+
+    console.log(`🔍 Comparing two uploaded files for user ${userId}`);
+    const comparison = await comparePdfs(files[0], files[1]);
+    return NextResponse.json(comparison);
+  } catch (err: any) {
+    console.error("❌ Compare files error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to compare files" },
+      { status: 500 }
+    );
+  }
+}
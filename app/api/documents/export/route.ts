@@ -0,0 +1,132 @@
+// app/api/documents/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import JSZip from "jszip";
+import { AuthService } from "@/lib/auth";
+import { DocumentAccessService } from "@/lib/document-access";
+import {
+  DocumentExportService,
+  EXPORT_FORMATS,
+  exportFileName,
+  isExportFormat,
+} from "@/lib/document-export";
+
+/** Most documents one bulk export may contain (EXPORT_BULK_LIMIT) */
+const BULK_LIMIT = Math.max(
+  1,
+  parseInt(process.env.EXPORT_BULK_LIMIT || "25")
+);
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /api/documents/export
+ * Body: { documentIds: string[], format?: "pdf" }
+ * A zip of the flattened exports, one per document, in the given order.
+ * Fails as a whole if the caller can't read one of the documents.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const format = body?.format ?? "pdf";
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const documentIds: string[] = Array.isArray(body?.documentIds)
+      ? Array.from(new Set(body.documentIds.map(String)))
+      : [];
+    if (documentIds.length === 0) {
+      return NextResponse.json(
+        { error: "documentIds must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+    if (documentIds.length > BULK_LIMIT) {
+      return NextResponse.json(
+        { error: `At most ${BULK_LIMIT} documents can be exported at once` },
+        { status: 400 }
+      );
+    }
+
+    const documents: any[] = [];
+    for (const documentId of documentIds) {
+      const access = await DocumentAccessService.checkAccess(
+        documentId,
+        userId
+      );
+      if (!access.allowed) {
+        return access.reason === "not_found"
+          ? NextResponse.json(
+              { error: `Document not found: ${documentId}` },
+              { status: 404 }
+            )
+          : NextResponse.json(
+              { error: `Forbidden: ${documentId}` },
+              { status: 403 }
+            );
+      }
+      documents.push(access.document);
+    }
+
+    console.log(
+      `📤 Exporting ${documents.length} documents for user ${userId}`
+    );
+
+    // One at a time: each export renders every page of its document
+    const zip = new JSZip();
+    const used = new Set<string>();
+    for (const doc of documents) {
+      const fileName = exportFileName(doc.title);
+      let name = fileName;
+      for (let n = 2; used.has(name.toLowerCase()); n++) {
+        name = fileName.replace(/\.pdf$/, `_(${n}).pdf`);
+      }
+      used.add(name.toLowerCase());
+      zip.file(name, await DocumentExportService.exportPdf(doc, userId));
+    }
+
+    const output = await zip.generateAsync({
+      type: "nodebuffer",
+      compression: "DEFLATE",
+    });
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(output, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Length": String(output.length),
+        "Cache-Control": "private, no-store",
+        "Content-Disposition": `attachment; filename="documents-${stamp}.zip"`,
+      },
+    });
+  } catch (err: any) {
+    if (err?.code === "ENOENT" || err?.name === "NoSuchKey") {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    console.error("❌ Bulk export error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to export documents" },
+      { status: 500 }
+    );
+  }
+}
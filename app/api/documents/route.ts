@@ -2,7 +2,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { DatabaseService } from "@/lib/database";
 import { AuthService } from "@/lib/auth";
-
+import { getAvailableActions, normalizeStatus } from "@/lib/document-status";
+import { DocumentListService } from "@/lib/document-list";
+import { parseDocumentListQuery } from "@/lib/document-list-query";
+import { assigneeReviewerIds } from "@/lib/review-quorum";
+import { previousAssignee } from "@/lib/review-outcomes";
+import { earliestDue } from "@/lib/assignment-due";
+import { OutOfOfficeService } from "@/lib/out-of-office";
+
+/**
+ * GET /api/documents
+ * One page of the documents the user can see, with the total count.
+ * Query: page, pageSize, sort, order, status (comma-separated), uploader,
+ * assignee, from, to (YYYY-MM-DD), q (title text), include=filters (adds
+ * the uploaders and assignees to offer as filter choices).
+ */
 export async function GET(request: NextRequest) {
   try {
     console.log("=== FETCH DOCUMENTS STARTED ===");
@@ -30,59 +44,36 @@ export async function GET(request: NextRequest) {
     }
 
     console.log("✅ Fetching documents for user:", userId);
+    const isAdmin = String(decoded?.role ?? "").toLowerCase() === "admin";
 
-    // Simplified documents query:
-    // - include documents uploaded by user
-    // - OR documents assigned to user via document_assignments
-    const sql = `
-      SELECT DISTINCT
-        d.id,
-        d.title,
-        d.file_path,
-        d.file_size,
-        d.uploaded_by,
-        d.assigned_to_user,
-        d.status,
-        d.created_at,
-        d.updated_at,
-        u.name AS uploader_name,
-        u_assigned.name AS assigned_user_name
-      FROM documents d
-      LEFT JOIN users u ON u.id = d.uploaded_by
-      LEFT JOIN users u_assigned ON u_assigned.id = d.assigned_to_user
-      WHERE
-        d.uploaded_by = ?
-        OR d.assigned_to_user = ?
-        OR EXISTS (
-          SELECT 1
-          FROM document_assignments da
-          WHERE da.document_id = d.id
-            AND (da.assigned_to = ? OR da.assigned_by = ?)
-        )
-      ORDER BY d.created_at DESC
-    `;
+    const searchParams = new URL(request.url).searchParams;
+    const { query, errors } = parseDocumentListQuery(searchParams);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+    }
 
-    const docsResult: any = await DatabaseService.query(sql, [
-      userId,
-      userId,
-      userId,
-      userId,
-    ]);
-
-    // Normalize to rows array:
-    let docRows: any[] = Array.isArray(docsResult)
-      ? Array.isArray(docsResult[0])
-        ? docsResult[0]
-        : docsResult
-      : [];
+    const { rows: docRows, total } = await DocumentListService.list(
+      String(userId),
+      query
+    );
+    console.log(`📄 Found documents: ${docRows.length} of ${total}`);
 
-    if (!Array.isArray(docRows)) docRows = [];
+    const filterOptions =
+      searchParams.get("include") === "filters"
+        ? await DocumentListService.filterOptions(String(userId))
+        : undefined;
 
-    console.log("📄 Found documents (rows):", docRows.length);
+    const page = {
+      total,
+      page: query.page,
+      page_size: query.pageSize,
+      total_pages: Math.max(1, Math.ceil(total / query.pageSize)),
+      filter_options: filterOptions,
+    };
 
     // If no documents found, return empty list quickly
     if (docRows.length === 0) {
-      return NextResponse.json({ documents: [] }, { status: 200 });
+      return NextResponse.json({ documents: [], ...page }, { status: 200 });
     }
 
     // Collect document IDs to fetch assignment rows
@@ -104,7 +95,12 @@ export async function GET(request: NextRequest) {
         da.status AS assignment_status,
         da.notified_at,
         da.created_at AS assigned_at,
-        da.updated_at AS assignment_updated_at
+        da.updated_at AS assignment_updated_at,
+        da.workflow_step_id,
+        da.note,
+        da.decided_at,
+        da.closed_at,
+        da.due_at
       FROM document_assignments da
       LEFT JOIN users u_assigned ON u_assigned.id = da.assigned_to
       LEFT JOIN users u_by ON u_by.id = da.assigned_by
@@ -143,9 +139,17 @@ export async function GET(request: NextRequest) {
         notified_at: ar.notified_at ?? null,
         assigned_at: ar.assigned_at ?? null,
         updated_at: ar.assignment_updated_at ?? null,
+        workflow_step_id: ar.workflow_step_id ?? null,
+        note: ar.note ?? null,
+        decided_at: ar.decided_at ?? null,
+        closed_at: ar.closed_at ?? null,
+        due_at: ar.due_at ?? null,
       });
     }
 
+    // A delegate may act on what is assigned to those they cover for
+    const actingFor = await OutOfOfficeService.delegatorsOf(String(userId));
+
     // Map documents to the shape expected by the client
     const documents = docRows.map((r: any) => {
       const fileSize =
@@ -159,20 +163,35 @@ export async function GET(request: NextRequest) {
         id: r.id,
         title: r.title,
         file_path: r.file_path,
-        file_url: r.file_path,
+        file_url: `/api/documents/${r.id}/file`,
         file_size: fileSize,
         uploaded_by: r.uploaded_by,
         uploader_name: r.uploader_name ?? null,
         assigned_to_user: r.assigned_to_user,
         assigned_user_name: r.assigned_user_name ?? null,
-        status: r.status ?? "active",
+        status: normalizeStatus(r.status),
+        current_version: Number(r.current_version ?? 1),
+        available_actions: getAvailableActions(
+          {
+            ...r,
+            reviewer_ids: assigneeReviewerIds(assignments),
+            previous_assignee: previousAssignee(
+              assignments,
+              [String(userId), ...actingFor],
+              r.uploaded_by
+            ),
+          },
+          { id: userId, isAdmin, actingFor }
+        ),
+        can_delete: isAdmin || String(r.uploaded_by) === String(userId),
         created_at: r.created_at,
         updated_at: r.updated_at,
+        due_at: earliestDue(assignments),
         assignments,
       };
     });
 
-    return NextResponse.json({ documents }, { status: 200 });
+    return NextResponse.json({ documents, ...page }, { status: 200 });
   } catch (err: any) {
     console.error("💥 Error fetching documents:", err);
     return NextResponse.json(
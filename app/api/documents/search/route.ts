@@ -0,0 +1,53 @@
+// app/api/documents/search/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentSearchService } from "@/lib/document-search";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    return (
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/documents/search?q=term&limit=25
+ * Full-text search over the extracted text of the documents the user can see.
+ * Returns { query, results: [{ document_id, title, page_number, snippet, score }] }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const query = (searchParams.get("q") ?? "").trim();
+    if (!query) {
+      return NextResponse.json(
+        { error: "Query parameter 'q' is required" },
+        { status: 400 }
+      );
+    }
+
+    const limit = Number(searchParams.get("limit") ?? 25);
+    const results = await DocumentSearchService.search(userId, query, limit);
+
+    console.log(`🔎 Search "${query}" returned ${results.length} hits`);
+
+    return NextResponse.json({ query, results }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Document search error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Search failed" },
+      { status: 500 }
+    );
+  }
+}
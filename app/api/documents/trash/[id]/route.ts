@@ -0,0 +1,87 @@
+// app/api/documents/trash/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentTrashService } from "@/lib/document-trash";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  const decoded = await AuthService.verifyToken(token);
+  const userId =
+    decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+  if (!userId) return null;
+  return {
+    id: String(userId),
+    isAdmin: String(decoded?.role ?? "").toLowerCase() === "admin",
+  };
+}
+
+/**
+ * POST /api/documents/trash/[id]
+ * Restores a deleted document.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticate(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await DocumentTrashService.restore(params.id, user);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("♻️ Document restored from trash:", params.id);
+    return NextResponse.json({ message: "Document restored" }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Restore document error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to restore document" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/trash/[id]
+ * Permanently deletes a document that is already in the trash, along with
+ * its files, versions, annotations and assignments.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticate(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await DocumentTrashService.purge(params.id, user);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("🔥 Document permanently deleted:", params.id);
+    return NextResponse.json(
+      { message: "Document permanently deleted" },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("❌ Purge document error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to permanently delete document" },
+      { status: 500 }
+    );
+  }
+}
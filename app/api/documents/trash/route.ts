@@ -0,0 +1,38 @@
+// app/api/documents/trash/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentTrashService } from "@/lib/document-trash";
+
+/**
+ * GET /api/documents/trash
+ * Deleted documents the caller uploaded (every deleted document for admins).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get("auth-token")?.value ?? null;
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+    const isAdmin = String(decoded?.role ?? "").toLowerCase() === "admin";
+
+    const documents = await DocumentTrashService.listTrash({
+      id: userId,
+      isAdmin,
+    });
+
+    return NextResponse.json({ documents }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Fetch trash error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch trash" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,193 @@
+// app/api/documents/upload/batch/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import type { DuplicateDocument } from "@/lib/document-content";
+import {
+  assignmentFromForm,
+  DocumentUploadService,
+  isZipFile,
+  titleFromFileName,
+  type UploadEntry,
+} from "@/lib/document-upload";
+
+/** Largest number of files accepted in one batch request */
+const MAX_BATCH_FILES = 100;
+
+interface BatchItemResult {
+  /** Name of the file as uploaded (the zip name for archive entries) */
+  file: string;
+  /** Name of the PDF inside the archive, when the upload was a zip */
+  entry?: string;
+  title: string;
+  ok: boolean;
+  document?: { id: string; title: string; file_path: string };
+  error?: string;
+  /** Documents the uploader can already see with the same file */
+  duplicates?: DuplicateDocument[];
+}
+
+/**
+ * Upload many PDFs (or zip archives of PDFs) with one assignment target.
+ * Each file is stored, recorded and assigned on its own, so a bad file
+ * only fails its own entry in `results`.
+ *
+ * Form fields: `files` (repeated), `titles` (repeated, same order as
+ * `files`, optional), `description`, `assignmentType` ("user", "role" or
+ * "department"; defaults to user) with `selectedUser`, `assignedRole` or
+ * `assignedDepartment`, and `allowDuplicate` ("true" to upload files that
+ * match an existing document anyway).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get("auth-token")?.value;
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized - invalid token payload" },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const files = formData
+      .getAll("files")
+      .filter((f): f is File => typeof f !== "string");
+    const titles = formData.getAll("titles").map((t) => String(t ?? ""));
+    const description = (formData.get("description") as string) ?? "";
+    const { assignmentType, assignTo } = assignmentFromForm((field) =>
+      formData.get(field)
+    );
+    const allowDuplicate = formData.get("allowDuplicate") === "true";
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: "At least one file is required" },
+        { status: 400 }
+      );
+    }
+    if (files.length > MAX_BATCH_FILES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_FILES} files can be uploaded at once` },
+        { status: 400 }
+      );
+    }
+    if (!assignTo) {
+      const target = { user: "User", role: "Role", department: "Department" };
+      return NextResponse.json(
+        { error: `${target[assignmentType]} assignment is required` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📦 Batch upload of ${files.length} file(s) by ${userId}`);
+
+    const results: BatchItemResult[] = [];
+
+    const uploadEntry = async (
+      entry: UploadEntry,
+      title: string,
+      source: { file: string; entry?: string }
+    ) => {
+      try {
+        const result = await DocumentUploadService.createDocument({
+          buffer: entry.buffer,
+          fileName: entry.fileName,
+          mimeType: entry.mimeType,
+          title,
+          description,
+          uploadedBy: String(userId),
+          assignTo,
+          assignmentType,
+          allowDuplicate,
+        });
+        results.push(
+          result.ok
+            ? { ...source, title, ok: true, document: result.document }
+            : {
+                ...source,
+                title,
+                ok: false,
+                error: result.error,
+                duplicates: result.duplicates,
+              }
+        );
+      } catch (error: any) {
+        console.error(`❌ Batch upload failed for ${entry.fileName}:`, error);
+        results.push({
+          ...source,
+          title,
+          ok: false,
+          error: error?.message ?? "Failed to upload document",
+        });
+      }
+    };
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      const buffer = Buffer.from(await file.arrayBuffer());
+
+      if (isZipFile(file.name, file.type)) {
+        let entries: UploadEntry[];
+        try {
+          entries = await DocumentUploadService.extractArchive(buffer);
+        } catch (error: any) {
+          results.push({
+            file: file.name,
+            title: titleFromFileName(file.name),
+            ok: false,
+            error: error?.message ?? "Could not read zip archive",
+          });
+          continue;
+        }
+
+        if (entries.length === 0) {
+          results.push({
+            file: file.name,
+            title: titleFromFileName(file.name),
+            ok: false,
+            error: "Archive contains no PDF files",
+          });
+          continue;
+        }
+
+        for (const entry of entries) {
+          await uploadEntry(entry, titleFromFileName(entry.fileName), {
+            file: file.name,
+            entry: entry.fileName,
+          });
+        }
+        continue;
+      }
+
+      await uploadEntry(
+        { fileName: file.name, buffer, mimeType: file.type },
+        titles[i]?.trim() || titleFromFileName(file.name),
+        { file: file.name }
+      );
+    }
+
+    const uploaded = results.filter((r) => r.ok).length;
+    console.log(
+      `📦 Batch upload finished: ${uploaded} uploaded, ${
+        results.length - uploaded
+      } failed`
+    );
+
+    return NextResponse.json(
+      { results, uploaded, failed: results.length - uploaded },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error("💥 Batch upload error:", error);
+    return NextResponse.json(
+      { error: error?.message ?? "Failed to upload documents" },
+      { status: 500 }
+    );
+  }
+}
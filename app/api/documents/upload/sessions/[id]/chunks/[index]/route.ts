@@ -0,0 +1,56 @@
+// app/api/documents/upload/sessions/[id]/chunks/[index]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { UploadSessionService } from "@/lib/upload-sessions";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  const decoded = await AuthService.verifyToken(token);
+  const userId =
+    decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+  return userId ? String(userId) : null;
+}
+
+/**
+ * PUT /api/documents/upload/sessions/[id]/chunks/[index]
+ * Uploads one chunk as the raw request body (application/octet-stream).
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; index: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const index = Number(params.index);
+    const data = Buffer.from(await request.arrayBuffer());
+
+    const result = await UploadSessionService.putChunk(
+      params.id,
+      userId,
+      index,
+      data
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { index, received: result.received },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("❌ Upload chunk error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to store chunk" },
+      { status: 500 }
+    );
+  }
+}
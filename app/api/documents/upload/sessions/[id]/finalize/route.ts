@@ -0,0 +1,51 @@
+// app/api/documents/upload/sessions/[id]/finalize/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { UploadSessionService } from "@/lib/upload-sessions";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  const decoded = await AuthService.verifyToken(token);
+  const userId =
+    decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+  return userId ? String(userId) : null;
+}
+
+/**
+ * POST /api/documents/upload/sessions/[id]/finalize
+ * Assembles the chunks, verifies the sha256 and creates the document.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await UploadSessionService.finalize(params.id, userId);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log(
+      `✅ Upload session ${params.id} finalized as ${result.documentId}`
+    );
+    return NextResponse.json(
+      { document: { id: result.documentId } },
+      { status: 201 }
+    );
+  } catch (err: any) {
+    console.error("❌ Finalize upload error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to finalize upload" },
+      { status: 500 }
+    );
+  }
+}
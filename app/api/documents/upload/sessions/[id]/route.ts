@@ -0,0 +1,78 @@
+// app/api/documents/upload/sessions/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { UploadSessionService } from "@/lib/upload-sessions";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  const decoded = await AuthService.verifyToken(token);
+  const userId =
+    decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+  return userId ? String(userId) : null;
+}
+
+/**
+ * GET /api/documents/upload/sessions/[id]
+ * Reports which chunks the server has, so a client can resume.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await UploadSessionService.status(params.id, userId);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ session: result.session }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Upload session status error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch upload session" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/upload/sessions/[id]
+ * Cancels an upload and discards the chunks received so far.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await UploadSessionService.abort(params.id, userId);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("🗑️ Upload session cancelled:", params.id);
+    return NextResponse.json({ message: "Upload cancelled" }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Cancel upload session error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to cancel upload" },
+      { status: 500 }
+    );
+  }
+}
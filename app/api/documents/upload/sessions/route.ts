@@ -0,0 +1,74 @@
+// app/api/documents/upload/sessions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { assignmentFromForm } from "@/lib/document-upload";
+import { UploadSessionService } from "@/lib/upload-sessions";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  const decoded = await AuthService.verifyToken(token);
+  const userId =
+    decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+  return userId ? String(userId) : null;
+}
+
+/**
+ * POST /api/documents/upload/sessions
+ * Starts a resumable chunked upload.
+ * Body: { fileName, fileSize, mimeType, sha256, chunkSize?, title,
+ *         description?, assignmentType?, selectedUser | assignedRole |
+ *         assignedDepartment, allowDuplicate? }
+ * Answers 409 with `duplicates` when the uploader can already see the file.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body?.fileName) {
+      return NextResponse.json(
+        { error: "fileName is required" },
+        { status: 400 }
+      );
+    }
+
+    const { assignmentType, assignTo } = assignmentFromForm(
+      (field) => body[field]
+    );
+    const result = await UploadSessionService.create({
+      userId,
+      fileName: String(body.fileName),
+      fileSize: Number(body.fileSize),
+      mimeType: String(body.mimeType ?? ""),
+      sha256: String(body.sha256 ?? ""),
+      chunkSize: body.chunkSize ? Number(body.chunkSize) : undefined,
+      title: String(body.title ?? ""),
+      description: body.description ?? "",
+      assignTo,
+      assignmentType,
+      allowDuplicate: body.allowDuplicate === true,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, duplicates: result.duplicates },
+        { status: result.status }
+      );
+    }
+
+    console.log(
+      `📤 Upload session ${result.session.id} started for ${body.fileName} (${result.session.total_chunks} chunks)`
+    );
+    return NextResponse.json({ session: result.session }, { status: 201 });
+  } catch (err: any) {
+    console.error("❌ Create upload session error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to start upload" },
+      { status: 500 }
+    );
+  }
+}
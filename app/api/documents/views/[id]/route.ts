@@ -0,0 +1,90 @@
+// app/api/documents/views/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentViewService } from "@/lib/document-views";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  const decoded = await AuthService.verifyToken(token);
+  const userId =
+    decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+  return userId ? String(userId) : null;
+}
+
+/**
+ * PATCH /api/documents/views/[id]
+ * Owner only. Body: any of { name, query, shareWithDepartment }.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid body" }, { status: 400 });
+    }
+
+    const result = await DocumentViewService.update(userId, params.id, {
+      name: body.name,
+      query: body.query,
+      shareWithDepartment:
+        body.shareWithDepartment === undefined
+          ? undefined
+          : body.shareWithDepartment === true,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ view: result.view }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Update document view error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to update view" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/views/[id]
+ * Owner only; members it was shared with lose it too.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await DocumentViewService.remove(userId, params.id);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("🗑️ Document view deleted:", params.id);
+    return NextResponse.json({ message: "View deleted" }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Delete document view error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to delete view" },
+      { status: 500 }
+    );
+  }
+}
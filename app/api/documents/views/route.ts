@@ -0,0 +1,72 @@
+// app/api/documents/views/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentViewService } from "@/lib/document-views";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  const decoded = await AuthService.verifyToken(token);
+  const userId =
+    decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+  return userId ? String(userId) : null;
+}
+
+/**
+ * GET /api/documents/views
+ * The user's saved views and those shared with their department, each
+ * with the number of documents it currently matches for this user.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const views = await DocumentViewService.listWithCounts(userId);
+    return NextResponse.json({ views }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Fetch document views error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch saved views" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/views
+ * Saves a view. Body: { name, query, shareWithDepartment? } where `query`
+ * holds document list URL parameters, e.g. "assignee=me&status=in_review".
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const result = await DocumentViewService.create(userId, {
+      name: body?.name,
+      query: body?.query,
+      shareWithDepartment: body?.shareWithDepartment === true,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("✅ Document view saved:", result.view.id);
+    return NextResponse.json({ view: result.view }, { status: 201 });
+  } catch (err: any) {
+    console.error("❌ Save document view error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to save view" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+// app/api/inbox/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { DocumentQueueService } from "@/lib/document-queues";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/inbox
+ * The team inbox: documents queued for the caller's role or department,
+ * unclaimed ones first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const items = await DocumentQueueService.listForUser(userId);
+    return NextResponse.json({ items }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Fetch team inbox error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch team inbox" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+// app/api/out-of-office/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { OutOfOfficeService } from "@/lib/out-of-office";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    return userId ? String(userId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/out-of-office
+ * The caller's out-of-office window, if any, and the absences they are
+ * the delegate for.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [outOfOffice, covering] = await Promise.all([
+      OutOfOfficeService.get(userId),
+      OutOfOfficeService.covering(userId),
+    ]);
+    return NextResponse.json(
+      { out_of_office: outOfOffice, covering },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("❌ Fetch out-of-office error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch out-of-office" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/out-of-office
+ * Body: { delegate_id: string, starts_at?: string, ends_at: string,
+ *         note?: string }
+ * Set the caller's out-of-office window (starting now by default). While
+ * it lasts, new assignments go to the delegate.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await OutOfOfficeService.set(userId, body);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log(
+      `🏖️ ${userId} is out of office until ${result.outOfOffice.ends_at}, delegate ${result.outOfOffice.delegate_id}`
+    );
+    return NextResponse.json(
+      { out_of_office: result.outOfOffice },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("❌ Set out-of-office error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to set out-of-office" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/out-of-office
+ * End the caller's out-of-office window. Assignments already routed to
+ * the delegate stay with them.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const cleared = await OutOfOfficeService.clear(userId);
+    return NextResponse.json({ cleared }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Clear out-of-office error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to clear out-of-office" },
+      { status: 500 }
+    );
+  }
+}
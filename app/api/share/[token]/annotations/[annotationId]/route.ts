@@ -0,0 +1,93 @@
+// app/api/share/[token]/annotations/[annotationId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ShareAnnotationService } from "@/lib/share-annotations";
+import { SHARE_ACCESS_COOKIE, ShareLinkService } from "@/lib/share-links";
+
+async function resolveAnnotator(request: NextRequest, token: string) {
+  const resolved = await ShareLinkService.resolve(
+    token,
+    request.cookies.get(SHARE_ACCESS_COOKIE)?.value ?? null
+  );
+  if (!resolved.ok) {
+    return NextResponse.json(
+      { error: resolved.error, code: resolved.code },
+      { status: resolved.status }
+    );
+  }
+  if (!resolved.link.scopes.includes("annotate")) {
+    return NextResponse.json(
+      { error: "This link does not allow annotations" },
+      { status: 403 }
+    );
+  }
+  return resolved.link;
+}
+
+/**
+ * PATCH /api/share/[token]/annotations/[annotationId]
+ * Public, needs the "annotate" scope. Guests can only edit their own.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { token: string; annotationId: string } }
+) {
+  try {
+    const link = await resolveAnnotator(request, params.token);
+    if (link instanceof NextResponse) return link;
+
+    const body = await request.json().catch(() => null);
+    const result = await ShareAnnotationService.update(
+      link,
+      params.annotationId,
+      body ?? {}
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    return NextResponse.json(
+      { annotation: result.annotation },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("❌ Update guest annotation error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to update annotation" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/share/[token]/annotations/[annotationId]
+ * Public, needs the "annotate" scope. Guests can only delete their own.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { token: string; annotationId: string } }
+) {
+  try {
+    const link = await resolveAnnotator(request, params.token);
+    if (link instanceof NextResponse) return link;
+
+    const result = await ShareAnnotationService.remove(
+      link,
+      params.annotationId
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Delete guest annotation error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to delete annotation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+// app/api/share/[token]/annotations/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ShareAnnotationService } from "@/lib/share-annotations";
+import {
+  SHARE_ACCESS_COOKIE,
+  ShareLinkService,
+  shareRequestMeta,
+} from "@/lib/share-links";
+
+/**
+ * GET /api/share/[token]/annotations
+ * Public. The annotations this link's guest has made.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const resolved = await ShareLinkService.resolve(
+      params.token,
+      request.cookies.get(SHARE_ACCESS_COOKIE)?.value ?? null
+    );
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { error: resolved.error, code: resolved.code },
+        { status: resolved.status }
+      );
+    }
+
+    const annotations = await ShareAnnotationService.list(resolved.link);
+    return NextResponse.json({ annotations }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Fetch guest annotations error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch annotations" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/share/[token]/annotations
+ * Public, needs the "annotate" scope. Same body as POST /api/annotations;
+ * the annotation is recorded against the link rather than a user.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const resolved = await ShareLinkService.resolve(
+      params.token,
+      request.cookies.get(SHARE_ACCESS_COOKIE)?.value ?? null
+    );
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { error: resolved.error, code: resolved.code },
+        { status: resolved.status }
+      );
+    }
+    const { link } = resolved;
+    if (!link.scopes.includes("annotate")) {
+      return NextResponse.json(
+        { error: "This link does not allow annotations" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const result = await ShareAnnotationService.create(link, body ?? {});
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await ShareLinkService.recordEvent(
+      link.id,
+      "annotated",
+      shareRequestMeta(request),
+      result.annotation.id
+    );
+    return NextResponse.json(
+      { annotation: result.annotation },
+      { status: 201 }
+    );
+  } catch (err: any) {
+    console.error("❌ Create guest annotation error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to create annotation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+// app/api/share/[token]/file/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { DocumentVersionService } from "@/lib/document-versions";
+import { burnWatermark } from "@/lib/pdf-watermark";
+import { guestViewer } from "@/lib/share-annotations";
+import {
+  SHARE_ACCESS_COOKIE,
+  ShareLinkService,
+  shareRequestMeta,
+} from "@/lib/share-links";
+import { getStorage, type ByteRange } from "@/lib/storage";
+import { WatermarkPolicyService } from "@/lib/watermark-policies";
+
+/**
+ * Parse a single-range "bytes=" header against a known file size.
+ * Returns null when the header is absent or not something we serve
+ * partially (e.g. multiple ranges), and "invalid" when unsatisfiable.
+ */
+function parseRange(
+  header: string | null,
+  size: number
+): ByteRange | "invalid" | null {
+  if (!header || size <= 0) return null;
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+
+  const [, startStr, endStr] = match;
+  if (!startStr && !endStr) return "invalid";
+
+  let start: number;
+  let end: number;
+  if (!startStr) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - Number(endStr), 0);
+    end = size - 1;
+  } else {
+    start = Number(startStr);
+    end = endStr ? Math.min(Number(endStr), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) return "invalid";
+  return { start, end };
+}
+
+/**
+ * GET /api/share/[token]/file?download=1
+ * Public. Streams the current version of the shared document. Downloads
+ * need the link's "download" scope. When a watermark policy applies to
+ * the guest, the file is served whole with the watermark burned in,
+ * whether viewed or downloaded.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const resolved = await ShareLinkService.resolve(
+      params.token,
+      request.cookies.get(SHARE_ACCESS_COOKIE)?.value ?? null
+    );
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { error: resolved.error, code: resolved.code },
+        { status: resolved.status }
+      );
+    }
+    const { link, document: doc } = resolved;
+
+    const download = Boolean(new URL(request.url).searchParams.get("download"));
+    if (download && !link.scopes.includes("download")) {
+      return NextResponse.json(
+        { error: "This link does not allow downloads" },
+        { status: 403 }
+      );
+    }
+
+    const version = await DocumentVersionService.getVersion(doc.id, null);
+    const filePath: string = version?.file_path || doc.file_path;
+    if (!filePath) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const fileName = `${String(doc.title || "document").replace(
+      /[^a-zA-Z0-9._-]+/g,
+      "_"
+    )}.pdf`;
+    if (download) {
+      await ShareLinkService.recordEvent(
+        link.id,
+        "downloaded",
+        shareRequestMeta(request)
+      );
+    }
+
+    const watermark = await WatermarkPolicyService.resolve(
+      doc,
+      guestViewer(link)
+    );
+    if (watermark) {
+      const output = await burnWatermark(
+        await getStorage().get(filePath),
+        watermark
+      );
+      return new NextResponse(output, {
+        status: 200,
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Length": String(output.length),
+          "Cache-Control": "private, no-store",
+          "Content-Disposition": `${
+            download ? "attachment" : "inline"
+          }; filename="${fileName}"`,
+        },
+      });
+    }
+
+    const knownSize = Number(version?.file_size ?? doc.file_size ?? 0);
+    const range = parseRange(request.headers.get("range"), knownSize);
+    if (range === "invalid") {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${knownSize}` },
+      });
+    }
+
+    const file = await getStorage().stream(filePath, range ?? undefined);
+    const headers: Record<string, string> = {
+      "Content-Type": file.contentType,
+      "Content-Length": String(file.end - file.start + 1),
+      "Accept-Ranges": "bytes",
+      "Cache-Control": "private, no-store",
+      "Content-Disposition": `${
+        download ? "attachment" : "inline"
+      }; filename="${fileName}"`,
+    };
+    if (range) {
+      headers["Content-Range"] = `bytes ${file.start}-${file.end}/${file.size}`;
+    }
+
+    return new NextResponse(Readable.toWeb(file.body) as ReadableStream, {
+      status: range ? 206 : 200,
+      headers,
+    });
+  } catch (err: any) {
+    if (err?.code === "ENOENT" || err?.name === "NoSuchKey") {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    console.error("❌ Stream shared file error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to load file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+// app/api/share/[token]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { DocumentVersionService } from "@/lib/document-versions";
+import { guestName, guestViewer } from "@/lib/share-annotations";
+import {
+  SHARE_ACCESS_COOKIE,
+  ShareLinkService,
+  shareRequestMeta,
+} from "@/lib/share-links";
+import { WatermarkPolicyService } from "@/lib/watermark-policies";
+
+/**
+ * GET /api/share/[token]
+ * Public. What the share page needs to open the document as a guest.
+ * Password-protected links report `unlocked: false` until the password
+ * has been entered.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const resolved = await ShareLinkService.resolve(params.token, null, {
+      skipPassword: true,
+    });
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { error: resolved.error },
+        { status: resolved.status }
+      );
+    }
+    const { link, document } = resolved;
+
+    const unlocked = (
+      await ShareLinkService.resolve(
+        params.token,
+        request.cookies.get(SHARE_ACCESS_COOKIE)?.value ?? null
+      )
+    ).ok;
+    if (unlocked) {
+      await ShareLinkService.recordEvent(
+        link.id,
+        "opened",
+        shareRequestMeta(request)
+      );
+    }
+
+    const version = await DocumentVersionService.getVersion(document.id, null);
+    const watermark = unlocked
+      ? await WatermarkPolicyService.resolve(document, guestViewer(link))
+      : null;
+    return NextResponse.json(
+      {
+        share: {
+          recipient: link.recipient,
+          guest_name: guestName(link),
+          scopes: link.scopes,
+          expires_at: link.expires_at,
+          shared_by: link.created_by_name,
+          requires_password: link.has_password,
+          unlocked,
+        },
+        document: unlocked
+          ? {
+              id: document.id,
+              title: document.title,
+              file_size: Number(version?.file_size ?? document.file_size ?? 0),
+              version_number: version?.version_number ?? null,
+            }
+          : { title: document.title },
+        watermark,
+      },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("❌ Open share link error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to open share link" },
+      { status: 500 }
+    );
+  }
+}
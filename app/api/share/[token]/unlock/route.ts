@@ -0,0 +1,48 @@
+// app/api/share/[token]/unlock/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SHARE_ACCESS_COOKIE,
+  ShareLinkService,
+  shareRequestMeta,
+} from "@/lib/share-links";
+
+/**
+ * POST /api/share/[token]/unlock
+ * Public. Body: { password }. Sets a cookie, scoped to this link's API,
+ * that lets the guest load the file and annotations.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await ShareLinkService.unlock(
+      params.token,
+      String(body?.password ?? ""),
+      shareRequestMeta(request)
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const response = NextResponse.json({ success: true }, { status: 200 });
+    response.cookies.set(SHARE_ACCESS_COOKIE, result.cookie, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      expires: result.expires,
+      path: `/api/share/${params.token}`,
+    });
+    return response;
+  } catch (err: any) {
+    console.error("❌ Unlock share link error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to unlock share link" },
+      { status: 500 }
+    );
+  }
+}
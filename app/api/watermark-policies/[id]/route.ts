@@ -0,0 +1,98 @@
+// app/api/watermark-policies/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { WatermarkPolicyService } from "@/lib/watermark-policies";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) return null;
+    return {
+      userId: String(userId),
+      isAdmin: String(decoded?.role ?? "").toLowerCase() === "admin",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PATCH /api/watermark-policies/[id]
+ * Admins only. Same fields as POST; omitted ones are left unchanged.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!auth.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage watermark policies" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const result = await WatermarkPolicyService.update(params.id, body ?? {});
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    return NextResponse.json({ policy: result.policy }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Update watermark policy error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to update watermark policy" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/watermark-policies/[id]
+ * Admins only.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!auth.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage watermark policies" },
+        { status: 403 }
+      );
+    }
+
+    const result = await WatermarkPolicyService.remove(params.id);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("🗑️ Watermark policy deleted:", params.id);
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Delete watermark policy error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to delete watermark policy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+// app/api/watermark-policies/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { WatermarkPolicyService } from "@/lib/watermark-policies";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) return null;
+    return {
+      userId: String(userId),
+      isAdmin: String(decoded?.role ?? "").toLowerCase() === "admin",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/watermark-policies
+ * Every policy, enabled or not. Admins only.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!auth.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage watermark policies" },
+        { status: 403 }
+      );
+    }
+
+    const policies = await WatermarkPolicyService.list();
+    return NextResponse.json({ policies }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Fetch watermark policies error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch watermark policies" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/watermark-policies
+ * Admins only. Body: { name, textTemplate, departmentId?, classification?,
+ * opacity?, position?, fontSize?, color?, enabled? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!auth.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage watermark policies" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const result = await WatermarkPolicyService.create(auth.userId, body ?? {});
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("💧 Watermark policy created:", result.policy.id);
+    return NextResponse.json({ policy: result.policy }, { status: 201 });
+  } catch (err: any) {
+    console.error("❌ Create watermark policy error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to create watermark policy" },
+      { status: 500 }
+    );
+  }
+}
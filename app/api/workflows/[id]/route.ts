@@ -0,0 +1,100 @@
+// app/api/workflows/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { WorkflowTemplateService } from "@/lib/workflow-templates";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) return null;
+    return {
+      userId: String(userId),
+      isAdmin: String(decoded?.role ?? "").toLowerCase() === "admin",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PATCH /api/workflows/[id]
+ * Admins only. Same fields as POST; omitted ones are left unchanged and
+ * `steps` replaces every step. Documents already on the workflow keep
+ * the steps they started with.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!auth.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage workflows" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const result = await WorkflowTemplateService.update(params.id, body ?? {});
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    return NextResponse.json({ workflow: result.template }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Update workflow error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to update workflow" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/workflows/[id]
+ * Admins only. Documents already on the workflow finish it.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!auth.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage workflows" },
+        { status: 403 }
+      );
+    }
+
+    const result = await WorkflowTemplateService.remove(params.id);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("🗑️ Workflow deleted:", params.id);
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Delete workflow error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to delete workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+// app/api/workflows/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/auth";
+import { WorkflowTemplateService } from "@/lib/workflow-templates";
+
+async function authenticate(req: NextRequest) {
+  const token = req.cookies.get("auth-token")?.value ?? null;
+  if (!token) return null;
+  try {
+    const decoded = await AuthService.verifyToken(token);
+    const userId =
+      decoded?.userId ?? decoded?.id ?? decoded?.sub ?? decoded?.uid ?? null;
+    if (!userId) return null;
+    return {
+      userId: String(userId),
+      isAdmin: String(decoded?.role ?? "").toLowerCase() === "admin",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/workflows
+ * Approval workflow templates: all of them for admins, enabled ones for
+ * everyone else.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const workflows = await WorkflowTemplateService.list(!auth.isAdmin);
+    return NextResponse.json({ workflows }, { status: 200 });
+  } catch (err: any) {
+    console.error("❌ Fetch workflows error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to fetch workflows" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workflows
+ * Admins only. Body: { name, description?, departmentId?, enabled?,
+ * steps: [{ name, targetType, targetId, completion?, onReject? }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!auth.isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage workflows" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const result = await WorkflowTemplateService.create(
+      auth.userId,
+      body ?? {}
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log("🔀 Workflow created:", result.template.id);
+    return NextResponse.json({ workflow: result.template }, { status: 201 });
+  } catch (err: any) {
+    console.error("❌ Create workflow error:", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Failed to create workflow" },
+      { status: 500 }
+    );
+  }
+}
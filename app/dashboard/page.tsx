@@ -8,13 +8,14 @@ import { DocumentList } from "@/components/documents/document-list";
 import { DocumentUploadDrawer } from "@/components/documents/document-upload-drawer";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Upload } from "lucide-react";
+import { AlarmClock, Upload } from "lucide-react";
 import { Toaster } from "react-hot-toast";
 
 interface DashboardStats {
   totalDocuments: number;
   assignedToUser: number;
   recentActivity: number;
+  overdueAssignments: number;
 }
 
 interface Permission {
@@ -34,6 +35,7 @@ export default function Dashboard() {
     totalDocuments: 0,
     assignedToUser: 0,
     recentActivity: 0,
+    overdueAssignments: 0,
   });
   const [statsLoading, setStatsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -89,6 +91,7 @@ export default function Dashboard() {
         totalDocuments: 0,
         assignedToUser: 0,
         recentActivity: 0,
+        overdueAssignments: 0,
       });
     } finally {
       setStatsLoading(false);
@@ -193,7 +196,7 @@ export default function Dashboard() {
               </div>
             )}
 
-            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 mb-8">
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4 mb-8">
               <Card className="hover:shadow-md transition-shadow">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-sm font-medium">
@@ -251,6 +254,30 @@ export default function Dashboard() {
                   </p>
                 </CardContent>
               </Card>
+              <Card className="hover:shadow-md transition-shadow">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+                  <AlarmClock className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div
+                    className={
+                      stats.overdueAssignments > 0
+                        ? "text-2xl font-bold text-red-600"
+                        : "text-2xl font-bold text-primary"
+                    }
+                  >
+                    {statsLoading ? (
+                      <div className="animate-pulse bg-gray-200 h-8 w-16 rounded"></div>
+                    ) : (
+                      stats.overdueAssignments
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Past due, assigned or escalated to you
+                  </p>
+                </CardContent>
+              </Card>
             </div>
 
             <div className="mt-8">
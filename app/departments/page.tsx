@@ -43,6 +43,9 @@ interface Department {
   created_at: string;
   user_count?: number;
   created_by?: string;
+  sla_days?: number;
+  head_user_id?: string;
+  head_user_name?: string;
 }
 
 export default function DepartmentsPage() {
@@ -206,6 +209,7 @@ export default function DepartmentsPage() {
                           <Skeleton className="h-5 w-40" />
                           <Skeleton className="h-5 w-60" />
                           <Skeleton className="h-5 w-20" />
+                          <Skeleton className="h-5 w-20" />
                           <Skeleton className="h-5 w-28" />
                           <Skeleton className="h-5 w-28" />
                           <Skeleton className="h-8 w-16" />
@@ -242,6 +246,7 @@ export default function DepartmentsPage() {
                             </TableHead>
                             {/* <TableHead>Description</TableHead> */}
                             <TableHead>People Count</TableHead>
+                            <TableHead>Review SLA</TableHead>
                             <TableHead>Created By</TableHead>
                             <TableHead
                               onClick={() => handleSort("created_at")}
@@ -281,6 +286,18 @@ export default function DepartmentsPage() {
                                   <span>{department.user_count || 0}</span>
                                 </div>
                               </TableCell>
+                              <TableCell>
+                                <span className="text-gray-600">
+                                  {department.sla_days
+                                    ? `${department.sla_days} days`
+                                    : "-"}
+                                </span>
+                                {department.head_user_name && (
+                                  <p className="text-xs text-gray-500">
+                                    Head: {department.head_user_name}
+                                  </p>
+                                )}
+                              </TableCell>
                               <TableCell>
                                 <span className="text-gray-600">
                                   {department.created_by ?? "System"}
@@ -1,14 +1,56 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { useRouter, useParams } from "next/navigation";
+import { useRouter, useParams, useSearchParams } from "next/navigation";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import WebViewer from "@/components/pdf/WebViewer";
+import {
+  DocumentVersionPicker,
+  DocumentVersionSummary,
+} from "@/components/documents/document-version-picker";
+import { DocumentStatusBadge } from "@/components/documents/document-status-badge";
+import { DocumentLifecycleActions } from "@/components/documents/document-lifecycle-actions";
+import { DocumentWorkflowPanel } from "@/components/documents/document-workflow-panel";
+import { DocumentDeleteButton } from "@/components/documents/document-delete-button";
+import { DocumentShareButton } from "@/components/documents/document-share-button";
+import { DocumentClassificationSelect } from "@/components/documents/document-classification-select";
+import { downloadDocumentExport } from "@/components/documents/document-export-button";
+import { DocumentCompareView } from "@/components/documents/document-compare-view";
+import { DocumentPageOrganizer } from "@/components/documents/document-page-organizer";
+import {
+  DocumentQuarantineNotice,
+  type DocumentScanInfo,
+} from "@/components/documents/document-quarantine-notice";
+import type { AvailableAction } from "@/lib/document-status";
+import {
+  describeDue,
+  isOpenAssignment,
+  isOverdue,
+} from "@/lib/assignment-due";
+import {
+  describeQuorum,
+  QUORUM_LABELS,
+  QUORUM_RULES,
+  type QuorumRule,
+} from "@/lib/review-quorum";
+import {
+  isReviewOutcome,
+  OUTCOME_LABELS,
+  type ReviewOutcome,
+} from "@/lib/review-outcomes";
+import type { ResolvedWatermark } from "@/lib/watermark";
 import {
   ArrowLeft,
   User,
@@ -17,6 +59,9 @@ import {
   Search,
   Check,
   Download,
+  GitCompare,
+  LayoutGrid,
+  Inbox,
 } from "lucide-react";
 import toast, { Toaster } from "react-hot-toast";
 import { cn } from "@/lib/utils";
@@ -48,6 +93,17 @@ interface Assignment {
   notified_at?: string | null;
   assigned_at?: string | null;
   updated_at?: string | null;
+  workflow_step_id?: string | null;
+  note?: string | null;
+  decided_at?: string | null;
+  closed_at?: string | null;
+  due_at?: string | null;
+  escalated_at?: string | null;
+  escalated_to_name?: string | null;
+  delegated_from?: string | null;
+  delegated_from_name?: string | null;
+  acted_by_name?: string | null;
+  outcome?: string | null;
 }
 
 interface DocumentData {
@@ -62,7 +118,30 @@ interface DocumentData {
   uploader_name?: string;
   assigned_to_user?: string | null;
   assigned_user_name?: string | null;
+  review_completion?: QuorumRule | null;
+  review_required_approvals?: number | null;
+  queue?: { type: "role" | "department"; name: string | null } | null;
+  can_claim?: boolean;
+  can_release?: boolean;
+  acting_for?: string[];
   assignments?: Assignment[];
+  current_version?: number;
+  version_number?: number;
+  available_actions?: AvailableAction[];
+  can_delete?: boolean;
+  classification?: string | null;
+  can_classify?: boolean;
+  watermark?: ResolvedWatermark | null;
+  scan?: DocumentScanInfo | null;
+  can_review_quarantine?: boolean;
+  last_transition?: {
+    action: string;
+    to_status: string;
+    actor_name: string | null;
+    on_behalf_of_name?: string | null;
+    reason: string | null;
+    created_at: string;
+  } | null;
 }
 
 interface User {
@@ -73,6 +152,13 @@ interface User {
 
 /* --------------------------- Helpers / Utils ------------------------- */
 
+const OUTCOME_BADGE_CLASSES: Record<ReviewOutcome, string> = {
+  approve: "bg-green-100 text-green-800",
+  reject: "bg-red-100 text-red-800",
+  request_changes: "bg-amber-100 text-amber-800",
+  send_back: "bg-blue-100 text-blue-800",
+};
+
 const formatDateTimeCustom = (dateString?: string | null) => {
   if (!dateString) return "";
   try {
@@ -120,6 +206,10 @@ const formatFileSize = (bytes: number) => {
 
 export default function DocumentViewerPage() {
   const params = useParams();
+  const searchParams = useSearchParams();
+  // Set when arriving from a content search hit (?page=N&q=term)
+  const targetPage = Number(searchParams.get("page")) || undefined;
+  const searchTerm = searchParams.get("q") ?? undefined;
   const router = useRouter();
   const { user: currentUser } = useAuth();
 
@@ -135,37 +225,49 @@ export default function DocumentViewerPage() {
 
   const [users, setUsers] = useState<User[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
-  const [selectedUser, setSelectedUser] = useState<string | null>(null);
+  const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
+  const [completion, setCompletion] = useState<QuorumRule>("all");
+  const [requiredApprovals, setRequiredApprovals] = useState(1);
+  // datetime-local value; empty means the reviewers' department SLA
+  const [dueDate, setDueDate] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [assignSubmitting, setAssignSubmitting] = useState(false);
   const [loadingUsers, setLoadingUsers] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [versions, setVersions] = useState<DocumentVersionSummary[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [organizing, setOrganizing] = useState(false);
+  const [claiming, setClaiming] = useState(false);
 
   const [currentPage, setCurrentPage] = useState(1);
   const [jumpPageInput, setJumpPageInput] = useState("");
   const perPage = 5;
 
-  // Permission: Check assignment history to determine if current user can annotate
-  const isAssignedUser = (() => {
-    if (!currentUser || !assignmentHistory.length) return false;
-
-    // Get the most recent assignment
-    const latestAssignment = assignmentHistory[0];
-    console.log("🔍 [DEBUG] Latest assignment:", latestAssignment);
-
-    const result =
-      latestAssignment.assigned_to &&
-      String(currentUser.id) === String(latestAssignment.assigned_to);
-
-    console.log("🔍 [DEBUG] isAssignedUser calculation:", {
-      currentUserId: currentUser.id,
-      assignedTo: latestAssignment.assigned_to,
-      assignedToName: latestAssignment.assigned_to_name,
-      result,
-    });
-
-    return result;
-  })();
+  // Permission: everyone still to decide on the document, whether on a
+  // workflow step or reviewing in parallel, can annotate
+  const activeReviewers = Array.from(
+    new Map(
+      assignmentHistory
+        .filter((a) => a.assigned_to && a.status === "assigned" && !a.closed_at)
+        .map((a): [string, Assignment] => [String(a.assigned_to), a])
+    ).values()
+  );
+  const reviewerIds = activeReviewers.map((a) => String(a.assigned_to));
+  const reviewerNames = activeReviewers
+    .map((a) => a.assigned_to_name || "Unknown")
+    .join(", ");
+  // Out-of-office delegates act for the absent reviewers they cover for
+  const actingFor = doc?.acting_for ?? [];
+  const isAssignedUser =
+    !!currentUser &&
+    reviewerIds.some(
+      (id) => id === String(currentUser.id) || actingFor.includes(id)
+    );
+  // Reviewers outside a workflow decide under the document's quorum rule
+  const parallelReviewers = activeReviewers.filter(
+    (a) => !a.workflow_step_id
+  ).length;
 
   // Debug logging
   useEffect(() => {
@@ -189,7 +291,15 @@ export default function DocumentViewerPage() {
       return;
     }
     if (params.id) {
-      fetchDocument();
+      fetchDocument(selectedVersion);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentUser, params.id, selectedVersion]);
+
+  // Fetch the revision list once per document
+  useEffect(() => {
+    if (currentUser && params.id) {
+      fetchVersions();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentUser, params.id]);
@@ -201,7 +311,7 @@ export default function DocumentViewerPage() {
       fetchAssignmentHistory();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [doc]);
+  }, [doc?.id]);
 
   // Filter users based on search query
   useEffect(() => {
@@ -217,10 +327,12 @@ export default function DocumentViewerPage() {
     }
   }, [searchQuery, users]);
 
-  const fetchDocument = async () => {
-    setLoading(true);
+  const fetchDocument = async (version: number | null = selectedVersion) => {
+    // Only show the full-page loader on first load, not when switching versions
+    if (!doc) setLoading(true);
     try {
-      const res = await fetch(`/api/documents/${params.id}`);
+      const query = version !== null ? `?version=${version}` : "";
+      const res = await fetch(`/api/documents/${params.id}${query}`);
       if (!res.ok) {
         const txt = await res.text();
         console.error("Document fetch failed", res.status, txt);
@@ -232,17 +344,8 @@ export default function DocumentViewerPage() {
       // rename API's `document` to `docFromApi` to avoid local name collision
       const { document: docFromApi } = await res.json();
 
-      let fileUrl = docFromApi.file_url;
-      if (!fileUrl && docFromApi.file_path) {
-        fileUrl = docFromApi.file_path.startsWith("/")
-          ? docFromApi.file_path
-          : `/uploads/documents/${docFromApi.file_path}`;
-      }
-      if (fileUrl && !fileUrl.startsWith("http") && !fileUrl.startsWith("/")) {
-        fileUrl = `/uploads/documents/${fileUrl}`;
-      }
-
-      setDoc({ ...docFromApi, file_url: fileUrl });
+      // file_url is resolved server-side by the configured storage backend
+      setDoc(docFromApi);
     } catch (err) {
       console.error("fetchDocument error", err);
       toast.error("Failed to load document");
@@ -251,6 +354,32 @@ export default function DocumentViewerPage() {
     }
   };
 
+  const fetchVersions = async () => {
+    try {
+      const res = await fetch(
+        `/api/documents/${encodeURIComponent(String(params.id))}/versions`
+      );
+      if (!res.ok) {
+        console.error("Failed to fetch versions:", res.status);
+        return;
+      }
+      const data = await res.json();
+      setVersions(Array.isArray(data.versions) ? data.versions : []);
+    } catch (err) {
+      console.error("fetchVersions error", err);
+    }
+  };
+
+  const handleVersionUploaded = (version: DocumentVersionSummary) => {
+    setVersions((prev) => [version, ...prev]);
+    // Jump to the new revision (also the latest)
+    if (selectedVersion !== null) {
+      setSelectedVersion(null);
+    } else {
+      fetchDocument(null);
+    }
+  };
+
   const fetchAssignmentHistory = async () => {
     if (!doc) return;
     try {
@@ -333,19 +462,9 @@ export default function DocumentViewerPage() {
         await webViewerRef.current.exportDocument();
         toast.success("Document exported with annotations!");
       } else {
-        // Fallback: Download the original document
-        console.warn(
-          "WebViewer export not available, falling back to original download"
-        );
-        const link = document.createElement("a"); // global DOM document is used here
-        link.href = doc.file_url || doc.file_path;
-        link.download = `document-${doc.title}.pdf`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        toast.success(
-          "Original document downloaded (annotations not included)"
-        );
+        // Without the viewer, the server flattens the saved annotations
+        await downloadDocumentExport(doc.id);
+        toast.success("Document exported with annotations!");
       }
     } catch (error) {
       console.error("Export error:", error);
@@ -355,6 +474,32 @@ export default function DocumentViewerPage() {
     }
   };
 
+  // Claim a team queue document, or hand it back to the queue
+  const handleClaim = async (release: boolean) => {
+    if (!doc) return;
+    setClaiming(true);
+    try {
+      const res = await fetch(`/api/documents/${doc.id}/claim`, {
+        method: release ? "DELETE" : "POST",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to update claim");
+        return;
+      }
+      toast.success(
+        release ? "Released back to the team queue" : "Document claimed"
+      );
+      fetchDocument();
+      fetchAssignmentHistory();
+    } catch (err) {
+      console.error("claim error", err);
+      toast.error("Failed to update claim");
+    } finally {
+      setClaiming(false);
+    }
+  };
+
   // Register WebViewer handlers
   const registerWebViewerHandlers = (handlers: any) => {
     webViewerRef.current = handlers;
@@ -365,7 +510,10 @@ export default function DocumentViewerPage() {
     if (!assignOpen) return;
     setLoadingUsers(true);
     setSearchQuery("");
-    setSelectedUser(null);
+    setSelectedUsers([]);
+    setCompletion("all");
+    setRequiredApprovals(1);
+    setDueDate("");
 
     fetch("/api/users?limit=100")
       .then((r) => r.json())
@@ -385,15 +533,25 @@ export default function DocumentViewerPage() {
       .finally(() => setLoadingUsers(false));
   }, [assignOpen, currentUser]);
 
+  const toggleSelectedUser = (userId: string) => {
+    setSelectedUsers((prev) =>
+      prev.includes(userId)
+        ? prev.filter((id) => id !== userId)
+        : [...prev, userId]
+    );
+  };
+
   const handleNotify = async () => {
     if (!doc) return;
-    if (!selectedUser) return toast.error("Select a user to notify");
+    if (selectedUsers.length === 0) {
+      return toast.error("Select a user to notify");
+    }
 
     console.log("🚀 [FRONTEND] Starting assignment process:");
     console.log("Document ID:", doc.id);
     console.log("Document current assignee:", doc.assigned_to_user);
     console.log("Current user ID:", currentUser?.id);
-    console.log("Selected user ID:", selectedUser);
+    console.log("Selected user IDs:", selectedUsers);
     console.log("isAssignedUser:", isAssignedUser);
 
     setAssignSubmitting(true);
@@ -404,8 +562,12 @@ export default function DocumentViewerPage() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            assigned_to: selectedUser,
+            assigned_to: selectedUsers,
+            completion: selectedUsers.length > 1 ? completion : "all",
+            required_approvals:
+              completion === "count" ? requiredApprovals : null,
             notify: true,
+            due_at: dueDate ? new Date(dueDate).toISOString() : null,
           }),
         }
       );
@@ -427,9 +589,13 @@ export default function DocumentViewerPage() {
         toast.error(json?.error || `Assign failed with status ${res.status}`);
       } else {
         console.log("✅ Assign successful:", json);
-        toast.success("User notified and document assigned");
+        toast.success(
+          selectedUsers.length > 1
+            ? "Reviewers notified and document assigned"
+            : "User notified and document assigned"
+        );
         setAssignOpen(false);
-        setSelectedUser(null);
+        setSelectedUsers([]);
         setSearchQuery("");
         fetchDocument();
         fetchAssignmentHistory();
@@ -522,12 +688,6 @@ export default function DocumentViewerPage() {
     );
   }
 
-  // ensure assignedToUserId is string | undefined (not null)
-  const assignedToUserId: string | undefined =
-    assignmentHistory.length > 0
-      ? assignmentHistory[0].assigned_to ?? undefined
-      : undefined;
-
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="flex h-screen">
@@ -544,15 +704,133 @@ export default function DocumentViewerPage() {
                 Back to Documents
               </Button>
               <div>
-                <h1 className="text-xl font-semibold">{doc.title}</h1>
+                <div className="flex items-center gap-2">
+                  <h1 className="text-xl font-semibold">{doc.title}</h1>
+                  <DocumentStatusBadge
+                    status={doc.status}
+                    title={
+                      doc.last_transition
+                        ? `${doc.last_transition.actor_name ?? "Unknown"}${
+                            doc.last_transition.on_behalf_of_name
+                              ? ` on behalf of ${doc.last_transition.on_behalf_of_name}`
+                              : ""
+                          }${
+                            doc.last_transition.reason
+                              ? `: ${doc.last_transition.reason}`
+                              : ""
+                          }`
+                        : undefined
+                    }
+                  />
+                </div>
                 <p className="text-sm text-gray-600">
                   Uploaded by {doc.uploader_name ?? "Unknown"} •{" "}
                   {formatFileSize(doc.file_size)}
+                  {doc.version_number ? ` • v${doc.version_number}` : ""}
                 </p>
               </div>
+              <DocumentVersionPicker
+                documentId={doc.id}
+                versions={versions}
+                selectedVersion={selectedVersion}
+                canUpload={
+                  String(doc.uploaded_by) === String(currentUser.id) ||
+                  Boolean(isAssignedUser)
+                }
+                onSelect={(v) =>
+                  setSelectedVersion(
+                    versions.length > 0 && v === versions[0].version_number
+                      ? null
+                      : v
+                  )
+                }
+                onUploaded={handleVersionUploaded}
+              />
+              {versions.length > 1 && (
+                <Button
+                  variant={comparing ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => {
+                    setComparing((c) => !c);
+                    setOrganizing(false);
+                  }}
+                  title="Compare two versions side by side"
+                >
+                  <GitCompare className="h-4 w-4 mr-1" />
+                  Compare
+                </Button>
+              )}
+              {doc.status !== "quarantined" &&
+                (String(doc.uploaded_by) === String(currentUser.id) ||
+                  isAssignedUser) && (
+                <Button
+                  variant={organizing ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => {
+                    setOrganizing((o) => !o);
+                    setComparing(false);
+                  }}
+                  title="Rotate, reorder, delete, insert or split pages"
+                >
+                  <LayoutGrid className="h-4 w-4 mr-1" />
+                  Pages
+                </Button>
+              )}
+              {doc.can_classify ? (
+                <DocumentClassificationSelect
+                  documentId={doc.id}
+                  classification={doc.classification ?? null}
+                  onChanged={() => fetchDocument()}
+                />
+              ) : (
+                doc.classification && (
+                  <Badge variant="outline" className="capitalize">
+                    {doc.classification}
+                  </Badge>
+                )
+              )}
             </div>
 
             <div className="flex items-center space-x-2 relative">
+              <DocumentLifecycleActions
+                documentId={doc.id}
+                actions={doc.available_actions ?? []}
+                size="default"
+                onTransitioned={() => fetchDocument()}
+              />
+
+              {doc.can_delete && (
+                <DocumentDeleteButton
+                  documentId={doc.id}
+                  title={doc.title}
+                  showLabel
+                  onDeleted={() => router.push("/documents")}
+                />
+              )}
+
+              <DocumentShareButton documentId={doc.id} />
+
+              {doc.can_claim && (
+                <Button
+                  onClick={() => handleClaim(false)}
+                  disabled={claiming}
+                  title="Take this document from the team queue"
+                >
+                  <Inbox className="h-4 w-4 mr-1" />
+                  {claiming ? "Claiming..." : "Claim"}
+                </Button>
+              )}
+              {doc.can_release && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleClaim(true)}
+                  disabled={claiming}
+                  title="Put this document back in the team queue"
+                >
+                  {claiming ? "Releasing..." : "Release"}
+                </Button>
+              )}
+
               {/* Export Button - Always visible */}
               <Button
                 onClick={handleExport}
@@ -585,8 +863,9 @@ export default function DocumentViewerPage() {
                         Assign Document
                       </h4>
                       <p className="text-sm text-gray-600 mb-4">
-                        Select a user to assign this document to. You cannot
-                        assign to yourself.
+                        Select who should review this document. Several
+                        reviewers review it in parallel. You cannot assign
+                        to yourself.
                       </p>
 
                       {/* Search Input */}
@@ -616,21 +895,21 @@ export default function DocumentViewerPage() {
                                 key={user.id}
                                 className={cn(
                                   "flex items-center space-x-3 p-3 rounded-lg border cursor-pointer transition-all",
-                                  selectedUser === user.id
+                                  selectedUsers.includes(user.id)
                                     ? "border-primary bg-primary/5"
                                     : "border-gray-200 hover:border-gray-300 hover:bg-gray-50"
                                 )}
-                                onClick={() => setSelectedUser(user.id)}
+                                onClick={() => toggleSelectedUser(user.id)}
                               >
                                 <div
                                   className={cn(
                                     "w-5 h-5 rounded-full border-2 flex items-center justify-center",
-                                    selectedUser === user.id
+                                    selectedUsers.includes(user.id)
                                       ? "bg-primary border-primary"
                                       : "border-gray-300"
                                   )}
                                 >
-                                  {selectedUser === user.id && (
+                                  {selectedUsers.includes(user.id) && (
                                     <Check className="w-3 h-3 text-white" />
                                   )}
                                 </div>
@@ -663,11 +942,78 @@ export default function DocumentViewerPage() {
                       </div>
 
                       {/* Selected User Display */}
-                      {selectedUser && (
+                      {selectedUsers.length > 0 && (
                         <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
                           <p className="text-sm font-medium text-green-800">
                             Selected:{" "}
-                            {users.find((u) => u.id === selectedUser)?.name}
+                            {selectedUsers
+                              .map((id) => users.find((u) => u.id === id)?.name)
+                              .filter(Boolean)
+                              .join(", ")}
+                          </p>
+                        </div>
+                      )}
+
+                      {/* Quorum rule for several reviewers */}
+                      {selectedUsers.length > 1 && (
+                        <div className="mb-4 flex items-center gap-2">
+                          <Select
+                            value={completion}
+                            onValueChange={(v) => setCompletion(v as QuorumRule)}
+                          >
+                            <SelectTrigger className="flex-1">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {QUORUM_RULES.map((rule) => (
+                                <SelectItem key={rule} value={rule}>
+                                  {QUORUM_LABELS[rule]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {completion === "count" && (
+                            <>
+                              <Input
+                                type="number"
+                                min={1}
+                                max={selectedUsers.length}
+                                value={requiredApprovals}
+                                onChange={(e) =>
+                                  setRequiredApprovals(
+                                    Number(e.target.value) || 1
+                                  )
+                                }
+                                className="w-16"
+                                aria-label="Approvals needed"
+                              />
+                              <span className="text-sm text-gray-600">
+                                of {selectedUsers.length}
+                              </span>
+                            </>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Due date; the SLA applies without one */}
+                      {selectedUsers.length > 0 && (
+                        <div className="mb-4">
+                          <label
+                            htmlFor="assign-due"
+                            className="text-sm font-medium text-gray-700"
+                          >
+                            Due (optional)
+                          </label>
+                          <Input
+                            id="assign-due"
+                            type="datetime-local"
+                            value={dueDate}
+                            onChange={(e) => setDueDate(e.target.value)}
+                            className="mt-1"
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            Leave empty to use each reviewer&apos;s department
+                            SLA
                           </p>
                         </div>
                       )}
@@ -678,7 +1024,7 @@ export default function DocumentViewerPage() {
                           variant="outline"
                           onClick={() => {
                             setAssignOpen(false);
-                            setSelectedUser(null);
+                            setSelectedUsers([]);
                             setSearchQuery("");
                           }}
                           disabled={assignSubmitting}
@@ -687,7 +1033,13 @@ export default function DocumentViewerPage() {
                         </Button>
                         <Button
                           onClick={handleNotify}
-                          disabled={assignSubmitting || !selectedUser}
+                          disabled={
+                            assignSubmitting ||
+                            selectedUsers.length === 0 ||
+                            (completion === "count" &&
+                              selectedUsers.length > 1 &&
+                              requiredApprovals > selectedUsers.length)
+                          }
                           className="bg-red-600 hover:bg-red-700"
                         >
                           {assignSubmitting ? (
@@ -705,30 +1057,91 @@ export default function DocumentViewerPage() {
                 </>
               )}
 
+              {doc.queue && !doc.assigned_to_user && (
+                <Badge
+                  variant="secondary"
+                  className="bg-blue-100 text-blue-800"
+                >
+                  In team queue: {doc.queue.name ?? "Unknown"}
+                </Badge>
+              )}
+
               {/* Status badge for non-assigned users */}
-              {!isAssignedUser && assignmentHistory.length > 0 && (
+              {!isAssignedUser && activeReviewers.length > 0 && (
                 <Badge
                   variant="secondary"
                   className="bg-yellow-100 text-yellow-800"
                 >
-                  Assigned to:{" "}
-                  {assignmentHistory[0].assigned_to_name || "Unknown"}
+                  Assigned to: {reviewerNames}
                 </Badge>
               )}
             </div>
           </div>
 
+          {doc.status !== "quarantined" && (
+            <DocumentWorkflowPanel
+              documentId={doc.id}
+              currentUserId={currentUser ? String(currentUser.id) : null}
+              actingFor={actingFor}
+              status={doc.status ?? ""}
+              onChanged={() => {
+                fetchDocument();
+                fetchAssignmentHistory();
+              }}
+            />
+          )}
+
           {/* Main Content */}
           <div className="flex-1 flex overflow-auto">
-            {/* PDF Viewer with permission control */}
-            <div className="flex-1 bg-gray-100">
+            {organizing && (
+              <div className="flex-1 min-w-0">
+                <DocumentPageOrganizer
+                  documentId={doc.id}
+                  onClose={() => setOrganizing(false)}
+                  onSaved={({ version }) => {
+                    setOrganizing(false);
+                    handleVersionUploaded(version);
+                    // Annotations were moved to the pages' new numbers
+                    fetchAnnotations();
+                  }}
+                />
+              </div>
+            )}
+
+            {doc.status === "quarantined" && (
+              <DocumentQuarantineNotice
+                documentId={doc.id}
+                scan={doc.scan ?? null}
+                canReview={Boolean(doc.can_review_quarantine)}
+                onReleased={() => fetchDocument()}
+              />
+            )}
+
+            {comparing && (
+              <div className="flex-1 min-w-0">
+                <DocumentCompareView
+                  documentId={doc.id}
+                  versions={versions}
+                  initialTo={selectedVersion}
+                  onClose={() => setComparing(false)}
+                />
+              </div>
+            )}
+
+            {/* PDF Viewer with permission control; kept alive while comparing */}
+            <div
+              className={cn(
+                "flex-1 bg-gray-100",
+                (comparing || organizing) && "hidden"
+              )}
+            >
               {doc.file_url && (
                 <WebViewer
                   documentUrl={doc.file_url}
                   documentId={doc.id}
                   currentUserId={currentUser.id}
                   currentUserName={currentUser.name || currentUser.email}
-                  assignedToUserId={assignedToUserId}
+                  reviewerIds={reviewerIds}
                   onAnnotationSave={
                     isAssignedUser ? handleAnnotationSave : undefined
                   }
@@ -737,6 +1150,8 @@ export default function DocumentViewerPage() {
                   }
                   existingAnnotations={annotations}
                   registerHandlers={registerWebViewerHandlers}
+                  initialPage={targetPage}
+                  highlightText={searchTerm}
                 />
               )}
             </div>
@@ -752,20 +1167,24 @@ export default function DocumentViewerPage() {
                   <div>
                     <span className="font-medium">Assignment Status:</span>
                     <span className="ml-2 text-xs text-gray-600">
-                      {assignmentHistory.length > 0
-                        ? `Assigned to ${
-                            assignmentHistory[0].assigned_to_name || "Unknown"
-                          }`
+                      {activeReviewers.length > 0
+                        ? `Assigned to ${reviewerNames}`
                         : "Not assigned"}
                     </span>
                   </div>
-                  {!isAssignedUser && assignmentHistory.length > 0 && (
+                  {parallelReviewers > 1 && doc.review_completion && (
+                    <div className="text-xs text-gray-600">
+                      {describeQuorum(
+                        doc.review_completion,
+                        doc.review_required_approvals,
+                        parallelReviewers
+                      )}
+                    </div>
+                  )}
+                  {!isAssignedUser && activeReviewers.length > 0 && (
                     <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded">
                       <p className="text-xs text-yellow-800">
-                        ⚠️ Only{" "}
-                        {assignmentHistory[0].assigned_to_name ||
-                          "the assigned user"}{" "}
-                        can annotate this document
+                        ⚠️ Only {reviewerNames} can annotate this document
                       </p>
                     </div>
                   )}
@@ -814,6 +1233,27 @@ export default function DocumentViewerPage() {
                                 {a.assigned_to_name ?? "Unspecified"}
                               </div>
                             </div>
+                            {a.due_at &&
+                              isOpenAssignment(a) &&
+                              isOverdue(a.due_at) && (
+                                <Badge
+                                  variant="destructive"
+                                  className="text-xs"
+                                  title={describeDue(a.due_at)}
+                                >
+                                  Overdue
+                                </Badge>
+                              )}
+                            {isReviewOutcome(a.outcome) && (
+                              <Badge
+                                className={cn(
+                                  "text-xs",
+                                  OUTCOME_BADGE_CLASSES[a.outcome]
+                                )}
+                              >
+                                {OUTCOME_LABELS[a.outcome]}
+                              </Badge>
+                            )}
                           </div>
 
                           <div className="mb-2 text-xs text-gray-600">
@@ -826,6 +1266,33 @@ export default function DocumentViewerPage() {
                               </span>
                             </div>
                             <div>Status: {a.status ?? "—"}</div>
+                            {a.delegated_from && (
+                              <div>
+                                Delegated from{" "}
+                                {a.delegated_from_name ?? "an absent user"}
+                              </div>
+                            )}
+                            {a.acted_by_name && (
+                              <div>
+                                By {a.acted_by_name} on behalf of{" "}
+                                {a.assigned_to_name ?? "the assignee"}
+                              </div>
+                            )}
+                            {a.due_at && (
+                              <div>Due: {formatDateTimeCustom(a.due_at)}</div>
+                            )}
+                            {a.escalated_at && (
+                              <div className="text-red-600">
+                                Escalated to{" "}
+                                {a.escalated_to_name ?? "a supervisor"} on{" "}
+                                {formatDateTimeCustom(a.escalated_at)}
+                              </div>
+                            )}
+                            {a.note && (
+                              <div className="mt-1 italic break-words">
+                                “{a.note}”
+                              </div>
+                            )}
                           </div>
 
                           <div className="flex items-center justify-between text-xs text-gray-500">
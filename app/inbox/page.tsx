@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/hooks/use-auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { DocumentStatusBadge } from "@/components/documents/document-status-badge";
+import { Inbox } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Toaster } from "react-hot-toast";
+import type { QueueItem } from "@/lib/document-queues";
+
+export default function InboxPage() {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { user } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!user) {
+      router.push("/");
+      return;
+    }
+    fetchInbox();
+  }, [user, router]);
+
+  const fetchInbox = async () => {
+    try {
+      const response = await fetch("/api/inbox");
+      const json = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setItems(json.items ?? []);
+        setError(null);
+      } else {
+        setError(json?.error || "Failed to fetch team inbox");
+      }
+    } catch (error) {
+      console.error("Failed to fetch team inbox:", error);
+      setError("Failed to fetch team inbox");
+    }
+    setLoading(false);
+  };
+
+  const handleClaim = async (item: QueueItem, release: boolean) => {
+    setBusyId(item.document_id);
+    try {
+      const res = await fetch(
+        `/api/documents/${encodeURIComponent(item.document_id)}/claim`,
+        { method: release ? "DELETE" : "POST" }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to update claim");
+
+      toast.success(
+        release ? "Released back to the team queue" : "Document claimed"
+      );
+      await fetchInbox();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update claim"
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="flex h-screen">
+          <div className="flex-1 flex flex-col">
+            <main className="flex-1 flex items-center justify-center">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading team inbox...</p>
+              </div>
+            </main>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const userId = user ? String(user.id) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex h-screen">
+        <div className="flex-1 flex flex-col">
+          <main className="flex-1 overflow-auto p-6 page-transition">
+            <div className="space-y-6">
+              {/* Header */}
+              <div>
+                <h2 className="text-3xl font-bold text-gray-900">
+                  Team Inbox
+                </h2>
+                <p className="text-gray-600">
+                  Documents assigned to your role or department
+                </p>
+              </div>
+
+              <Card className="shadow-sm">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Inbox className="h-5 w-5 text-primary" />
+                    Queue ({items.length})
+                  </CardTitle>
+                  <CardDescription>
+                    Claim a document to lock it and annotate it; release it
+                    to hand it back to the team
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {error ? (
+                    <p className="text-center py-12 text-gray-600">{error}</p>
+                  ) : items.length === 0 ? (
+                    <div className="text-center py-12">
+                      <Inbox className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                      <p className="text-gray-600">
+                        Nothing is waiting for your team
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Document</TableHead>
+                            <TableHead>Queue</TableHead>
+                            <TableHead>Uploaded by</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>Claimed by</TableHead>
+                            <TableHead className="w-32">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {items.map((item) => (
+                            <TableRow
+                              key={item.document_id}
+                              className="hover:bg-gray-50 transition-colors"
+                            >
+                              <TableCell className="font-medium">
+                                <Link
+                                  href={`/documents/${item.document_id}`}
+                                  className="hover:underline"
+                                >
+                                  {item.title}
+                                </Link>
+                              </TableCell>
+                              <TableCell>
+                                {item.queue_name ?? "Unknown"}
+                                <Badge
+                                  variant="outline"
+                                  className="ml-2 capitalize"
+                                >
+                                  {item.queue_type}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>
+                                {item.uploader_name ?? "Unknown"}
+                              </TableCell>
+                              <TableCell>
+                                <DocumentStatusBadge status={item.status} />
+                              </TableCell>
+                              <TableCell>
+                                {item.claimed_by
+                                  ? item.claimed_by === userId
+                                    ? "You"
+                                    : item.claimed_by_name ?? "Unknown"
+                                  : "—"}
+                              </TableCell>
+                              <TableCell>
+                                {!item.claimed_by &&
+                                  item.uploaded_by !== userId && (
+                                    <Button
+                                      size="sm"
+                                      disabled={busyId === item.document_id}
+                                      onClick={() => handleClaim(item, false)}
+                                    >
+                                      Claim
+                                    </Button>
+                                  )}
+                                {item.claimed_by === userId && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={busyId === item.document_id}
+                                    onClick={() => handleClaim(item, true)}
+                                  >
+                                    Release
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </main>
+        </div>
+      </div>
+      <Toaster position="top-right" />
+    </div>
+  );
+}
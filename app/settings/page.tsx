@@ -13,6 +13,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { OutOfOfficeCard } from "@/components/settings/out-of-office-card";
 import { Eye, EyeOff, Save, Shield } from "lucide-react";
 import { toast } from "react-hot-toast";
 import { Toaster } from "react-hot-toast";
@@ -162,6 +163,8 @@ export default function SettingsPage() {
                   </Button>
                 </CardContent>
               </Card>
+
+              <OutOfOfficeCard userId={String(user.id)} />
             </div>
           </main>
         </div>
@@ -0,0 +1,198 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Download, FileText, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import WebViewer from "@/components/pdf/WebViewer";
+import type { ResolvedWatermark } from "@/lib/watermark";
+
+interface SharedDocument {
+  share: {
+    recipient: string;
+    guest_name: string;
+    scopes: string[];
+    expires_at: string;
+    shared_by: string | null;
+    requires_password: boolean;
+    unlocked: boolean;
+  };
+  document: {
+    id?: string;
+    title: string;
+    file_size?: number;
+    version_number?: number | null;
+  };
+  watermark: ResolvedWatermark | null;
+}
+
+export default function SharedDocumentPage() {
+  const params = useParams<{ token: string }>();
+  const token = params.token;
+  const apiBase = `/api/share/${encodeURIComponent(token)}`;
+
+  const [shared, setShared] = useState<SharedDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [password, setPassword] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+
+  const fetchShare = useCallback(async () => {
+    try {
+      const res = await fetch(apiBase);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "This link is not available");
+        return;
+      }
+      setShared(json);
+    } catch (e) {
+      console.error("Failed to open share link:", e);
+      setError("Failed to open this link");
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBase]);
+
+  useEffect(() => {
+    fetchShare();
+  }, [fetchShare]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+
+    setUnlocking(true);
+    setPasswordError(null);
+    try {
+      const res = await fetch(`${apiBase}/unlock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setPasswordError(json?.error || "Failed to unlock");
+        return;
+      }
+      setPassword("");
+      await fetchShare();
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  if (error || !shared) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="p-8 max-w-md text-center">
+          <FileText className="h-10 w-10 mx-auto text-gray-400 mb-3" />
+          <p className="text-gray-700">
+            {error ?? "This link is not available"}
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Ask the person who shared it for a new link.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  const { share, document } = shared;
+
+  if (!share.unlocked) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="p-8 w-full max-w-sm">
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <div className="text-center">
+              <Lock className="h-8 w-8 mx-auto text-primary mb-2" />
+              <h1 className="font-semibold">{document.title}</h1>
+              <p className="text-sm text-gray-600">
+                Enter the password you were given to open this document.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password</Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              {passwordError && (
+                <p className="text-sm text-red-600">{passwordError}</p>
+              )}
+            </div>
+            <Button
+              type="submit"
+              disabled={unlocking || !password}
+              className="w-full bg-primary hover:bg-primary/90"
+            >
+              {unlocking ? "Checking..." : "Open document"}
+            </Button>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
+  const canAnnotate = share.scopes.includes("annotate");
+  const canDownload = share.scopes.includes("download");
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex h-screen flex-col">
+        <div className="bg-white border-b p-4 flex items-center justify-between shadow-sm">
+          <div>
+            <h1 className="text-xl font-semibold">{document.title}</h1>
+            <p className="text-sm text-gray-600">
+              Shared with {share.recipient}
+              {share.shared_by ? ` by ${share.shared_by}` : ""} • Link
+              expires {new Date(share.expires_at).toLocaleString()}
+              {canAnnotate ? "" : " • View only"}
+            </p>
+          </div>
+          {canDownload && (
+            <Button
+              asChild
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <a href={`${apiBase}/file?download=1`}>
+                <Download className="h-4 w-4" />
+                Download
+              </a>
+            </Button>
+          )}
+        </div>
+
+        <div className="flex-1 bg-gray-100">
+          {document.id && (
+            <WebViewer
+              documentUrl={`${apiBase}/file`}
+              documentId={document.id}
+              currentUserId="guest"
+              currentUserName={share.guest_name}
+              existingAnnotations={[]}
+              share={{ token, canAnnotate }}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
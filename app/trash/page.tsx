@@ -0,0 +1,259 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { FileText, RotateCcw, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "react-hot-toast";
+import { Toaster } from "react-hot-toast";
+
+interface TrashedDocument {
+  id: string;
+  title: string;
+  file_size: number;
+  uploaded_by: string;
+  uploader_name: string | null;
+  deleted_at: string;
+  deleted_by: string | null;
+  deleted_by_name: string | null;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (!bytes) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+export default function TrashPage() {
+  const [documents, setDocuments] = useState<TrashedDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { user } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!user) {
+      router.push("/");
+      return;
+    }
+    fetchTrash();
+  }, [user, router]);
+
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch("/api/documents/trash");
+      if (response.ok) {
+        const { documents } = await response.json();
+        setDocuments(documents ?? []);
+      } else {
+        toast.error("Failed to fetch trash");
+      }
+    } catch (error) {
+      console.error("Failed to fetch trash:", error);
+      toast.error("Failed to fetch trash");
+    }
+    setLoading(false);
+  };
+
+  const handleRestore = async (doc: TrashedDocument) => {
+    setBusyId(doc.id);
+    try {
+      const res = await fetch(
+        `/api/documents/trash/${encodeURIComponent(doc.id)}`,
+        { method: "POST" }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to restore");
+
+      toast.success(`"${doc.title}" restored`);
+      setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+    } catch (error) {
+      console.error("Restore error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to restore");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (doc: TrashedDocument) => {
+    if (
+      !window.confirm(
+        `Permanently delete "${doc.title}"? Its file, versions, annotations and assignments will be removed. This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(doc.id);
+    try {
+      const res = await fetch(
+        `/api/documents/trash/${encodeURIComponent(doc.id)}`,
+        { method: "DELETE" }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to delete");
+
+      toast.success(`"${doc.title}" permanently deleted`);
+      setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+    } catch (error) {
+      console.error("Purge error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="flex h-screen">
+          <div className="flex-1 flex flex-col">
+            <main className="flex-1 flex items-center justify-center">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading trash...</p>
+              </div>
+            </main>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex h-screen">
+        <div className="flex-1 flex flex-col">
+          <main className="flex-1 overflow-auto p-6 page-transition">
+            <div className="space-y-6">
+              {/* Header */}
+              <div>
+                <h2 className="text-3xl font-bold text-gray-900">Trash</h2>
+                <p className="text-gray-600">
+                  Restore deleted documents or remove them permanently
+                </p>
+              </div>
+
+              <Card className="shadow-sm">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Trash2 className="h-5 w-5 text-primary" />
+                    Deleted Documents ({documents.length})
+                  </CardTitle>
+                  <CardDescription>
+                    Deleted documents are hidden from lists, search and the
+                    dashboard until restored
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {documents.length === 0 ? (
+                    <div className="text-center py-12">
+                      <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                      <p className="text-gray-600">Trash is empty</p>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-16">S/N</TableHead>
+                            <TableHead>Title</TableHead>
+                            <TableHead>Uploaded By</TableHead>
+                            <TableHead>Size</TableHead>
+                            <TableHead>Deleted</TableHead>
+                            <TableHead className="w-56">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {documents.map((doc, index) => (
+                            <TableRow
+                              key={doc.id}
+                              className="hover:bg-gray-50 transition-colors"
+                            >
+                              <TableCell className="font-medium">
+                                {index + 1}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  <FileText className="h-4 w-4 text-gray-400" />
+                                  <span className="font-medium">
+                                    {doc.title}
+                                  </span>
+                                </div>
+                              </TableCell>
+                              <TableCell>{doc.uploader_name ?? "-"}</TableCell>
+                              <TableCell>
+                                {formatFileSize(doc.file_size)}
+                              </TableCell>
+                              <TableCell>
+                                <div>
+                                  {format(
+                                    new Date(doc.deleted_at),
+                                    "MMM dd, yyyy HH:mm"
+                                  )}
+                                </div>
+                                {doc.deleted_by_name && (
+                                  <div className="text-xs text-gray-500">
+                                    by {doc.deleted_by_name}
+                                  </div>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={busyId === doc.id}
+                                    onClick={() => handleRestore(doc)}
+                                  >
+                                    <RotateCcw className="h-4 w-4 mr-1" />
+                                    Restore
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={busyId === doc.id}
+                                    onClick={() => handlePurge(doc)}
+                                    className="text-red-600 hover:bg-red-50 hover:text-red-700"
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-1" />
+                                    Delete Forever
+                                  </Button>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </main>
+        </div>
+      </div>
+      <Toaster position="top-right" />
+    </div>
+  );
+}
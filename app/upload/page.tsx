@@ -22,8 +22,9 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Progress } from "@/components/ui/progress";
-import { Upload, FileText, X, Search, Users } from "lucide-react";
+import { UploadQueueList } from "@/components/documents/upload-queue-list";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { Upload, Search } from "lucide-react";
 import { toast } from "react-hot-toast";
 import { cn } from "@/lib/utils";
 
@@ -34,15 +35,21 @@ interface User {
 }
 
 export default function UploadPage() {
-  const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [selectedUser, setSelectedUser] = useState<string>("");
   const [users, setUsers] = useState<User[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
+  const {
+    items: queue,
+    isUploading,
+    addFiles,
+    removeItem,
+    setTitle,
+    keepAsCopy,
+    uploadAsVersion,
+    uploadAll,
+  } = useUploadQueue();
 
   const { user } = useAuth();
   const router = useRouter();
@@ -85,86 +92,75 @@ export default function UploadPage() {
 
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
-      const file = acceptedFiles[0];
-      if (file && file.type === "application/pdf") {
-        setSelectedFile(file);
-        if (!title) {
-          setTitle(file.name.replace(".pdf", ""));
-        }
-      } else {
-        toast.error("Please upload a PDF file only");
+      const rejected = addFiles(acceptedFiles);
+      if (rejected.length > 0) {
+        toast.error(
+          `Only PDF files and zip archives can be uploaded (skipped ${rejected.length})`
+        );
       }
     },
-    [title]
+    [addFiles]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      "application/pdf": [".pdf"],
-    },
-    maxFiles: 1,
+    disabled: isUploading,
   });
 
-  const uploadDocument = async () => {
-    if (!selectedFile || !title || !user) {
-      toast.error("Please fill in all required fields");
+  const pendingCount = queue.filter(
+    (item) =>
+      item.status === "pending" ||
+      (item.status === "error" && item.uploaded === 0)
+  ).length;
+  const hasMissingTitle = queue.some(
+    (item) => !item.isArchive && item.status !== "done" && !item.title.trim()
+  );
+
+  const uploadDocuments = async () => {
+    if (pendingCount === 0 || !user) {
+      toast.error("Please add at least one file");
       return;
     }
 
-    if (!selectedUser) {
-      toast.error("Please select a user to assign the document to");
+    if (hasMissingTitle) {
+      toast.error("Every document needs a title");
       return;
     }
 
-    setIsUploading(true);
-    setUploadProgress(0);
-
-    try {
-      const formData = new FormData();
-      formData.append("file", selectedFile);
-      formData.append("title", title);
-      formData.append("description", description);
-      formData.append("assignmentType", "user");
-      formData.append("assignedUsers", selectedUser);
-
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress((prev) => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return prev;
-          }
-          return prev + 10;
-        });
-      }, 200);
-
-      const response = await fetch("/api/documents/upload", {
-        method: "POST",
-        body: formData,
-      });
-
-      clearInterval(progressInterval);
-      setUploadProgress(100);
+    if (!selectedUser) {
+      toast.error("Please select a user to assign the documents to");
+      return;
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Upload failed");
-      }
+    const { uploaded, failed, duplicates } = await uploadAll({
+      description,
+      selectedUser,
+    });
 
-      toast.success("Document uploaded successfully!");
+    if (duplicates > 0) {
+      toast.error(
+        `${duplicates} file${
+          duplicates === 1 ? " was" : "s were"
+        } already uploaded – choose what to do with ${
+          duplicates === 1 ? "it" : "them"
+        }`
+      );
+    } else if (failed === 0) {
+      toast.success(
+        uploaded === 1
+          ? "Document uploaded successfully!"
+          : `${uploaded} documents uploaded successfully!`
+      );
 
       setTimeout(() => {
         router.push("/documents");
       }, 1000);
-    } catch (error) {
-      console.error("Upload error:", error);
+    } else {
       toast.error(
-        error instanceof Error ? error.message : "Failed to upload document"
+        `${failed} file${failed === 1 ? "" : "s"} failed to upload${
+          uploaded > 0 ? ` (${uploaded} uploaded)` : ""
+        }`
       );
-    } finally {
-      setIsUploading(false);
-      setUploadProgress(0);
     }
   };
 
@@ -180,31 +176,21 @@ export default function UploadPage() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Upload className="h-5 w-5" />
-                Upload Document
+                Upload Documents
               </CardTitle>
               <CardDescription>
-                Upload a PDF document and assign it to a user for review
+                Upload one or more PDF documents and assign them to a user for
+                review
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               {/* Document Details */}
               <div className="space-y-4">
-                <div>
-                  <Label htmlFor="title">Document Title *</Label>
-                  <Input
-                    id="title"
-                    placeholder="Enter document title"
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                    required
-                  />
-                </div>
-
                 <div>
                   <Label htmlFor="description">Description</Label>
                   <Textarea
                     id="description"
-                    placeholder="Enter document description (optional)"
+                    placeholder="Description applied to every document (optional)"
                     value={description}
                     onChange={(e) => setDescription(e.target.value)}
                     rows={3}
@@ -275,76 +261,64 @@ export default function UploadPage() {
 
               {/* File Upload Area */}
               <div>
-                <Label>Upload PDF File *</Label>
+                <Label>Upload PDF Files *</Label>
                 <div
                   {...getRootProps()}
                   className={cn(
                     "border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors",
                     isDragActive
                       ? "border-blue-500 bg-blue-50"
-                      : selectedFile
+                      : queue.length > 0
                       ? "border-green-500 bg-green-50"
                       : "border-gray-300 hover:border-gray-400"
                   )}
                 >
                   <input {...getInputProps()} />
-                  {selectedFile ? (
-                    <div className="flex items-center justify-center space-x-2">
-                      <FileText className="h-8 w-8 text-green-600" />
-                      <div>
-                        <p className="font-medium text-green-700">
-                          {selectedFile.name}
-                        </p>
-                        <p className="text-sm text-green-600">
-                          {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                        </p>
-                      </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setSelectedFile(null);
-                        }}
-                      >
-                        <X size={16} />
-                      </Button>
-                    </div>
-                  ) : (
-                    <div>
-                      <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                      <p className="text-lg font-medium text-gray-700">
-                        {isDragActive
-                          ? "Drop your PDF here"
-                          : "Drag & drop a PDF file here"}
-                      </p>
-                      <p className="text-sm text-gray-500">
-                        or click to browse
-                      </p>
-                    </div>
-                  )}
+                  <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <p className="text-lg font-medium text-gray-700">
+                    {isDragActive
+                      ? "Drop your files here"
+                      : "Drag & drop PDFs, a folder or a zip archive here"}
+                  </p>
+                  <p className="text-sm text-gray-500">or click to browse</p>
                 </div>
               </div>
 
-              {/* Upload Progress */}
-              {isUploading && (
+              {queue.length > 0 && (
                 <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Uploading...</span>
-                    <span>{Math.round(uploadProgress)}%</span>
-                  </div>
-                  <Progress value={uploadProgress} className="w-full" />
+                  <Label>
+                    Files ({queue.length}) – titles default to the file name
+                  </Label>
+                  <UploadQueueList
+                    items={queue}
+                    disabled={isUploading}
+                    onTitleChange={setTitle}
+                    onRemove={removeItem}
+                    onKeepCopy={keepAsCopy}
+                    onUploadAsVersion={async (id, documentId) => {
+                      if (await uploadAsVersion(id, documentId)) {
+                        toast.success("Uploaded as a new version");
+                      }
+                    }}
+                  />
                 </div>
               )}
 
               <Button
-                onClick={uploadDocument}
+                onClick={uploadDocuments}
                 disabled={
-                  !selectedFile || !title || !selectedUser || isUploading
+                  pendingCount === 0 ||
+                  hasMissingTitle ||
+                  !selectedUser ||
+                  isUploading
                 }
                 className="w-full"
               >
-                {isUploading ? "Uploading..." : "Upload Document"}
+                {isUploading
+                  ? "Uploading..."
+                  : pendingCount > 1
+                  ? `Upload ${pendingCount} Files`
+                  : "Upload Document"}
               </Button>
             </CardContent>
           </Card>
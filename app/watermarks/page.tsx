@@ -0,0 +1,261 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/hooks/use-auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Pencil, Plus, Stamp, Trash2 } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Toaster } from "react-hot-toast";
+import { WatermarkPolicyDialog } from "@/components/documents/watermark-policy-dialog";
+import type { WatermarkPolicy } from "@/lib/watermark-policies";
+
+export default function WatermarksPage() {
+  const [policies, setPolicies] = useState<WatermarkPolicy[]>([]);
+  const [departments, setDepartments] = useState<
+    { id: string; name: string }[]
+  >([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<WatermarkPolicy | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { user } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!user) {
+      router.push("/");
+      return;
+    }
+    fetchPolicies();
+    fetchDepartments();
+  }, [user, router]);
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await fetch("/api/watermark-policies");
+      const json = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setPolicies(json.policies ?? []);
+        setError(null);
+      } else {
+        setError(json?.error || "Failed to fetch watermark policies");
+      }
+    } catch (error) {
+      console.error("Failed to fetch watermark policies:", error);
+      setError("Failed to fetch watermark policies");
+    }
+    setLoading(false);
+  };
+
+  const fetchDepartments = async () => {
+    try {
+      const response = await fetch("/api/departments");
+      if (response.ok) {
+        const { departments } = await response.json();
+        setDepartments(departments ?? []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch departments:", error);
+    }
+  };
+
+  const openDialog = (policy: WatermarkPolicy | null) => {
+    setEditing(policy);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (policy: WatermarkPolicy) => {
+    if (!window.confirm(`Delete the watermark policy "${policy.name}"?`)) {
+      return;
+    }
+    try {
+      const res = await fetch(
+        `/api/watermark-policies/${encodeURIComponent(policy.id)}`,
+        { method: "DELETE" }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to delete policy");
+
+      toast.success("Policy deleted");
+      setPolicies((prev) => prev.filter((p) => p.id !== policy.id));
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete policy"
+      );
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="flex h-screen">
+          <div className="flex-1 flex flex-col">
+            <main className="flex-1 flex items-center justify-center">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading watermark policies...</p>
+              </div>
+            </main>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex h-screen">
+        <div className="flex-1 flex flex-col">
+          <main className="flex-1 overflow-auto p-6 page-transition">
+            <div className="space-y-6">
+              {/* Header */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-3xl font-bold text-gray-900">
+                    Watermarks
+                  </h2>
+                  <p className="text-gray-600">
+                    Identify who viewed or downloaded a document
+                  </p>
+                </div>
+                {!error && (
+                  <Button
+                    onClick={() => openDialog(null)}
+                    className="bg-primary hover:bg-primary/90"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    New policy
+                  </Button>
+                )}
+              </div>
+
+              <Card className="shadow-sm">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Stamp className="h-5 w-5 text-primary" />
+                    Policies ({policies.length})
+                  </CardTitle>
+                  <CardDescription>
+                    The most specific enabled policy applies: department and
+                    classification, then classification, then the
+                    uploader&apos;s department, then a policy with neither
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {error ? (
+                    <p className="text-center py-12 text-gray-600">{error}</p>
+                  ) : policies.length === 0 ? (
+                    <div className="text-center py-12">
+                      <Stamp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                      <p className="text-gray-600">
+                        No policies yet; documents are not watermarked
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Applies to</TableHead>
+                            <TableHead>Text</TableHead>
+                            <TableHead>Style</TableHead>
+                            <TableHead className="w-32">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {policies.map((policy) => (
+                            <TableRow
+                              key={policy.id}
+                              className="hover:bg-gray-50 transition-colors"
+                            >
+                              <TableCell className="font-medium">
+                                {policy.name}
+                                {!policy.enabled && (
+                                  <Badge variant="outline" className="ml-2">
+                                    Disabled
+                                  </Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="capitalize">
+                                {[
+                                  policy.department_name,
+                                  policy.classification,
+                                ]
+                                  .filter(Boolean)
+                                  .join(" • ") || "All documents"}
+                              </TableCell>
+                              <TableCell className="font-mono text-xs">
+                                {policy.text_template}
+                              </TableCell>
+                              <TableCell className="text-sm text-gray-600">
+                                <span
+                                  className="inline-block h-3 w-3 rounded-full mr-2 align-middle"
+                                  style={{ backgroundColor: policy.color }}
+                                />
+                                {policy.position}, {policy.font_size}pt,{" "}
+                                {Math.round(policy.opacity * 100)}%
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex gap-1">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openDialog(policy)}
+                                    aria-label={`Edit ${policy.name}`}
+                                  >
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-red-600"
+                                    onClick={() => handleDelete(policy)}
+                                    aria-label={`Delete ${policy.name}`}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </main>
+        </div>
+      </div>
+
+      <WatermarkPolicyDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        policy={editing}
+        departments={departments}
+        onSaved={fetchPolicies}
+      />
+      <Toaster position="top-right" />
+    </div>
+  );
+}
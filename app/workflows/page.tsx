@@ -0,0 +1,283 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/hooks/use-auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ChevronRight, Pencil, Plus, Trash2, Workflow } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Toaster } from "react-hot-toast";
+import { WorkflowTemplateDialog } from "@/components/documents/workflow-template-dialog";
+import type { WorkflowTemplate } from "@/lib/workflow";
+
+type Option = { id: string; name: string };
+
+export default function WorkflowsPage() {
+  const [workflows, setWorkflows] = useState<WorkflowTemplate[]>([]);
+  const [departments, setDepartments] = useState<Option[]>([]);
+  const [roles, setRoles] = useState<Option[]>([]);
+  const [users, setUsers] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<WorkflowTemplate | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { user } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!user) {
+      router.push("/");
+      return;
+    }
+    fetchWorkflows();
+    fetchTargets();
+  }, [user, router]);
+
+  const fetchWorkflows = async () => {
+    try {
+      const response = await fetch("/api/workflows");
+      const json = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setWorkflows(json.workflows ?? []);
+        setError(null);
+      } else {
+        setError(json?.error || "Failed to fetch workflows");
+      }
+    } catch (error) {
+      console.error("Failed to fetch workflows:", error);
+      setError("Failed to fetch workflows");
+    }
+    setLoading(false);
+  };
+
+  // Everything a step can be routed to
+  const fetchTargets = async () => {
+    const load = async (url: string, key: string) => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) return [];
+        const json = await response.json();
+        return ((json?.[key] ?? []) as any[]).map((o) => ({
+          id: String(o.id),
+          name: String(o.name),
+        }));
+      } catch (error) {
+        console.error(`Failed to fetch ${key}:`, error);
+        return [];
+      }
+    };
+    setDepartments(await load("/api/departments", "departments"));
+    setRoles(await load("/api/roles", "roles"));
+    setUsers(await load("/api/users", "users"));
+  };
+
+  const openDialog = (workflow: WorkflowTemplate | null) => {
+    setEditing(workflow);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (workflow: WorkflowTemplate) => {
+    if (
+      !window.confirm(
+        `Delete the workflow "${workflow.name}"? Documents already on it will finish it.`
+      )
+    ) {
+      return;
+    }
+    try {
+      const res = await fetch(
+        `/api/workflows/${encodeURIComponent(workflow.id)}`,
+        { method: "DELETE" }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to delete workflow");
+
+      toast.success("Workflow deleted");
+      setWorkflows((prev) => prev.filter((w) => w.id !== workflow.id));
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete workflow"
+      );
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="flex h-screen">
+          <div className="flex-1 flex flex-col">
+            <main className="flex-1 flex items-center justify-center">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading workflows...</p>
+              </div>
+            </main>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex h-screen">
+        <div className="flex-1 flex flex-col">
+          <main className="flex-1 overflow-auto p-6 page-transition">
+            <div className="space-y-6">
+              {/* Header */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-3xl font-bold text-gray-900">
+                    Workflows
+                  </h2>
+                  <p className="text-gray-600">
+                    Multi-step approval routes documents can be sent through
+                  </p>
+                </div>
+                {!error && (
+                  <Button
+                    onClick={() => openDialog(null)}
+                    className="bg-primary hover:bg-primary/90"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    New workflow
+                  </Button>
+                )}
+              </div>
+
+              <Card className="shadow-sm">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Workflow className="h-5 w-5 text-primary" />
+                    Workflows ({workflows.length})
+                  </CardTitle>
+                  <CardDescription>
+                    A workflow limited to a department is offered for documents
+                    uploaded by its members; the others for every document
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {error ? (
+                    <p className="text-center py-12 text-gray-600">{error}</p>
+                  ) : workflows.length === 0 ? (
+                    <div className="text-center py-12">
+                      <Workflow className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                      <p className="text-gray-600">
+                        No workflows yet; documents are reviewed by a single
+                        assignee
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Applies to</TableHead>
+                            <TableHead>Steps</TableHead>
+                            <TableHead className="w-32">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {workflows.map((workflow) => (
+                            <TableRow
+                              key={workflow.id}
+                              className="hover:bg-gray-50 transition-colors"
+                            >
+                              <TableCell className="font-medium">
+                                {workflow.name}
+                                {!workflow.enabled && (
+                                  <Badge variant="outline" className="ml-2">
+                                    Disabled
+                                  </Badge>
+                                )}
+                                {workflow.description && (
+                                  <p className="text-xs font-normal text-gray-500">
+                                    {workflow.description}
+                                  </p>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {workflow.department_name || "All documents"}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex flex-wrap items-center gap-1 text-sm">
+                                  {workflow.steps.map((step, i) => (
+                                    <span
+                                      key={step.id}
+                                      className="flex items-center gap-1"
+                                    >
+                                      {i > 0 && (
+                                        <ChevronRight className="h-3 w-3 text-gray-400" />
+                                      )}
+                                      <span title={step.target_name ?? ""}>
+                                        {step.name}
+                                      </span>
+                                    </span>
+                                  ))}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex gap-1">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openDialog(workflow)}
+                                    aria-label={`Edit ${workflow.name}`}
+                                  >
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-red-600"
+                                    onClick={() => handleDelete(workflow)}
+                                    aria-label={`Delete ${workflow.name}`}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </main>
+        </div>
+      </div>
+
+      <WorkflowTemplateDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        template={editing}
+        departments={departments}
+        roles={roles}
+        users={users}
+        onSaved={fetchWorkflows}
+      />
+      <Toaster position="top-right" />
+    </div>
+  );
+}
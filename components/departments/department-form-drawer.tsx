@@ -5,6 +5,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Sheet,
   SheetContent,
@@ -14,11 +21,22 @@ import {
 } from "@/components/ui/sheet";
 import { Building2, Save } from "lucide-react";
 import { toast } from "react-hot-toast";
+import { MAX_SLA_DAYS } from "@/lib/assignment-due";
+
+// Radix Select items can't have an empty value
+const NO_HEAD = "none";
 
 interface Department {
   id: string;
   name: string;
   description?: string;
+  sla_days?: number | null;
+  head_user_id?: string | null;
+}
+
+interface UserOption {
+  id: string;
+  name: string;
 }
 
 interface DepartmentFormDrawerProps {
@@ -36,6 +54,9 @@ export function DepartmentFormDrawer({
 }: DepartmentFormDrawerProps) {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [slaDays, setSlaDays] = useState("");
+  const [headUserId, setHeadUserId] = useState(NO_HEAD);
+  const [users, setUsers] = useState<UserOption[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
   const isEditing = !!department;
@@ -44,15 +65,35 @@ export function DepartmentFormDrawer({
     if (department) {
       setName(department.name);
       setDescription(department.description || "");
+      setSlaDays(department.sla_days ? String(department.sla_days) : "");
+      setHeadUserId(department.head_user_id || NO_HEAD);
     } else {
       setName("");
       setDescription("");
+      setSlaDays("");
+      setHeadUserId(NO_HEAD);
     }
   }, [department]);
 
+  // Anyone can be made head of a department
+  useEffect(() => {
+    if (!open) return;
+    fetch("/api/users?limit=200")
+      .then((r) => r.json())
+      .then((j) => {
+        const list = j?.users || j?.data || [];
+        setUsers(
+          list.map((u: any) => ({ id: String(u.id), name: String(u.name) }))
+        );
+      })
+      .catch((e) => console.warn("Failed to load users for head select", e));
+  }, [open]);
+
   const resetForm = () => {
     setName("");
     setDescription("");
+    setSlaDays("");
+    setHeadUserId(NO_HEAD);
   };
 
   const handleSubmit = async () => {
@@ -76,6 +117,8 @@ export function DepartmentFormDrawer({
         body: JSON.stringify({
           name: name.trim(),
           description: description.trim(),
+          sla_days: slaDays ? Number(slaDays) : null,
+          head_user_id: headUserId === NO_HEAD ? null : headUserId,
         }),
       });
 
@@ -137,6 +180,44 @@ export function DepartmentFormDrawer({
               />
             </div>
 
+            <div>
+              <Label htmlFor="sla_days">Review SLA (days)</Label>
+              <Input
+                id="sla_days"
+                type="number"
+                min={1}
+                max={MAX_SLA_DAYS}
+                placeholder="No due date"
+                value={slaDays}
+                onChange={(e) => setSlaDays(e.target.value)}
+                className="focus:ring-primary focus:border-primary"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Assignments to members are due this many days after they are
+                made, unless a due date is set
+              </p>
+            </div>
+
+            <div>
+              <Label>Department Head</Label>
+              <Select value={headUserId} onValueChange={setHeadUserId}>
+                <SelectTrigger className="focus:ring-primary focus:border-primary">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent position="popper">
+                  <SelectItem value={NO_HEAD}>No department head</SelectItem>
+                  {users.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>
+                      {u.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="mt-1 text-xs text-gray-500">
+                Overdue assignments of members are escalated to them
+              </p>
+            </div>
+
             {/* <div>
               <Label htmlFor="description">Description</Label>
               <Textarea
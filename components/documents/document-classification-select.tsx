@@ -0,0 +1,85 @@
+// components/documents/document-classification-select.tsx
+"use client";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DOCUMENT_CLASSIFICATIONS } from "@/lib/watermark";
+
+// Radix Select items can't have an empty value
+const UNCLASSIFIED = "none";
+
+interface DocumentClassificationSelectProps {
+  documentId: string;
+  classification: string | null;
+  onChanged: (classification: string | null) => void;
+}
+
+/** Sets the classification that picks a document's watermark policy */
+export function DocumentClassificationSelect({
+  documentId,
+  classification,
+  onChanged,
+}: DocumentClassificationSelectProps) {
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = async (value: string) => {
+    const next = value === UNCLASSIFIED ? null : value;
+    setSaving(true);
+    try {
+      const res = await fetch(
+        `/api/documents/${encodeURIComponent(documentId)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ classification: next }),
+        }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(json?.error || "Failed to update classification");
+      }
+
+      toast.success("Classification updated");
+      onChanged(next);
+    } catch (error) {
+      console.error("Classify document error:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update classification"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Select
+      value={classification ?? UNCLASSIFIED}
+      onValueChange={handleChange}
+      disabled={saving}
+    >
+      <SelectTrigger
+        className="h-8 w-40 capitalize"
+        aria-label="Classification"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNCLASSIFIED}>Unclassified</SelectItem>
+        {DOCUMENT_CLASSIFICATIONS.map((value) => (
+          <SelectItem key={value} value={value} className="capitalize">
+            {value}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,365 @@
+// components/documents/document-compare-view.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronUp, GitCompare, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { DocumentVersionSummary } from "@/components/documents/document-version-picker";
+import type {
+  PageComparison,
+  PdfComparison,
+  TextChange,
+  TextChangeType,
+} from "@/lib/pdf-compare";
+
+// Pages are rendered at this width and scaled to fit the panes
+const RENDER_WIDTH = 800;
+
+const CHANGE_STYLES: Record<TextChangeType, string> = {
+  added: "bg-green-400/30 ring-1 ring-green-600/60",
+  removed: "bg-red-400/30 ring-1 ring-red-600/60",
+  changed: "bg-amber-300/40 ring-1 ring-amber-600/60",
+};
+
+interface VersionComparison extends PdfComparison {
+  from: { version_number: number };
+  to: { version_number: number };
+}
+
+interface DocumentCompareViewProps {
+  documentId: string;
+  /** Newest first, as the versions API returns them */
+  versions: DocumentVersionSummary[];
+  /** The version on the right; the one before it goes on the left */
+  initialTo?: number | null;
+  onClose: () => void;
+}
+
+/**
+ * Two versions side by side with the text that changed highlighted. The
+ * panes scroll together; prev/next step through the changes in order.
+ */
+export function DocumentCompareView({
+  documentId,
+  versions,
+  initialTo,
+  onClose,
+}: DocumentCompareViewProps) {
+  const latest = versions[0]?.version_number ?? 1;
+  const [to, setTo] = useState(initialTo ?? latest);
+  const [from, setFrom] = useState(
+    versions.find((v) => v.version_number < (initialTo ?? latest))
+      ?.version_number ?? latest
+  );
+  const [comparison, setComparison] = useState<VersionComparison | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [current, setCurrent] = useState(0);
+
+  const leftRef = useRef<HTMLDivElement | null>(null);
+  const rightRef = useRef<HTMLDivElement | null>(null);
+  // The pane being scrolled by the user; the other one follows it
+  const scrollSource = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (from === to) {
+      setComparison(null);
+      setError("Choose two different versions");
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetch(
+      `/api/documents/${encodeURIComponent(
+        documentId
+      )}/compare?from=${from}&to=${to}`
+    )
+      .then(async (res) => {
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(json?.error || "Failed to compare");
+        if (!cancelled) {
+          setComparison(json);
+          setCurrent(0);
+        }
+      })
+      .catch((err) => {
+        console.error("Compare versions error:", err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to compare");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, from, to]);
+
+  // Every change in reading order, with the page it is on
+  const changes: { page: number; change: TextChange }[] = [];
+  const changeIndex = new Map<TextChange, number>();
+  comparison?.pages.forEach((page) =>
+    page.changes.forEach((change) => {
+      changeIndex.set(change, changes.length);
+      changes.push({ page: page.page_number, change });
+    })
+  );
+
+  const handleScroll = (source: HTMLDivElement | null) => {
+    const other =
+      source === leftRef.current ? rightRef.current : leftRef.current;
+    if (!source || !other) return;
+    if (scrollSource.current && scrollSource.current !== source) return;
+
+    scrollSource.current = source;
+    const range = source.scrollHeight - source.clientHeight;
+    const ratio = range > 0 ? source.scrollTop / range : 0;
+    other.scrollTop = ratio * (other.scrollHeight - other.clientHeight);
+    other.scrollLeft = source.scrollLeft;
+    window.requestAnimationFrame(() => {
+      scrollSource.current = null;
+    });
+  };
+
+  const goTo = (index: number) => {
+    if (changes.length === 0) return;
+    const next = (index + changes.length) % changes.length;
+    setCurrent(next);
+    // Scroll the side the change is visible on; the other one follows
+    const target = document.getElementById(`compare-change-${next}`);
+    target?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  const renderPage = (
+    page: PageComparison,
+    sideName: "before" | "after",
+    version: number
+  ) => {
+    const size = page[sideName];
+    if (!size) {
+      return (
+        <div
+          key={page.page_number}
+          className="flex items-center justify-center bg-gray-200 text-sm text-gray-500 shadow-sm"
+          style={{ aspectRatio: "612 / 792" }}
+        >
+          No page {page.page_number} in v{version}
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={page.page_number}
+        className="relative bg-white shadow-sm"
+        style={{ aspectRatio: `${size.width} / ${size.height}` }}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={`/api/documents/${encodeURIComponent(documentId)}/pages/${
+            page.page_number
+          }?version=${version}&width=${RENDER_WIDTH}`}
+          alt={`Page ${page.page_number} of v${version}`}
+          loading="lazy"
+          className="absolute inset-0 w-full h-full"
+        />
+        {page.changes.map((change) => {
+          const index = changeIndex.get(change)!;
+          const boxes = change[sideName]?.boxes ?? [];
+          return boxes.map((box, i) => (
+            <div
+              key={`${index}-${i}`}
+              id={
+                i === 0 && sideName === (change.after ? "after" : "before")
+                  ? `compare-change-${index}`
+                  : undefined
+              }
+              title={change[sideName]?.text}
+              onClick={() => setCurrent(index)}
+              className={cn(
+                "absolute rounded-sm cursor-pointer",
+                CHANGE_STYLES[change.type],
+                index === current && "ring-2 ring-primary"
+              )}
+              style={{
+                left: `${(box.x / size.width) * 100}%`,
+                top: `${(box.y / size.height) * 100}%`,
+                width: `${(box.width / size.width) * 100}%`,
+                height: `${(box.height / size.height) * 100}%`,
+              }}
+            />
+          ));
+        })}
+      </div>
+    );
+  };
+
+  const selected = changes[current];
+
+  return (
+    <div className="flex flex-col h-full bg-gray-100">
+      {/* Toolbar */}
+      <div className="bg-white border-b px-4 py-2 flex flex-wrap items-center gap-3">
+        <GitCompare className="h-4 w-4 text-primary" />
+        <VersionSelect value={from} versions={versions} onChange={setFrom} />
+        <span className="text-gray-500">→</span>
+        <VersionSelect value={to} versions={versions} onChange={setTo} />
+
+        {comparison && (
+          <div className="flex items-center gap-2 text-xs">
+            <Badge
+              variant="outline"
+              className="border-green-600 text-green-700"
+            >
+              +{comparison.summary.added} added
+            </Badge>
+            <Badge
+              variant="outline"
+              className="border-red-600 text-red-700"
+            >
+              −{comparison.summary.removed} removed
+            </Badge>
+            <Badge
+              variant="outline"
+              className="border-amber-600 text-amber-700"
+            >
+              ~{comparison.summary.changed} changed
+            </Badge>
+            <span className="text-gray-500">
+              on {comparison.summary.pages_changed} page
+              {comparison.summary.pages_changed === 1 ? "" : "s"}
+            </span>
+          </div>
+        )}
+
+        <div className="ml-auto flex items-center gap-2">
+          {changes.length > 0 && (
+            <>
+              <span className="text-sm text-gray-600">
+                Change {current + 1} of {changes.length}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => goTo(current - 1)}
+                aria-label="Previous change"
+              >
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => goTo(current + 1)}
+                aria-label="Next change"
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4 mr-1" />
+            Close compare
+          </Button>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="bg-white border-b px-4 py-2 text-sm flex gap-2 items-baseline">
+          <span className="text-gray-500 shrink-0">
+            Page {selected.page}:
+          </span>
+          {selected.change.before && (
+            <span className="line-through text-red-700 truncate">
+              {selected.change.before.text}
+            </span>
+          )}
+          {selected.change.before && selected.change.after && (
+            <span className="text-gray-400">→</span>
+          )}
+          {selected.change.after && (
+            <span className="text-green-700 truncate">
+              {selected.change.after.text}
+            </span>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-gray-600">Comparing versions...</p>
+          </div>
+        </div>
+      ) : error || !comparison ? (
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-gray-600">{error ?? "Nothing to compare"}</p>
+        </div>
+      ) : (
+        <div className="flex-1 grid grid-cols-2 gap-px bg-gray-300 min-h-0">
+          {(["before", "after"] as const).map((sideName) => {
+            const version = sideName === "before" ? from : to;
+            return (
+              <div
+                key={sideName}
+                ref={sideName === "before" ? leftRef : rightRef}
+                onScroll={(e) => handleScroll(e.currentTarget)}
+                className="overflow-auto bg-gray-100"
+              >
+                <div className="sticky top-0 z-10 bg-gray-100/95 px-4 py-1 text-xs font-medium text-gray-600 border-b">
+                  v{version}
+                  {sideName === "before" ? " (before)" : " (after)"}
+                </div>
+                <div className="p-4 space-y-4 max-w-3xl mx-auto">
+                  {comparison.pages.map((page) =>
+                    renderPage(page, sideName, version)
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VersionSelect({
+  value,
+  versions,
+  onChange,
+}: {
+  value: number;
+  versions: DocumentVersionSummary[];
+  onChange: (version: number) => void;
+}) {
+  return (
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="w-[120px] h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent position="popper">
+        {versions.map((v) => (
+          <SelectItem key={v.id} value={String(v.version_number)}>
+            v{v.version_number}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,130 @@
+// components/documents/document-content-search.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Input } from "@/components/ui/input";
+import { FileSearch, Loader2 } from "lucide-react";
+
+interface SearchHit {
+  document_id: string;
+  title: string;
+  page_number: number;
+  snippet: string;
+  score: number;
+}
+
+const DEBOUNCE_MS = 300;
+
+/** Wrap case-insensitive matches of the query's words in <mark> */
+function highlight(snippet: string, query: string) {
+  const words = query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (words.length === 0) return snippet;
+
+  const pattern = new RegExp(`(${words.join("|")})`, "gi");
+  return snippet.split(pattern).map((part, i) =>
+    i % 2 === 1 ? (
+      <mark key={i} className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+}
+
+/**
+ * Searches the text inside documents (not just titles) and links each hit
+ * to the matching page in the viewer.
+ */
+export function DocumentContentSearch() {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [searched, setSearched] = useState(false);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      setSearched(false);
+      return;
+    }
+
+    const requestId = ++requestIdRef.current;
+    const timer = window.setTimeout(async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(
+          `/api/documents/search?q=${encodeURIComponent(q)}`,
+          { credentials: "include" }
+        );
+        const data = await res.json().catch(() => ({}));
+        // Ignore responses for queries the user has already typed past
+        if (requestId !== requestIdRef.current) return;
+        setResults(res.ok ? data.results ?? [] : []);
+        setSearched(true);
+      } catch (err) {
+        console.error("Content search failed:", err);
+        if (requestId === requestIdRef.current) setResults([]);
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [query]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <FileSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+        <Input
+          placeholder="Search inside documents..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="pl-10 focus:ring-primary focus:border-primary"
+        />
+        {loading && (
+          <Loader2 className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4 animate-spin" />
+        )}
+      </div>
+
+      {query.trim() && searched && (
+        <div className="border rounded-md divide-y max-h-80 overflow-y-auto bg-white">
+          {results.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">
+              No documents contain &quot;{query.trim()}&quot;
+            </p>
+          ) : (
+            results.map((hit) => (
+              <Link
+                key={`${hit.document_id}-${hit.page_number}`}
+                href={`/documents/${hit.document_id}?page=${
+                  hit.page_number
+                }&q=${encodeURIComponent(query.trim())}`}
+                className="block p-3 hover:bg-gray-50"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm text-gray-900 truncate">
+                    {hit.title}
+                  </span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    Page {hit.page_number}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-600 mt-1 line-clamp-2">
+                  {highlight(hit.snippet, query.trim())}
+                </p>
+              </Link>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
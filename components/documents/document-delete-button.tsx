@@ -0,0 +1,71 @@
+// components/documents/document-delete-button.tsx
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Trash2 } from "lucide-react";
+import { toast } from "react-hot-toast";
+
+interface DocumentDeleteButtonProps {
+  documentId: string;
+  title: string;
+  onDeleted: () => void;
+  /** Show "Delete" next to the icon instead of an icon-only button */
+  showLabel?: boolean;
+}
+
+/** Moves a document to the trash after a confirmation prompt */
+export function DocumentDeleteButton({
+  documentId,
+  title,
+  onDeleted,
+  showLabel = false,
+}: DocumentDeleteButtonProps) {
+  const [deleting, setDeleting] = useState(false);
+
+  const handleDelete = async () => {
+    if (
+      !window.confirm(
+        `Move "${title}" to the trash? You can restore it from the Trash page.`
+      )
+    ) {
+      return;
+    }
+
+    setDeleting(true);
+    try {
+      const res = await fetch(
+        `/api/documents/${encodeURIComponent(documentId)}`,
+        { method: "DELETE" }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(json?.error || "Failed to delete document");
+      }
+
+      toast.success("Document moved to trash");
+      onDeleted();
+    } catch (error) {
+      console.error("Delete document error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete document"
+      );
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={deleting}
+      onClick={handleDelete}
+      title="Move to trash"
+      className="text-red-600 hover:bg-red-50 hover:text-red-700"
+    >
+      <Trash2 className={showLabel ? "h-4 w-4 mr-1" : "h-4 w-4"} />
+      {showLabel && (deleting ? "Deleting..." : "Delete")}
+    </Button>
+  );
+}
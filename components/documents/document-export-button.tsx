@@ -0,0 +1,131 @@
+// components/documents/document-export-button.tsx
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { toast } from "react-hot-toast";
+
+/** Save a response body under the name from its Content-Disposition */
+async function saveResponse(res: Response, fallbackName: string) {
+  const disposition = res.headers.get("content-disposition") ?? "";
+  const fileName =
+    /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download a document with its annotations flattened in, rendered on the
+ * server so it works without the viewer.
+ */
+export async function downloadDocumentExport(documentId: string) {
+  const res = await fetch(
+    `/api/documents/${encodeURIComponent(documentId)}/export?format=pdf`
+  );
+  if (!res.ok) {
+    const json = await res.json().catch(() => ({}));
+    throw new Error(json?.error || "Failed to export document");
+  }
+  await saveResponse(res, "document.pdf");
+}
+
+interface DocumentExportButtonProps {
+  documentId: string;
+  size?: "sm" | "default";
+}
+
+export function DocumentExportButton({
+  documentId,
+  size = "sm",
+}: DocumentExportButtonProps) {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await downloadDocumentExport(documentId);
+    } catch (error) {
+      console.error("Document export error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export document"
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size={size}
+      onClick={handleExport}
+      disabled={exporting}
+      title="Export with annotations"
+      aria-label="Export with annotations"
+    >
+      <Download className="h-4 w-4" />
+    </Button>
+  );
+}
+
+interface BulkExportButtonProps {
+  documentIds: string[];
+  onExported?: () => void;
+}
+
+/** Exports the selected documents as one zip */
+export function BulkExportButton({
+  documentIds,
+  onExported,
+}: BulkExportButtonProps) {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const res = await fetch("/api/documents/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ documentIds, format: "pdf" }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        throw new Error(json?.error || "Failed to export documents");
+      }
+      await saveResponse(res, "documents.zip");
+      toast.success(
+        `Exported ${documentIds.length} document${
+          documentIds.length === 1 ? "" : "s"
+        }`
+      );
+      onExported?.();
+    } catch (error) {
+      console.error("Bulk export error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export documents"
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={handleExport}
+      disabled={exporting || documentIds.length === 0}
+    >
+      <Download className="h-4 w-4 mr-1" />
+      {exporting ? "Exporting..." : "Export"}
+    </Button>
+  );
+}
@@ -0,0 +1,115 @@
+// components/documents/document-lifecycle-actions.tsx
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { STATUS_LABELS, type AvailableAction } from "@/lib/document-status";
+
+interface DocumentLifecycleActionsProps {
+  documentId: string;
+  /** As returned by the documents API in `available_actions` */
+  actions: AvailableAction[];
+  onTransitioned: () => void;
+  size?: "sm" | "default";
+}
+
+/**
+ * Menu of the status changes the current user may make. Renders nothing
+ * when there are none, so it can be dropped in unconditionally.
+ */
+export function DocumentLifecycleActions({
+  documentId,
+  actions,
+  onTransitioned,
+  size = "sm",
+}: DocumentLifecycleActionsProps) {
+  const [submitting, setSubmitting] = useState(false);
+
+  if (actions.length === 0) return null;
+
+  const runAction = async (action: AvailableAction) => {
+    let reason: string | null = null;
+    if (action.requires_reason) {
+      reason = window.prompt(
+        `Why do you want to ${action.label.toLowerCase()} this document?`
+      );
+      if (reason === null) return;
+      if (!reason.trim()) {
+        toast.error("A reason is required");
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(
+        `/api/documents/${encodeURIComponent(documentId)}/transition`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: action.action, reason }),
+        }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(json?.error || "Failed to change status");
+      }
+
+      if (json?.transition) {
+        toast.success(
+          action.action === "send_back"
+            ? "Document sent back to the previous reviewer"
+            : `Document is now ${STATUS_LABELS[action.to].toLowerCase()}`
+        );
+      } else {
+        // Other reviewers still have to decide
+        const review = json?.review;
+        toast.success(
+          review
+            ? `Your decision was recorded (${review.approved} of ${review.needed} approvals needed)`
+            : "Your decision was recorded"
+        );
+      }
+      onTransitioned();
+    } catch (error) {
+      console.error("Document transition error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to change status"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={submitting}>
+          {submitting ? "Updating..." : "Status"}
+          <ChevronDown className="h-4 w-4 ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {actions.map((action) => (
+          <DropdownMenuItem
+            key={action.action}
+            onSelect={() => runAction(action)}
+            className={
+              action.action === "reject" ? "text-red-600 focus:text-red-700" : ""
+            }
+          >
+            {action.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,11 +1,20 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { Suspense, useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/hooks/use-auth";
 import { DocumentUploadDrawer } from "@/components/documents/document-upload-drawer";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -21,7 +30,45 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { FileText, Search, Eye, Upload, ArrowUpDown } from "lucide-react";
+import {
+  FileText,
+  Search,
+  Eye,
+  Upload,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+  X,
+  Bookmark,
+} from "lucide-react";
+import { DocumentContentSearch } from "@/components/documents/document-content-search";
+import { DocumentStatusBadge } from "@/components/documents/document-status-badge";
+import { DocumentLifecycleActions } from "@/components/documents/document-lifecycle-actions";
+import { DocumentDeleteButton } from "@/components/documents/document-delete-button";
+import { DocumentThumbnail } from "@/components/documents/document-thumbnail";
+import {
+  BulkExportButton,
+  DocumentExportButton,
+} from "@/components/documents/document-export-button";
+import { SaveViewDialog } from "@/components/documents/save-view-dialog";
+import { useDocumentQuery } from "@/hooks/use-document-query";
+import { notifyDocumentViewsChanged } from "@/hooks/use-saved-views";
+import {
+  CURRENT_USER,
+  DEFAULT_DOCUMENT_QUERY,
+  MY_DEPARTMENT,
+  hasDocumentFilters,
+  isAbsoluteDate,
+  toViewSearchParams,
+  type DocumentSortKey,
+} from "@/lib/document-list-query";
+import {
+  DOCUMENT_STATUSES,
+  STATUS_LABELS,
+  type AvailableAction,
+  type DocumentStatus,
+} from "@/lib/document-status";
+import { describeDue, isOverdue } from "@/lib/assignment-due";
 import { format } from "date-fns";
 
 interface Assignment {
@@ -46,82 +93,125 @@ interface Document {
   updated_at: string | null;
   uploader_name?: string | null;
   assignments?: Assignment[];
+  status?: string;
+  available_actions?: AvailableAction[];
+  can_delete?: boolean;
+  current_version?: number;
+  /** Earliest due date of the document's open assignments */
+  due_at?: string | null;
 }
 
-type SortKey =
-  | "title"
-  | "uploader_name"
-  | "assigned"
-  | "file_size"
-  | "created_at";
+const ALL = "all";
+const CUSTOM = "custom";
+
+// Relative upload date ranges; they stay relative when saved in a view
+const DATE_PRESETS = [
+  { id: "today", label: "Today", from: "today", to: null },
+  { id: "week", label: "Last 7 days", from: "-7d", to: null },
+  { id: "month", label: "This month", from: "month", to: null },
+  { id: "older-3", label: "Older than 3 days", from: null, to: "-3d" },
+  { id: "older-30", label: "Older than 30 days", from: null, to: "-30d" },
+] as const;
 
 interface DocumentListProps {
   onDocumentSelect?: (document: Document) => void; // Make it optional
+  /** Rows per page when the URL doesn't say otherwise */
+  pageSize?: number;
+  canUpload?: boolean;
 }
 
-export function DocumentList({ onDocumentSelect }: DocumentListProps) {
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [loading, setLoading] = useState(true);
+// useSearchParams needs a Suspense boundary on statically rendered pages
+export function DocumentList(props: DocumentListProps) {
+  return (
+    <Suspense fallback={<DocumentListLoading />}>
+      <DocumentListContent {...props} />
+    </Suspense>
+  );
+}
+
+function DocumentListLoading() {
+  return (
+    <div className="flex items-center justify-center h-64">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading documents...</p>
+      </div>
+    </div>
+  );
+}
+
+function DocumentListContent({
+  onDocumentSelect,
+  pageSize = 5, // Smaller for dashboard
+  canUpload = true,
+}: DocumentListProps) {
   const [uploadDrawerOpen, setUploadDrawerOpen] = useState(false);
+  const [saveViewOpen, setSaveViewOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   const { user } = useAuth();
   const router = useRouter();
 
-  // Pagination & sorting state
-  const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = 5; // Smaller for dashboard
-  const [sortConfig, setSortConfig] = useState<{
-    key: SortKey;
-    direction: "asc" | "desc";
-  } | null>(null);
+  const {
+    documents,
+    total,
+    totalPages,
+    query,
+    filterOptions,
+    loading,
+    error,
+    setQuery,
+    resetFilters,
+    refresh,
+  } = useDocumentQuery<Document>({
+    pageSize,
+    enabled: !!user,
+  });
+  const currentPage = query.page;
+  const filtered = hasDocumentFilters(query);
+  const customized =
+    filtered ||
+    query.sort !== DEFAULT_DOCUMENT_QUERY.sort ||
+    query.order !== DEFAULT_DOCUMENT_QUERY.order;
+
+  const datePreset = DATE_PRESETS.find(
+    (p) => p.from === query.from && p.to === query.to
+  );
+  const dateSelectValue = datePreset
+    ? datePreset.id
+    : query.from || query.to
+    ? CUSTOM
+    : ALL;
+
+  // Saved view counts move along with the documents
+  const handleDocumentsChanged = () => {
+    refresh();
+    notifyDocumentViewsChanged();
+  };
 
+  // Selection covers the rows on screen only
   useEffect(() => {
-    if (!user) return;
-    fetchDocuments();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user]);
+    setSelectedIds([]);
+  }, [documents]);
 
-  useEffect(() => {
-    filterDocuments();
-    setCurrentPage(1);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [documents, searchTerm]);
-
-  const fetchDocuments = async () => {
-    setLoading(true);
-    try {
-      const response = await fetch("/api/documents");
-      if (response.ok) {
-        const { documents } = await response.json();
-        setDocuments(documents ?? []);
-      }
-    } catch (error) {
-      console.error("Failed to fetch documents:", error);
-    }
-    setLoading(false);
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((prev) =>
+      selected ? [...prev, id] : prev.filter((other) => other !== id)
+    );
   };
+  const allSelected =
+    documents.length > 0 && selectedIds.length === documents.length;
 
-  const filterDocuments = () => {
-    let filtered = documents;
-
-    if (searchTerm) {
-      const q = searchTerm.toLowerCase();
-      filtered = filtered.filter(
-        (doc) =>
-          doc.title.toLowerCase().includes(q) ||
-          (doc.uploader_name ?? "").toLowerCase().includes(q) ||
-          (doc.assigned_user_name ?? "").toLowerCase().includes(q) ||
-          // Also search in assignment names
-          (doc.assignments ?? []).some((a) =>
-            (a.assigned_to_name ?? "").toLowerCase().includes(q)
-          )
-      );
-    }
-
-    setFilteredDocuments(filtered);
-  };
+  // Title search is applied after typing pauses
+  const [searchTerm, setSearchTerm] = useState(query.q);
+  useEffect(() => {
+    setSearchTerm(query.q);
+  }, [query.q]);
+  useEffect(() => {
+    if (searchTerm.trim() === query.q) return;
+    const timer = setTimeout(() => setQuery({ q: searchTerm.trim() }), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, query.q, setQuery]);
 
   const formatFileSize = (bytes: number) => {
     const sizes = ["Bytes", "KB", "MB", "GB"];
@@ -156,74 +246,24 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
     }
   };
 
-  // Sorting logic
-  const sortedDocuments = useMemo(() => {
-    const arr = [...filteredDocuments];
-    if (!sortConfig) return arr;
-
-    const { key, direction } = sortConfig;
-    arr.sort((a, b) => {
-      let va: any;
-      let vb: any;
-
-      switch (key) {
-        case "title":
-          va = a.title ?? "";
-          vb = b.title ?? "";
-          return (
-            (va < vb ? -1 : va > vb ? 1 : 0) * (direction === "asc" ? 1 : -1)
-          );
-
-        case "uploader_name":
-          va = (a.uploader_name ?? "").toLowerCase();
-          vb = (b.uploader_name ?? "").toLowerCase();
-          return (
-            (va < vb ? -1 : va > vb ? 1 : 0) * (direction === "asc" ? 1 : -1)
-          );
-
-        case "assigned":
-          va = (getAssignedLabel(a) ?? "").toLowerCase();
-          vb = (getAssignedLabel(b) ?? "").toLowerCase();
-          return (
-            (va < vb ? -1 : va > vb ? 1 : 0) * (direction === "asc" ? 1 : -1)
-          );
-
-        case "file_size":
-          va = Number(a.file_size ?? 0);
-          vb = Number(b.file_size ?? 0);
-          return (va - vb) * (direction === "asc" ? 1 : -1);
-
-        case "created_at":
-          va = new Date(a.created_at).getTime();
-          vb = new Date(b.created_at).getTime();
-          return (va - vb) * (direction === "asc" ? 1 : -1);
-
-        default:
-          return 0;
-      }
-    });
-
-    return arr;
-  }, [filteredDocuments, sortConfig]);
-
-  // Pagination
-  const totalPages = Math.max(
-    1,
-    Math.ceil(sortedDocuments.length / itemsPerPage)
-  );
-  const paginatedDocuments = useMemo(() => {
-    const start = (currentPage - 1) * itemsPerPage;
-    return sortedDocuments.slice(start, start + itemsPerPage);
-  }, [sortedDocuments, currentPage]);
-
   // helper to toggle sort
-  const handleSort = (key: SortKey) => {
-    setSortConfig((prev) => {
-      if (!prev || prev.key !== key) return { key, direction: "asc" };
-      if (prev.key === key)
-        return { key, direction: prev.direction === "asc" ? "desc" : "asc" };
-      return prev;
-    });
+  const handleSort = (key: DocumentSortKey) => {
+    if (query.sort === key) {
+      setQuery({ order: query.order === "asc" ? "desc" : "asc" });
+    } else {
+      setQuery({ sort: key, order: "asc" });
+    }
+  };
+
+  const SortIcon = ({ column }: { column: DocumentSortKey }) => {
+    if (query.sort !== column) {
+      return <ArrowUpDown className="inline h-3 w-3 ml-1" />;
+    }
+    return query.order === "asc" ? (
+      <ArrowUp className="inline h-3 w-3 ml-1" />
+    ) : (
+      <ArrowDown className="inline h-3 w-3 ml-1" />
+    );
   };
 
   // Small page number rendering (show up to 5)
@@ -242,22 +282,13 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
     return pages;
   };
 
-  // Reset to page 1 when documents change significantly
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [documents.length]);
-
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading documents...</p>
-        </div>
-      </div>
-    );
+  // Later loads keep the current rows on screen
+  if (loading && documents.length === 0 && !error) {
+    return <DocumentListLoading />;
   }
 
+  const firstRow = (currentPage - 1) * query.pageSize;
+
   return (
     <div className="space-y-6">
       {/* Header with Upload Button */}
@@ -266,31 +297,187 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
           <h2 className="text-2xl font-bold text-gray-900">Documents</h2>
           <p className="text-gray-600">Manage and view your PDF documents</p>
         </div>
-        <Button
-          onClick={() => setUploadDrawerOpen(true)}
-          className="bg-primary hover:bg-primary/90"
-          size="sm"
-        >
-          <Upload className="h-4 w-4 mr-2" />
-          Upload Document
-        </Button>
+        {canUpload && (
+          <Button
+            onClick={() => setUploadDrawerOpen(true)}
+            className="bg-primary hover:bg-primary/90"
+            size="sm"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Upload Document
+          </Button>
+        )}
       </div>
 
-      {/* Search */}
+      {/* Search & filters */}
       <Card className="shadow-sm">
-        <CardContent className="p-4">
+        <CardContent className="p-4 space-y-4">
           <div className="flex gap-4">
             <div className="flex-1">
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                 <Input
-                  placeholder="Search documents..."
+                  placeholder="Search by title..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10 focus:ring-primary focus:border-primary"
                 />
               </div>
             </div>
+            <div className="flex-1">
+              <DocumentContentSearch />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Select
+              value={query.status[0] ?? ALL}
+              onValueChange={(value) =>
+                setQuery({
+                  status: value === ALL ? [] : [value as DocumentStatus],
+                })
+              }
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {DOCUMENT_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={query.uploader ?? ALL}
+              onValueChange={(value) =>
+                setQuery({ uploader: value === ALL ? null : value })
+              }
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Uploaded by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any uploader</SelectItem>
+                <SelectItem value={CURRENT_USER}>Me</SelectItem>
+                {filterOptions.uploaders.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={query.assignee ?? ALL}
+              onValueChange={(value) =>
+                setQuery({ assignee: value === ALL ? null : value })
+              }
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Assigned to" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any assignee</SelectItem>
+                <SelectItem value={CURRENT_USER}>Me</SelectItem>
+                {filterOptions.assignees.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={query.department ?? ALL}
+              onValueChange={(value) =>
+                setQuery({ department: value === ALL ? null : value })
+              }
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Department" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any department</SelectItem>
+                <SelectItem value={MY_DEPARTMENT}>My department</SelectItem>
+                {filterOptions.departments.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={dateSelectValue}
+              onValueChange={(value) => {
+                if (value === CUSTOM) return;
+                const preset = DATE_PRESETS.find((p) => p.id === value);
+                setQuery({ from: preset?.from ?? null, to: preset?.to ?? null });
+              }}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Uploaded" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any time</SelectItem>
+                {DATE_PRESETS.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM}>Custom range</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Input
+                type="date"
+                aria-label="Uploaded from"
+                value={query.from && isAbsoluteDate(query.from) ? query.from : ""}
+                onChange={(e) =>
+                  setQuery({
+                    from: e.target.value || null,
+                    ...(datePreset ? { to: null } : {}),
+                  })
+                }
+                className="w-40"
+              />
+              <span>to</span>
+              <Input
+                type="date"
+                aria-label="Uploaded to"
+                value={query.to && isAbsoluteDate(query.to) ? query.to : ""}
+                onChange={(e) =>
+                  setQuery({
+                    to: e.target.value || null,
+                    ...(datePreset ? { from: null } : {}),
+                  })
+                }
+                className="w-40"
+              />
+            </div>
+
+            {filtered && (
+              <Button variant="ghost" size="sm" onClick={resetFilters}>
+                <X className="h-4 w-4 mr-1" />
+                Clear filters
+              </Button>
+            )}
+            {customized && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto"
+                onClick={() => setSaveViewOpen(true)}
+              >
+                <Bookmark className="h-4 w-4 mr-1" />
+                Save view
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -298,92 +485,170 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
       {/* Documents Table */}
       <Card className="shadow-sm">
         <CardHeader>
-          <CardTitle>Documents ({filteredDocuments.length})</CardTitle>
-          <CardDescription>
-            List of documents assigned to you or uploaded by you
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Documents ({total})</CardTitle>
+              <CardDescription>
+                List of documents assigned to you or uploaded by you
+              </CardDescription>
+            </div>
+            {selectedIds.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600">
+                  {selectedIds.length} selected
+                </span>
+                <BulkExportButton
+                  documentIds={selectedIds}
+                  onExported={() => setSelectedIds([])}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedIds([])}
+                >
+                  Clear
+                </Button>
+              </div>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
-          {filteredDocuments.length === 0 ? (
+          {error ? (
+            <div className="text-center py-12">
+              <p className="text-red-600 mb-4">{error}</p>
+              <Button variant="outline" size="sm" onClick={refresh}>
+                Try again
+              </Button>
+            </div>
+          ) : documents.length === 0 ? (
             <div className="text-center py-12">
               <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-600">No documents found</p>
               <p className="text-sm text-gray-500 mb-4">
-                {searchTerm
-                  ? "Try a different search term or "
-                  : "Upload your first document to get started"}
+                {filtered
+                  ? "Try different filters or clear them"
+                  : canUpload
+                  ? "Upload your first document to get started"
+                  : "No documents available to view"}
               </p>
-              <Button
-                onClick={() => setUploadDrawerOpen(true)}
-                className="bg-primary hover:bg-primary/90"
-                size="sm"
-              >
-                <Upload className="h-4 w-4 mr-2" />
-                Upload Document
-              </Button>
+              {filtered ? (
+                <Button variant="outline" size="sm" onClick={resetFilters}>
+                  Clear filters
+                </Button>
+              ) : (
+                canUpload && (
+                  <Button
+                    onClick={() => setUploadDrawerOpen(true)}
+                    className="bg-primary hover:bg-primary/90"
+                    size="sm"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Upload Document
+                  </Button>
+                )
+              )}
             </div>
           ) : (
-            <div className="overflow-x-auto">
+            <div
+              className={`overflow-x-auto transition-opacity ${
+                loading ? "opacity-60" : ""
+              }`}
+            >
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={
+                          allSelected
+                            ? true
+                            : selectedIds.length > 0
+                            ? "indeterminate"
+                            : false
+                        }
+                        onCheckedChange={(checked) =>
+                          setSelectedIds(
+                            checked === true ? documents.map((d) => d.id) : []
+                          )
+                        }
+                        aria-label="Select all documents on this page"
+                      />
+                    </TableHead>
                     <TableHead className="w-16">S/N</TableHead>
 
                     <TableHead
                       className="cursor-pointer"
                       onClick={() => handleSort("title")}
                     >
-                      Title <ArrowUpDown className="inline h-3 w-3 ml-1" />
+                      Title <SortIcon column="title" />
                     </TableHead>
 
                     <TableHead
                       className="cursor-pointer"
                       onClick={() => handleSort("uploader_name")}
                     >
-                      Uploaded By{" "}
-                      <ArrowUpDown className="inline h-3 w-3 ml-1" />
+                      Uploaded By <SortIcon column="uploader_name" />
+                    </TableHead>
+
+                    <TableHead
+                      className="cursor-pointer"
+                      onClick={() => handleSort("assigned_user_name")}
+                    >
+                      Assigned To <SortIcon column="assigned_user_name" />
                     </TableHead>
 
                     <TableHead
                       className="cursor-pointer"
-                      onClick={() => handleSort("assigned")}
+                      onClick={() => handleSort("status")}
                     >
-                      Assigned To{" "}
-                      <ArrowUpDown className="inline h-3 w-3 ml-1" />
+                      Status <SortIcon column="status" />
                     </TableHead>
 
                     <TableHead
                       className="cursor-pointer"
                       onClick={() => handleSort("file_size")}
                     >
-                      Size <ArrowUpDown className="inline h-3 w-3 ml-1" />
+                      Size <SortIcon column="file_size" />
                     </TableHead>
 
                     <TableHead
                       className="cursor-pointer"
                       onClick={() => handleSort("created_at")}
                     >
-                      Date Uploaded{" "}
-                      <ArrowUpDown className="inline h-3 w-3 ml-1" />
+                      Date Uploaded <SortIcon column="created_at" />
                     </TableHead>
 
-                    <TableHead className="w-24">Actions</TableHead>
+                    <TableHead className="w-64">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
 
                 <TableBody>
-                  {paginatedDocuments.map((document, index) => (
+                  {documents.map((document, index) => (
                     <TableRow
                       key={document.id}
                       className="hover:bg-gray-50 transition-colors"
                     >
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(document.id)}
+                          onCheckedChange={(checked) =>
+                            toggleSelected(document.id, checked === true)
+                          }
+                          aria-label={`Select ${document.title}`}
+                        />
+                      </TableCell>
+
                       <TableCell className="font-medium">
-                        {(currentPage - 1) * itemsPerPage + index + 1}
+                        {firstRow + index + 1}
                       </TableCell>
 
                       <TableCell>
-                        <div className="flex items-center gap-2">
-                          <FileText className="h-4 w-4 text-primary" />
+                        <div className="flex items-center gap-3">
+                          <DocumentThumbnail
+                            documentId={document.id}
+                            title={document.title}
+                            version={document.current_version}
+                          />
                           <span className="font-medium">{document.title}</span>
                         </div>
                       </TableCell>
@@ -396,6 +661,20 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
                         )}
                       </TableCell>
 
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <DocumentStatusBadge status={document.status} />
+                          {document.due_at && isOverdue(document.due_at) && (
+                            <Badge
+                              variant="destructive"
+                              title={describeDue(document.due_at)}
+                            >
+                              Overdue
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+
                       <TableCell>
                         {formatFileSize(document.file_size)}
                       </TableCell>
@@ -405,14 +684,29 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
                       </TableCell>
 
                       <TableCell>
-                        <Button
-                          size="sm"
-                          onClick={() => handleViewDocument(document)}
-                          className="bg-primary hover:bg-primary/90"
-                        >
-                          <Eye className="h-4 w-4 mr-1" />
-                          View
-                        </Button>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleViewDocument(document)}
+                            className="bg-primary hover:bg-primary/90"
+                          >
+                            <Eye className="h-4 w-4 mr-1" />
+                            View
+                          </Button>
+                          <DocumentExportButton documentId={document.id} />
+                          <DocumentLifecycleActions
+                            documentId={document.id}
+                            actions={document.available_actions ?? []}
+                            onTransitioned={handleDocumentsChanged}
+                          />
+                          {document.can_delete && (
+                            <DocumentDeleteButton
+                              documentId={document.id}
+                              title={document.title}
+                              onDeleted={handleDocumentsChanged}
+                            />
+                          )}
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -422,9 +716,8 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
               {/* Pagination controls */}
               <div className="flex justify-between items-center mt-4">
                 <p className="text-sm text-gray-600">
-                  Showing {(currentPage - 1) * itemsPerPage + 1} -{" "}
-                  {Math.min(currentPage * itemsPerPage, sortedDocuments.length)}{" "}
-                  of {sortedDocuments.length}
+                  Showing {firstRow + 1} - {firstRow + documents.length} of{" "}
+                  {total}
                 </p>
 
                 <div className="flex items-center gap-2">
@@ -432,7 +725,9 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
                     variant="outline"
                     size="sm"
                     disabled={currentPage === 1}
-                    onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                    onClick={() =>
+                      setQuery({ page: Math.max(1, currentPage - 1) })
+                    }
                   >
                     Previous
                   </Button>
@@ -445,7 +740,7 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
                       className={
                         p === currentPage ? "bg-primary text-white" : ""
                       }
-                      onClick={() => setCurrentPage(p)}
+                      onClick={() => setQuery({ page: p })}
                     >
                       {p}
                     </Button>
@@ -454,9 +749,9 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
                   <Button
                     variant="outline"
                     size="sm"
-                    disabled={currentPage === totalPages}
+                    disabled={currentPage >= totalPages}
                     onClick={() =>
-                      setCurrentPage((p) => Math.min(totalPages, p + 1))
+                      setQuery({ page: Math.min(totalPages, currentPage + 1) })
                     }
                   >
                     Next
@@ -468,10 +763,18 @@ export function DocumentList({ onDocumentSelect }: DocumentListProps) {
         </CardContent>
       </Card>
 
-      <DocumentUploadDrawer
-        open={uploadDrawerOpen}
-        onOpenChange={setUploadDrawerOpen}
-        onUploadSuccess={fetchDocuments}
+      {canUpload && (
+        <DocumentUploadDrawer
+          open={uploadDrawerOpen}
+          onOpenChange={setUploadDrawerOpen}
+          onUploadSuccess={handleDocumentsChanged}
+        />
+      )}
+
+      <SaveViewDialog
+        open={saveViewOpen}
+        onOpenChange={setSaveViewOpen}
+        query={toViewSearchParams(query).toString()}
       />
     </div>
   );
@@ -0,0 +1,664 @@
+// components/documents/document-page-organizer.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  FilePlus2,
+  LayoutGrid,
+  RotateCcw,
+  RotateCw,
+  Scissors,
+  Trash2,
+  Undo2,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { DocumentVersionSummary } from "@/components/documents/document-version-picker";
+import type { PageOperation, SplitDocument } from "@/lib/document-pages";
+
+const THUMB_WIDTH = 200;
+
+interface OrganizerPage {
+  key: string;
+  documentId: string;
+  pageNumber: number;
+  /** Rendered version; null renders the source's latest */
+  version: number | null;
+  /** Degrees clockwise added in this session */
+  rotate: number;
+  inserted: boolean;
+}
+
+interface SourceDocument {
+  id: string;
+  title: string;
+}
+
+interface DocumentPageOrganizerProps {
+  documentId: string;
+  onClose: () => void;
+  onSaved: (result: {
+    version: DocumentVersionSummary;
+    split_documents: SplitDocument[];
+  }) => void;
+}
+
+/** "1-3, 5" → [1, 2, 3, 5]; null when the text isn't a page list */
+function parsePageRange(text: string, max: number): number[] | null {
+  const pages: number[] = [];
+  for (const part of text.split(",").map((p) => p.trim())) {
+    if (!part) continue;
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = Number(match[2] ?? match[1]);
+    if (from < 1 || to > max || from > to) return null;
+    for (let p = from; p <= to; p++) pages.push(p);
+  }
+  return pages;
+}
+
+async function fetchPageCount(documentId: string) {
+  const res = await fetch(
+    `/api/documents/${encodeURIComponent(documentId)}/pages`
+  );
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json?.error || "Failed to load pages");
+  return {
+    version: Number(json.current_version) || null,
+    count: Array.isArray(json.pages) ? json.pages.length : 0,
+  };
+}
+
+/**
+ * Thumbnail grid for rotating, deleting, reordering, inserting and
+ * splitting off pages. Edits are kept as a list of operations and sent
+ * together when saved, which creates one new version.
+ */
+export function DocumentPageOrganizer({
+  documentId,
+  onClose,
+  onSaved,
+}: DocumentPageOrganizerProps) {
+  const [pages, setPages] = useState<OrganizerPage[]>([]);
+  const [initialPages, setInitialPages] = useState<OrganizerPage[]>([]);
+  const [operations, setOperations] = useState<PageOperation[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [insertOpen, setInsertOpen] = useState(false);
+  const [splitOpen, setSplitOpen] = useState(false);
+  const [splitTitle, setSplitTitle] = useState("");
+  const [changeNote, setChangeNote] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchPageCount(documentId)
+      .then(({ version, count }) => {
+        if (cancelled) return;
+        const initial = Array.from({ length: count }, (_, i) => ({
+          key: `${documentId}:${i + 1}`,
+          documentId,
+          pageNumber: i + 1,
+          version,
+          rotate: 0,
+          inserted: false,
+        }));
+        setPages(initial);
+        setInitialPages(initial);
+      })
+      .catch((err) => {
+        console.error("Load pages error:", err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load pages");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  // 1-based positions of the selected pages, in page order
+  const selectedPages = pages
+    .map((page, i) => (selected.has(page.key) ? i + 1 : 0))
+    .filter(Boolean);
+
+  const record = (op: PageOperation, next: OrganizerPage[]) => {
+    setOperations((prev) => [...prev, op]);
+    setPages(next);
+  };
+
+  const rotate = (positions: number[], degrees: 90 | 270) => {
+    if (positions.length === 0) return;
+    record(
+      { type: "rotate", pages: positions, degrees },
+      pages.map((page, i) =>
+        positions.includes(i + 1)
+          ? { ...page, rotate: (page.rotate + degrees) % 360 }
+          : page
+      )
+    );
+  };
+
+  const remove = (positions: number[]) => {
+    if (positions.length === 0) return;
+    if (positions.length >= pages.length) {
+      toast.error("At least one page must remain");
+      return;
+    }
+    record(
+      { type: "delete", pages: positions },
+      pages.filter((_, i) => !positions.includes(i + 1))
+    );
+    setSelected(new Set());
+  };
+
+  const moveTo = (key: string, target: number) => {
+    const from = pages.findIndex((page) => page.key === key);
+    if (from < 0 || from === target) return;
+    const next = [...pages];
+    const [moved] = next.splice(from, 1);
+    next.splice(target, 0, moved);
+    record(
+      {
+        type: "reorder",
+        order: next.map((page) => pages.indexOf(page) + 1),
+      },
+      next
+    );
+  };
+
+  const split = () => {
+    if (selectedPages.length === 0) return;
+    if (selectedPages.length >= pages.length) {
+      toast.error("At least one page must remain");
+      return;
+    }
+    record(
+      {
+        type: "split",
+        pages: selectedPages,
+        title: splitTitle.trim() || null,
+      },
+      pages.filter((page) => !selected.has(page.key))
+    );
+    setSelected(new Set());
+    setSplitTitle("");
+    setSplitOpen(false);
+  };
+
+  const insert = (
+    source: SourceDocument,
+    version: number | null,
+    sourcePages: number[]
+  ) => {
+    // After the last selected page, or at the end
+    const after = selectedPages.length
+      ? selectedPages[selectedPages.length - 1]
+      : pages.length;
+    const added = sourcePages.map((pageNumber) => ({
+      key: `${source.id}:${pageNumber}:${Date.now()}`,
+      documentId: source.id,
+      pageNumber,
+      version,
+      rotate: 0,
+      inserted: true,
+    }));
+    record(
+      {
+        type: "insert",
+        source_document_id: source.id,
+        source_pages: sourcePages,
+        after,
+      },
+      [...pages.slice(0, after), ...added, ...pages.slice(after)]
+    );
+    setInsertOpen(false);
+  };
+
+  const reset = () => {
+    setPages(initialPages);
+    setOperations([]);
+    setSelected(new Set());
+  };
+
+  const toggle = (key: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const save = async () => {
+    if (operations.length === 0) return;
+    setSaving(true);
+    try {
+      const res = await fetch(
+        `/api/documents/${encodeURIComponent(documentId)}/pages`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            operations,
+            change_note: changeNote.trim() || undefined,
+          }),
+        }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to save pages");
+
+      toast.success(`Saved as v${json.version.version_number}`);
+      for (const created of json.split_documents ?? []) {
+        toast.success(`Created "${created.title}"`);
+      }
+      if (json.warning) toast.error(json.warning);
+      onSaved(json);
+    } catch (err) {
+      console.error("Save pages error:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save pages");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pageUrl = (page: OrganizerPage) =>
+    `/api/documents/${encodeURIComponent(page.documentId)}/pages/${
+      page.pageNumber
+    }?width=${THUMB_WIDTH}${page.version ? `&version=${page.version}` : ""}`;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-100">
+      {/* Toolbar */}
+      <div className="bg-white border-b px-4 py-2 flex flex-wrap items-center gap-2">
+        <LayoutGrid className="h-4 w-4 text-primary" />
+        <span className="text-sm font-medium">Organize pages</span>
+        <Badge variant="outline">
+          {selectedPages.length
+            ? `${selectedPages.length} of ${pages.length} selected`
+            : `${pages.length} pages`}
+        </Badge>
+
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!selectedPages.length}
+          onClick={() => rotate(selectedPages, 270)}
+          title="Rotate selected pages left"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!selectedPages.length}
+          onClick={() => rotate(selectedPages, 90)}
+          title="Rotate selected pages right"
+        >
+          <RotateCw className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!selectedPages.length}
+          onClick={() => remove(selectedPages)}
+          title="Delete selected pages"
+        >
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!selectedPages.length}
+          onClick={() => setSplitOpen(true)}
+          title="Move the selected pages to a new document"
+        >
+          <Scissors className="h-4 w-4 mr-1" />
+          Split
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setInsertOpen(true)}
+          title="Insert pages from another document after the selection"
+        >
+          <FilePlus2 className="h-4 w-4 mr-1" />
+          Insert
+        </Button>
+
+        <div className="ml-auto flex items-center gap-2">
+          <Input
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            placeholder="Change note (optional)"
+            className="h-8 w-56"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={operations.length === 0 || saving}
+            onClick={reset}
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            Reset
+          </Button>
+          <Button
+            size="sm"
+            disabled={operations.length === 0 || saving}
+            onClick={save}
+          >
+            {saving ? "Saving..." : "Save as new version"}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4 mr-1" />
+            Close
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading pages...</p>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-gray-600">{error}</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-6">
+          <p className="text-xs text-gray-500 mb-4">
+            Click to select, drag to move. Changes are saved together as a new
+            version; annotations move with their pages.
+          </p>
+          <div className="grid grid-cols-[repeat(auto-fill,minmax(160px,1fr))] gap-4">
+            {pages.map((page, i) => (
+              <div
+                key={page.key}
+                draggable
+                onDragStart={() => setDragging(page.key)}
+                onDragEnd={() => setDragging(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (dragging) moveTo(dragging, i);
+                  setDragging(null);
+                }}
+                onClick={() => toggle(page.key)}
+                className={cn(
+                  "group relative bg-white rounded-md shadow-sm p-2 cursor-pointer select-none ring-offset-2",
+                  selected.has(page.key) && "ring-2 ring-primary",
+                  dragging === page.key && "opacity-40"
+                )}
+              >
+                <div className="aspect-square flex items-center justify-center overflow-hidden bg-gray-50">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={pageUrl(page)}
+                    alt={`Page ${i + 1}`}
+                    loading="lazy"
+                    draggable={false}
+                    className="max-w-full max-h-full object-contain transition-transform"
+                    style={{ transform: `rotate(${page.rotate}deg)` }}
+                  />
+                </div>
+                <div className="mt-2 flex items-center justify-between text-xs text-gray-600">
+                  <span>
+                    {i + 1}
+                    {page.inserted && (
+                      <span className="ml-1 text-blue-600">inserted</span>
+                    )}
+                  </span>
+                  <span className="flex gap-1 opacity-0 group-hover:opacity-100">
+                    <button
+                      type="button"
+                      className="p-1 rounded hover:bg-gray-100"
+                      title="Rotate left"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        rotate([i + 1], 270);
+                      }}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      className="p-1 rounded hover:bg-gray-100"
+                      title="Rotate right"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        rotate([i + 1], 90);
+                      }}
+                    >
+                      <RotateCw className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      className="p-1 rounded hover:bg-gray-100 text-red-600"
+                      title="Delete page"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        remove([i + 1]);
+                      }}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={splitOpen} onOpenChange={setSplitOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Split into a new document</DialogTitle>
+            <DialogDescription>
+              Pages {selectedPages.join(", ")} move to a new document with
+              their annotations, assigned to the same person as this one.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="split-title">Title</Label>
+            <Input
+              id="split-title"
+              value={splitTitle}
+              onChange={(e) => setSplitTitle(e.target.value)}
+              placeholder="Defaults to this document's title with a part number"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSplitOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={split}>Split</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <InsertPagesDialog
+        open={insertOpen}
+        documentId={documentId}
+        after={
+          selectedPages.length
+            ? selectedPages[selectedPages.length - 1]
+            : pages.length
+        }
+        onOpenChange={setInsertOpen}
+        onInsert={insert}
+      />
+    </div>
+  );
+}
+
+function InsertPagesDialog({
+  open,
+  documentId,
+  after,
+  onOpenChange,
+  onInsert,
+}: {
+  open: boolean;
+  documentId: string;
+  after: number;
+  onOpenChange: (open: boolean) => void;
+  onInsert: (
+    source: SourceDocument,
+    version: number | null,
+    pages: number[]
+  ) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SourceDocument[]>([]);
+  const [source, setSource] = useState<SourceDocument | null>(null);
+  const [sourceInfo, setSourceInfo] = useState<{
+    version: number | null;
+    count: number;
+  } | null>(null);
+  const [range, setRange] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    const timer = window.setTimeout(() => {
+      const params = new URLSearchParams({ pageSize: "10" });
+      if (query.trim()) params.set("q", query.trim());
+      fetch(`/api/documents?${params}`)
+        .then((res) => (res.ok ? res.json() : { documents: [] }))
+        .then((json) =>
+          setResults(
+            (json.documents ?? [])
+              .filter((d: any) => d.id !== documentId)
+              .map((d: any) => ({ id: d.id, title: d.title }))
+          )
+        )
+        .catch((err) => console.error("Search documents error:", err));
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [open, query, documentId]);
+
+  useEffect(() => {
+    setSourceInfo(null);
+    setRange("");
+    if (!source) return;
+    fetchPageCount(source.id)
+      .then(setSourceInfo)
+      .catch((err) =>
+        toast.error(err instanceof Error ? err.message : "Failed to load pages")
+      );
+  }, [source]);
+
+  const pages = sourceInfo
+    ? range.trim()
+      ? parsePageRange(range, sourceInfo.count)
+      : Array.from({ length: sourceInfo.count }, (_, i) => i + 1)
+    : null;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setSource(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Insert pages</DialogTitle>
+          <DialogDescription>
+            Pages are inserted{" "}
+            {after === 0 ? "at the start." : `after page ${after}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search documents..."
+          />
+          <div className="max-h-48 overflow-auto border rounded-md divide-y">
+            {results.length === 0 ? (
+              <p className="p-3 text-sm text-gray-500">No documents found</p>
+            ) : (
+              results.map((doc) => (
+                <button
+                  key={doc.id}
+                  type="button"
+                  onClick={() => setSource(doc)}
+                  className={cn(
+                    "w-full text-left px-3 py-2 text-sm hover:bg-gray-50",
+                    source?.id === doc.id && "bg-primary/10 font-medium"
+                  )}
+                >
+                  {doc.title}
+                </button>
+              ))
+            )}
+          </div>
+
+          {source && (
+            <div className="space-y-2">
+              <Label htmlFor="insert-range">
+                Pages of {source.title}
+                {sourceInfo ? ` (1-${sourceInfo.count})` : ""}
+              </Label>
+              <Input
+                id="insert-range"
+                value={range}
+                onChange={(e) => setRange(e.target.value)}
+                placeholder="All pages, or e.g. 1-3, 5"
+              />
+              {sourceInfo && !pages && (
+                <p className="text-xs text-red-600">
+                  Enter pages between 1 and {sourceInfo.count}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!source || !sourceInfo || !pages || pages.length === 0}
+            onClick={() => {
+              if (source && sourceInfo && pages?.length) {
+                onInsert(source, sourceInfo.version, pages);
+                setSource(null);
+              }
+            }}
+          >
+            Insert {pages?.length ? pages.length : ""} page
+            {pages?.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
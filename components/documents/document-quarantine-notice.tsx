@@ -0,0 +1,119 @@
+// components/documents/document-quarantine-notice.tsx
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { format } from "date-fns";
+
+export interface DocumentScanInfo {
+  status: "clean" | "infected" | "error" | null;
+  result: string | null;
+  scanned_at: string | null;
+}
+
+interface DocumentQuarantineNoticeProps {
+  documentId: string;
+  scan: DocumentScanInfo | null;
+  /** Admins may rescan or release the document */
+  canReview: boolean;
+  onReleased: () => void;
+}
+
+/** Shown instead of the viewer while a document is quarantined */
+export function DocumentQuarantineNotice({
+  documentId,
+  scan,
+  canReview,
+  onReleased,
+}: DocumentQuarantineNoticeProps) {
+  const [busy, setBusy] = useState<"rescan" | "release" | null>(null);
+
+  const review = async (action: "rescan" | "release") => {
+    if (
+      action === "release" &&
+      !window.confirm(
+        "Release this document without a clean scan? Everyone it is assigned to will be able to open it."
+      )
+    ) {
+      return;
+    }
+
+    setBusy(action);
+    try {
+      const res = await fetch(
+        `/api/documents/${encodeURIComponent(documentId)}/scan`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action }),
+        }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(json?.error || "Failed to review document");
+      }
+
+      if (json.released) {
+        toast.success("Document released from quarantine");
+        onReleased();
+      } else {
+        toast.error(
+          json.scan?.status === "infected"
+            ? `Still infected: ${json.scan.detail}`
+            : "The scanner is still unavailable"
+        );
+      }
+    } catch (error) {
+      console.error("Quarantine review error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to review document"
+      );
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex items-center justify-center p-8">
+      <div className="max-w-md text-center space-y-3">
+        <ShieldAlert className="h-12 w-12 text-amber-500 mx-auto" />
+        <h2 className="text-lg font-semibold">This document is quarantined</h2>
+        <p className="text-sm text-gray-600">
+          {scan?.status === "infected"
+            ? `The malware scan found ${scan.result ?? "a threat"}.`
+            : "The file could not be scanned for malware."}{" "}
+          It can&apos;t be opened until an administrator releases it.
+        </p>
+        {scan?.scanned_at && (
+          <p className="text-xs text-gray-500">
+            Scanned {format(new Date(scan.scanned_at), "MMM d, yyyy HH:mm")}
+            {scan.status === "error" && scan.result ? ` • ${scan.result}` : ""}
+          </p>
+        )}
+        {canReview && (
+          <div className="flex justify-center gap-2 pt-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busy !== null}
+              onClick={() => review("rescan")}
+            >
+              {busy === "rescan" ? "Scanning..." : "Scan again"}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busy !== null}
+              onClick={() => review("release")}
+              className="text-red-600 hover:bg-red-50 hover:text-red-700"
+            >
+              {busy === "release" ? "Releasing..." : "Release anyway"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+// components/documents/document-share-button.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Copy, Link2, Lock } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ShareLink, ShareLinkStatus } from "@/lib/share-links";
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 24 * 7, label: "1 week" },
+  { hours: 24 * 30, label: "30 days" },
+];
+
+const STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  active: "bg-green-100 text-green-800",
+  expired: "bg-gray-100 text-gray-700",
+  revoked: "bg-red-100 text-red-800",
+};
+
+function linkTiming(link: ShareLink): string {
+  if (link.status === "active") {
+    return `expires ${new Date(link.expires_at).toLocaleString()}`;
+  }
+  if (link.revoked_at) {
+    return `revoked ${new Date(link.revoked_at).toLocaleString()}`;
+  }
+  return `expired ${new Date(link.expires_at).toLocaleString()}`;
+}
+
+interface DocumentShareButtonProps {
+  documentId: string;
+}
+
+/** Creates, copies and revokes links for people without an account */
+export function DocumentShareButton({ documentId }: DocumentShareButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [recipient, setRecipient] = useState("");
+  const [canAnnotate, setCanAnnotate] = useState(false);
+  const [canDownload, setCanDownload] = useState(false);
+  const [expiresInHours, setExpiresInHours] = useState("72");
+  const [password, setPassword] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const apiBase = `/api/documents/${encodeURIComponent(
+    documentId
+  )}/share-links`;
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      const res = await fetch(apiBase);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to load links");
+      setLinks(json.links ?? []);
+    } catch (error) {
+      console.error("Fetch share links error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to load links"
+      );
+    }
+  }, [apiBase]);
+
+  useEffect(() => {
+    if (!open) return;
+    setRecipient("");
+    setCanAnnotate(false);
+    setCanDownload(false);
+    setExpiresInHours("72");
+    setPassword("");
+    fetchLinks();
+  }, [open, fetchLinks]);
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}${link.url}`
+      );
+      toast.success("Link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!recipient.trim()) return;
+
+    setCreating(true);
+    try {
+      const scopes = ["view"];
+      if (canAnnotate) scopes.push("annotate");
+      if (canDownload) scopes.push("download");
+
+      const res = await fetch(apiBase, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          recipient: recipient.trim(),
+          scopes,
+          expiresInHours: Number(expiresInHours),
+          password: password || undefined,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to create link");
+
+      setRecipient("");
+      setPassword("");
+      await copyLink(json.link);
+      fetchLinks();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create link"
+      );
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!window.confirm(`Revoke the link shared with ${link.recipient}?`)) {
+      return;
+    }
+    try {
+      const res = await fetch(`${apiBase}/${encodeURIComponent(link.id)}`, {
+        method: "DELETE",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to revoke link");
+      toast.success("Link revoked");
+      fetchLinks();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to revoke link"
+      );
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2"
+        title="Share with someone outside the system"
+      >
+        <Link2 className="h-4 w-4" />
+        Share
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Share links</DialogTitle>
+            <DialogDescription>
+              Anyone with a link can open the current version until it
+              expires or is revoked. Guest annotations are recorded against
+              the link.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="share-recipient">Shared with</Label>
+              <Input
+                id="share-recipient"
+                value={recipient}
+                maxLength={150}
+                placeholder="Name or email of the recipient"
+                onChange={(e) => setRecipient(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="share-annotate"
+                  checked={canAnnotate}
+                  onCheckedChange={(checked) =>
+                    setCanAnnotate(checked === true)
+                  }
+                />
+                <Label htmlFor="share-annotate" className="font-normal">
+                  Can annotate
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="share-download"
+                  checked={canDownload}
+                  onCheckedChange={(checked) =>
+                    setCanDownload(checked === true)
+                  }
+                />
+                <Label htmlFor="share-download" className="font-normal">
+                  Can download
+                </Label>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Expires after</Label>
+                <Select
+                  value={expiresInHours}
+                  onValueChange={setExpiresInHours}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem
+                        key={option.hours}
+                        value={String(option.hours)}
+                      >
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="share-password">Password (optional)</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button
+              onClick={handleCreate}
+              disabled={creating || !recipient.trim()}
+              className="w-full bg-primary hover:bg-primary/90"
+            >
+              {creating ? "Creating..." : "Create and copy link"}
+            </Button>
+          </div>
+
+          {links.length > 0 && (
+            <div className="border-t pt-3 space-y-2 max-h-64 overflow-y-auto">
+              {links.map((link) => (
+                <div key={link.id} className="flex items-center gap-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1">
+                      <span className="font-medium truncate">
+                        {link.recipient}
+                      </span>
+                      {link.has_password && (
+                        <Lock className="h-3 w-3 text-gray-500" />
+                      )}
+                      <Badge className={STATUS_STYLES[link.status]}>
+                        {link.status}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {link.scopes.join(", ")} • {linkTiming(link)} •
+                      opened {link.access_count}×
+                    </p>
+                  </div>
+                  {link.status === "active" && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => copyLink(link)}
+                        aria-label={`Copy link for ${link.recipient}`}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => handleRevoke(link)}
+                      >
+                        Revoke
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
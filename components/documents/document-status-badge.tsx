@@ -0,0 +1,43 @@
+// components/documents/document-status-badge.tsx
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  normalizeStatus,
+  STATUS_LABELS,
+  type DocumentStatus,
+} from "@/lib/document-status";
+
+const STATUS_STYLES: Record<DocumentStatus, string> = {
+  draft: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+  in_review: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  approved: "bg-green-100 text-green-800 hover:bg-green-100",
+  rejected: "bg-red-100 text-red-800 hover:bg-red-100",
+  archived: "bg-slate-200 text-slate-600 hover:bg-slate-200",
+  quarantined: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+};
+
+interface DocumentStatusBadgeProps {
+  status?: string | null;
+  /** Shown on hover, e.g. who rejected the document and why */
+  title?: string;
+  className?: string;
+}
+
+export function DocumentStatusBadge({
+  status,
+  title,
+  className,
+}: DocumentStatusBadgeProps) {
+  const normalized = normalizeStatus(status);
+  return (
+    <Badge
+      variant="secondary"
+      title={title}
+      className={cn(STATUS_STYLES[normalized], className)}
+    >
+      {STATUS_LABELS[normalized]}
+    </Badge>
+  );
+}
@@ -0,0 +1,69 @@
+// components/documents/document-thumbnail.tsx
+"use client";
+
+import { useState } from "react";
+import { FileText } from "lucide-react";
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "@/components/ui/hover-card";
+
+interface DocumentThumbnailProps {
+  documentId: string;
+  title: string;
+  /** Revision to show; pinning it lets the browser cache the image */
+  version?: number | null;
+}
+
+/**
+ * First-page thumbnail for document tables, with a larger preview on
+ * hover. Falls back to a file icon while the server has nothing to show.
+ */
+export function DocumentThumbnail({
+  documentId,
+  title,
+  version,
+}: DocumentThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+
+  const src = (size: "thumb" | "preview") => {
+    const params = new URLSearchParams({ size });
+    if (version) params.set("version", String(version));
+    return `/api/documents/${encodeURIComponent(
+      documentId
+    )}/thumbnail?${params.toString()}`;
+  };
+
+  if (failed) {
+    return (
+      <div className="h-12 w-9 shrink-0 rounded border bg-gray-50 flex items-center justify-center">
+        <FileText className="h-4 w-4 text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <HoverCard openDelay={300}>
+      <HoverCardTrigger asChild>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={src("thumb")}
+          alt={`First page of ${title}`}
+          loading="lazy"
+          onError={() => setFailed(true)}
+          className="h-12 w-9 shrink-0 rounded border bg-white object-cover object-top cursor-zoom-in"
+        />
+      </HoverCardTrigger>
+      <HoverCardContent side="right" className="w-80 p-2">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={src("preview")}
+          alt={`Preview of ${title}`}
+          className="w-full rounded border bg-white"
+        />
+        <p className="text-xs text-gray-600 mt-2 truncate">{title}</p>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
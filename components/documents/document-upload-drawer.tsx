@@ -22,15 +22,21 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet";
-import { Progress } from "@/components/ui/progress";
+import { UploadQueueList } from "@/components/documents/upload-queue-list";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import {
+  discardPendingUpload,
+  listPendingUploads,
+  type PendingUpload,
+} from "@/lib/resumable-upload";
+import type { AssignmentType } from "@/lib/document-upload";
 import {
   Upload,
-  FileText,
-  X,
   Search,
   Shield,
   Building2,
   User,
+  RotateCcw,
 } from "lucide-react";
 import { toast } from "react-hot-toast";
 import { cn } from "@/lib/utils";
@@ -65,8 +71,8 @@ export function DocumentUploadDrawer({
   onOpenChange,
   onUploadSuccess,
 }: DocumentUploadDrawerProps) {
-  const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [assignmentType, setAssignmentType] = useState<AssignmentType>("user");
   const [selectedDepartment, setSelectedDepartment] = useState<string>("");
   const [selectedRole, setSelectedRole] = useState<string>("");
   const [selectedUser, setSelectedUser] = useState<string>("");
@@ -77,9 +83,18 @@ export function DocumentUploadDrawer({
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [userSearchQuery, setUserSearchQuery] = useState("");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const {
+    items: queue,
+    isUploading,
+    addFiles,
+    removeItem,
+    setTitle,
+    clear: clearQueue,
+    keepAsCopy,
+    uploadAsVersion,
+    uploadAll,
+  } = useUploadQueue();
 
   const { user: currentUser } = useAuth();
 
@@ -87,6 +102,7 @@ export function DocumentUploadDrawer({
     if (open) {
       fetchDepartments();
       fetchAllRoles();
+      setPendingUploads(listPendingUploads());
     }
   }, [open]);
 
@@ -201,37 +217,48 @@ export function DocumentUploadDrawer({
 
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
-      const file = acceptedFiles[0];
-      if (file && file.type === "application/pdf") {
-        setSelectedFile(file);
-        if (!title) {
-          setTitle(file.name.replace(".pdf", ""));
-        }
-      } else {
-        toast.error("Please upload a PDF file only");
+      const rejected = addFiles(acceptedFiles);
+      if (rejected.length > 0) {
+        toast.error(
+          `Only PDF files and zip archives can be uploaded (skipped ${rejected.length})`
+        );
       }
     },
-    [title]
+    [addFiles]
   );
 
+  // Dropped folders are expanded into their files by react-dropzone; the
+  // queue skips anything that isn't a PDF or zip
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      "application/pdf": [".pdf"],
-    },
-    maxFiles: 1,
+    disabled: isUploading,
   });
 
   const resetForm = () => {
-    setTitle("");
     setDescription("");
-    setSelectedFile(null);
+    setAssignmentType("user");
+    clearQueue();
     setSelectedDepartment("");
     setSelectedRole("");
     setSelectedUser("");
     setSearchQuery("");
     setUserSearchQuery("");
-    setUploadProgress(0);
+  };
+
+  const handleDiscardPending = async (sessionId: string) => {
+    try {
+      await discardPendingUpload(sessionId);
+    } catch (error) {
+      console.error("Failed to cancel upload session:", error);
+    }
+    setPendingUploads(listPendingUploads());
+  };
+
+  const handleUploadAsVersion = async (id: string, documentId: string) => {
+    if (await uploadAsVersion(id, documentId)) {
+      toast.success("Uploaded as a new version");
+      onUploadSuccess();
+    }
   };
 
   const handleDepartmentChange = (newDepartmentId: string) => {
@@ -247,9 +274,23 @@ export function DocumentUploadDrawer({
     setSelectedUser("");
   };
 
-  const uploadDocument = async () => {
-    if (!selectedFile || !title || !currentUser) {
-      toast.error("Please fill in all required fields");
+  const pendingCount = queue.filter(
+    (item) =>
+      item.status === "pending" ||
+      (item.status === "error" && item.uploaded === 0)
+  ).length;
+  const hasMissingTitle = queue.some(
+    (item) => !item.isArchive && item.status !== "done" && !item.title.trim()
+  );
+
+  const uploadDocuments = async () => {
+    if (pendingCount === 0 || !currentUser) {
+      toast.error("Please add at least one file");
+      return;
+    }
+
+    if (hasMissingTitle) {
+      toast.error("Every document needs a title");
       return;
     }
 
@@ -258,64 +299,51 @@ export function DocumentUploadDrawer({
       return;
     }
 
-    if (!selectedRole) {
-      toast.error("Please select a role to assign the document to");
+    if (!selectedRole && assignmentType !== "department") {
+      toast.error("Please select a role to assign the documents to");
       return;
     }
 
-    if (!selectedUser) {
-      toast.error("Please select a user to assign the document to");
+    if (!selectedUser && assignmentType === "user") {
+      toast.error("Please select a user to assign the documents to");
       return;
     }
 
-    setIsUploading(true);
-    setUploadProgress(0);
+    const { uploaded, failed, duplicates } = await uploadAll({
+      description,
+      selectedUser,
+      assignmentType,
+      assignedRole: selectedRole,
+      assignedDepartment: selectedDepartment,
+    });
+    setPendingUploads(listPendingUploads());
 
-    try {
-      const formData = new FormData();
-      formData.append("file", selectedFile);
-      formData.append("title", title);
-      formData.append("description", description);
-      formData.append("assignmentType", "role");
-      formData.append("assignedRole", selectedRole);
-      formData.append("selectedUser", selectedUser); // FIXED: Changed from assignedUser to selectedUser
-
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress((prev) => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return prev;
-          }
-          return prev + 10;
-        });
-      }, 200);
-
-      const response = await fetch("/api/documents/upload", {
-        method: "POST",
-        body: formData,
-      });
-
-      clearInterval(progressInterval);
-      setUploadProgress(100);
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Upload failed");
-      }
+    if (uploaded > 0) {
+      onUploadSuccess();
+    }
 
-      toast.success("Document uploaded successfully!");
+    if (duplicates > 0) {
+      toast.error(
+        `${duplicates} file${
+          duplicates === 1 ? " was" : "s were"
+        } already uploaded – choose what to do with ${
+          duplicates === 1 ? "it" : "them"
+        }`
+      );
+    } else if (failed === 0) {
+      toast.success(
+        uploaded === 1
+          ? "Document uploaded successfully!"
+          : `${uploaded} documents uploaded successfully!`
+      );
       resetForm();
-      onUploadSuccess();
       onOpenChange(false);
-    } catch (error) {
-      console.error("Upload error:", error);
+    } else {
       toast.error(
-        error instanceof Error ? error.message : "Failed to upload document"
+        `${failed} file${failed === 1 ? "" : "s"} failed to upload${
+          uploaded > 0 ? ` (${uploaded} uploaded)` : ""
+        }`
       );
-    } finally {
-      setIsUploading(false);
-      setUploadProgress(0);
     }
   };
 
@@ -325,85 +353,98 @@ export function DocumentUploadDrawer({
         <SheetHeader>
           <SheetTitle className="flex items-center gap-2">
             <Upload className="h-5 w-5 text-primary" />
-            Upload Document
+            Upload Documents
           </SheetTitle>
           <SheetDescription>
-            Upload a PDF document and assign it to a specific user within a role
-            and department
+            Upload one or more PDF documents and assign them to a specific user,
+            or to a role or department for its members to claim
           </SheetDescription>
         </SheetHeader>
 
         <div className="space-y-6 mt-6">
           {/* File Upload Area */}
           <div>
-            <Label>Upload PDF File *</Label>
+            <Label>Upload PDF Files *</Label>
             <div
               {...getRootProps()}
               className={cn(
                 "border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors mt-2",
                 isDragActive
                   ? "border-primary bg-primary/5"
-                  : selectedFile
+                  : queue.length > 0
                   ? "border-green-500 bg-green-50"
                   : "border-gray-300 hover:border-gray-400"
               )}
             >
               <input {...getInputProps({ form: undefined })} />
-              {selectedFile ? (
-                <div className="flex items-center justify-center space-x-2">
-                  <FileText className="h-6 w-6 text-green-600" />
-                  <div>
-                    <p className="font-medium text-green-700">
-                      {selectedFile.name}
-                    </p>
-                    <p className="text-sm text-green-600">
-                      {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                    </p>
-                  </div>
+              <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+              <p className="font-medium text-gray-700">
+                {isDragActive
+                  ? "Drop your files here"
+                  : "Drag & drop PDFs, a folder or a zip archive here"}
+              </p>
+              <p className="text-sm text-gray-500">or click to browse</p>
+            </div>
+          </div>
+
+          {/* Interrupted large uploads resume when the same file is re-added */}
+          {pendingUploads.length > 0 && (
+            <div className="border border-amber-200 bg-amber-50 rounded-lg p-3 space-y-2">
+              <p className="text-sm font-medium text-amber-900 flex items-center gap-2">
+                <RotateCcw className="h-4 w-4" />
+                Unfinished uploads
+              </p>
+              <p className="text-xs text-amber-800">
+                Add the same file again to continue where it stopped.
+              </p>
+              {pendingUploads.map((pending) => (
+                <div
+                  key={pending.sessionId}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <span className="truncate">
+                    {pending.fileName}{" "}
+                    <span className="text-xs text-gray-500">
+                      ({(pending.fileSize / 1024 / 1024).toFixed(1)} MB)
+                    </span>
+                  </span>
                   <Button
                     type="button"
                     variant="ghost"
                     size="sm"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setSelectedFile(null);
-                    }}
+                    onClick={() => handleDiscardPending(pending.sessionId)}
+                    disabled={isUploading}
                   >
-                    <X size={16} />
+                    Discard
                   </Button>
                 </div>
-              ) : (
-                <div>
-                  <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
-                  <p className="font-medium text-gray-700">
-                    {isDragActive
-                      ? "Drop your PDF here"
-                      : "Drag & drop a PDF file here"}
-                  </p>
-                  <p className="text-sm text-gray-500">or click to browse</p>
-                </div>
-              )}
+              ))}
             </div>
-          </div>
+          )}
 
-          {/* Document Details */}
-          <div className="space-y-4">
-            <div>
-              <Label htmlFor="title">Document Title *</Label>
-              <Input
-                id="title"
-                placeholder="Enter document title"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                required
+          {queue.length > 0 && (
+            <div className="space-y-2">
+              <Label>
+                Files ({queue.length}) – titles default to the file name
+              </Label>
+              <UploadQueueList
+                items={queue}
+                disabled={isUploading}
+                onTitleChange={setTitle}
+                onRemove={removeItem}
+                onKeepCopy={keepAsCopy}
+                onUploadAsVersion={handleUploadAsVersion}
               />
             </div>
+          )}
 
+          {/* Document Details */}
+          <div className="space-y-4">
             <div>
               <Label htmlFor="description">Description</Label>
               <Textarea
                 id="description"
-                placeholder="Enter document description (optional)"
+                placeholder="Description applied to every document (optional)"
                 value={description}
                 onChange={(e) => setDescription(e.target.value)}
                 rows={3}
@@ -411,6 +452,36 @@ export function DocumentUploadDrawer({
             </div>
           </div>
 
+          {/* Assignment Type */}
+          <div>
+            <Label>Assign to *</Label>
+            <Select
+              value={assignmentType}
+              onValueChange={(value) =>
+                setAssignmentType(value as AssignmentType)
+              }
+            >
+              <SelectTrigger className="focus:ring-primary focus:border-primary">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                <SelectItem value="user">A specific user</SelectItem>
+                <SelectItem value="role">
+                  Everyone in a role (team inbox)
+                </SelectItem>
+                <SelectItem value="department">
+                  Everyone in a department (team inbox)
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {assignmentType !== "user" && (
+              <p className="text-xs text-gray-500 mt-1">
+                The documents wait in the team inbox until a member claims
+                them
+              </p>
+            )}
+          </div>
+
           {/* Department Selection */}
           <div>
             <Label htmlFor="department">Department *</Label>
@@ -432,7 +503,7 @@ export function DocumentUploadDrawer({
                 ))}
               </SelectContent>
             </Select>
-            {!selectedDepartment && (
+            {!selectedDepartment && assignmentType !== "department" && (
               <p className="text-xs text-gray-500 mt-1">
                 Please select a department first to see available roles
               </p>
@@ -440,78 +511,80 @@ export function DocumentUploadDrawer({
           </div>
 
           {/* Role Selection */}
-          <div>
-            <Label>Assign to Role *</Label>
-            <div className="space-y-3">
-              {/* Search Input */}
-              <div className="relative">
-                <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                <Input
-                  placeholder="Search roles by name..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10"
-                  disabled={!selectedDepartment}
-                />
-              </div>
+          {assignmentType !== "department" && (
+            <div>
+              <Label>Assign to Role *</Label>
+              <div className="space-y-3">
+                {/* Search Input */}
+                <div className="relative">
+                  <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    placeholder="Search roles by name..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-10"
+                    disabled={!selectedDepartment}
+                  />
+                </div>
 
-              {/* Role List */}
-              <div className="border rounded-lg p-4 max-h-48 overflow-y-auto">
-                <div className="space-y-3">
-                  {filteredRoles.length > 0 ? (
-                    filteredRoles.map((role) => (
-                      <div
-                        key={role.id}
-                        className="flex items-center space-x-3 p-2 rounded-lg border border-transparent hover:border-gray-200 hover:bg-gray-50 cursor-pointer"
-                        onClick={() => handleRoleChange(role.id)}
-                      >
+                {/* Role List */}
+                <div className="border rounded-lg p-4 max-h-48 overflow-y-auto">
+                  <div className="space-y-3">
+                    {filteredRoles.length > 0 ? (
+                      filteredRoles.map((role) => (
                         <div
-                          className={cn(
-                            "w-4 h-4 rounded-full border-2 flex items-center justify-center",
-                            selectedRole === role.id
-                              ? "bg-primary border-primary"
-                              : "border-gray-300"
-                          )}
+                          key={role.id}
+                          className="flex items-center space-x-3 p-2 rounded-lg border border-transparent hover:border-gray-200 hover:bg-gray-50 cursor-pointer"
+                          onClick={() => handleRoleChange(role.id)}
                         >
-                          {selectedRole === role.id && (
-                            <div className="w-2 h-2 rounded-full bg-white" />
-                          )}
-                        </div>
-                        <div className="flex-1">
-                          <p className="font-medium text-sm flex items-center gap-2">
-                            <Shield className="h-4 w-4 text-primary" />
-                            {role.name}
-                          </p>
-                          {role.description && (
-                            <p className="text-xs text-gray-600">
-                              {role.description}
+                          <div
+                            className={cn(
+                              "w-4 h-4 rounded-full border-2 flex items-center justify-center",
+                              selectedRole === role.id
+                                ? "bg-primary border-primary"
+                                : "border-gray-300"
+                            )}
+                          >
+                            {selectedRole === role.id && (
+                              <div className="w-2 h-2 rounded-full bg-white" />
+                            )}
+                          </div>
+                          <div className="flex-1">
+                            <p className="font-medium text-sm flex items-center gap-2">
+                              <Shield className="h-4 w-4 text-primary" />
+                              {role.name}
                             </p>
-                          )}
+                            {role.description && (
+                              <p className="text-xs text-gray-600">
+                                {role.description}
+                              </p>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    ))
-                  ) : selectedDepartment ? (
-                    <p className="text-sm text-gray-500 text-center py-4">
-                      No roles found for this department
-                    </p>
-                  ) : (
-                    <p className="text-sm text-gray-500 text-center py-4">
-                      Please select a department first
+                      ))
+                    ) : selectedDepartment ? (
+                      <p className="text-sm text-gray-500 text-center py-4">
+                        No roles found for this department
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-500 text-center py-4">
+                        Please select a department first
+                      </p>
+                    )}
+                  </div>
+                  {selectedRole && (
+                    <p className="text-sm text-gray-600 mt-2">
+                      Selected Role:{" "}
+                      {allRoles.find((r) => r.id === selectedRole)?.name}
                     </p>
                   )}
                 </div>
-                {selectedRole && (
-                  <p className="text-sm text-gray-600 mt-2">
-                    Selected Role:{" "}
-                    {allRoles.find((r) => r.id === selectedRole)?.name}
-                  </p>
-                )}
               </div>
             </div>
-          </div>
+          )}
 
           {/* User Selection (only shown when role is selected) */}
-          {selectedRole && (
+          {selectedRole && assignmentType === "user" && (
             <div>
               <Label>Assign to Specific User *</Label>
               <div className="space-y-3">
@@ -576,32 +649,25 @@ export function DocumentUploadDrawer({
             </div>
           )}
 
-          {/* Upload Progress */}
-          {isUploading && (
-            <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span>Uploading...</span>
-                <span>{Math.round(uploadProgress)}%</span>
-              </div>
-              <Progress value={uploadProgress} className="w-full" />
-            </div>
-          )}
-
           <div className="flex gap-3 pt-4">
             <Button
               type="button"
-              onClick={uploadDocument}
+              onClick={uploadDocuments}
               disabled={
-                !selectedFile ||
-                !title ||
+                pendingCount === 0 ||
+                hasMissingTitle ||
                 !selectedDepartment ||
-                !selectedRole ||
-                !selectedUser ||
+                (!selectedRole && assignmentType !== "department") ||
+                (!selectedUser && assignmentType === "user") ||
                 isUploading
               }
               className="flex-1"
             >
-              {isUploading ? "Uploading..." : "Upload Document"}
+              {isUploading
+                ? "Uploading..."
+                : pendingCount > 1
+                ? `Upload ${pendingCount} Files`
+                : "Upload Document"}
             </Button>
             <Button
               type="button"
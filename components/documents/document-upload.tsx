@@ -120,9 +120,9 @@ export function DocumentUpload() {
       formData.append("title", title);
       formData.append("assignmentType", assignmentType);
       if (assignmentType === "user") {
-        formData.append("assignedToUser", assignedToUser);
+        formData.append("selectedUser", assignedToUser);
       } else {
-        formData.append("assignedToDepartment", assignedToDepartment);
+        formData.append("assignedDepartment", assignedToDepartment);
       }
 
       const response = await fetch("/api/documents/upload", {
@@ -0,0 +1,142 @@
+// components/documents/document-version-picker.tsx
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { History, Upload } from "lucide-react";
+import { toast } from "react-hot-toast";
+
+export interface DocumentVersionSummary {
+  id: string;
+  version_number: number;
+  file_size: number;
+  uploaded_by: string | null;
+  uploader_name?: string | null;
+  change_note: string | null;
+  created_at: string;
+}
+
+interface DocumentVersionPickerProps {
+  documentId: string;
+  versions: DocumentVersionSummary[];
+  selectedVersion: number | null;
+  canUpload: boolean;
+  onSelect: (versionNumber: number) => void;
+  onUploaded: (version: DocumentVersionSummary) => void;
+}
+
+export function DocumentVersionPicker({
+  documentId,
+  versions,
+  selectedVersion,
+  canUpload,
+  onSelect,
+  onUploaded,
+}: DocumentVersionPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const latest = versions.length > 0 ? versions[0].version_number : null;
+  const current = selectedVersion ?? latest;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.type !== "application/pdf") {
+      toast.error("Please upload a PDF file only");
+      return;
+    }
+
+    const changeNote = window.prompt("Describe what changed (optional)") ?? "";
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("change_note", changeNote);
+
+      const res = await fetch(
+        `/api/documents/${encodeURIComponent(documentId)}/versions`,
+        { method: "POST", body: formData }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(json?.error || "Failed to upload version");
+      }
+
+      toast.success(`Version ${json.version.version_number} uploaded`);
+      onUploaded(json.version);
+    } catch (error) {
+      console.error("Version upload error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to upload version"
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <History className="h-4 w-4 text-gray-500" />
+      <Select
+        value={current !== null ? String(current) : undefined}
+        onValueChange={(v) => onSelect(Number(v))}
+        disabled={versions.length === 0}
+      >
+        <SelectTrigger className="w-[220px] h-9">
+          <SelectValue placeholder="Versions" />
+        </SelectTrigger>
+        <SelectContent position="popper">
+          {versions.map((v) => (
+            <SelectItem key={v.id} value={String(v.version_number)}>
+              <div className="flex flex-col">
+                <span className="text-sm">
+                  v{v.version_number}
+                  {v.version_number === latest ? " (latest)" : ""}
+                  {" — "}
+                  {new Date(v.created_at).toLocaleDateString()}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {v.uploader_name ?? "Unknown"}
+                  {v.change_note ? ` • ${v.change_note}` : ""}
+                </span>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {canUpload && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/pdf"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={uploading}
+            onClick={() => fileInputRef.current?.click()}
+            title="Upload a corrected file as a new version"
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            {uploading ? "Uploading..." : "New Version"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
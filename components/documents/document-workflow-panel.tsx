@@ -0,0 +1,291 @@
+// components/documents/document-workflow-panel.tsx
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, ChevronRight, Workflow, X } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { cn } from "@/lib/utils";
+import { describeQuorum } from "@/lib/review-quorum";
+import {
+  type DocumentWorkflow,
+  type WorkflowStepState,
+  type WorkflowTemplate,
+} from "@/lib/workflow";
+
+interface DocumentWorkflowPanelProps {
+  documentId: string;
+  currentUserId: string | null;
+  /** Absent users the current user is the out-of-office delegate for */
+  actingFor?: string[];
+  /** The document's status; the panel reloads when it changes */
+  status: string;
+  onChanged: () => void;
+}
+
+const RUN_LABELS: Record<DocumentWorkflow["status"], string> = {
+  active: "In progress",
+  completed: "Completed",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+const STEP_STYLES: Record<WorkflowStepState["status"], string> = {
+  pending: "border-gray-300 bg-white text-gray-500",
+  active: "border-blue-500 bg-blue-50 text-blue-700",
+  completed: "border-green-500 bg-green-500 text-white",
+  rejected: "border-red-500 bg-red-500 text-white",
+  skipped: "border-gray-300 bg-gray-100 text-gray-400",
+  cancelled: "border-gray-300 bg-gray-100 text-gray-400",
+};
+
+function StepMarker({ step }: { step: WorkflowStepState }) {
+  return (
+    <span
+      className={cn(
+        "flex h-6 w-6 shrink-0 items-center justify-center rounded-full border-2 text-xs font-semibold",
+        STEP_STYLES[step.status]
+      )}
+    >
+      {step.status === "completed" ? (
+        <Check className="h-3 w-3" />
+      ) : step.status === "rejected" ? (
+        <X className="h-3 w-3" />
+      ) : (
+        step.position + 1
+      )}
+    </span>
+  );
+}
+
+/**
+ * Progress of the document's approval workflow, step by step, with the
+ * decision buttons for whoever the current step waits on. Offers to start
+ * a workflow when there is none running and the user may start one;
+ * renders nothing otherwise.
+ */
+export function DocumentWorkflowPanel({
+  documentId,
+  currentUserId,
+  actingFor = [],
+  status,
+  onChanged,
+}: DocumentWorkflowPanelProps) {
+  const [workflow, setWorkflow] = useState<DocumentWorkflow | null>(null);
+  const [templates, setTemplates] = useState<WorkflowTemplate[]>([]);
+  const [canStart, setCanStart] = useState(false);
+  const [templateId, setTemplateId] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/documents/${encodeURIComponent(documentId)}/workflow`
+      );
+      if (!res.ok) return;
+      const json = await res.json();
+      setWorkflow(json.workflow ?? null);
+      setTemplates(json.templates ?? []);
+      setCanStart(Boolean(json.can_start));
+    } catch (error) {
+      console.error("Failed to fetch workflow:", error);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    load();
+  }, [load, status]);
+
+  const post = async (body: Record<string, unknown>, success: string) => {
+    setBusy(true);
+    try {
+      const res = await fetch(
+        `/api/documents/${encodeURIComponent(documentId)}/workflow`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to update workflow");
+
+      toast.success(success);
+      setWorkflow(json.workflow ?? null);
+      onChanged();
+      await load();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update workflow"
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reject = () => {
+    const comment = window.prompt("Why do you want to reject this step?");
+    if (comment === null) return;
+    if (!comment.trim()) {
+      toast.error("A reason is required");
+      return;
+    }
+    post({ action: "reject", comment }, "Step rejected");
+  };
+
+  const running = workflow?.status === "active";
+  const activeStep = workflow?.steps.find((s) => s.status === "active");
+  const waitingOnMe =
+    running &&
+    !!activeStep &&
+    activeStep.participants.some(
+      (p) =>
+        p.status === "assigned" &&
+        (p.user_id === String(currentUserId) || actingFor.includes(p.user_id))
+    );
+  const offerStart = canStart && !running && templates.length > 0;
+
+  if (!workflow && !offerStart) return null;
+
+  return (
+    <div className="bg-white border-b px-4 py-3 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm">
+          <Workflow className="h-4 w-4 text-primary" />
+          {workflow ? (
+            <>
+              <span className="font-medium">{workflow.template_name}</span>
+              <span className="text-gray-500">
+                {RUN_LABELS[workflow.status]}
+                {workflow.started_by_name &&
+                  `, started by ${workflow.started_by_name}`}
+              </span>
+            </>
+          ) : (
+            <span className="text-gray-600">
+              Send this document through an approval workflow
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          {waitingOnMe && (
+            <>
+              <Button
+                size="sm"
+                disabled={busy}
+                className="bg-green-600 hover:bg-green-700"
+                onClick={() => post({ action: "approve" }, "Step approved")}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={busy}
+                className="border-red-600 text-red-600 hover:bg-red-50"
+                onClick={reject}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+            </>
+          )}
+          {offerStart && (
+            <>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger className="h-9 w-56">
+                  <SelectValue placeholder="Choose a workflow" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                disabled={busy || !templateId}
+                className="bg-primary hover:bg-primary/90"
+                onClick={() =>
+                  post({ action: "start", templateId }, "Workflow started")
+                }
+              >
+                {workflow ? "Start again" : "Start workflow"}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {workflow && (
+        <ol className="flex items-start gap-2 overflow-x-auto pb-1">
+          {workflow.steps.map((step, i) => (
+            <Fragment key={step.id}>
+              {i > 0 && (
+                <ChevronRight className="h-4 w-4 mt-1 shrink-0 text-gray-300" />
+              )}
+              <li
+                className={cn(
+                  "flex min-w-[10rem] max-w-[16rem] gap-2 rounded-md p-2",
+                  step.status === "active" && "bg-blue-50/60"
+                )}
+              >
+                <StepMarker step={step} />
+                <div className="min-w-0 text-xs">
+                  <p className="font-medium text-sm text-gray-900 truncate">
+                    {step.name}
+                  </p>
+                  <p className="text-gray-500 truncate">
+                    <span className="capitalize">{step.target_type}</span>:{" "}
+                    {step.target_name ?? "Unknown"}
+                    {step.target_type !== "user" &&
+                      ` · ${describeQuorum(
+                        step.completion,
+                        step.required_approvals,
+                        step.participants.length || undefined
+                      )}`}
+                  </p>
+                  {step.participants.length > 0 && (
+                    <p className="text-gray-600 truncate">
+                      {step.participants
+                        .filter((p) => p.status !== "closed")
+                        .map(
+                          (p) =>
+                            `${p.user_name ?? "Unknown"}${
+                              p.delegated_from_name
+                                ? ` for ${p.delegated_from_name}`
+                                : ""
+                            }${
+                              p.status === "assigned" ? "" : ` (${p.status})`
+                            }${
+                              p.acted_by_name ? ` by ${p.acted_by_name}` : ""
+                            }`
+                        )
+                        .join(", ")}
+                    </p>
+                  )}
+                  {step.note && (
+                    <p className="text-gray-500 italic break-words">
+                      {step.note}
+                    </p>
+                  )}
+                </div>
+              </li>
+            </Fragment>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
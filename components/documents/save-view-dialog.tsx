@@ -0,0 +1,114 @@
+// components/documents/save-view-dialog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { saveDocumentView } from "@/hooks/use-saved-views";
+
+interface SaveViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Document list URL parameters to save */
+  query: string;
+}
+
+/** Names the current filters and sort and saves them as a view */
+export function SaveViewDialog({
+  open,
+  onOpenChange,
+  query,
+}: SaveViewDialogProps) {
+  const [name, setName] = useState("");
+  const [share, setShare] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setShare(false);
+    }
+  }, [open]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await saveDocumentView({
+        name: name.trim(),
+        query,
+        shareWithDepartment: share,
+      });
+      toast.success("View saved");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save view");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save view</DialogTitle>
+          <DialogDescription>
+            Saved views appear under Documents in the sidebar. Filters on
+            &quot;me&quot;, &quot;my department&quot; and relative dates
+            follow whoever opens the view.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              value={name}
+              maxLength={100}
+              placeholder="e.g. Waiting on me"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="view-share"
+              checked={share}
+              onCheckedChange={(checked) => setShare(checked === true)}
+            />
+            <Label htmlFor="view-share" className="font-normal">
+              Share with my department
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="bg-primary hover:bg-primary/90"
+          >
+            {saving ? "Saving..." : "Save view"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,194 @@
+// components/documents/upload-queue-list.tsx
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Copy,
+  FileArchive,
+  FileText,
+  Loader2,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { UploadQueueItem } from "@/hooks/use-upload-queue";
+
+interface UploadQueueListProps {
+  items: UploadQueueItem[];
+  disabled?: boolean;
+  onTitleChange: (id: string, title: string) => void;
+  onRemove: (id: string) => void;
+  /** Upload a duplicate anyway as a separate document */
+  onKeepCopy: (id: string) => void;
+  /** Add a duplicate's file as a new version of the given document */
+  onUploadAsVersion: (id: string, documentId: string) => void;
+}
+
+/** Selected files for a bulk upload with editable titles and per-file status */
+export function UploadQueueList({
+  items,
+  disabled = false,
+  onTitleChange,
+  onRemove,
+  onKeepCopy,
+  onUploadAsVersion,
+}: UploadQueueListProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="border rounded-lg divide-y max-h-80 overflow-y-auto">
+      {items.map((item) => {
+        const Icon = item.isArchive ? FileArchive : FileText;
+        const locked = disabled || item.status === "done";
+
+        return (
+          <div
+            key={item.id}
+            className={cn(
+              "p-3 space-y-2",
+              item.status === "error" && "bg-red-50",
+              item.status === "duplicate" && "bg-amber-50",
+              item.status === "done" && "bg-green-50"
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <Icon className="h-4 w-4 text-gray-500 shrink-0" />
+              {item.isArchive ? (
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {item.file.name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Zip archive – each PDF inside is titled by its file name
+                  </p>
+                </div>
+              ) : (
+                <Input
+                  value={item.title}
+                  onChange={(e) => onTitleChange(item.id, e.target.value)}
+                  placeholder="Document title"
+                  disabled={locked}
+                  className="h-8 flex-1"
+                />
+              )}
+              <span className="text-xs text-gray-500 shrink-0">
+                {(item.file.size / 1024 / 1024).toFixed(2)} MB
+              </span>
+              {item.status === "uploading" && (
+                <Loader2 className="h-4 w-4 animate-spin text-primary shrink-0" />
+              )}
+              {item.status === "done" && (
+                <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+              )}
+              {item.status === "error" && (
+                <AlertCircle className="h-4 w-4 text-red-600 shrink-0" />
+              )}
+              {item.status === "duplicate" && (
+                <Copy className="h-4 w-4 text-amber-600 shrink-0" />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={disabled || item.status === "uploading"}
+                onClick={() => onRemove(item.id)}
+                title="Remove from list"
+              >
+                <X size={14} />
+              </Button>
+            </div>
+
+            {!item.isArchive && item.title !== item.file.name && (
+              <p className="text-xs text-gray-500 truncate pl-6">
+                {item.file.name}
+              </p>
+            )}
+
+            {item.status === "uploading" && (
+              <Progress value={item.progress} className="h-1.5" />
+            )}
+
+            {item.status === "done" && item.isArchive && (
+              <p className="text-xs text-green-700 pl-6">
+                {item.uploaded} document{item.uploaded === 1 ? "" : "s"}{" "}
+                uploaded
+              </p>
+            )}
+
+            {item.status === "duplicate" && item.duplicates.length > 0 && (
+              <div className="pl-6 space-y-2">
+                <p className="text-xs text-amber-800">
+                  Already uploaded as{" "}
+                  {item.duplicates.map((duplicate, index) => (
+                    <span key={duplicate.id}>
+                      {index > 0 && ", "}
+                      <Link
+                        href={`/documents/${duplicate.id}`}
+                        target="_blank"
+                        className="font-medium underline"
+                      >
+                        {duplicate.title}
+                      </Link>
+                    </span>
+                  ))}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    disabled={disabled}
+                    onClick={() =>
+                      onUploadAsVersion(item.id, item.duplicates[0].id)
+                    }
+                  >
+                    Add as new version of “{item.duplicates[0].title}”
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    disabled={disabled}
+                    onClick={() => onKeepCopy(item.id)}
+                  >
+                    Upload separate copy
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-xs"
+                    disabled={disabled}
+                    onClick={() => onRemove(item.id)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {item.errors.length > 0 && (
+              <ul className="text-xs text-red-700 pl-6 space-y-0.5">
+                {item.isArchive && item.uploaded > 0 && (
+                  <li className="text-green-700">
+                    {item.uploaded} document{item.uploaded === 1 ? "" : "s"}{" "}
+                    uploaded
+                  </li>
+                )}
+                {item.errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+// components/documents/watermark-policy-dialog.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DOCUMENT_CLASSIFICATIONS,
+  WATERMARK_PLACEHOLDERS,
+  WATERMARK_POSITIONS,
+  drawWatermark,
+  formatWatermarkTimestamp,
+  renderWatermarkText,
+  type WatermarkPosition,
+} from "@/lib/watermark";
+import type { WatermarkPolicy } from "@/lib/watermark-policies";
+
+// Radix Select items can't have an empty value
+const ANY = "any";
+
+// Letter page at a quarter of its size
+const PREVIEW_SCALE = 0.25;
+const PREVIEW_WIDTH = 612;
+const PREVIEW_HEIGHT = 792;
+
+interface WatermarkPolicyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The policy to edit; a new one is created when absent */
+  policy: WatermarkPolicy | null;
+  departments: { id: string; name: string }[];
+  onSaved: () => void;
+}
+
+export function WatermarkPolicyDialog({
+  open,
+  onOpenChange,
+  policy,
+  departments,
+  onSaved,
+}: WatermarkPolicyDialogProps) {
+  const [name, setName] = useState("");
+  const [textTemplate, setTextTemplate] = useState("");
+  const [departmentId, setDepartmentId] = useState(ANY);
+  const [classification, setClassification] = useState(ANY);
+  const [position, setPosition] = useState<WatermarkPosition>("diagonal");
+  const [opacity, setOpacity] = useState("0.15");
+  const [fontSize, setFontSize] = useState("36");
+  const [color, setColor] = useState("#ff0000");
+  const [enabled, setEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(policy?.name ?? "");
+    setTextTemplate(
+      policy?.text_template ?? "{user_name} {user_email} {timestamp}"
+    );
+    setDepartmentId(policy?.department_id ?? ANY);
+    setClassification(policy?.classification ?? ANY);
+    setPosition(policy?.position ?? "diagonal");
+    setOpacity(String(policy?.opacity ?? 0.15));
+    setFontSize(String(policy?.font_size ?? 36));
+    setColor(policy?.color ?? "#ff0000");
+    setEnabled(policy?.enabled ?? true);
+  }, [open, policy]);
+
+  // Preview with sample values, drawn exactly as the viewer draws it
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.scale(PREVIEW_SCALE, PREVIEW_SCALE);
+    drawWatermark(ctx, PREVIEW_WIDTH, PREVIEW_HEIGHT, {
+      policy_id: "preview",
+      text: renderWatermarkText(textTemplate, {
+        user_name: "Jane Doe",
+        user_email: "jane@example.com",
+        timestamp: formatWatermarkTimestamp(new Date()),
+        document_id: "3f2a9c1e",
+      }),
+      opacity: Number(opacity) || 0,
+      position,
+      font_size: Number(fontSize) || 36,
+      color,
+    });
+  }, [open, textTemplate, opacity, position, fontSize, color]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(
+        policy
+          ? `/api/watermark-policies/${encodeURIComponent(policy.id)}`
+          : "/api/watermark-policies",
+        {
+          method: policy ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: name.trim(),
+            textTemplate,
+            departmentId: departmentId === ANY ? null : departmentId,
+            classification: classification === ANY ? null : classification,
+            position,
+            opacity: Number(opacity),
+            fontSize: Number(fontSize),
+            color,
+            enabled,
+          }),
+        }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to save policy");
+
+      toast.success(policy ? "Policy updated" : "Policy created");
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save policy"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {policy ? "Edit watermark policy" : "New watermark policy"}
+          </DialogTitle>
+          <DialogDescription>
+            Placeholders:{" "}
+            {WATERMARK_PLACEHOLDERS.map((p) => `{${p}}`).join(", ")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-6">
+          <div className="flex-1 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="wm-name">Name</Label>
+              <Input
+                id="wm-name"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="wm-template">Text</Label>
+              <Input
+                id="wm-template"
+                value={textTemplate}
+                maxLength={300}
+                onChange={(e) => setTextTemplate(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Department</Label>
+                <Select value={departmentId} onValueChange={setDepartmentId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any department</SelectItem>
+                    {departments.map((d) => (
+                      <SelectItem key={d.id} value={d.id}>
+                        {d.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Classification</Label>
+                <Select
+                  value={classification}
+                  onValueChange={setClassification}
+                >
+                  <SelectTrigger className="capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any classification</SelectItem>
+                    {DOCUMENT_CLASSIFICATIONS.map((c) => (
+                      <SelectItem key={c} value={c} className="capitalize">
+                        {c}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Position</Label>
+                <Select
+                  value={position}
+                  onValueChange={(v) => setPosition(v as WatermarkPosition)}
+                >
+                  <SelectTrigger className="capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WATERMARK_POSITIONS.map((p) => (
+                      <SelectItem key={p} value={p} className="capitalize">
+                        {p}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="wm-opacity">Opacity (0.05-1)</Label>
+                <Input
+                  id="wm-opacity"
+                  type="number"
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  value={opacity}
+                  onChange={(e) => setOpacity(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="wm-size">Font size (pt)</Label>
+                <Input
+                  id="wm-size"
+                  type="number"
+                  min={6}
+                  max={144}
+                  value={fontSize}
+                  onChange={(e) => setFontSize(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="wm-color">Color</Label>
+                <Input
+                  id="wm-color"
+                  type="color"
+                  value={color}
+                  onChange={(e) => setColor(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="wm-enabled"
+                checked={enabled}
+                onCheckedChange={(checked) => setEnabled(checked === true)}
+              />
+              <Label htmlFor="wm-enabled" className="font-normal">
+                Enabled
+              </Label>
+            </div>
+          </div>
+
+          <canvas
+            ref={previewRef}
+            width={PREVIEW_WIDTH * PREVIEW_SCALE}
+            height={PREVIEW_HEIGHT * PREVIEW_SCALE}
+            className="border shadow-sm self-start"
+            aria-label="Watermark preview"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !name.trim() || !textTemplate.trim()}
+            className="bg-primary hover:bg-primary/90"
+          >
+            {saving ? "Saving..." : "Save policy"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,436 @@
+// components/documents/workflow-template-dialog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  REJECTION_LABELS,
+  STEP_REJECTION_RULES,
+  WORKFLOW_TARGET_TYPES,
+  type StepRejectionRule,
+  type WorkflowTargetType,
+  type WorkflowTemplate,
+} from "@/lib/workflow";
+import {
+  QUORUM_LABELS,
+  QUORUM_RULES,
+  type QuorumRule,
+} from "@/lib/review-quorum";
+
+// Radix Select items can't have an empty value
+const ANY = "any";
+const MAX_STEPS = 20;
+
+type Option = { id: string; name: string };
+
+interface StepDraft {
+  key: number;
+  name: string;
+  targetType: WorkflowTargetType;
+  targetId: string;
+  completion: QuorumRule;
+  /** For the "count" rule */
+  requiredApprovals: string;
+  onReject: StepRejectionRule;
+}
+
+interface WorkflowTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The template to edit; a new one is created when absent */
+  template: WorkflowTemplate | null;
+  departments: Option[];
+  roles: Option[];
+  users: Option[];
+  onSaved: () => void;
+}
+
+let nextKey = 0;
+
+function emptyStep(): StepDraft {
+  return {
+    key: nextKey++,
+    name: "",
+    targetType: "user",
+    targetId: "",
+    completion: "any",
+    requiredApprovals: "",
+    onReject: "reject",
+  };
+}
+
+export function WorkflowTemplateDialog({
+  open,
+  onOpenChange,
+  template,
+  departments,
+  roles,
+  users,
+  onSaved,
+}: WorkflowTemplateDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [departmentId, setDepartmentId] = useState(ANY);
+  const [enabled, setEnabled] = useState(true);
+  const [steps, setSteps] = useState<StepDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? "");
+    setDescription(template?.description ?? "");
+    setDepartmentId(template?.department_id ?? ANY);
+    setEnabled(template?.enabled ?? true);
+    setSteps(
+      template
+        ? template.steps.map((s) => ({
+            key: nextKey++,
+            name: s.name,
+            targetType: s.target_type,
+            targetId: s.target_id,
+            completion: s.completion,
+            requiredApprovals:
+              s.required_approvals == null ? "" : String(s.required_approvals),
+            onReject: s.on_reject,
+          }))
+        : [emptyStep()]
+    );
+  }, [open, template]);
+
+  const targetOptions: Record<WorkflowTargetType, Option[]> = {
+    user: users,
+    role: roles,
+    department: departments,
+  };
+
+  const updateStep = (key: number, changes: Partial<StepDraft>) => {
+    setSteps((prev) =>
+      prev.map((s) => (s.key === key ? { ...s, ...changes } : s))
+    );
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setSteps((prev) => {
+      const next = [...prev];
+      const [step] = next.splice(index, 1);
+      next.splice(index + offset, 0, step);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(
+        template
+          ? `/api/workflows/${encodeURIComponent(template.id)}`
+          : "/api/workflows",
+        {
+          method: template ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: name.trim(),
+            description: description.trim() || null,
+            departmentId: departmentId === ANY ? null : departmentId,
+            enabled,
+            steps: steps.map((s, i) => ({
+              name: s.name.trim(),
+              targetType: s.targetType,
+              targetId: s.targetId,
+              completion: s.completion,
+              requiredApprovals:
+                s.completion === "count" ? Number(s.requiredApprovals) : null,
+              // The first step has nothing to send back to
+              onReject: i === 0 ? "reject" : s.onReject,
+            })),
+          }),
+        }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to save workflow");
+
+      toast.success(template ? "Workflow updated" : "Workflow created");
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save workflow"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const incomplete =
+    !name.trim() ||
+    steps.length === 0 ||
+    steps.some(
+      (s) =>
+        !s.name.trim() ||
+        !s.targetId ||
+        (s.completion === "count" &&
+          s.targetType !== "user" &&
+          !(Number(s.requiredApprovals) >= 1))
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {template ? "Edit workflow" : "New workflow"}
+          </DialogTitle>
+          <DialogDescription>
+            Steps run in order; each one moves on as soon as its approval
+            rule is met
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="wf-name">Name</Label>
+              <Input
+                id="wf-name"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Department</Label>
+              <Select value={departmentId} onValueChange={setDepartmentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any department</SelectItem>
+                  {departments.map((d) => (
+                    <SelectItem key={d.id} value={d.id}>
+                      {d.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="wf-description">Description</Label>
+            <Textarea
+              id="wf-description"
+              value={description}
+              maxLength={1000}
+              rows={2}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Steps</Label>
+            {steps.map((step, index) => (
+              <div
+                key={step.key}
+                className="rounded-md border bg-gray-50 p-3 space-y-2"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-500 w-6">
+                    {index + 1}.
+                  </span>
+                  <Input
+                    value={step.name}
+                    maxLength={100}
+                    placeholder="Step name, e.g. Legal review"
+                    onChange={(e) =>
+                      updateStep(step.key, { name: e.target.value })
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={index === 0}
+                    onClick={() => moveStep(index, -1)}
+                    aria-label="Move step up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={index === steps.length - 1}
+                    onClick={() => moveStep(index, 1)}
+                    aria-label="Move step down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600"
+                    disabled={steps.length === 1}
+                    onClick={() =>
+                      setSteps((prev) =>
+                        prev.filter((s) => s.key !== step.key)
+                      )
+                    }
+                    aria-label="Remove step"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-4 gap-2 pl-8">
+                  <Select
+                    value={step.targetType}
+                    onValueChange={(v) =>
+                      updateStep(step.key, {
+                        targetType: v as WorkflowTargetType,
+                        targetId: "",
+                      })
+                    }
+                  >
+                    <SelectTrigger className="capitalize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WORKFLOW_TARGET_TYPES.map((t) => (
+                        <SelectItem key={t} value={t} className="capitalize">
+                          {t}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={step.targetId}
+                    onValueChange={(v) =>
+                      updateStep(step.key, { targetId: v })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Choose a ${step.targetType}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {targetOptions[step.targetType].map((o) => (
+                        <SelectItem key={o.id} value={String(o.id)}>
+                          {o.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex gap-1">
+                    <Select
+                      value={step.targetType === "user" ? "any" : step.completion}
+                      disabled={step.targetType === "user"}
+                      onValueChange={(v) =>
+                        updateStep(step.key, { completion: v as QuorumRule })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {QUORUM_RULES.map((c) => (
+                          <SelectItem key={c} value={c}>
+                            {QUORUM_LABELS[c]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {step.completion === "count" &&
+                      step.targetType !== "user" && (
+                        <Input
+                          type="number"
+                          min={1}
+                          className="w-16"
+                          value={step.requiredApprovals}
+                          placeholder="N"
+                          aria-label="Approvals needed"
+                          onChange={(e) =>
+                            updateStep(step.key, {
+                              requiredApprovals: e.target.value,
+                            })
+                          }
+                        />
+                      )}
+                  </div>
+                  <Select
+                    value={index === 0 ? "reject" : step.onReject}
+                    disabled={index === 0}
+                    onValueChange={(v) =>
+                      updateStep(step.key, {
+                        onReject: v as StepRejectionRule,
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STEP_REJECTION_RULES.map((r) => (
+                        <SelectItem key={r} value={r}>
+                          On reject: {REJECTION_LABELS[r].toLowerCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={steps.length >= MAX_STEPS}
+              onClick={() => setSteps((prev) => [...prev, emptyStep()])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add step
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="wf-enabled"
+              checked={enabled}
+              onCheckedChange={(checked) => setEnabled(checked === true)}
+            />
+            <Label htmlFor="wf-enabled" className="font-normal">
+              Enabled
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || incomplete}
+            className="bg-primary hover:bg-primary/90"
+          >
+            {saving ? "Saving..." : "Save workflow"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
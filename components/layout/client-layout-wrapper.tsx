@@ -10,8 +10,12 @@ export default function ClientLayoutWrapper({
 }) {
   const pathname = usePathname();
   const noLayoutRoutes = ["/", "/register"]; // extend as needed
+  // Share links are opened by guests without an account
+  const noLayoutPrefixes = ["/share/"];
 
-  const shouldUseLayout = !noLayoutRoutes.includes(pathname);
+  const shouldUseLayout =
+    !noLayoutRoutes.includes(pathname) &&
+    !noLayoutPrefixes.some((prefix) => pathname.startsWith(prefix));
 
   return shouldUseLayout ? <AppLayout>{children}</AppLayout> : <>{children}</>;
 }
@@ -0,0 +1,156 @@
+// components/layout/saved-views-nav.tsx
+"use client";
+
+import { Suspense } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { MoreHorizontal, Users } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  deleteDocumentView,
+  updateDocumentView,
+  useSavedViews,
+} from "@/hooks/use-saved-views";
+import {
+  parseDocumentListQuery,
+  toViewSearchParams,
+} from "@/lib/document-list-query";
+import type { SavedDocumentView } from "@/lib/document-views";
+import { cn } from "@/lib/utils";
+
+const DOCUMENTS_ROUTE = "/documents";
+
+interface SavedViewsNavProps {
+  userId: string | undefined;
+}
+
+/** Saved document views listed under the Documents menu item */
+export function SavedViewsNav(props: SavedViewsNavProps) {
+  // useSearchParams needs a Suspense boundary on statically rendered pages
+  return (
+    <Suspense fallback={null}>
+      <SavedViewsNavContent {...props} />
+    </Suspense>
+  );
+}
+
+function SavedViewsNavContent({ userId }: SavedViewsNavProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { views } = useSavedViews(userId);
+
+  if (views.length === 0) return null;
+
+  const currentView =
+    pathname === DOCUMENTS_ROUTE
+      ? toViewSearchParams(
+          parseDocumentListQuery(new URLSearchParams(searchParams.toString()))
+            .query
+        ).toString()
+      : null;
+
+  const handleShare = async (view: SavedDocumentView) => {
+    try {
+      await updateDocumentView(view.id, {
+        shareWithDepartment: !view.shared_department_id,
+      });
+      toast.success(
+        view.shared_department_id
+          ? "View is now private"
+          : "View shared with your department"
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update view"
+      );
+    }
+  };
+
+  const handleDelete = async (view: SavedDocumentView) => {
+    if (!window.confirm(`Delete the saved view "${view.name}"?`)) return;
+    try {
+      await deleteDocumentView(view.id);
+      toast.success("View deleted");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete view"
+      );
+    }
+  };
+
+  return (
+    <div className="ml-4 pl-2 border-l space-y-1">
+      {views.map((view) => {
+        const active = currentView === view.query;
+        return (
+          <div key={view.id} className="group flex items-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "flex-1 justify-start px-2 h-8 font-normal min-w-0",
+                active
+                  ? "bg-primary/10 text-primary"
+                  : "text-gray-600 hover:bg-primary/10 hover:text-primary"
+              )}
+              title={
+                view.is_owner
+                  ? view.name
+                  : `${view.name} (shared by ${view.owner_name ?? "a colleague"})`
+              }
+              onClick={() =>
+                router.push(
+                  view.query
+                    ? `${DOCUMENTS_ROUTE}?${view.query}`
+                    : DOCUMENTS_ROUTE
+                )
+              }
+            >
+              {view.shared_department_id && (
+                <Users size={12} className="mr-1 shrink-0" />
+              )}
+              <span className="truncate">{view.name}</span>
+              <span className="ml-auto pl-2 text-xs tabular-nums text-gray-500">
+                {view.count ?? 0}
+              </span>
+            </Button>
+            {view.is_owner && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-6 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    aria-label={`Options for ${view.name}`}
+                  >
+                    <MoreHorizontal size={14} />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleShare(view)}>
+                    {view.shared_department_id
+                      ? "Stop sharing"
+                      : "Share with my department"}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    className="text-red-600"
+                    onClick={() => handleDelete(view)}
+                  >
+                    Delete view
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 // components/layout/sidebar.tsx
 "use client";
 
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useRouter, usePathname } from "next/navigation";
 import { Button } from "@/components/ui/button";
@@ -19,9 +19,14 @@ import {
   Shield,
   Building2,
   Activity,
+  Trash2,
+  Stamp,
+  Workflow,
+  Inbox,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useSidebarContext } from "./sidebar-context";
+import { SavedViewsNav } from "./saved-views-nav";
 
 // Permission IDs mapping
 const PERMISSION_IDS = {
@@ -118,6 +123,7 @@ export function Sidebar() {
       route: "/documents",
       requiredPermission: PERMISSION_IDS.DOCUMENTS_UPLOAD,
     },
+    { id: "inbox", label: "Team Inbox", icon: Inbox, route: "/inbox" },
     {
       id: "users",
       label: "Users",
@@ -139,6 +145,21 @@ export function Sidebar() {
       route: "/roles",
       requiredPermission: PERMISSION_IDS.ROLES_CREATE,
     },
+    {
+      id: "watermarks",
+      label: "Watermarks",
+      icon: Stamp,
+      route: "/watermarks",
+      requiredPermission: PERMISSION_IDS.ROLES_CREATE,
+    },
+    {
+      id: "workflows",
+      label: "Workflows",
+      icon: Workflow,
+      route: "/workflows",
+      requiredPermission: PERMISSION_IDS.ROLES_CREATE,
+    },
+    { id: "trash", label: "Trash", icon: Trash2, route: "/trash" },
     {
       id: "notifications",
       label: "Notifications",
@@ -202,21 +223,26 @@ export function Sidebar() {
           {filteredMenuItems.map((item) => {
             const Icon = item.icon;
             return (
-              <Button
-                key={item.id}
-                variant={activeView === item.id ? "default" : "ghost"}
-                className={cn(
-                  "w-full justify-start transition-all duration-200",
-                  activeView === item.id
-                    ? "bg-primary text-white shadow-sm"
-                    : "hover:bg-primary/10 hover:text-primary",
-                  isCollapsed ? "px-2" : "px-3"
+              <Fragment key={item.id}>
+                <Button
+                  variant={activeView === item.id ? "default" : "ghost"}
+                  className={cn(
+                    "w-full justify-start transition-all duration-200",
+                    activeView === item.id
+                      ? "bg-primary text-white shadow-sm"
+                      : "hover:bg-primary/10 hover:text-primary",
+                    isCollapsed ? "px-2" : "px-3"
+                  )}
+                  onClick={() => router.push(item.route)}
+                >
+                  <Icon size={16} />
+                  {!isCollapsed && <span className="ml-2">{item.label}</span>}
+                </Button>
+                {/* Saved views sit under Documents, with live counts */}
+                {item.id === "documents" && !isCollapsed && (
+                  <SavedViewsNav userId={user?.id} />
                 )}
-                onClick={() => router.push(item.route)}
-              >
-                <Icon size={16} />
-                {!isCollapsed && <span className="ml-2">{item.label}</span>}
-              </Button>
+              </Fragment>
             );
           })}
         </nav>
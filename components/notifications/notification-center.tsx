@@ -6,7 +6,14 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Bell, CheckCheck, FileText } from "lucide-react";
+import {
+  AlarmClock,
+  Bell,
+  CheckCheck,
+  FileText,
+  Plane,
+  ShieldAlert,
+} from "lucide-react";
 import { format } from "date-fns";
 
 export function NotificationCenter() {
@@ -21,6 +28,14 @@ export function NotificationCenter() {
         return <FileText className="h-4 w-4" />;
       case "annotation_added":
         return <Bell className="h-4 w-4" />;
+      case "malware_detected":
+      case "scan_failed":
+        return <ShieldAlert className="h-4 w-4" />;
+      case "assignment_due_soon":
+      case "assignment_overdue":
+        return <AlarmClock className="h-4 w-4" />;
+      case "out_of_office":
+        return <Plane className="h-4 w-4" />;
       default:
         return <Bell className="h-4 w-4" />;
     }
@@ -34,6 +49,15 @@ export function NotificationCenter() {
         return "bg-green-100 text-green-800";
       case "document_updated":
         return "bg-orange-100 text-orange-800";
+      case "malware_detected":
+        return "bg-red-100 text-red-800";
+      case "scan_failed":
+      case "assignment_due_soon":
+        return "bg-amber-100 text-amber-800";
+      case "assignment_overdue":
+        return "bg-red-100 text-red-800";
+      case "out_of_office":
+        return "bg-purple-100 text-purple-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
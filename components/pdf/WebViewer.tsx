@@ -23,7 +23,8 @@ interface WebViewerProps {
   documentId: string;
   currentUserId: string;
   currentUserName: string;
-  assignedToUserId?: string;
+  /** Users reviewing the document right now; they may annotate it */
+  reviewerIds?: string[];
   onAnnotationSave?: (annotation: Annotation) => void;
   onAnnotationDelete?: (annotationId: string) => void;
   existingAnnotations: Annotation[];
@@ -31,6 +32,15 @@ interface WebViewerProps {
     highlightAnnotation: (id: string) => Promise<void>;
     exportDocument: () => Promise<void>;
   }) => void;
+  /** Page to open once the document has loaded (1-based) */
+  initialPage?: number;
+  /** Text to highlight once the document has loaded, e.g. a search term */
+  highlightText?: string;
+  /**
+   * Open as a guest through a share link: annotations go through the
+   * link's API instead of the signed-in user's.
+   */
+  share?: { token: string; canAnnotate: boolean };
 }
 
 type Toast = { id: string; message: string };
@@ -40,13 +50,21 @@ export default function WebViewerComponent({
   documentId,
   currentUserId,
   currentUserName,
-  assignedToUserId,
+  reviewerIds,
   onAnnotationSave,
   onAnnotationDelete,
   existingAnnotations,
   registerHandlers,
+  initialPage,
+  highlightText,
+  share,
 }: WebViewerProps) {
   const viewer = useRef<HTMLDivElement | null>(null);
+  // Read on documentLoaded; kept in refs so changing them doesn't re-init
+  const initialPageRef = useRef(initialPage);
+  const highlightTextRef = useRef(highlightText);
+  initialPageRef.current = initialPage;
+  highlightTextRef.current = highlightText;
   const instanceRef = useRef<any>(null);
   const annotationChangeHandlerRef = useRef<any>(null);
   const [viewerReady, setViewerReady] = useState(false);
@@ -56,9 +74,15 @@ export default function WebViewerComponent({
   );
 
   // --- IMPORTANT FIX: make canAnnotate strictly boolean
-  const canAnnotate: boolean =
-    Boolean(assignedToUserId) &&
-    String(currentUserId) === String(assignedToUserId);
+  const canAnnotate: boolean = share
+    ? share.canAnnotate
+    : (reviewerIds ?? []).includes(String(currentUserId));
+  // A stable dependency; the array itself is new on every render
+  const reviewerKey = (reviewerIds ?? []).join(",");
+  const shareToken = share?.token;
+  const annotationsApi = shareToken
+    ? `/api/share/${encodeURIComponent(shareToken)}/annotations`
+    : "/api/annotations";
 
   // Toasts
   const [toasts, setToasts] = useState<Toast[]>([]);
@@ -310,8 +334,10 @@ export default function WebViewerComponent({
         flatten: true,
       });
 
-      // Create blob and download
+      // A watermark policy's mark is already burned into the loaded file
       const blob = new Blob([data], { type: "application/pdf" });
+
+      // Download
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
@@ -349,8 +375,8 @@ export default function WebViewerComponent({
     console.info(
       "Permission check - canAnnotate:",
       canAnnotate,
-      "assignedToUserId:",
-      assignedToUserId,
+      "reviewerIds:",
+      reviewerKey,
       "currentUserId:",
       currentUserId
     );
@@ -390,6 +416,8 @@ export default function WebViewerComponent({
       {
         path: "/webviewer",
         initialDoc: documentUrl,
+        // documentUrl points at the file API route, which has no extension
+        extension: "pdf",
         licenseKey:
           "demo:1757509875851:604eca4e0300000000877d781419f71633c68ea80c20ad3325f5806b42",
         disabledElements: disabledElements,
@@ -485,7 +513,8 @@ export default function WebViewerComponent({
 
             // Import XFDF
             try {
-              if (annotationManager && documentId) {
+              // Guests only load their own annotations, never the full XFDF
+              if (annotationManager && documentId && !shareToken) {
                 const xfdfRes = await fetch(
                   `/api/annotations/xfdf?documentId=${encodeURIComponent(
                     documentId
@@ -520,7 +549,9 @@ export default function WebViewerComponent({
               const handler = async (annotations: any[], action: string) => {
                 if (!canAnnotate) {
                   addToast(
-                    "You are not the assigned reviewer - annotations disabled",
+                    shareToken
+                      ? "This link is view-only - annotations disabled"
+                      : "You are not the assigned reviewer - annotations disabled",
                     2500
                   );
                   return;
@@ -608,6 +639,8 @@ export default function WebViewerComponent({
 
             await loadExistingAnnotations();
 
+            if (dv) jumpToSearchTarget(Core, dv);
+
             setViewerReady(true);
             setInitialized(true);
             window.setTimeout(() => clearLoadingOverlays(), 250);
@@ -634,10 +667,45 @@ export default function WebViewerComponent({
     documentId,
     canAnnotate,
     currentUserId,
-    assignedToUserId,
+    reviewerKey,
     instanceId,
+    shareToken,
   ]);
 
+  /**
+   * Open the page from initialPage and highlight every match of
+   * highlightText, making the first match on or after that page active.
+   */
+  const jumpToSearchTarget = (Core: any, dv: any) => {
+    const page = Number(initialPageRef.current);
+    const text = highlightTextRef.current?.trim();
+
+    try {
+      if (page > 0 && page <= (dv.getPageCount?.() ?? 0)) {
+        dv.setCurrentPage?.(page, false);
+      }
+      if (!text || typeof dv.textSearchInit !== "function") return;
+
+      const { Mode, ResultCode } = Core.Search;
+      let activated = false;
+      dv.clearSearchResults?.();
+      dv.textSearchInit(text, Mode.PAGE_STOP | Mode.HIGHLIGHT, {
+        fullSearch: true,
+        startPage: page > 0 ? page : 1,
+        onResult: (result: any) => {
+          if (result.resultCode !== ResultCode.FOUND) return;
+          dv.displayAdditionalSearchResult?.(result);
+          if (!activated) {
+            activated = true;
+            dv.setActiveSearchResult?.(result);
+          }
+        },
+      });
+    } catch (err) {
+      console.warn("Failed to jump to search result:", err);
+    }
+  };
+
   // Load annotations when ready
   useEffect(() => {
     if (!viewerReady) return;
@@ -670,7 +738,9 @@ export default function WebViewerComponent({
     if ((!annList || annList.length === 0) && documentId) {
       try {
         const res = await fetch(
-          `/api/annotations?documentId=${encodeURIComponent(documentId)}`
+          shareToken
+            ? annotationsApi
+            : `${annotationsApi}?documentId=${encodeURIComponent(documentId)}`
         );
         if (res.ok) {
           const json = await res.json();
@@ -787,7 +857,7 @@ export default function WebViewerComponent({
         position_y: annotation.Y || 0,
       };
 
-      const res = await fetch("/api/annotations", {
+      const res = await fetch(annotationsApi, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
@@ -894,7 +964,7 @@ export default function WebViewerComponent({
         position_y: annotation.Y || 0,
       };
 
-      const res = await fetch(`/api/annotations/${encodeURIComponent(id)}`, {
+      const res = await fetch(`${annotationsApi}/${encodeURIComponent(id)}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
@@ -946,7 +1016,7 @@ export default function WebViewerComponent({
       const cloned = { ...annotation };
       if (!id) return;
 
-      const res = await fetch(`/api/annotations/${encodeURIComponent(id)}`, {
+      const res = await fetch(`${annotationsApi}/${encodeURIComponent(id)}`, {
         method: "DELETE",
       });
       const json = await res.json().catch(() => ({}));
@@ -1022,7 +1092,7 @@ export default function WebViewerComponent({
   };
 
   const persistXfdf = async (annotationManager: any) => {
-    if (!annotationManager || !documentId) return;
+    if (!annotationManager || !documentId || shareToken) return;
     try {
       if (typeof annotationManager.exportAnnotations !== "function") return;
       const xfdf = await annotationManager.exportAnnotations();
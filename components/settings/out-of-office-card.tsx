@@ -0,0 +1,233 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Plane, Save } from "lucide-react";
+import { toast } from "react-hot-toast";
+import type { OutOfOffice } from "@/lib/out-of-office";
+
+interface UserOption {
+  id: string;
+  name: string;
+}
+
+/** ISO date to a datetime-local input value */
+function toInput(iso: string | null | undefined): string {
+  return iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+function formatWhen(iso: string): string {
+  return format(new Date(iso), "MMM d, yyyy HH:mm");
+}
+
+/**
+ * The current user's out-of-office window. While it lasts, new
+ * assignments go to the delegate, who may also act on what is already
+ * assigned to the user.
+ */
+export function OutOfOfficeCard({ userId }: { userId: string }) {
+  const [current, setCurrent] = useState<OutOfOffice | null>(null);
+  const [covering, setCovering] = useState<OutOfOffice[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [delegateId, setDelegateId] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchOutOfOffice = async () => {
+    try {
+      const res = await fetch("/api/out-of-office");
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to load");
+      const ooo: OutOfOffice | null = json.out_of_office ?? null;
+      setCurrent(ooo);
+      setCovering(json.covering ?? []);
+      setDelegateId(ooo?.delegate_id ?? "");
+      setStartsAt(toInput(ooo?.starts_at));
+      setEndsAt(toInput(ooo?.ends_at));
+      setNote(ooo?.note ?? "");
+    } catch (error) {
+      console.error("Failed to fetch out-of-office:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchOutOfOffice();
+    fetch("/api/users?limit=200")
+      .then((r) => r.json())
+      .then((j) => {
+        const list = j?.users || j?.data || [];
+        setUsers(
+          list
+            .map((u: any) => ({ id: String(u.id), name: String(u.name) }))
+            .filter((u: UserOption) => u.id !== userId)
+        );
+      })
+      .catch((e) => console.warn("Failed to load users for delegate", e));
+  }, [userId]);
+
+  const handleSave = async () => {
+    if (!delegateId) {
+      toast.error("Choose a delegate");
+      return;
+    }
+    if (!endsAt) {
+      toast.error("Choose when you are back");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/out-of-office", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          delegate_id: delegateId,
+          starts_at: startsAt ? new Date(startsAt).toISOString() : null,
+          ends_at: new Date(endsAt).toISOString(),
+          note: note.trim() || null,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to save");
+      toast.success("Out-of-office saved");
+      await fetchOutOfOffice();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/out-of-office", { method: "DELETE" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to clear");
+      toast.success("Welcome back");
+      await fetchOutOfOffice();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to clear");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Plane className="h-5 w-5 text-primary" />
+          Out of Office
+          {current?.active && <Badge variant="secondary">Away</Badge>}
+        </CardTitle>
+        <CardDescription>
+          While you are away, new assignments go to your delegate, who can
+          also act on the documents already assigned to you
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor="oooStartsAt">From</Label>
+            <Input
+              id="oooStartsAt"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              className="focus:ring-primary focus:border-primary"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Leave empty to start now
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="oooEndsAt">Until</Label>
+            <Input
+              id="oooEndsAt"
+              type="datetime-local"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+              className="focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div>
+            <Label>Delegate</Label>
+            <Select value={delegateId} onValueChange={setDelegateId}>
+              <SelectTrigger className="focus:ring-primary focus:border-primary">
+                <SelectValue placeholder="Choose a colleague" />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                {users.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="oooNote">Note</Label>
+            <Input
+              id="oooNote"
+              value={note}
+              maxLength={255}
+              placeholder="e.g. On leave, back Monday"
+              onChange={(e) => setNote(e.target.value)}
+              className="focus:ring-primary focus:border-primary"
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save"}
+          </Button>
+          {current && (
+            <Button variant="outline" onClick={handleClear} disabled={saving}>
+              {current.active ? "I'm back" : "Cancel absence"}
+            </Button>
+          )}
+        </div>
+        {covering.length > 0 && (
+          <div className="border-t pt-4 text-sm text-gray-600 space-y-1">
+            {covering.map((c) => (
+              <p key={c.user_id}>
+                You {c.active ? "are covering" : "will cover"} for{" "}
+                <span className="font-medium">
+                  {c.user_name ?? "Unknown"}
+                </span>{" "}
+                {c.active ? "" : `from ${formatWhen(c.starts_at)} `}until{" "}
+                {formatWhen(c.ends_at)}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
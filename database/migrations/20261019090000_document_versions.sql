@@ -0,0 +1,46 @@
+/*
+  # Document versions (MySQL)
+
+  1. New Tables
+    - `document_versions`
+      - `id` (varchar, primary key)
+      - `document_id` (varchar, the owning document)
+      - `version_number` (int, 1-based, unique per document)
+      - `file_path` (text, where the revision's file is stored)
+      - `file_size` (bigint)
+      - `mime_type` (varchar)
+      - `uploaded_by` (varchar, user who uploaded the revision)
+      - `change_note` (text, optional)
+      - `created_at` (datetime)
+  2. Changes
+    - `documents.current_version` points at the latest version number
+  3. Backfill
+    - Every existing document gets a version 1 row built from its current file
+*/
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  document_id VARCHAR(64) NOT NULL,
+  version_number INT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_size BIGINT NOT NULL DEFAULT 0,
+  mime_type VARCHAR(100) NOT NULL DEFAULT 'application/pdf',
+  uploaded_by VARCHAR(64) NULL,
+  change_note TEXT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_document_versions_number (document_id, version_number),
+  KEY idx_document_versions_document_id (document_id)
+);
+
+ALTER TABLE documents
+  ADD COLUMN current_version INT NOT NULL DEFAULT 1;
+
+INSERT INTO document_versions
+  (id, document_id, version_number, file_path, file_size, mime_type, uploaded_by, created_at)
+SELECT
+  UUID(), d.id, 1, d.file_path, COALESCE(d.file_size, 0),
+  COALESCE(d.mime_type, 'application/pdf'), d.uploaded_by, d.created_at
+FROM documents d
+WHERE NOT EXISTS (
+  SELECT 1 FROM document_versions v WHERE v.document_id = d.id
+);
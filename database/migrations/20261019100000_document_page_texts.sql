@@ -0,0 +1,25 @@
+/*
+  # Extracted PDF text for full-text search (MySQL)
+
+  1. New Tables
+    - `document_page_texts`
+      - `id` (varchar, primary key)
+      - `document_id` (varchar, the owning document)
+      - `version_number` (int, the revision the text was extracted from)
+      - `page_number` (int, 1-based)
+      - `content` (longtext, the page's extracted text)
+      - `created_at` (datetime)
+  2. Indexes
+    - FULLTEXT index on `content` for MATCH ... AGAINST queries
+*/
+
+CREATE TABLE IF NOT EXISTS document_page_texts (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  document_id VARCHAR(64) NOT NULL,
+  version_number INT NOT NULL DEFAULT 1,
+  page_number INT NOT NULL,
+  content LONGTEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_document_page_texts_page (document_id, version_number, page_number),
+  FULLTEXT KEY ft_document_page_texts_content (content)
+) ENGINE=InnoDB;
@@ -0,0 +1,34 @@
+/*
+  # Document lifecycle states (MySQL)
+
+  1. Changes
+    - `documents.status` becomes a free-form varchar holding one of
+      draft | in_review | approved | rejected | archived
+    - Existing 'active' documents become 'draft'
+  2. New Tables
+    - `document_status_transitions`
+      - `id` (varchar, primary key)
+      - `document_id` (varchar)
+      - `action` (varchar, e.g. submit / approve / reject)
+      - `from_status`, `to_status` (varchar)
+      - `actor_id` (varchar, user who made the change)
+      - `reason` (text, optional; required for rejections)
+      - `created_at` (datetime)
+*/
+
+ALTER TABLE documents
+  MODIFY COLUMN status VARCHAR(32) NOT NULL DEFAULT 'draft';
+
+UPDATE documents SET status = 'draft' WHERE status = 'active' OR status IS NULL;
+
+CREATE TABLE IF NOT EXISTS document_status_transitions (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  document_id VARCHAR(64) NOT NULL,
+  action VARCHAR(32) NOT NULL,
+  from_status VARCHAR(32) NOT NULL,
+  to_status VARCHAR(32) NOT NULL,
+  actor_id VARCHAR(64) NOT NULL,
+  reason TEXT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  KEY idx_document_status_transitions_document (document_id, created_at)
+);
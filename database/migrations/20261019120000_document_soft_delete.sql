@@ -0,0 +1,15 @@
+/*
+  # Soft delete for documents (MySQL)
+
+  1. Changes
+    - `documents.deleted_at` (datetime, set when moved to the trash)
+    - `documents.deleted_by` (varchar, user who deleted it)
+  2. Notes
+    - Rows with `deleted_at` set are hidden everywhere except the trash
+      until they are restored or purged
+*/
+
+ALTER TABLE documents
+  ADD COLUMN deleted_at DATETIME NULL DEFAULT NULL,
+  ADD COLUMN deleted_by VARCHAR(64) NULL DEFAULT NULL,
+  ADD KEY idx_documents_deleted_at (deleted_at);
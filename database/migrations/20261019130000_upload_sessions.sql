@@ -0,0 +1,54 @@
+/*
+  # Resumable chunked upload sessions (MySQL)
+
+  1. New Tables
+    - `upload_sessions`
+      - `id` (varchar, primary key)
+      - `user_id` (varchar, the uploader)
+      - `file_name`, `file_size`, `mime_type` (the file being uploaded)
+      - `sha256` (char(64), checksum the assembled file must match)
+      - `chunk_size` (int, bytes per chunk; the last chunk may be shorter)
+      - `total_chunks` (int)
+      - `title`, `description`, `assign_to` (document details used on finalize)
+      - `status` (varchar: uploading | finalizing | completed | failed)
+      - `document_id` (varchar, set once finalized)
+      - `expires_at` (datetime, pushed forward whenever a chunk arrives)
+      - `created_at`, `updated_at` (datetime)
+    - `upload_session_chunks`
+      - `session_id` + `chunk_index` (composite primary key)
+      - `size` (int, bytes received)
+      - `created_at` (datetime)
+  2. Notes
+    - Chunk bytes live on local disk under UPLOAD_TMP_DIR, not in MySQL
+    - Expired sessions and their chunks are removed lazily when new
+      sessions are created
+*/
+
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  user_id VARCHAR(64) NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  file_size BIGINT NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  sha256 CHAR(64) NOT NULL,
+  chunk_size INT NOT NULL,
+  total_chunks INT NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT NULL,
+  assign_to VARCHAR(64) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'uploading',
+  document_id VARCHAR(64) NULL DEFAULT NULL,
+  expires_at DATETIME NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  KEY idx_upload_sessions_user (user_id),
+  KEY idx_upload_sessions_expires (expires_at)
+) ENGINE=InnoDB;
+
+CREATE TABLE IF NOT EXISTS upload_session_chunks (
+  session_id VARCHAR(64) NOT NULL,
+  chunk_index INT NOT NULL,
+  size INT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (session_id, chunk_index)
+) ENGINE=InnoDB;
@@ -0,0 +1,20 @@
+/*
+  # Content hashes for duplicate detection (MySQL)
+
+  1. Changes
+    - `documents.content_hash` (char(64), SHA-256 of the current file)
+    - `document_versions.content_hash` (char(64), SHA-256 of the revision)
+  2. Notes
+    - Versions with the same hash share one stored object, so a stored
+      file is only deleted once no version or document points at it
+    - Rows uploaded before this migration keep a NULL hash and are never
+      reported as duplicates
+*/
+
+ALTER TABLE documents
+  ADD COLUMN content_hash CHAR(64) NULL DEFAULT NULL,
+  ADD KEY idx_documents_content_hash (content_hash);
+
+ALTER TABLE document_versions
+  ADD COLUMN content_hash CHAR(64) NULL DEFAULT NULL,
+  ADD KEY idx_document_versions_content_hash (content_hash);
@@ -0,0 +1,32 @@
+/*
+  # Rendered page thumbnails (MySQL)
+
+  1. New Tables
+    - `document_thumbnails`
+      - `id` (varchar, primary key)
+      - `document_id` (varchar, the owning document)
+      - `version_number` (int, the revision that was rendered)
+      - `page_number` (int, 1-based)
+      - `variant` (varchar: thumb | preview)
+      - `file_path` (text, storage key of the PNG)
+      - `width`, `height` (int, pixels)
+      - `created_at` (datetime)
+  2. Notes
+    - Page 1 gets both a small `thumb` and a larger `preview`; further
+      pages only get a `thumb`, and only up to THUMBNAIL_MAX_PAGES
+    - Documents uploaded before this migration are rendered the first time
+      their thumbnail is requested
+*/
+
+CREATE TABLE IF NOT EXISTS document_thumbnails (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  document_id VARCHAR(64) NOT NULL,
+  version_number INT NOT NULL DEFAULT 1,
+  page_number INT NOT NULL,
+  variant VARCHAR(20) NOT NULL,
+  file_path TEXT NOT NULL,
+  width INT NOT NULL,
+  height INT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_document_thumbnails_page (document_id, version_number, page_number, variant)
+) ENGINE=InnoDB;
@@ -0,0 +1,31 @@
+/*
+  # Saved document views (MySQL)
+
+  1. New Tables
+    - `saved_document_views`
+      - `id` (varchar, primary key)
+      - `user_id` (varchar, the owner)
+      - `name` (varchar, unique per owner)
+      - `query` (text, document list URL parameters, e.g.
+        `assignee=me&status=in_review&to=-3d`)
+      - `shared_department_id` (varchar, nullable; members of this
+        department see the view too)
+      - `position` (int, order among the owner's views)
+      - `created_at`, `updated_at` (datetime)
+  2. Notes
+    - `me`, `mine` and relative dates in `query` are resolved for whoever
+      opens the view, so a shared view shows each member their own documents
+*/
+
+CREATE TABLE IF NOT EXISTS saved_document_views (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  user_id VARCHAR(64) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  query TEXT NOT NULL,
+  shared_department_id VARCHAR(64) NULL,
+  position INT NOT NULL DEFAULT 0,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_saved_document_views_name (user_id, name),
+  KEY idx_saved_document_views_department (shared_department_id)
+) ENGINE=InnoDB;
@@ -0,0 +1,65 @@
+/*
+  # External share links (MySQL)
+
+  1. New Tables
+    - `document_share_links`
+      - `id` (varchar, primary key; the link token is this id plus an HMAC
+        of it, so tokens are never stored)
+      - `document_id` (varchar)
+      - `recipient` (varchar, who the link is for, e.g. "Acme Legal";
+        guests appear under this name)
+      - `can_annotate`, `can_download` (tinyint; viewing is always allowed)
+      - `password_hash` (varchar, nullable bcrypt hash)
+      - `created_by` (varchar, the user who shared the document)
+      - `expires_at` (datetime)
+      - `revoked_at`, `revoked_by` (nullable)
+      - `last_accessed_at` (datetime, nullable), `access_count` (int)
+      - `created_at` (datetime)
+    - `document_share_link_events`
+      - `id` (varchar, primary key)
+      - `share_link_id` (varchar)
+      - `event` (varchar: opened | unlocked | password_failed | downloaded |
+        annotated | revoked)
+      - `detail` (text, nullable)
+      - `ip_address`, `user_agent` (nullable)
+      - `created_at` (datetime)
+  2. Changes
+    - `annotations.share_link_id` records annotations made by a guest
+      through a link; `annotations.user_id` becomes nullable for them
+  3. Notes
+    - Expiry, scopes and revocation are checked on every request, so
+      revoking a link takes effect immediately
+*/
+
+CREATE TABLE IF NOT EXISTS document_share_links (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  document_id VARCHAR(64) NOT NULL,
+  recipient VARCHAR(150) NOT NULL,
+  can_annotate TINYINT(1) NOT NULL DEFAULT 0,
+  can_download TINYINT(1) NOT NULL DEFAULT 0,
+  password_hash VARCHAR(100) NULL,
+  created_by VARCHAR(64) NOT NULL,
+  expires_at DATETIME NOT NULL,
+  revoked_at DATETIME NULL,
+  revoked_by VARCHAR(64) NULL,
+  last_accessed_at DATETIME NULL,
+  access_count INT NOT NULL DEFAULT 0,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  KEY idx_document_share_links_document (document_id, created_at)
+) ENGINE=InnoDB;
+
+CREATE TABLE IF NOT EXISTS document_share_link_events (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  share_link_id VARCHAR(64) NOT NULL,
+  event VARCHAR(32) NOT NULL,
+  detail TEXT NULL,
+  ip_address VARCHAR(64) NULL,
+  user_agent VARCHAR(255) NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  KEY idx_document_share_link_events_link (share_link_id, created_at)
+) ENGINE=InnoDB;
+
+ALTER TABLE annotations
+  MODIFY COLUMN user_id VARCHAR(64) NULL,
+  ADD COLUMN share_link_id VARCHAR(64) NULL,
+  ADD KEY idx_annotations_share_link (share_link_id);
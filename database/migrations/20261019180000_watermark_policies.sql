@@ -0,0 +1,50 @@
+/*
+  # Watermark policies (MySQL)
+
+  1. New Tables
+    - `watermark_policies`
+      - `id` (varchar, primary key)
+      - `name` (varchar)
+      - `department_id` (varchar, nullable; documents uploaded by members
+        of this department)
+      - `classification` (varchar, nullable; documents with this
+        classification)
+      - `text_template` (varchar, e.g. `{user_name} {user_email} {timestamp}`;
+        also `{document_id}`)
+      - `opacity` (decimal, 0-1)
+      - `position` (enum: diagonal, center, top, bottom, tiled)
+      - `font_size` (int, PDF points)
+      - `color` (char, #rrggbb)
+      - `enabled` (tinyint)
+      - `created_by` (varchar)
+      - `created_at`, `updated_at` (datetime)
+  2. Changes
+    - `documents.classification` (varchar, nullable: public, internal,
+      confidential or restricted)
+  3. Notes
+    - The most specific enabled policy wins: department and classification,
+      then classification only, then department only, then a policy with
+      neither as the default for every document
+    - The mark is overlaid in the viewer and burned into every downloaded or
+      exported PDF
+*/
+
+CREATE TABLE IF NOT EXISTS watermark_policies (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  department_id VARCHAR(64) NULL,
+  classification VARCHAR(32) NULL,
+  text_template VARCHAR(300) NOT NULL,
+  opacity DECIMAL(3,2) NOT NULL DEFAULT 0.15,
+  position ENUM('diagonal', 'center', 'top', 'bottom', 'tiled') NOT NULL DEFAULT 'diagonal',
+  font_size INT NOT NULL DEFAULT 36,
+  color CHAR(7) NOT NULL DEFAULT '#ff0000',
+  enabled TINYINT(1) NOT NULL DEFAULT 1,
+  created_by VARCHAR(64) NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  KEY idx_watermark_policies_scope (department_id, classification)
+) ENGINE=InnoDB;
+
+ALTER TABLE documents
+  ADD COLUMN classification VARCHAR(32) NULL;
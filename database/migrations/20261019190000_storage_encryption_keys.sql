@@ -0,0 +1,35 @@
+/*
+  # Storage encryption keys (MySQL)
+
+  1. New Tables
+    - `storage_encryption_keys`
+      - `storage_key` (varchar, primary key; the object's storage key)
+      - `wrapped_key` (text, base64 data key encrypted with a master key)
+      - `master_key_id` (varchar, id of the wrapping key in
+        STORAGE_ENCRYPTION_KEYS)
+      - `plaintext_size` (bigint, size of the decrypted file)
+      - `chunk_size` (int, plaintext bytes per encrypted chunk)
+      - `content_type` (varchar, nullable)
+      - `created_at` (datetime)
+      - `rotated_at` (datetime, nullable; last rewrap)
+  3. Notes
+    - Files are encrypted when STORAGE_ENCRYPTION_KEYS is set
+      (`id:base64,...`; `npm run storage:generate-key` prints an entry)
+    - Files uploaded before that stay readable as they are until
+      `npm run storage:encrypt` encrypts them
+    - To rotate, put the new key first, keep the old ones after it, run
+      `npm run storage:rotate-keys`, then remove keys that no longer wrap
+      anything
+*/
+
+CREATE TABLE IF NOT EXISTS storage_encryption_keys (
+  storage_key VARCHAR(512) NOT NULL PRIMARY KEY,
+  wrapped_key TEXT NOT NULL,
+  master_key_id VARCHAR(64) NOT NULL,
+  plaintext_size BIGINT NOT NULL DEFAULT 0,
+  chunk_size INT NOT NULL,
+  content_type VARCHAR(100) NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  rotated_at DATETIME NULL,
+  KEY idx_storage_encryption_keys_master (master_key_id)
+) ENGINE=InnoDB;
@@ -0,0 +1,25 @@
+/*
+  # Malware scanning of uploads (MySQL)
+
+  1. Changes
+    - `documents.scan_status` (varchar, nullable: clean, infected or error;
+      null for documents uploaded before scanning)
+    - `documents.scan_result` (varchar, nullable; the signature found, or
+      why the scan failed)
+    - `documents.scanned_at` (datetime, nullable)
+    - `documents.status` may now also be 'quarantined'
+  3. Notes
+    - MALWARE_SCANNER picks the scanner: `clamav` (clamd at CLAMAV_SOCKET,
+      or CLAMAV_HOST / CLAMAV_PORT, default 127.0.0.1:3310) or `none`, the
+      default, which passes every file
+    - A new document that is infected or can't be scanned is kept as
+      quarantined: nobody can open it, and admins are notified and can
+      rescan or release it. Infected revisions are refused outright
+    - Every result is written to `activity_logs` (scan_clean,
+      malware_detected, scan_failed, quarantine_released)
+*/
+
+ALTER TABLE documents
+  ADD COLUMN scan_status VARCHAR(16) NULL,
+  ADD COLUMN scan_result VARCHAR(255) NULL,
+  ADD COLUMN scanned_at DATETIME NULL;
@@ -0,0 +1,107 @@
+/*
+  # Multi-step approval workflows (MySQL)
+
+  1. New Tables
+    - `workflow_templates`
+      - `id` (varchar, primary key)
+      - `name` (varchar)
+      - `description` (text, nullable)
+      - `department_id` (varchar, nullable; offered for documents uploaded
+        by members of this department, or for every document when null)
+      - `enabled` (tinyint)
+      - `created_by` (varchar)
+      - `created_at`, `updated_at` (datetime)
+    - `workflow_template_steps`
+      - `id` (varchar, primary key)
+      - `template_id` (varchar)
+      - `position` (int, 0-based order)
+      - `name` (varchar, e.g. "Department head approval")
+      - `target_type` (enum: user, role, department)
+      - `target_id` (varchar; a user, role or department id)
+      - `completion` (enum: any, all; whether one or every member of a
+        role or department must approve)
+      - `on_reject` (enum: reject, previous; end the workflow or send the
+        document back to the step before)
+    - `document_workflows` (one row per run of a template on a document)
+      - `id` (varchar, primary key)
+      - `document_id` (varchar)
+      - `template_id` (varchar), `template_name` (varchar)
+      - `status` (enum: active, completed, rejected, cancelled)
+      - `current_position` (int)
+      - `started_by` (varchar)
+      - `started_at`, `finished_at` (datetime)
+    - `document_workflow_steps` (the template's steps, copied at start)
+      - `id` (varchar, primary key)
+      - `workflow_id` (varchar)
+      - `position`, `name`, `target_type`, `target_id`, `completion`,
+        `on_reject` (as in workflow_template_steps)
+      - `status` (enum: pending, active, completed, rejected, skipped,
+        cancelled)
+      - `note` (text, nullable; why the step was rejected or skipped)
+      - `started_at`, `completed_at` (datetime, nullable)
+  2. Changes
+    - `document_assignments.workflow_step_id` (varchar, nullable; the step
+      an assignment was made for)
+  3. Notes
+    - Steps are copied when a workflow starts, so editing a template never
+      changes documents already on it
+    - Each person a step resolves to gets a `document_assignments` row;
+      its status becomes approved, rejected or closed (no longer needed)
+*/
+
+CREATE TABLE IF NOT EXISTS workflow_templates (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT NULL,
+  department_id VARCHAR(64) NULL,
+  enabled TINYINT(1) NOT NULL DEFAULT 1,
+  created_by VARCHAR(64) NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  KEY idx_workflow_templates_department (department_id)
+) ENGINE=InnoDB;
+
+CREATE TABLE IF NOT EXISTS workflow_template_steps (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  template_id VARCHAR(64) NOT NULL,
+  position INT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  target_type ENUM('user', 'role', 'department') NOT NULL,
+  target_id VARCHAR(64) NOT NULL,
+  completion ENUM('any', 'all') NOT NULL DEFAULT 'any',
+  on_reject ENUM('reject', 'previous') NOT NULL DEFAULT 'reject',
+  UNIQUE KEY uq_workflow_template_steps_position (template_id, position)
+) ENGINE=InnoDB;
+
+CREATE TABLE IF NOT EXISTS document_workflows (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  document_id VARCHAR(64) NOT NULL,
+  template_id VARCHAR(64) NOT NULL,
+  template_name VARCHAR(100) NOT NULL,
+  status ENUM('active', 'completed', 'rejected', 'cancelled') NOT NULL DEFAULT 'active',
+  current_position INT NOT NULL DEFAULT 0,
+  started_by VARCHAR(64) NOT NULL,
+  started_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  finished_at DATETIME NULL,
+  KEY idx_document_workflows_document (document_id, status)
+) ENGINE=InnoDB;
+
+CREATE TABLE IF NOT EXISTS document_workflow_steps (
+  id VARCHAR(64) NOT NULL PRIMARY KEY,
+  workflow_id VARCHAR(64) NOT NULL,
+  position INT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  target_type ENUM('user', 'role', 'department') NOT NULL,
+  target_id VARCHAR(64) NOT NULL,
+  completion ENUM('any', 'all') NOT NULL DEFAULT 'any',
+  on_reject ENUM('reject', 'previous') NOT NULL DEFAULT 'reject',
+  status ENUM('pending', 'active', 'completed', 'rejected', 'skipped', 'cancelled') NOT NULL DEFAULT 'pending',
+  note TEXT NULL,
+  started_at DATETIME NULL,
+  completed_at DATETIME NULL,
+  UNIQUE KEY uq_document_workflow_steps_position (workflow_id, position)
+) ENGINE=InnoDB;
+
+ALTER TABLE document_assignments
+  ADD COLUMN workflow_step_id VARCHAR(64) NULL,
+  ADD KEY idx_document_assignments_workflow_step (workflow_step_id);
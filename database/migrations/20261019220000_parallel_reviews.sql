@@ -0,0 +1,53 @@
+/*
+  # Parallel reviews with quorum rules (MySQL)
+
+  1. New Tables
+    - None
+  2. Changes
+    - `documents`
+      - `review_completion` (enum: all, any, count, nullable; how many of
+        the document's reviewers must approve it)
+      - `review_required_approvals` (int, nullable; the N in "N of M" when
+        review_completion is count)
+    - `document_assignments`
+      - `note` (text, nullable; the reviewer's comment on their decision)
+      - `decided_at` (datetime, nullable; when they approved or rejected)
+      - `closed_at` (datetime, nullable; when the row stopped counting
+        towards the review, e.g. the reviewer was replaced or the document
+        was resubmitted)
+    - `workflow_template_steps`, `document_workflow_steps`
+      - `completion` gains `count`
+      - `required_approvals` (int, nullable; approvals a `count` step
+        needs)
+  3. Notes
+    - Reviewers outside a workflow each get their own assignment row, so
+      several people can review a document at once
+    - `documents.assigned_to_user` keeps the first reviewer for older
+      screens and filters
+    - Open assignments left behind by earlier reassignments are closed so
+      only the current reviewer counts
+*/
+
+ALTER TABLE documents
+  ADD COLUMN review_completion ENUM('all', 'any', 'count') NULL,
+  ADD COLUMN review_required_approvals INT NULL;
+
+ALTER TABLE document_assignments
+  ADD COLUMN note TEXT NULL,
+  ADD COLUMN decided_at DATETIME NULL,
+  ADD COLUMN closed_at DATETIME NULL;
+
+ALTER TABLE workflow_template_steps
+  MODIFY COLUMN completion ENUM('all', 'any', 'count') NOT NULL DEFAULT 'any',
+  ADD COLUMN required_approvals INT NULL;
+
+ALTER TABLE document_workflow_steps
+  MODIFY COLUMN completion ENUM('all', 'any', 'count') NOT NULL DEFAULT 'any',
+  ADD COLUMN required_approvals INT NULL;
+
+UPDATE document_assignments a
+JOIN documents d ON d.id = a.document_id
+SET a.status = 'closed', a.closed_at = NOW()
+WHERE a.status = 'assigned'
+  AND a.workflow_step_id IS NULL
+  AND (d.assigned_to_user IS NULL OR a.assigned_to <> d.assigned_to_user);
@@ -0,0 +1,24 @@
+/*
+  # Role and department queues (MySQL)
+
+  1. New Tables
+    - None
+  2. Changes
+    - `documents.assigned_to_role` (varchar, nullable; the role whose
+      members share the document's queue)
+    - `upload_sessions.assignment_type` (varchar: user | role | department;
+      what `assign_to` refers to)
+  3. Notes
+    - A document assigned to a role or department (the existing
+      `assigned_to_department`) has no `assigned_to_user` until a member
+      claims it
+    - A claim is recorded as a `document_assignments` row with roles
+      "Claimed"; releasing it sets the row's status to "released"
+*/
+
+ALTER TABLE documents
+  ADD COLUMN assigned_to_role VARCHAR(64) NULL,
+  ADD KEY idx_documents_assigned_to_role (assigned_to_role);
+
+ALTER TABLE upload_sessions
+  ADD COLUMN assignment_type VARCHAR(20) NOT NULL DEFAULT 'user';
@@ -0,0 +1,36 @@
+/*
+  # Assignment due dates and SLA escalation (MySQL)
+
+  1. New Tables
+    - None
+  2. Changes
+    - `document_assignments`
+      - `due_at` (datetime, nullable; when the assignee should have acted)
+      - `reminded_at` (datetime, nullable; when the assignee was reminded
+        that the due date is near)
+      - `escalated_at` (datetime, nullable; when the overdue assignment was
+        escalated)
+      - `escalated_to` (varchar, nullable; the user it was escalated to)
+    - `departments`
+      - `sla_days` (int, nullable; days its members get to act on an
+        assignment when no due date is set)
+      - `head_user_id` (varchar, nullable; who overdue assignments of its
+        members are escalated to)
+  3. Notes
+    - `npm run assignments:sla` sends the reminders and escalations; run it
+      from cron, e.g. every 15 minutes
+    - Without a department head, assignments are escalated to
+      SLA_ESCALATION_USER_ID
+    - Existing assignments keep no due date
+*/
+
+ALTER TABLE document_assignments
+  ADD COLUMN due_at DATETIME NULL,
+  ADD COLUMN reminded_at DATETIME NULL,
+  ADD COLUMN escalated_at DATETIME NULL,
+  ADD COLUMN escalated_to VARCHAR(64) NULL,
+  ADD KEY idx_document_assignments_due (status, due_at);
+
+ALTER TABLE departments
+  ADD COLUMN sla_days INT NULL,
+  ADD COLUMN head_user_id VARCHAR(64) NULL;
@@ -0,0 +1,42 @@
+/*
+  # Out-of-office delegation (MySQL)
+
+  1. New Tables
+    - `user_out_of_office` (one row per user; their latest absence)
+      - `user_id` (varchar, primary key)
+      - `delegate_id` (varchar; who covers for the user while away)
+      - `starts_at`, `ends_at` (datetime; the absence window)
+      - `note` (varchar, nullable)
+      - `created_at`, `updated_at` (datetime)
+  2. Changes
+    - `document_assignments`
+      - `delegated_from` (varchar, nullable; the absent user the
+        assignment was routed away from)
+      - `acted_by` (varchar, nullable; the delegate who decided on or
+        reassigned the row for its assignee)
+    - `document_status_transitions.on_behalf_of` (varchar, nullable; the
+      absent user a delegate acted for)
+  3. Notes
+    - While a user is away, new assignments go to their delegate, unless
+      the delegate is away too
+    - Assignments made before the absence stay with the user; the
+      delegate may act on them on the user's behalf
+*/
+
+CREATE TABLE IF NOT EXISTS user_out_of_office (
+  user_id VARCHAR(64) NOT NULL PRIMARY KEY,
+  delegate_id VARCHAR(64) NOT NULL,
+  starts_at DATETIME NOT NULL,
+  ends_at DATETIME NOT NULL,
+  note VARCHAR(255) NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  KEY idx_user_out_of_office_delegate (delegate_id, starts_at, ends_at)
+) ENGINE=InnoDB;
+
+ALTER TABLE document_assignments
+  ADD COLUMN delegated_from VARCHAR(64) NULL,
+  ADD COLUMN acted_by VARCHAR(64) NULL;
+
+ALTER TABLE document_status_transitions
+  ADD COLUMN on_behalf_of VARCHAR(64) NULL;
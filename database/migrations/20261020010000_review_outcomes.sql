@@ -0,0 +1,24 @@
+/*
+  # Structured review outcomes (MySQL)
+
+  1. New Tables
+    - None
+  2. Changes
+    - `document_assignments.outcome` (varchar, nullable: approve, reject,
+      request_changes, send_back; what the reviewer decided, null while
+      they haven't)
+  3. Notes
+    - Rejecting and requesting changes need a comment, kept in `note`
+    - Requesting changes returns the document to draft; the reviewer's
+      row gets status `changes_requested` and a fresh assignment when the
+      document is resubmitted
+    - Sending back closes the reviewer's row with status `sent_back` and
+      assigns the reviewer who handed the document to them
+    - Existing decisions are backfilled from `status`
+*/
+
+ALTER TABLE document_assignments
+  ADD COLUMN outcome VARCHAR(20) NULL;
+
+UPDATE document_assignments SET outcome = 'approve' WHERE status = 'approved';
+UPDATE document_assignments SET outcome = 'reject' WHERE status = 'rejected';
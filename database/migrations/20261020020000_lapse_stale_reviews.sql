@@ -0,0 +1,22 @@
+/*
+  # Lapse reviews left open outside review (MySQL)
+
+  1. New Tables
+    - None
+  2. Changes
+    - `document_assignments.status` gains `lapsed` (the document left
+      review before the reviewer decided; they are assigned afresh when
+      it is resubmitted)
+  3. Notes
+    - Reviewer rows still assigned on documents that were decided,
+      withdrawn or sent back for changes are lapsed, so they no longer
+      show as pending or overdue nor grant access
+*/
+
+UPDATE document_assignments a
+JOIN documents d ON d.id = a.document_id
+SET a.status = 'lapsed'
+WHERE a.status = 'assigned'
+  AND a.closed_at IS NULL
+  AND a.workflow_step_id IS NULL
+  AND d.status <> 'in_review';
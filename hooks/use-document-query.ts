@@ -0,0 +1,141 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  DEFAULT_DOCUMENT_QUERY,
+  parseDocumentListQuery,
+  toDocumentSearchParams,
+  type DocumentFilterOptions,
+  type DocumentListQuery,
+} from "@/lib/document-list-query";
+
+interface DocumentPage<T> {
+  documents: T[];
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Server-driven document table state. The query lives in the page URL, so
+ * a filtered, sorted page can be shared or bookmarked, and the back button
+ * steps through earlier views.
+ */
+export function useDocumentQuery<T>(options: {
+  pageSize: number;
+  enabled?: boolean;
+}) {
+  const { pageSize, enabled = true } = options;
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const defaults = useMemo<DocumentListQuery>(
+    () => ({ ...DEFAULT_DOCUMENT_QUERY, pageSize }),
+    [pageSize]
+  );
+  const searchString = searchParams.toString();
+  const query = useMemo(
+    () =>
+      parseDocumentListQuery(new URLSearchParams(searchString), defaults)
+        .query,
+    [searchString, defaults]
+  );
+
+  const [data, setData] = useState<DocumentPage<T>>({
+    documents: [],
+    total: 0,
+    totalPages: 1,
+  });
+  const [filterOptions, setFilterOptions] = useState<DocumentFilterOptions>({
+    uploaders: [],
+    assignees: [],
+    departments: [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  /** Change the query; anything but a page change goes back to page 1 */
+  const setQuery = useCallback(
+    (patch: Partial<DocumentListQuery>) => {
+      const next = { ...query, ...patch };
+      if (!("page" in patch)) next.page = 1;
+
+      const params = toDocumentSearchParams(next, defaults).toString();
+      router.replace(params ? `${pathname}?${params}` : pathname, {
+        scroll: false,
+      });
+    },
+    [query, defaults, pathname, router]
+  );
+
+  const resetFilters = useCallback(
+    () => setQuery({ ...defaults, sort: query.sort, order: query.order }),
+    [defaults, query.sort, query.order, setQuery]
+  );
+
+  const refresh = useCallback(() => setReloadKey((k) => k + 1), []);
+
+  // Uploader/assignee choices only change when documents do
+  useEffect(() => {
+    if (!enabled) return;
+    fetch("/api/documents?pageSize=1&include=filters")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((json) => json?.filter_options && setFilterOptions(json.filter_options))
+      .catch((err) => console.error("Failed to fetch document filters:", err));
+  }, [enabled, reloadKey]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+    const params = toDocumentSearchParams(query, DEFAULT_DOCUMENT_QUERY);
+
+    setLoading(true);
+    fetch(`/api/documents?${params.toString()}`, {
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const json = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(json?.error || "Failed to fetch documents");
+        }
+
+        // A page past the end (e.g. after deleting its last row) falls
+        // back to the last page that exists
+        if (json.total > 0 && query.page > json.total_pages) {
+          setQuery({ page: json.total_pages });
+          return;
+        }
+
+        setData({
+          documents: json.documents ?? [],
+          total: Number(json.total ?? 0),
+          totalPages: Number(json.total_pages ?? 1),
+        });
+        setError(null);
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error("Failed to fetch documents:", err);
+        setError(err instanceof Error ? err.message : "Failed to fetch documents");
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+    // setQuery changes with every query; only refetch when the query does
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query, enabled, reloadKey]);
+
+  return {
+    ...data,
+    query,
+    filterOptions,
+    loading,
+    error,
+    setQuery,
+    resetFilters,
+    refresh,
+  };
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { SavedDocumentView } from "@/lib/document-views";
+
+const VIEWS_CHANGED_EVENT = "document-views-changed";
+
+/**
+ * Tell every mounted saved-view list to refetch, e.g. after a view was
+ * saved or a document changed status and the counts moved.
+ */
+export function notifyDocumentViewsChanged() {
+  window.dispatchEvent(new Event(VIEWS_CHANGED_EVENT));
+}
+
+async function request(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(json?.error || "Request failed");
+  return json;
+}
+
+export async function saveDocumentView(input: {
+  name: string;
+  query: string;
+  shareWithDepartment: boolean;
+}): Promise<SavedDocumentView> {
+  const { view } = await request("/api/documents/views", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  notifyDocumentViewsChanged();
+  return view;
+}
+
+export async function updateDocumentView(
+  id: string,
+  patch: { name?: string; query?: string; shareWithDepartment?: boolean }
+): Promise<SavedDocumentView> {
+  const { view } = await request(
+    `/api/documents/views/${encodeURIComponent(id)}`,
+    { method: "PATCH", body: JSON.stringify(patch) }
+  );
+  notifyDocumentViewsChanged();
+  return view;
+}
+
+export async function deleteDocumentView(id: string): Promise<void> {
+  await request(`/api/documents/views/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  notifyDocumentViewsChanged();
+}
+
+/** Saved views with live document counts */
+export function useSavedViews(userId: string | undefined) {
+  const [views, setViews] = useState<SavedDocumentView[]>([]);
+
+  const fetchViews = useCallback(async () => {
+    try {
+      const response = await fetch("/api/documents/views");
+      if (response.ok) {
+        const { views } = await response.json();
+        setViews(views ?? []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch saved views:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    fetchViews();
+
+    // Counts also move when other people upload or review documents
+    const interval = setInterval(fetchViews, 60000);
+    window.addEventListener(VIEWS_CHANGED_EVENT, fetchViews);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener(VIEWS_CHANGED_EVENT, fetchViews);
+    };
+  }, [userId, fetchViews]);
+
+  return { views, refresh: fetchViews };
+}
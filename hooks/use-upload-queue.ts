@@ -0,0 +1,345 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import {
+  canUploadResumably,
+  DuplicateUploadError,
+  uploadFileResumable,
+} from "@/lib/resumable-upload";
+import type { DuplicateDocument } from "@/lib/document-content";
+import type { AssignmentType } from "@/lib/document-upload";
+
+export type UploadQueueStatus =
+  | "pending"
+  | "uploading"
+  | "done"
+  | "error"
+  | "duplicate";
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  /** Editable title; ignored for zip archives, whose PDFs use their own names */
+  title: string;
+  isArchive: boolean;
+  status: UploadQueueStatus;
+  progress: number;
+  /** Documents created from this item (more than one for a zip) */
+  uploaded: number;
+  errors: string[];
+  /** Existing documents with the same file, while status is "duplicate" */
+  duplicates: DuplicateDocument[];
+  /** Set once the user chose to keep a separate copy of a duplicate */
+  allowDuplicate: boolean;
+}
+
+interface BatchResult {
+  file: string;
+  entry?: string;
+  title: string;
+  ok: boolean;
+  error?: string;
+  duplicates?: DuplicateDocument[];
+}
+
+export interface UploadQueueOptions {
+  description: string;
+  selectedUser: string;
+  /** A user (the default), or a role or department queue */
+  assignmentType?: AssignmentType;
+  assignedRole?: string;
+  assignedDepartment?: string;
+}
+
+const isArchiveFile = (file: File) =>
+  file.name.toLowerCase().endsWith(".zip") || file.type.includes("zip");
+
+const isPdfFile = (file: File) =>
+  file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+const defaultTitle = (file: File) => file.name.replace(/\.[^.]+$/, "");
+
+/** PDFs above this size go through a resumable chunked upload session */
+const RESUMABLE_THRESHOLD = 8 * 1024 * 1024;
+
+const shouldUploadResumably = (item: UploadQueueItem) =>
+  !item.isArchive &&
+  item.file.size > RESUMABLE_THRESHOLD &&
+  canUploadResumably();
+
+/**
+ * POST one queue item to the batch endpoint, reporting upload progress.
+ * XHR is used instead of fetch because fetch has no upload progress events.
+ */
+function sendItem(
+  item: UploadQueueItem,
+  options: UploadQueueOptions,
+  onProgress: (percent: number) => void
+): Promise<BatchResult[]> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    formData.append("files", item.file);
+    formData.append("titles", item.title);
+    formData.append("description", options.description);
+    formData.append("selectedUser", options.selectedUser);
+    formData.append("assignmentType", options.assignmentType ?? "user");
+    formData.append("assignedRole", options.assignedRole ?? "");
+    formData.append("assignedDepartment", options.assignedDepartment ?? "");
+    formData.append("allowDuplicate", String(item.allowDuplicate));
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/documents/upload/batch");
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      let json: any = {};
+      try {
+        json = JSON.parse(xhr.responseText);
+      } catch {
+        // fall through to the generic error below
+      }
+      if (xhr.status >= 200 && xhr.status < 300 && Array.isArray(json.results)) {
+        resolve(json.results);
+      } else {
+        reject(new Error(json?.error || "Upload failed"));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error during upload"));
+    xhr.send(formData);
+  });
+}
+
+/**
+ * Client-side queue for bulk uploads. Files are sent one at a time so each
+ * row gets real progress and its own success or error state; the server
+ * handles every file independently either way. Large PDFs are sent in
+ * chunks that are retried individually and survive a page refresh.
+ */
+export function useUploadQueue() {
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const updateItem = useCallback(
+    (id: string, patch: Partial<UploadQueueItem>) => {
+      setItems((prev) =>
+        prev.map((item) => (item.id === id ? { ...item, ...patch } : item))
+      );
+    },
+    []
+  );
+
+  /** Add files to the queue; returns the names of files that were rejected */
+  const addFiles = useCallback((files: File[]): string[] => {
+    const rejected: string[] = [];
+    const added: UploadQueueItem[] = [];
+
+    for (const file of files) {
+      if (!isPdfFile(file) && !isArchiveFile(file)) {
+        rejected.push(file.name);
+        continue;
+      }
+      added.push({
+        id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        file,
+        title: defaultTitle(file),
+        isArchive: isArchiveFile(file),
+        status: "pending",
+        progress: 0,
+        uploaded: 0,
+        errors: [],
+        duplicates: [],
+        allowDuplicate: false,
+      });
+    }
+
+    setItems((prev) => [...prev, ...added]);
+    return rejected;
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  const setTitle = useCallback(
+    (id: string, title: string) => updateItem(id, { title }),
+    [updateItem]
+  );
+
+  const clear = useCallback(() => setItems([]), []);
+
+  /** Queue a duplicate again, this time as a separate copy */
+  const keepAsCopy = useCallback(
+    (id: string) =>
+      updateItem(id, {
+        status: "pending",
+        allowDuplicate: true,
+        duplicates: [],
+        errors: [],
+      }),
+    [updateItem]
+  );
+
+  /**
+   * Upload a duplicate's file as a new version of an existing document
+   * instead of creating another document. Resolves with whether it worked.
+   */
+  const uploadAsVersion = useCallback(
+    async (id: string, documentId: string): Promise<boolean> => {
+      const item = items.find((i) => i.id === id);
+      if (!item) return false;
+
+      updateItem(id, { status: "uploading", progress: 0, errors: [] });
+      try {
+        const formData = new FormData();
+        formData.append("file", item.file);
+        formData.append("change_note", `Uploaded as ${item.file.name}`);
+
+        const response = await fetch(
+          `/api/documents/${encodeURIComponent(documentId)}/versions`,
+          { method: "POST", body: formData }
+        );
+        const json = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(json?.error || "Failed to upload version");
+        }
+
+        updateItem(id, {
+          status: "done",
+          progress: 100,
+          uploaded: 1,
+          duplicates: [],
+        });
+        return true;
+      } catch (error) {
+        updateItem(id, {
+          status: "duplicate",
+          progress: 0,
+          errors: [
+            error instanceof Error ? error.message : "Failed to upload version",
+          ],
+        });
+        return false;
+      }
+    },
+    [items, updateItem]
+  );
+
+  /**
+   * Upload every pending item, and retry items that failed outright.
+   * Archives that partly succeeded are not retried, since that would
+   * duplicate the PDFs that did upload. Files the uploader can already see
+   * are held back as "duplicate" until the user decides what to do with
+   * them. Resolves with the number of documents created, files that failed
+   * and files held back as duplicates.
+   */
+  const uploadAll = useCallback(
+    async (options: UploadQueueOptions) => {
+      const queue = items.filter(
+        (item) =>
+          item.status === "pending" ||
+          (item.status === "error" && item.uploaded === 0)
+      );
+      let uploaded = 0;
+      let failed = 0;
+      let duplicates = 0;
+
+      setIsUploading(true);
+      try {
+        for (const item of queue) {
+          updateItem(item.id, { status: "uploading", progress: 0, errors: [] });
+          try {
+            if (shouldUploadResumably(item)) {
+              await uploadFileResumable(
+                item.file,
+                {
+                  title: item.title,
+                  allowDuplicate: item.allowDuplicate,
+                  ...options,
+                },
+                (progress) => updateItem(item.id, { progress })
+              );
+              uploaded += 1;
+              updateItem(item.id, {
+                status: "done",
+                progress: 100,
+                uploaded: 1,
+              });
+              continue;
+            }
+
+            const results = await sendItem(item, options, (progress) =>
+              updateItem(item.id, { progress })
+            );
+
+            const duplicateOf = !item.isArchive && results[0]?.duplicates;
+            if (duplicateOf && duplicateOf.length > 0) {
+              duplicates += 1;
+              updateItem(item.id, {
+                status: "duplicate",
+                progress: 0,
+                duplicates: duplicateOf,
+              });
+              continue;
+            }
+            const ok = results.filter((r) => r.ok).length;
+            const errors = results
+              .filter((r) => !r.ok)
+              .map((r) =>
+                r.entry
+                  ? `${r.entry}: ${r.error ?? "Upload failed"}`
+                  : r.error ?? "Upload failed"
+              );
+
+            uploaded += ok;
+            failed += errors.length;
+            updateItem(item.id, {
+              status: errors.length > 0 ? "error" : "done",
+              progress: 100,
+              uploaded: ok,
+              errors,
+            });
+          } catch (error) {
+            if (error instanceof DuplicateUploadError) {
+              duplicates += 1;
+              updateItem(item.id, {
+                status: "duplicate",
+                progress: 0,
+                duplicates: error.duplicates,
+              });
+              continue;
+            }
+
+            failed += 1;
+            updateItem(item.id, {
+              status: "error",
+              progress: 0,
+              errors: [
+                error instanceof Error ? error.message : "Upload failed",
+              ],
+            });
+          }
+        }
+      } finally {
+        setIsUploading(false);
+      }
+
+      return { uploaded, failed, duplicates };
+    },
+    [items, updateItem]
+  );
+
+  return {
+    items,
+    isUploading,
+    addFiles,
+    removeItem,
+    setTitle,
+    clear,
+    keepAsCopy,
+    uploadAsVersion,
+    uploadAll,
+  };
+}
@@ -0,0 +1,46 @@
+// Assignment due dates. No server imports: used by API routes and UI alike.
+import { formatDistanceStrict } from "date-fns";
+
+/** Longest review SLA a department can have */
+export const MAX_SLA_DAYS = 365;
+
+/** The fields of an assignment row that say whether it is still due */
+export interface DueAssignment {
+  status?: string | null;
+  closed_at?: string | Date | null;
+  due_at?: string | Date | null;
+}
+
+/** Due dates only matter while the assignee still has to act */
+export function isOpenAssignment(assignment: DueAssignment): boolean {
+  return assignment.status === "assigned" && !assignment.closed_at;
+}
+
+export function isOverdue(
+  dueAt: string | Date | null | undefined,
+  now: Date = new Date()
+): boolean {
+  return !!dueAt && new Date(dueAt).getTime() < now.getTime();
+}
+
+/** The earliest due date among a document's open assignments */
+export function earliestDue(assignments: DueAssignment[]): string | null {
+  let earliest: Date | null = null;
+  for (const a of assignments) {
+    if (!a.due_at || !isOpenAssignment(a)) continue;
+    const due = new Date(a.due_at);
+    if (!earliest || due < earliest) earliest = due;
+  }
+  return earliest ? earliest.toISOString() : null;
+}
+
+/** e.g. "Due in 3 days" or "Overdue by 5 hours" */
+export function describeDue(
+  dueAt: string | Date,
+  now: Date = new Date()
+): string {
+  const distance = formatDistanceStrict(new Date(dueAt), now);
+  return isOverdue(dueAt, now)
+    ? `Overdue by ${distance}`
+    : `Due in ${distance}`;
+}
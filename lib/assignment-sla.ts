@@ -0,0 +1,218 @@
+import { randomUUID } from "crypto";
+import { formatDistanceStrict } from "date-fns";
+import { DatabaseService } from "./database";
+import { MAX_SLA_DAYS } from "./assignment-due";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+/** How long before the due date assignees are reminded (SLA_REMINDER_HOURS) */
+const REMINDER_HOURS = Math.max(
+  1,
+  parseInt(process.env.SLA_REMINDER_HOURS || "24")
+);
+
+export type SlaResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; error: string };
+
+/**
+ * The due date an assignment gets from its assignee's department SLA, or
+ * NULL when the department has none. Takes the assignee's id as its one
+ * parameter, so it can stand in an INSERT's VALUES.
+ */
+export const SLA_DUE_AT = `(
+  SELECT DATE_ADD(NOW(), INTERVAL sd.sla_days DAY)
+  FROM users su
+  JOIN departments sd ON sd.id = su.department_id
+  WHERE su.id = ?
+)`;
+
+/**
+ * Open assignments on documents waiting in review; only these can be
+ * reminded or escalated
+ */
+const OPEN_ASSIGNMENT = `a.status = 'assigned' AND a.closed_at IS NULL
+  AND d.status = 'in_review'`;
+
+export interface SlaRunResult {
+  reminded: number;
+  escalated: number;
+  /** Overdue assignments with no department head or fallback to go to */
+  unrouted: number;
+}
+
+/** Best-effort; the assignment is marked either way */
+async function notify(
+  userId: string,
+  type: string,
+  message: string,
+  documentId: string,
+  senderId: string | null
+) {
+  try {
+    await DatabaseService.query(
+      `INSERT INTO notifications
+       (id, user_id, type, message, related_document_id, sender_id, is_read, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, 0, NOW())`,
+      [randomUUID(), userId, type, message, documentId, senderId]
+    );
+  } catch (notifyErr) {
+    console.error("❌ Failed to create SLA notification:", notifyErr);
+  }
+}
+
+/** Mark a row once, so overlapping runs don't notify twice */
+async function mark(sql: string, params: any[]): Promise<boolean> {
+  const result: any = await DatabaseService.query(sql, params);
+  return Number(result?.affectedRows ?? 0) === 1;
+}
+
+/**
+ * Due dates of document assignments. An assignment's due date is set by
+ * hand, or from the assignee's department SLA (sla_days) once the
+ * document is submitted for review.
+ * `run` is meant to be called on a schedule: assignees are reminded once
+ * when the due date is near, and overdue assignments are escalated once
+ * to the assignee's department head, or to SLA_ESCALATION_USER_ID.
+ */
+export class AssignmentSlaService {
+  /** A department's SLA settings from a request body; empty clears them */
+  static async parseDepartmentSla(body: {
+    sla_days?: unknown;
+    head_user_id?: unknown;
+  }): Promise<
+    SlaResult<{ slaDays: number | null; headUserId: string | null }>
+  > {
+    const slaDays =
+      body.sla_days === undefined ||
+      body.sla_days === null ||
+      body.sla_days === ""
+        ? null
+        : Number(body.sla_days);
+    if (
+      slaDays !== null &&
+      (!Number.isInteger(slaDays) || slaDays < 1 || slaDays > MAX_SLA_DAYS)
+    ) {
+      return {
+        ok: false,
+        status: 400,
+        error: `sla_days must be 1-${MAX_SLA_DAYS}`,
+      };
+    }
+
+    const headUserId = body.head_user_id ? String(body.head_user_id) : null;
+    if (headUserId) {
+      const users = normalizeRows(
+        await DatabaseService.query("SELECT id FROM users WHERE id = ?", [
+          headUserId,
+        ])
+      );
+      if (users.length === 0) {
+        return { ok: false, status: 400, error: "Department head not found" };
+      }
+    }
+    return { ok: true, slaDays, headUserId };
+  }
+
+  static async run(): Promise<SlaRunResult> {
+    const reminded = await this.remind();
+    const { escalated, unrouted } = await this.escalate();
+    return { reminded, escalated, unrouted };
+  }
+
+  /** Remind assignees whose due date is within REMINDER_HOURS */
+  static async remind(): Promise<number> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT a.id, a.document_id, a.assigned_to, a.assigned_by, a.due_at,
+                d.title
+         FROM document_assignments a
+         JOIN documents d ON d.id = a.document_id AND d.deleted_at IS NULL
+         WHERE ${OPEN_ASSIGNMENT}
+           AND a.reminded_at IS NULL AND a.escalated_at IS NULL
+           AND a.due_at > NOW()
+           AND a.due_at <= DATE_ADD(NOW(), INTERVAL ? HOUR)`,
+        [REMINDER_HOURS]
+      )
+    );
+
+    let reminded = 0;
+    for (const row of rows) {
+      const marked = await mark(
+        `UPDATE document_assignments SET reminded_at = NOW()
+         WHERE id = ? AND reminded_at IS NULL`,
+        [row.id]
+      );
+      if (!marked) continue;
+      await notify(
+        String(row.assigned_to),
+        "assignment_due_soon",
+        `"${row.title}" is due in ${formatDistanceStrict(
+          new Date(row.due_at),
+          new Date()
+        )}`,
+        String(row.document_id),
+        row.assigned_by ? String(row.assigned_by) : null
+      );
+      reminded++;
+    }
+    return reminded;
+  }
+
+  /** Hand overdue assignments to someone who can chase them */
+  static async escalate(): Promise<{ escalated: number; unrouted: number }> {
+    const fallback = process.env.SLA_ESCALATION_USER_ID || null;
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT a.id, a.document_id, a.assigned_to, a.assigned_by, a.due_at,
+                d.title, u.name AS assignee_name, dep.head_user_id
+         FROM document_assignments a
+         JOIN documents d ON d.id = a.document_id AND d.deleted_at IS NULL
+         LEFT JOIN users u ON u.id = a.assigned_to
+         LEFT JOIN departments dep ON dep.id = u.department_id
+         WHERE ${OPEN_ASSIGNMENT}
+           AND a.escalated_at IS NULL AND a.due_at <= NOW()`,
+        []
+      )
+    );
+
+    let escalated = 0;
+    let unrouted = 0;
+    for (const row of rows) {
+      const assignee = String(row.assigned_to);
+      // A department head's own overdue assignments go to the fallback
+      const target = [row.head_user_id, fallback]
+        .map((id) => (id ? String(id) : null))
+        .find((id) => id && id !== assignee);
+      if (!target) {
+        unrouted++;
+        continue;
+      }
+
+      const marked = await mark(
+        `UPDATE document_assignments SET escalated_at = NOW(), escalated_to = ?
+         WHERE id = ? AND escalated_at IS NULL`,
+        [target, row.id]
+      );
+      if (!marked) continue;
+      const overdueBy = formatDistanceStrict(new Date(row.due_at), new Date());
+      await notify(
+        target,
+        "assignment_overdue",
+        `"${row.title}", assigned to ${
+          row.assignee_name ?? "a reviewer"
+        }, is overdue by ${overdueBy}`,
+        String(row.document_id),
+        row.assigned_by ? String(row.assigned_by) : null
+      );
+      escalated++;
+    }
+    return { escalated, unrouted };
+  }
+}
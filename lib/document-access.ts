@@ -0,0 +1,66 @@
+import { DatabaseService } from "./database";
+import { QUEUE_MEMBER } from "./document-queues";
+import { DELEGATORS } from "./out-of-office";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+export type DocumentAccess =
+  | { allowed: true; document: any }
+  | { allowed: false; reason: "not_found" | "forbidden" | "quarantined" };
+
+export class DocumentAccessService {
+  /**
+   * A user may read a document's file when they uploaded it, are its
+   * current assignee, have ever been assigned it, cover for an absent
+   * user it is still assigned to, or belong to the role or department
+   * queue it was assigned to. Nobody may while it is quarantined.
+   */
+  static async checkAccess(
+    documentId: string,
+    userId: string
+  ): Promise<DocumentAccess> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT d.*,
+           EXISTS (
+             SELECT 1 FROM document_assignments da
+             WHERE da.document_id = d.id
+               AND (da.assigned_to = ?
+                 OR (da.status = 'assigned' AND da.closed_at IS NULL
+                   AND da.assigned_to IN ${DELEGATORS}))
+           ) AS has_assignment,
+           EXISTS (
+             SELECT 1 FROM users qu WHERE qu.id = ? AND ${QUEUE_MEMBER}
+           ) AS in_queue
+         FROM documents d
+         WHERE d.id = ? AND d.deleted_at IS NULL
+         LIMIT 1`,
+        [userId, userId, userId, documentId]
+      )
+    );
+
+    if (rows.length === 0) {
+      return { allowed: false, reason: "not_found" };
+    }
+
+    const document = rows[0];
+    if (document.status === "quarantined") {
+      return { allowed: false, reason: "quarantined" };
+    }
+    const allowed =
+      String(document.uploaded_by) === String(userId) ||
+      String(document.assigned_to_user ?? "") === String(userId) ||
+      Number(document.has_assignment) === 1 ||
+      Number(document.in_queue) === 1;
+
+    return allowed
+      ? { allowed: true, document }
+      : { allowed: false, reason: "forbidden" };
+  }
+}
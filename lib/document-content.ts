@@ -0,0 +1,124 @@
+import { createHash } from "crypto";
+import { DatabaseService } from "./database";
+import { getStorage, buildDocumentKey, type StoredObject } from "./storage";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+/** An existing document holding the same bytes as an upload */
+export interface DuplicateDocument {
+  id: string;
+  title: string;
+  version_number: number;
+  created_at: string;
+}
+
+export interface StoredContent extends StoredObject {
+  contentHash: string;
+  /** True when the bytes were already stored and the object is shared */
+  reused: boolean;
+}
+
+/** Hex SHA-256 of a file, as kept in `content_hash` */
+export function hashContent(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+export class DocumentContentService {
+  /**
+   * Documents the user can see that have a version with this hash. Uses
+   * the same visibility rule as DocumentAccessService: uploader, current
+   * assignee or any past assignee. Trashed documents are ignored.
+   */
+  static async findDuplicates(
+    contentHash: string,
+    userId: string
+  ): Promise<DuplicateDocument[]> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT d.id, d.title, d.created_at, MAX(v.version_number) AS version_number
+         FROM documents d
+         JOIN document_versions v ON v.document_id = d.id AND v.content_hash = ?
+         WHERE d.deleted_at IS NULL
+           AND (
+             d.uploaded_by = ?
+             OR d.assigned_to_user = ?
+             OR EXISTS (
+               SELECT 1 FROM document_assignments da
+               WHERE da.document_id = d.id AND da.assigned_to = ?
+             )
+           )
+         GROUP BY d.id, d.title, d.created_at
+         ORDER BY d.created_at DESC
+         LIMIT 5`,
+        [contentHash, userId, userId, userId]
+      )
+    );
+
+    return rows.map((r) => ({
+      id: r.id,
+      title: r.title,
+      version_number: Number(r.version_number ?? 1),
+      created_at: new Date(r.created_at).toISOString(),
+    }));
+  }
+
+  /**
+   * Store a file, reusing the stored object of any version with the same
+   * hash instead of writing the bytes again.
+   */
+  static async store(
+    buffer: Buffer,
+    fileName: string,
+    contentType: string,
+    contentHash: string = hashContent(buffer)
+  ): Promise<StoredContent> {
+    const existing = normalizeRows(
+      await DatabaseService.query(
+        `SELECT file_path FROM document_versions
+         WHERE content_hash = ? AND file_size = ?
+         ORDER BY created_at ASC
+         LIMIT 1`,
+        [contentHash, buffer.length]
+      )
+    );
+    if (existing[0]?.file_path) {
+      return {
+        key: existing[0].file_path,
+        size: buffer.length,
+        contentHash,
+        reused: true,
+      };
+    }
+
+    const stored = await getStorage().put(buildDocumentKey(fileName), buffer, {
+      contentType,
+    });
+    return { ...stored, contentHash, reused: false };
+  }
+
+  /**
+   * Delete a stored object unless a document or version still points at
+   * it. Call this after removing the rows that referenced the key.
+   * Returns whether the object was deleted.
+   */
+  static async release(key: string): Promise<boolean> {
+    const refs = normalizeRows(
+      await DatabaseService.query(
+        `SELECT
+           (SELECT COUNT(*) FROM document_versions WHERE file_path = ?) +
+           (SELECT COUNT(*) FROM documents WHERE file_path = ?) AS refs`,
+        [key, key]
+      )
+    );
+    if (Number(refs[0]?.refs ?? 0) > 0) return false;
+
+    await getStorage().delete(key);
+    return true;
+  }
+}
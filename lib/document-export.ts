@@ -0,0 +1,107 @@
+import { DatabaseService } from "./database";
+import { DocumentVersionService } from "./document-versions";
+import {
+  annotationFromRow,
+  drawAnnotation,
+  loadStampImages,
+} from "./pdf-annotations";
+import { flattenPdf } from "./pdf-flatten";
+import { getStorage } from "./storage";
+import { drawWatermark } from "./watermark";
+import { WatermarkPolicyService } from "./watermark-policies";
+import { parseXfdf } from "./xfdf";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+export const EXPORT_FORMATS = ["pdf"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly unknown[]).includes(value);
+}
+
+/** "Q3 report" → "Q3_report.pdf" */
+export function exportFileName(title: string | null | undefined): string {
+  return `${String(title || "document").replace(
+    /[^a-zA-Z0-9._-]+/g,
+    "_"
+  )}.pdf`;
+}
+
+export class DocumentExportService {
+  /**
+   * The current version of a document with its annotations and the
+   * caller's watermark flattened into the pages.
+   *
+   * Annotations come from the XFDF the viewer saves after every change.
+   * Guests of share links never write XFDF, so their annotations are read
+   * from the annotations table, as is everything for documents that have
+   * no XFDF yet.
+   */
+  static async exportPdf(
+    doc: {
+      id: string;
+      file_path?: string | null;
+      uploaded_by?: string | null;
+      classification?: string | null;
+    },
+    userId: string
+  ): Promise<Buffer> {
+    const version = await DocumentVersionService.getVersion(doc.id, null);
+    const filePath = version?.file_path || doc.file_path;
+    if (!filePath) {
+      throw Object.assign(new Error("File not found"), { code: "ENOENT" });
+    }
+
+    const xfdfRows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT xfdf FROM document_annotations_xfdf
+         WHERE document_id = ?
+         LIMIT 1`,
+        [doc.id]
+      )
+    );
+    const xfdf: string | null = xfdfRows[0]?.xfdf ?? null;
+    const annotations = xfdf ? parseXfdf(xfdf) : [];
+
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT annotation_type, page_number, position_x, position_y, content
+         FROM annotations
+         WHERE document_id = ?
+           ${xfdf !== null ? "AND share_link_id IS NOT NULL" : ""}
+         ORDER BY sequence_number ASC`,
+        [doc.id]
+      )
+    );
+
+    const [pdf, images, watermark] = await Promise.all([
+      getStorage().get(filePath),
+      loadStampImages(annotations),
+      WatermarkPolicyService.resolveForUser(doc, userId),
+    ]);
+
+    return flattenPdf(pdf, (context, page) => {
+      const onPage = [
+        ...annotations.filter((a) => a.page === page.pageNumber),
+        ...rows
+          .filter((row) => Number(row.page_number) === page.pageNumber)
+          .map((row) => annotationFromRow(row, page.pageHeight)),
+      ];
+      for (const annotation of onPage) {
+        if (annotation) {
+          drawAnnotation(context, page.pageHeight, annotation, images);
+        }
+      }
+      if (watermark) {
+        drawWatermark(context, page.pageWidth, page.pageHeight, watermark);
+      }
+    });
+  }
+}
@@ -0,0 +1,289 @@
+import { DatabaseService } from "./database";
+import {
+  getLifecycleActors,
+  getTransition,
+  hasAssignee,
+  normalizeStatus,
+  type DocumentStatus,
+  type LifecycleAction,
+} from "./document-status";
+import { DocumentReviewService } from "./document-reviews";
+import { DocumentWorkflowService } from "./document-workflows";
+import { OutOfOfficeService } from "./out-of-office";
+import { assigneeReviewerIds, type QuorumTally } from "./review-quorum";
+import { randomUUID } from "crypto";
+
+export interface StatusTransitionRecord {
+  id: string;
+  document_id: string;
+  action: LifecycleAction;
+  from_status: DocumentStatus;
+  to_status: DocumentStatus;
+  actor_id: string;
+  /** The absent assignee an out-of-office delegate acted for */
+  on_behalf_of: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export type TransitionResult =
+  | {
+      ok: true;
+      /** Null when a reviewer's decision was recorded but the quorum isn't
+       * reached yet */
+      transition: StatusTransitionRecord | null;
+      /** Where the review's quorum stands, when reviewers decided it */
+      review: QuorumTally | null;
+      /** Who a send-back returned the document to */
+      sentBackTo?: string;
+    }
+  | { ok: false; status: number; error: string };
+
+export class DocumentLifecycleService {
+  /**
+   * Move a document to a new lifecycle state.
+   * The document row is locked while the rules are checked so two people
+   * can't both act on the same state (e.g. approve and reject at once).
+   */
+  static async transition(data: {
+    documentId: string;
+    action: string;
+    userId: string;
+    isAdmin: boolean;
+    reason?: string | null;
+  }): Promise<TransitionResult> {
+    const rule = getTransition(data.action);
+    if (!rule) {
+      return { ok: false, status: 400, error: `Unknown action: ${data.action}` };
+    }
+
+    let reason = data.reason?.trim() || null;
+    if (rule.requiresReason && !reason) {
+      return {
+        ok: false,
+        status: 400,
+        error: `A reason is required to ${rule.label.toLowerCase()}`,
+      };
+    }
+
+    const connection = await DatabaseService.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const [rows]: any = await connection.execute(
+        `SELECT id, status, uploaded_by, assigned_to_user,
+                assigned_to_role, assigned_to_department,
+                review_completion, review_required_approvals
+         FROM documents
+         WHERE id = ? AND deleted_at IS NULL
+         FOR UPDATE`,
+        [data.documentId]
+      );
+      const doc = rows?.[0];
+      if (!doc) {
+        await connection.rollback();
+        return { ok: false, status: 404, error: "Document not found" };
+      }
+
+      const fromStatus = normalizeStatus(doc.status);
+      if (!rule.from.includes(fromStatus)) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 409,
+          error: `Cannot ${rule.label.toLowerCase()} a document that is ${fromStatus.replace(
+            "_",
+            " "
+          )}`,
+        };
+      }
+
+      // With several reviewers, any of those still to decide may act
+      const reviewers = await DocumentReviewService.currentReviewers(
+        connection,
+        data.documentId
+      );
+      const reviewerIds = assigneeReviewerIds(reviewers);
+      const pending = reviewerIds ?? [];
+      const actingFor = await OutOfOfficeService.delegatorsOf(
+        data.userId,
+        connection
+      );
+      const actors = getLifecycleActors(
+        { ...doc, reviewer_ids: reviewerIds },
+        { id: data.userId, isAdmin: data.isAdmin, actingFor }
+      );
+      if (!rule.allowedActors.some((a) => actors.includes(a))) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 403,
+          error: "You are not allowed to perform this action",
+        };
+      }
+
+      if (rule.requiresAssignee && !hasAssignee(doc)) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 409,
+          error: "Assign a reviewer before submitting for review",
+        };
+      }
+
+      // A workflow decides the review itself; withdrawing ends it
+      const workflow = await DocumentWorkflowService.activeWorkflowName(
+        data.documentId,
+        connection
+      );
+      if (workflow && rule.action !== "withdraw") {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 409,
+          error: `The document is on the "${workflow}" workflow; decide on its current step instead`,
+        };
+      }
+      if (workflow) {
+        await DocumentWorkflowService.cancelActive(connection, data.documentId);
+      }
+
+      // A reviewer's decision counts towards the quorum; the document only
+      // moves once enough of them agree. Admins who aren't reviewers
+      // still decide outright. A delegate decides for an absent reviewer.
+      // Requesting changes returns the document to draft whatever the
+      // others decided.
+      let review: QuorumTally | null = null;
+      let onBehalfOf: string | null = null;
+      const decision =
+        rule.action === "approve" ||
+        rule.action === "reject" ||
+        rule.action === "request_changes"
+          ? rule.action
+          : null;
+      if (
+        decision &&
+        [String(data.userId), ...actingFor].some((id) => pending.includes(id))
+      ) {
+        const vote = await DocumentReviewService.decide(connection, {
+          documentId: data.documentId,
+          userId: data.userId,
+          decision,
+          note: reason,
+          completion: doc.review_completion ?? null,
+          requiredApprovals:
+            doc.review_required_approvals == null
+              ? null
+              : Number(doc.review_required_approvals),
+          actingFor,
+        });
+        if (vote) {
+          review = vote.tally;
+          onBehalfOf = vote.onBehalfOf;
+          if (vote.state === "pending" && decision !== "request_changes") {
+            await connection.commit();
+            return { ok: true, transition: null, review };
+          }
+          if (decision === "approve" && !reason && review.total > 1) {
+            reason = `${review.approved} of ${review.total} reviewers approved`;
+          }
+        }
+      }
+
+      // Documents without reviewer rows have their one assignee
+      if (
+        decision &&
+        !reviewerIds &&
+        !actors.includes("admin") &&
+        doc.assigned_to_user &&
+        String(doc.assigned_to_user) !== String(data.userId)
+      ) {
+        onBehalfOf = String(doc.assigned_to_user);
+      }
+
+      let sentBackTo: string | undefined;
+      if (rule.action === "send_back") {
+        const sent = await DocumentReviewService.sendBack(connection, {
+          documentId: data.documentId,
+          userId: data.userId,
+          uploadedBy: String(doc.uploaded_by),
+          note: reason,
+          actingFor,
+        });
+        if (!sent.ok) {
+          await connection.rollback();
+          return { ok: false, status: sent.status, error: sent.error };
+        }
+        onBehalfOf = sent.onBehalfOf;
+        sentBackTo = sent.to;
+      }
+
+      if (rule.action === "submit") {
+        await DocumentReviewService.reopen(
+          connection,
+          data.documentId,
+          data.userId
+        );
+      }
+
+      await connection.execute(
+        "UPDATE documents SET status = ?, updated_at = NOW() WHERE id = ?",
+        [rule.to, data.documentId]
+      );
+      if (fromStatus === "in_review" && rule.to !== "in_review") {
+        await DocumentReviewService.lapseOpen(connection, data.documentId);
+      }
+
+      const transition: StatusTransitionRecord = {
+        id: randomUUID(),
+        document_id: data.documentId,
+        action: rule.action,
+        from_status: fromStatus,
+        to_status: rule.to,
+        actor_id: data.userId,
+        on_behalf_of: onBehalfOf,
+        reason,
+        created_at: new Date().toISOString(),
+      };
+      await connection.execute(
+        `INSERT INTO document_status_transitions
+         (id, document_id, action, from_status, to_status, actor_id, on_behalf_of, reason, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+        [
+          transition.id,
+          transition.document_id,
+          transition.action,
+          transition.from_status,
+          transition.to_status,
+          transition.actor_id,
+          transition.on_behalf_of,
+          transition.reason,
+        ]
+      );
+
+      await connection.commit();
+      return { ok: true, transition, review, sentBackTo };
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Status changes for a document, newest first
+   */
+  static async listTransitions(documentId: string): Promise<any[]> {
+    const result: any = await DatabaseService.query(
+      `SELECT t.*, u.name AS actor_name, ob.name AS on_behalf_of_name
+       FROM document_status_transitions t
+       LEFT JOIN users u ON u.id = t.actor_id
+       LEFT JOIN users ob ON ob.id = t.on_behalf_of
+       WHERE t.document_id = ?
+       ORDER BY t.created_at DESC`,
+      [documentId]
+    );
+    return Array.isArray(result) ? result : [];
+  }
+}
@@ -0,0 +1,239 @@
+// Query parameters for GET /api/documents. No server imports: the API route
+// parses them and the document table keeps the same parameters in its URL.
+import { DOCUMENT_STATUSES, type DocumentStatus } from "./document-status";
+
+export const DOCUMENT_SORT_KEYS = [
+  "title",
+  "uploader_name",
+  "assigned_user_name",
+  "status",
+  "file_size",
+  "created_at",
+  "updated_at",
+] as const;
+
+export type DocumentSortKey = (typeof DOCUMENT_SORT_KEYS)[number];
+export type SortOrder = "asc" | "desc";
+
+export interface DocumentListQuery {
+  /** 1-based */
+  page: number;
+  pageSize: number;
+  sort: DocumentSortKey;
+  order: SortOrder;
+  status: DocumentStatus[];
+  /** User id of the uploader, or CURRENT_USER */
+  uploader: string | null;
+  /** User id of the current assignee, or CURRENT_USER */
+  assignee: string | null;
+  /** Department id of the uploader, or MY_DEPARTMENT */
+  department: string | null;
+  /**
+   * Inclusive upload date range: YYYY-MM-DD, or a date relative to the day
+   * the query runs (see RELATIVE_DATE_PATTERN)
+   */
+  from: string | null;
+  to: string | null;
+  /** Text the title must contain */
+  q: string;
+}
+
+/** Stands for whoever runs the query, so saved views work for anyone */
+export const CURRENT_USER = "me";
+/** Stands for the department of whoever runs the query */
+export const MY_DEPARTMENT = "mine";
+
+export interface FilterOption {
+  id: string;
+  name: string;
+}
+
+/** Choices for the uploader, assignee and department filters */
+export interface DocumentFilterOptions {
+  uploaders: FilterOption[];
+  assignees: FilterOption[];
+  departments: FilterOption[];
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export const DEFAULT_DOCUMENT_QUERY: DocumentListQuery = {
+  page: 1,
+  pageSize: DEFAULT_PAGE_SIZE,
+  sort: "created_at",
+  order: "desc",
+  status: [],
+  uploader: null,
+  assignee: null,
+  department: null,
+  from: null,
+  to: null,
+  q: "",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** `today`, `month` (its first day) or `-<n>d` (n days ago) */
+export const RELATIVE_DATE_PATTERN = /^(today|month|-\d{1,4}d)$/;
+
+export function isAbsoluteDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime());
+}
+
+function isValidDate(value: string): boolean {
+  return isAbsoluteDate(value) || RELATIVE_DATE_PATTERN.test(value);
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+/** The calendar day a `from`/`to` value stands for, as YYYY-MM-DD */
+export function resolveQueryDate(value: string, now = new Date()): string {
+  if (value === "today") return formatDate(now);
+  if (value === "month") {
+    return formatDate(new Date(now.getFullYear(), now.getMonth(), 1));
+  }
+  const days = value.match(/^-(\d+)d$/);
+  if (days) {
+    return formatDate(
+      new Date(now.getFullYear(), now.getMonth(), now.getDate() - Number(days[1]))
+    );
+  }
+  return value;
+}
+
+/**
+ * Read a query from URL parameters. Invalid values fall back to the
+ * defaults and are reported in `errors`, so the API can reject them while
+ * the UI simply ignores a mangled shared link.
+ */
+export function parseDocumentListQuery(
+  params: URLSearchParams,
+  defaults: DocumentListQuery = DEFAULT_DOCUMENT_QUERY
+): { query: DocumentListQuery; errors: string[] } {
+  const errors: string[] = [];
+  const query: DocumentListQuery = { ...defaults, status: [...defaults.status] };
+
+  const page = params.get("page");
+  if (page !== null) {
+    const value = Number(page);
+    if (Number.isInteger(value) && value >= 1) query.page = value;
+    else errors.push("page must be a positive integer");
+  }
+
+  const pageSize = params.get("pageSize");
+  if (pageSize !== null) {
+    const value = Number(pageSize);
+    if (Number.isInteger(value) && value >= 1 && value <= MAX_PAGE_SIZE) {
+      query.pageSize = value;
+    } else {
+      errors.push(`pageSize must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+  }
+
+  const sort = params.get("sort");
+  if (sort !== null) {
+    if ((DOCUMENT_SORT_KEYS as readonly string[]).includes(sort)) {
+      query.sort = sort as DocumentSortKey;
+    } else {
+      errors.push(`sort must be one of ${DOCUMENT_SORT_KEYS.join(", ")}`);
+    }
+  }
+
+  const order = params.get("order");
+  if (order !== null) {
+    if (order === "asc" || order === "desc") query.order = order;
+    else errors.push("order must be asc or desc");
+  }
+
+  const status = params.get("status");
+  if (status) {
+    const values = status.split(",").filter(Boolean);
+    const invalid = values.filter(
+      (s) => !(DOCUMENT_STATUSES as readonly string[]).includes(s)
+    );
+    if (invalid.length > 0) {
+      errors.push(`Unknown status: ${invalid.join(", ")}`);
+    }
+    query.status = values.filter((s): s is DocumentStatus =>
+      (DOCUMENT_STATUSES as readonly string[]).includes(s)
+    );
+  }
+
+  query.uploader = params.get("uploader") || defaults.uploader;
+  query.assignee = params.get("assignee") || defaults.assignee;
+  query.department = params.get("department") || defaults.department;
+
+  for (const key of ["from", "to"] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    if (isValidDate(value)) query[key] = value;
+    else errors.push(`${key} must be a date (YYYY-MM-DD) or relative date`);
+  }
+  if (
+    query.from &&
+    query.to &&
+    resolveQueryDate(query.from) > resolveQueryDate(query.to)
+  ) {
+    errors.push("from must not be after to");
+  }
+
+  query.q = (params.get("q") ?? defaults.q).trim().slice(0, 200);
+
+  return { query, errors };
+}
+
+/**
+ * URL parameters for a query, leaving out anything equal to `defaults`
+ * so shared links stay short.
+ */
+export function toDocumentSearchParams(
+  query: DocumentListQuery,
+  defaults: DocumentListQuery = DEFAULT_DOCUMENT_QUERY
+): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.page !== defaults.page) params.set("page", String(query.page));
+  if (query.pageSize !== defaults.pageSize) {
+    params.set("pageSize", String(query.pageSize));
+  }
+  if (query.sort !== defaults.sort) params.set("sort", query.sort);
+  if (query.order !== defaults.order) params.set("order", query.order);
+  if (query.status.length > 0) params.set("status", query.status.join(","));
+  if (query.uploader) params.set("uploader", query.uploader);
+  if (query.assignee) params.set("assignee", query.assignee);
+  if (query.department) params.set("department", query.department);
+  if (query.from) params.set("from", query.from);
+  if (query.to) params.set("to", query.to);
+  if (query.q) params.set("q", query.q);
+  return params;
+}
+
+/**
+ * URL parameters that identify a saved view: filters and sort, but not
+ * the page being looked at
+ */
+export function toViewSearchParams(query: DocumentListQuery): URLSearchParams {
+  return toDocumentSearchParams({
+    ...query,
+    page: DEFAULT_DOCUMENT_QUERY.page,
+    pageSize: DEFAULT_DOCUMENT_QUERY.pageSize,
+  });
+}
+
+/** Whether any filter (not paging or sorting) is applied */
+export function hasDocumentFilters(query: DocumentListQuery): boolean {
+  return (
+    query.status.length > 0 ||
+    !!query.uploader ||
+    !!query.assignee ||
+    !!query.department ||
+    !!query.from ||
+    !!query.to ||
+    !!query.q
+  );
+}
@@ -0,0 +1,237 @@
+import { DatabaseService } from "./database";
+import { QUEUE_MEMBER } from "./document-queues";
+import { DELEGATORS } from "./out-of-office";
+import {
+  CURRENT_USER,
+  MY_DEPARTMENT,
+  resolveQueryDate,
+  type DocumentFilterOptions,
+  type DocumentListQuery,
+  type DocumentSortKey,
+} from "./document-list-query";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+// Only these expressions ever reach ORDER BY
+const SORT_COLUMNS: Record<DocumentSortKey, string> = {
+  title: "d.title",
+  uploader_name: "u.name",
+  assigned_user_name: "u_assigned.name",
+  status: "d.status",
+  file_size: "d.file_size",
+  created_at: "d.created_at",
+  updated_at: "d.updated_at",
+};
+
+/**
+ * Documents a user can list: ones they uploaded, are assigned, took part
+ * in an assignment of (either side), or that wait in their role's or
+ * department's queue. Trashed documents are excluded, and quarantined
+ * ones are only listed for their uploader.
+ */
+function visibilityClause(userId: string): { sql: string; params: any[] } {
+  return {
+    sql: `d.deleted_at IS NULL
+      AND (d.status <> 'quarantined' OR d.uploaded_by = ?)
+      AND (
+        d.uploaded_by = ?
+        OR d.assigned_to_user = ?
+        OR EXISTS (
+          SELECT 1
+          FROM document_assignments da
+          WHERE da.document_id = d.id
+            AND (da.assigned_to = ? OR da.assigned_by = ?
+              OR (da.status = 'assigned' AND da.closed_at IS NULL
+                AND da.assigned_to IN ${DELEGATORS}))
+        )
+        OR EXISTS (
+          SELECT 1 FROM users qu WHERE qu.id = ? AND ${QUEUE_MEMBER}
+        )
+      )`,
+    params: [userId, userId, userId, userId, userId, userId, userId],
+  };
+}
+
+async function userDepartment(userId: string): Promise<string | null> {
+  const rows = normalizeRows(
+    await DatabaseService.query(
+      `SELECT department_id FROM users WHERE id = ? LIMIT 1`,
+      [userId]
+    )
+  );
+  return rows[0]?.department_id ? String(rows[0].department_id) : null;
+}
+
+/** Filters of a query, with "me", "mine" and relative dates resolved */
+async function filterClause(
+  userId: string,
+  query: DocumentListQuery
+): Promise<{ sql: string; params: any[] }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const user = (id: string) => (id === CURRENT_USER ? userId : id);
+
+  if (query.status.length > 0) {
+    conditions.push(`d.status IN (${query.status.map(() => "?").join(",")})`);
+    params.push(...query.status);
+  }
+  if (query.uploader) {
+    conditions.push("d.uploaded_by = ?");
+    params.push(user(query.uploader));
+  }
+  if (query.assignee) {
+    // Any of a document's reviewers still to decide counts as its assignee
+    conditions.push(
+      `(d.assigned_to_user = ? OR EXISTS (
+        SELECT 1 FROM document_assignments ra
+        WHERE ra.document_id = d.id AND ra.assigned_to = ?
+          AND ra.status = 'assigned' AND ra.closed_at IS NULL
+      ))`
+    );
+    params.push(user(query.assignee), user(query.assignee));
+  }
+  if (query.department) {
+    const departmentId =
+      query.department === MY_DEPARTMENT
+        ? await userDepartment(userId)
+        : query.department;
+    // Someone without a department has no department documents
+    conditions.push(
+      "d.uploaded_by IN (SELECT id FROM users WHERE department_id = ?)"
+    );
+    params.push(departmentId ?? "");
+  }
+  if (query.from) {
+    conditions.push("d.created_at >= ?");
+    params.push(resolveQueryDate(query.from));
+  }
+  if (query.to) {
+    // `to` is a whole day, so compare against the start of the next one
+    conditions.push("d.created_at < DATE_ADD(?, INTERVAL 1 DAY)");
+    params.push(resolveQueryDate(query.to));
+  }
+  if (query.q) {
+    conditions.push("d.title LIKE ?");
+    params.push(`%${query.q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+  }
+
+  return {
+    sql: conditions.map((c) => `AND ${c}`).join("\n      "),
+    params,
+  };
+}
+
+async function whereClause(
+  userId: string,
+  query: DocumentListQuery
+): Promise<{ sql: string; params: any[] }> {
+  const visibility = visibilityClause(userId);
+  const filters = await filterClause(userId, query);
+  return {
+    sql: `WHERE ${visibility.sql}
+      ${filters.sql}`,
+    params: [...visibility.params, ...filters.params],
+  };
+}
+
+async function countWhere(where: {
+  sql: string;
+  params: any[];
+}): Promise<number> {
+  const rows = normalizeRows(
+    await DatabaseService.query(
+      `SELECT COUNT(*) AS total FROM documents d ${where.sql}`,
+      where.params
+    )
+  );
+  return Number(rows[0]?.total ?? 0);
+}
+
+export class DocumentListService {
+  /**
+   * One page of the documents a user can see, plus the total number of
+   * documents matching the filters.
+   */
+  static async list(
+    userId: string,
+    query: DocumentListQuery
+  ): Promise<{ rows: any[]; total: number }> {
+    const where = await whereClause(userId, query);
+    const total = await countWhere(where);
+    if (total === 0) return { rows: [], total };
+
+    // LIMIT/OFFSET are validated integers; inlined because prepared
+    // statements reject numeric placeholders there on some MySQL versions
+    const direction = query.order === "asc" ? "ASC" : "DESC";
+    const offset = (query.page - 1) * query.pageSize;
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT
+           d.id,
+           d.title,
+           d.file_path,
+           d.file_size,
+           d.uploaded_by,
+           d.assigned_to_user,
+           d.assigned_to_role,
+           d.assigned_to_department,
+           d.status,
+           d.current_version,
+           d.created_at,
+           d.updated_at,
+           u.name AS uploader_name,
+           u_assigned.name AS assigned_user_name
+         FROM documents d
+         LEFT JOIN users u ON u.id = d.uploaded_by
+         LEFT JOIN users u_assigned ON u_assigned.id = d.assigned_to_user
+         ${where.sql}
+         ORDER BY ${SORT_COLUMNS[query.sort]} ${direction}, d.id ${direction}
+         LIMIT ${Math.floor(query.pageSize)} OFFSET ${Math.floor(offset)}`,
+        where.params
+      )
+    );
+
+    return { rows, total };
+  }
+
+  /** How many documents the user can see that match the query's filters */
+  static async count(userId: string, query: DocumentListQuery): Promise<number> {
+    return countWhere(await whereClause(userId, query));
+  }
+
+  /**
+   * Uploaders, assignees and uploader departments that occur among the
+   * user's documents
+   */
+  static async filterOptions(userId: string): Promise<DocumentFilterOptions> {
+    const visibility = visibilityClause(userId);
+    const options = async (join: string) =>
+      normalizeRows(
+        await DatabaseService.query(
+          `SELECT DISTINCT o.id, o.name
+           FROM documents d
+           ${join}
+           WHERE ${visibility.sql}
+           ORDER BY o.name ASC`,
+          visibility.params
+        )
+      ).map((r) => ({ id: String(r.id), name: r.name ?? "Unknown" }));
+
+    const [uploaders, assignees, departments] = await Promise.all([
+      options("JOIN users o ON o.id = d.uploaded_by"),
+      options("JOIN users o ON o.id = d.assigned_to_user"),
+      options(
+        `JOIN users u ON u.id = d.uploaded_by
+           JOIN departments o ON o.id = u.department_id`
+      ),
+    ]);
+
+    return { uploaders, assignees, departments };
+  }
+}
@@ -0,0 +1,639 @@
+import { DatabaseService } from "./database";
+import { DocumentAccessService } from "./document-access";
+import { DocumentContentService } from "./document-content";
+import { DocumentSearchService } from "./document-search";
+import { DocumentThumbnailService } from "./document-thumbnails";
+import { DocumentTrashService } from "./document-trash";
+import {
+  DocumentUploadService,
+  type AssignmentType,
+} from "./document-upload";
+import {
+  DocumentVersionService,
+  type DocumentVersion,
+} from "./document-versions";
+import {
+  PdfDocument,
+  PdfParseError,
+  writePdf,
+  type PdfPage,
+} from "./pdf-objects";
+import { getStorage } from "./storage";
+import { remapXfdfPages } from "./xfdf";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+/**
+ * Page numbers are 1-based and refer to the pages as they stand after the
+ * operations before, so a client can send exactly what its organizer did.
+ */
+export type PageOperation =
+  | { type: "rotate"; pages: number[]; degrees: 90 | 180 | 270 }
+  | { type: "delete"; pages: number[] }
+  | { type: "reorder"; order: number[] }
+  | {
+      type: "insert";
+      source_document_id: string;
+      /** Pages of the source's current version; all of them by default */
+      source_pages: number[] | null;
+      /** Insert after this page, 0 for the start; the end by default */
+      after: number | null;
+    }
+  | { type: "split"; pages: number[]; title: string | null };
+
+export const PAGE_OPERATION_TYPES = [
+  "rotate",
+  "delete",
+  "reorder",
+  "insert",
+  "split",
+] as const;
+
+const MAX_OPERATIONS = 200;
+
+export interface SplitDocument {
+  id: string;
+  title: string;
+  page_count: number;
+}
+
+export type PageOperationsResult =
+  | {
+      ok: true;
+      version: DocumentVersion;
+      page_count: number;
+      split_documents: SplitDocument[];
+      /** Set when the version was saved but part of the edit wasn't */
+      warning?: string;
+    }
+  | { ok: false; status: number; error: string };
+
+interface PageSlot {
+  pdf: PdfDocument;
+  page: PdfPage;
+  /** Degrees clockwise added to the page's own rotation */
+  rotate: number;
+  /** Page number in the edited version; null for inserted pages */
+  original: number | null;
+}
+
+function pageList(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  if (!value.every((p) => Number.isInteger(p) && p > 0)) return null;
+  return value.filter((p, i) => value.indexOf(p) === i);
+}
+
+/** Check the shape of a request body's operations */
+export function parsePageOperations(
+  value: unknown
+): { ok: true; operations: PageOperation[] } | { ok: false; error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { ok: false, error: "operations must be a non-empty array" };
+  }
+  if (value.length > MAX_OPERATIONS) {
+    return { ok: false, error: `At most ${MAX_OPERATIONS} operations` };
+  }
+
+  const operations: PageOperation[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const op = value[i] ?? {};
+    const fail = (error: string) => ({
+      ok: false as const,
+      error: `Operation ${i + 1}: ${error}`,
+    });
+
+    switch (op.type) {
+      case "rotate": {
+        const pages = pageList(op.pages);
+        const degrees = (((Number(op.degrees) % 360) + 360) % 360) as
+          | 90
+          | 180
+          | 270;
+        if (!pages) return fail("pages must list page numbers");
+        if (![90, 180, 270].includes(degrees)) {
+          return fail("degrees must be 90, 180 or 270");
+        }
+        operations.push({ type: "rotate", pages, degrees });
+        break;
+      }
+      case "delete": {
+        const pages = pageList(op.pages);
+        if (!pages) return fail("pages must list page numbers");
+        operations.push({ type: "delete", pages });
+        break;
+      }
+      case "reorder": {
+        const order = pageList(op.order);
+        if (!order || order.length !== op.order.length) {
+          return fail("order must list every page number once");
+        }
+        operations.push({ type: "reorder", order });
+        break;
+      }
+      case "insert": {
+        const sourcePages =
+          op.source_pages == null ? null : pageList(op.source_pages);
+        const after = op.after == null ? null : Number(op.after);
+        const sourceId = op.source_document_id;
+        if (!sourceId || typeof sourceId !== "string") {
+          return fail("source_document_id is required");
+        }
+        if (op.source_pages != null && !sourcePages) {
+          return fail("source_pages must list page numbers");
+        }
+        if (after !== null && !(Number.isInteger(after) && after >= 0)) {
+          return fail("after must be a page number, or 0 for the start");
+        }
+        operations.push({
+          type: "insert",
+          source_document_id: sourceId,
+          source_pages: sourcePages,
+          after,
+        });
+        break;
+      }
+      case "split": {
+        const pages = pageList(op.pages);
+        const title =
+          typeof op.title === "string" && op.title.trim()
+            ? op.title.trim().slice(0, 255)
+            : null;
+        if (!pages) return fail("pages must list page numbers");
+        operations.push({ type: "split", pages, title });
+        break;
+      }
+      default:
+        return fail(`type must be one of ${PAGE_OPERATION_TYPES.join(", ")}`);
+    }
+  }
+  return { ok: true, operations };
+}
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** "Rotated 2 pages, deleted 1 page" */
+function describeOperations(operations: PageOperation[]): string {
+  return operations
+    .map((op) => {
+      switch (op.type) {
+        case "rotate":
+          return `rotated ${plural(op.pages.length, "page")}`;
+        case "delete":
+          return `deleted ${plural(op.pages.length, "page")}`;
+        case "reorder":
+          return "reordered pages";
+        case "insert":
+          return op.source_pages
+            ? `inserted ${plural(op.source_pages.length, "page")}`
+            : "inserted a document";
+        case "split":
+          return `split off ${plural(op.pages.length, "page")}`;
+      }
+    })
+    .filter((text, i, all) => all.indexOf(text) === i)
+    .join(", ")
+    .replace(/^./, (c) => c.toUpperCase());
+}
+
+async function loadCurrentPdf(doc: {
+  id: string;
+  file_path?: string | null;
+}): Promise<PdfDocument> {
+  const version = await DocumentVersionService.getVersion(doc.id, null);
+  const filePath = version?.file_path || doc.file_path;
+  if (!filePath) {
+    throw Object.assign(new Error("File not found"), { code: "ENOENT" });
+  }
+  return PdfDocument.load(await getStorage().get(filePath));
+}
+
+/**
+ * Where split-off pages go: the original's queue when it was queued, else
+ * its assignee, or its uploader when the assignee is the one splitting
+ * (nobody may assign a document to themselves)
+ */
+function splitAssignment(
+  doc: {
+    uploaded_by?: string | null;
+    assigned_to_user?: string | null;
+    assigned_to_role?: string | null;
+    assigned_to_department?: string | null;
+  },
+  userId: string
+): { assignmentType: AssignmentType; assignTo: string } {
+  if (doc.assigned_to_role) {
+    return { assignmentType: "role", assignTo: String(doc.assigned_to_role) };
+  }
+  if (doc.assigned_to_department) {
+    return {
+      assignmentType: "department",
+      assignTo: String(doc.assigned_to_department),
+    };
+  }
+  const candidates = [doc.assigned_to_user, doc.uploaded_by]
+    .filter((id): id is string => Boolean(id))
+    .map(String);
+  return {
+    assignmentType: "user",
+    assignTo:
+      candidates.find((id) => id !== String(userId)) ?? candidates[0] ?? "",
+  };
+}
+
+/** Remove split documents again when the page edit doesn't go through */
+async function discardSplits(splits: SplitDocument[], userId: string) {
+  const user = { id: userId, isAdmin: false };
+  for (const split of splits) {
+    try {
+      await DocumentTrashService.softDelete(split.id, user);
+      await DocumentTrashService.purge(split.id, user);
+    } catch (cleanupErr) {
+      console.error("Failed to remove split document:", split.id, cleanupErr);
+    }
+  }
+}
+
+export interface PageInfo {
+  page_number: number;
+  /** Unrotated size in PDF points */
+  width: number;
+  height: number;
+  rotate: number;
+}
+
+export class DocumentPageService {
+  /** Size and rotation of every page of the current version */
+  static async listPages(doc: {
+    id: string;
+    file_path?: string | null;
+  }): Promise<PageInfo[]> {
+    const pdf = await loadCurrentPdf(doc);
+    return pdf.getPages().map(({ dict }, i) => {
+      const box = pdf.resolve(dict.get("CropBox") ?? dict.get("MediaBox"));
+      const [x1, y1, x2, y2] = Array.isArray(box)
+        ? box.map((n) => Number(pdf.resolve(n)) || 0)
+        : [0, 0, 612, 792];
+      const rotate = Number(pdf.resolve(dict.get("Rotate")) ?? 0) || 0;
+      return {
+        page_number: i + 1,
+        width: Math.abs(x2 - x1),
+        height: Math.abs(y2 - y1),
+        rotate: ((rotate % 360) + 360) % 360,
+      };
+    });
+  }
+
+  /**
+   * Apply page operations to the current version of a document and save
+   * the result as a new version. Annotations follow their pages; those on
+   * deleted pages are removed and those on split-off pages move to the new
+   * documents. Rotating a page doesn't move annotations, since they are
+   * stored in unrotated page space.
+   */
+  static async apply(input: {
+    document: {
+      id: string;
+      title?: string | null;
+      file_path?: string | null;
+      uploaded_by?: string | null;
+      assigned_to_user?: string | null;
+      assigned_to_role?: string | null;
+      assigned_to_department?: string | null;
+    };
+    userId: string;
+    operations: PageOperation[];
+    changeNote?: string | null;
+  }): Promise<PageOperationsResult> {
+    const doc = input.document;
+
+    let slots: PageSlot[];
+    const splits: { title: string; slots: PageSlot[] }[] = [];
+    let output: Buffer;
+    let splitOutputs: Buffer[];
+    try {
+      const pdf = await loadCurrentPdf(doc);
+      slots = pdf.getPages().map((page, i) => ({
+        pdf,
+        page,
+        rotate: 0,
+        original: i + 1,
+      }));
+      const sources = new Map<string, PdfDocument>([[doc.id, pdf]]);
+
+      for (let i = 0; i < input.operations.length; i++) {
+        const op = input.operations[i];
+        const fail = (status: number, error: string) => ({
+          ok: false as const,
+          status,
+          error: `Operation ${i + 1} (${op.type}): ${error}`,
+        });
+        const pages = "pages" in op ? op.pages : [];
+        const outOfRange = pages.find((p) => p > slots.length);
+        if (outOfRange !== undefined) {
+          return fail(400, `page ${outOfRange} doesn't exist`);
+        }
+
+        switch (op.type) {
+          case "rotate":
+            slots = slots.map((slot, index) =>
+              op.pages.includes(index + 1)
+                ? { ...slot, rotate: slot.rotate + op.degrees }
+                : slot
+            );
+            break;
+          case "delete":
+            slots = slots.filter((_, index) => !op.pages.includes(index + 1));
+            break;
+          case "reorder":
+            if (
+              op.order.length !== slots.length ||
+              op.order.some((p) => p > slots.length)
+            ) {
+              return fail(400, "order must list every page number once");
+            }
+            slots = op.order.map((p) => slots[p - 1]);
+            break;
+          case "insert": {
+            let source = sources.get(op.source_document_id);
+            if (!source) {
+              const access = await DocumentAccessService.checkAccess(
+                op.source_document_id,
+                input.userId
+              );
+              if (!access.allowed) {
+                return access.reason === "not_found"
+                  ? fail(404, "source document not found")
+                  : fail(403, "no access to the source document");
+              }
+              source = await loadCurrentPdf(access.document);
+              sources.set(op.source_document_id, source);
+            }
+
+            const sourcePages = source.getPages();
+            const wanted =
+              op.source_pages ?? sourcePages.map((_, index) => index + 1);
+            const missing = wanted.find((p) => p > sourcePages.length);
+            if (missing !== undefined) {
+              return fail(400, `source page ${missing} doesn't exist`);
+            }
+            const after = op.after ?? slots.length;
+            if (after > slots.length) {
+              return fail(400, `page ${after} doesn't exist`);
+            }
+            slots.splice(
+              after,
+              0,
+              ...wanted.map((p) => ({
+                pdf: source!,
+                page: sourcePages[p - 1],
+                rotate: 0,
+                original: null,
+              }))
+            );
+            break;
+          }
+          case "split":
+            splits.push({
+              title:
+                op.title ??
+                `${doc.title || "Document"} (part ${splits.length + 1})`,
+              slots: op.pages.map((p) => slots[p - 1]),
+            });
+            slots = slots.filter((_, index) => !op.pages.includes(index + 1));
+            break;
+        }
+      }
+
+      if (slots.length === 0) {
+        return {
+          ok: false,
+          status: 400,
+          error: "At least one page must remain in the document",
+        };
+      }
+
+      const toWrite = (list: PageSlot[]) =>
+        writePdf(
+          list.map((slot) => ({
+            doc: slot.pdf,
+            page: slot.page,
+            rotate: slot.rotate,
+          }))
+        );
+      output = toWrite(slots);
+      splitOutputs = splits.map((split) => toWrite(split.slots));
+    } catch (err) {
+      if (err instanceof PdfParseError) {
+        return {
+          ok: false,
+          status: 422,
+          error: `The PDF can't be edited: ${err.message}`,
+        };
+      }
+      throw err;
+    }
+
+    // Split documents first: if one fails, the original is left untouched
+    // and those already created are purged again
+    const splitDocuments: SplitDocument[] = [];
+    const target = splitAssignment(doc, input.userId);
+    for (let i = 0; i < splits.length; i++) {
+      const created = await DocumentUploadService.createDocument({
+        buffer: splitOutputs[i],
+        fileName: `${splits[i].title}.pdf`,
+        mimeType: "application/pdf",
+        title: splits[i].title,
+        description: `Split from "${doc.title || doc.id}"`,
+        uploadedBy: input.userId,
+        ...target,
+        allowDuplicate: true,
+      });
+      if (!created.ok) {
+        await discardSplits(splitDocuments, input.userId);
+        return {
+          ok: false,
+          status: created.status,
+          error: `Failed to create "${splits[i].title}": ${created.error}`,
+        };
+      }
+      splitDocuments.push({
+        id: created.document.id,
+        title: splits[i].title,
+        page_count: splits[i].slots.length,
+      });
+    }
+
+    const stored = await DocumentContentService.store(
+      output,
+      `${doc.title || "document"}.pdf`,
+      "application/pdf"
+    );
+    let version: DocumentVersion;
+    try {
+      version = await DocumentVersionService.createVersion({
+        documentId: doc.id,
+        filePath: stored.key,
+        fileSize: output.length,
+        mimeType: "application/pdf",
+        contentHash: stored.contentHash,
+        uploadedBy: input.userId,
+        changeNote: input.changeNote || describeOperations(input.operations),
+      });
+    } catch (error) {
+      try {
+        await DocumentContentService.release(stored.key);
+      } catch (cleanupErr) {
+        console.error("Failed to remove file after version error:", cleanupErr);
+      }
+      await discardSplits(splitDocuments, input.userId);
+      throw error;
+    }
+
+    // The version is saved by now, so a failed remap is reported rather
+    // than thrown; the annotations are left where they were
+    let warning: string | undefined;
+    try {
+      await DocumentPageService.remapAnnotations(
+        doc.id,
+        input.userId,
+        slots,
+        splits.map((split, i) => ({
+          documentId: splitDocuments[i].id,
+          slots: split.slots,
+        }))
+      );
+    } catch (remapErr) {
+      console.error("⚠️ Annotation remap failed:", remapErr);
+      warning =
+        "The pages were saved, but annotations couldn't be moved to the new page numbers";
+    }
+
+    try {
+      await DocumentSearchService.indexVersion(
+        doc.id,
+        version.version_number,
+        output
+      );
+    } catch (indexErr) {
+      console.error("⚠️ Text extraction failed:", indexErr);
+    }
+
+    try {
+      await DocumentThumbnailService.generateForVersion(
+        doc.id,
+        version.version_number,
+        output
+      );
+    } catch (thumbErr) {
+      console.error("⚠️ Thumbnail rendering failed:", thumbErr);
+    }
+
+    return {
+      ok: true,
+      version,
+      page_count: slots.length,
+      split_documents: splitDocuments,
+      warning,
+    };
+  }
+
+  /**
+   * Move annotation rows and the viewer's XFDF to the pages' new numbers,
+   * in one transaction so a failure doesn't leave them half remapped.
+   */
+  private static async remapAnnotations(
+    documentId: string,
+    userId: string,
+    slots: PageSlot[],
+    splits: { documentId: string; slots: PageSlot[] }[]
+  ) {
+    const newPages = (list: PageSlot[]) => {
+      const pages = new Map<number, number>();
+      list.forEach((slot, index) => {
+        if (slot.original !== null && !pages.has(slot.original)) {
+          pages.set(slot.original, index + 1);
+        }
+      });
+      return pages;
+    };
+    const kept = newPages(slots);
+    const moved = splits.map((split) => ({
+      documentId: split.documentId,
+      pages: newPages(split.slots),
+    }));
+
+    const queries: { sql: string; params: any[] }[] = [];
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        "SELECT id, page_number FROM annotations WHERE document_id = ?",
+        [documentId]
+      )
+    );
+    for (const row of rows) {
+      const page = Number(row.page_number);
+      const next = kept.get(page);
+      const split = moved.find((m) => m.pages.has(page));
+      if (next !== undefined) {
+        if (next === page) continue;
+        queries.push({
+          sql: "UPDATE annotations SET page_number = ? WHERE id = ?",
+          params: [next, row.id],
+        });
+      } else if (split) {
+        queries.push({
+          sql: `UPDATE annotations SET document_id = ?, page_number = ?
+                WHERE id = ?`,
+          params: [split.documentId, split.pages.get(page), row.id],
+        });
+      } else {
+        queries.push({
+          sql: "DELETE FROM annotations WHERE id = ?",
+          params: [row.id],
+        });
+      }
+    }
+
+    const xfdfRows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT xfdf FROM document_annotations_xfdf
+         WHERE document_id = ?
+         LIMIT 1`,
+        [documentId]
+      )
+    );
+    const xfdf: string | null = xfdfRows[0]?.xfdf ?? null;
+    if (xfdf !== null) {
+      queries.push({
+        sql: `UPDATE document_annotations_xfdf
+              SET xfdf = ?, updated_at = NOW()
+              WHERE document_id = ?`,
+        params: [
+          remapXfdfPages(xfdf, (page) => kept.get(page) ?? null),
+          documentId,
+        ],
+      });
+      for (const split of moved) {
+        queries.push({
+          sql: `INSERT INTO document_annotations_xfdf
+                (document_id, xfdf, created_by, created_at, updated_at)
+                VALUES (?, ?, ?, NOW(), NOW())`,
+          params: [
+            split.documentId,
+            remapXfdfPages(xfdf, (page) => split.pages.get(page) ?? null),
+            userId,
+          ],
+        });
+      }
+    }
+
+    if (queries.length > 0) await DatabaseService.transaction(queries);
+  }
+}
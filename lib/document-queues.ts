@@ -0,0 +1,413 @@
+import { randomUUID } from "crypto";
+import { DatabaseService } from "./database";
+import { SLA_DUE_AT } from "./assignment-sla";
+import { DocumentWorkflowService } from "./document-workflows";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+type Connection = Awaited<ReturnType<typeof DatabaseService.getConnection>>;
+
+export type QueueType = "role" | "department";
+
+export type QueueResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; error: string };
+
+/** A document waiting in, or claimed from, a shared queue */
+export interface QueueItem {
+  document_id: string;
+  title: string;
+  status: string;
+  uploaded_by: string;
+  uploader_name: string | null;
+  queue_type: QueueType;
+  queue_id: string;
+  queue_name: string | null;
+  /** Whoever claimed it; null while it waits in the queue */
+  claimed_by: string | null;
+  claimed_by_name: string | null;
+  created_at: string;
+}
+
+/**
+ * True when user `qu` is a member of document `d`'s queue. A document is
+ * queued for a role or, failing that, a department.
+ */
+export const QUEUE_MEMBER = `(
+  (d.assigned_to_role IS NOT NULL AND qu.role_id = d.assigned_to_role)
+  OR (d.assigned_to_role IS NULL AND d.assigned_to_department IS NOT NULL
+      AND qu.department_id = d.assigned_to_department)
+)`;
+
+/** Queue items are only worked on until the document is decided */
+const OPEN_STATUSES = ["draft", "in_review", "rejected"];
+
+/** Roles recorded on the assignment row of a claim */
+export const CLAIM_ROLE = "Claimed";
+
+function mapItem(row: any): QueueItem {
+  const byRole = row.assigned_to_role != null;
+  return {
+    document_id: String(row.id),
+    title: row.title,
+    status: row.status,
+    uploaded_by: String(row.uploaded_by),
+    uploader_name: row.uploader_name ?? null,
+    queue_type: byRole ? "role" : "department",
+    queue_id: String(byRole ? row.assigned_to_role : row.assigned_to_department),
+    queue_name: (byRole ? row.role_name : row.department_name) ?? null,
+    claimed_by: row.assigned_to_user ? String(row.assigned_to_user) : null,
+    claimed_by_name: row.claimed_by_name ?? null,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Documents assigned to a role or department rather than a person. They
+ * wait in a shared queue until a member claims one, which makes that
+ * member its assignee and gives them the document's lock; releasing puts
+ * it back. Claims and releases are recorded as document_assignments rows:
+ * a claim is an assigned row with roles "Claimed", and releasing closes it
+ * with status "released".
+ */
+export class DocumentQueueService {
+  /** Why documents can't be queued for this role or department, or null */
+  static async checkQueue(
+    type: QueueType,
+    queueId: string
+  ): Promise<string | null> {
+    if (!queueId) {
+      return type === "role"
+        ? "Role assignment is required"
+        : "Department assignment is required";
+    }
+    const table = type === "role" ? "roles" : "departments";
+    const rows = normalizeRows(
+      await DatabaseService.query(`SELECT id FROM ${table} WHERE id = ?`, [
+        queueId,
+      ])
+    );
+    if (rows.length > 0) return null;
+    return type === "role" ? "Role not found" : "Department not found";
+  }
+
+  /**
+   * Let the queue's members know a document is waiting for them
+   * (best-effort; the document is queued either way)
+   */
+  static async announce(data: {
+    documentId: string;
+    title: string;
+    uploadedBy: string;
+    type: QueueType;
+    queueId: string;
+  }): Promise<void> {
+    try {
+      const column = data.type === "role" ? "role_id" : "department_id";
+      const members = normalizeRows(
+        await DatabaseService.query(
+          `SELECT id FROM users WHERE ${column} = ? AND id <> ?`,
+          [data.queueId, data.uploadedBy]
+        )
+      );
+      const uploader = normalizeRows(
+        await DatabaseService.query("SELECT name FROM users WHERE id = ?", [
+          data.uploadedBy,
+        ])
+      );
+      const uploaderName = (uploader[0]?.name as string) || "A user";
+
+      for (const member of members) {
+        await DatabaseService.query(
+          `INSERT INTO notifications
+           (id, user_id, type, message, related_document_id, sender_id, is_read, created_at)
+           VALUES (?, ?, 'document_assigned', ?, ?, ?, 0, NOW())`,
+          [
+            randomUUID(),
+            member.id,
+            `${uploaderName} added "${data.title}" to your team inbox`,
+            data.documentId,
+            data.uploadedBy,
+          ]
+        );
+      }
+    } catch (notifyErr) {
+      console.error("❌ Failed to notify queue members:", notifyErr);
+    }
+  }
+
+  /**
+   * The queues the user belongs to: open documents waiting in them, and
+   * those claimed from them. Waiting ones come first, oldest first.
+   */
+  static async listForUser(userId: string): Promise<QueueItem[]> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT d.id, d.title, d.status, d.uploaded_by, d.created_at,
+                d.assigned_to_user, d.assigned_to_role, d.assigned_to_department,
+                up.name AS uploader_name, cl.name AS claimed_by_name,
+                r.name AS role_name, dept.name AS department_name
+         FROM documents d
+         JOIN users qu ON qu.id = ?
+         LEFT JOIN users up ON up.id = d.uploaded_by
+         LEFT JOIN users cl ON cl.id = d.assigned_to_user
+         LEFT JOIN roles r ON r.id = d.assigned_to_role
+         LEFT JOIN departments dept ON dept.id = d.assigned_to_department
+         WHERE d.deleted_at IS NULL
+           AND d.status IN (${OPEN_STATUSES.map(() => "?").join(",")})
+           AND ${QUEUE_MEMBER}
+         ORDER BY d.assigned_to_user IS NOT NULL, d.created_at ASC`,
+        [userId, ...OPEN_STATUSES]
+      )
+    );
+    return rows.map(mapItem);
+  }
+
+  /**
+   * The queue a document row waits in, if any, and whether the user may
+   * claim it or release its claim right now
+   */
+  static async claimState(
+    doc: any,
+    userId: string,
+    isAdmin: boolean
+  ): Promise<{
+    queue: { type: QueueType; name: string | null } | null;
+    can_claim: boolean;
+    can_release: boolean;
+  }> {
+    if (!doc.assigned_to_role && !doc.assigned_to_department) {
+      return { queue: null, can_claim: false, can_release: false };
+    }
+    const queue = doc.assigned_to_role
+      ? { type: "role" as const, name: doc.assigned_to_role_name ?? null }
+      : {
+          type: "department" as const,
+          name: doc.assigned_department_name ?? null,
+        };
+    if (!OPEN_STATUSES.includes(doc.status)) {
+      return { queue, can_claim: false, can_release: false };
+    }
+
+    const claimant = doc.assigned_to_user ? String(doc.assigned_to_user) : null;
+    if (claimant) {
+      return {
+        queue,
+        can_claim: false,
+        can_release: claimant === String(userId) || isAdmin,
+      };
+    }
+    if (String(doc.uploaded_by) === String(userId)) {
+      return { queue, can_claim: false, can_release: false };
+    }
+    const member = normalizeRows(
+      await DatabaseService.query(
+        `SELECT 1 FROM documents d
+         JOIN users qu ON qu.id = ?
+         WHERE d.id = ? AND ${QUEUE_MEMBER}`,
+        [userId, doc.id]
+      )
+    );
+    return { queue, can_claim: member.length > 0, can_release: false };
+  }
+
+  /**
+   * Take a queued document: the user becomes its assignee, holds its lock
+   * and may annotate it until they release it or pass it on.
+   */
+  static async claim(
+    documentId: string,
+    userId: string
+  ): Promise<QueueResult<{}>> {
+    const connection = await DatabaseService.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const doc = await lockQueued(connection, documentId, userId);
+      if (!doc.ok) {
+        await connection.rollback();
+        return doc;
+      }
+      const row = doc.row;
+      if (!Number(row.is_member)) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 403,
+          error: "Only members of the queue can claim this document",
+        };
+      }
+      if (String(row.uploaded_by) === String(userId)) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 400,
+          error: "Cannot claim your own document",
+        };
+      }
+      if (row.assigned_to_user) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 409,
+          error:
+            String(row.assigned_to_user) === String(userId)
+              ? "You already claimed this document"
+              : `Already claimed by ${row.claimed_by_name ?? "someone else"}`,
+        };
+      }
+      const workflow = await DocumentWorkflowService.activeWorkflowName(
+        documentId,
+        connection
+      );
+      if (workflow) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 409,
+          error: `The document is on the "${workflow}" workflow, which assigns its reviewers`,
+        };
+      }
+
+      await connection.execute(
+        `UPDATE documents
+         SET assigned_to_user = ?, locked_by = ?, locked_at = NOW()
+         WHERE id = ?`,
+        [userId, userId, documentId]
+      );
+      await connection.execute(
+        `INSERT INTO document_assignments
+         (id, document_id, assigned_to, assigned_by, roles, status, notified_at, due_at)
+         VALUES (?, ?, ?, ?, ?, 'assigned', NULL, IF(?, ${SLA_DUE_AT}, NULL))`,
+        [
+          randomUUID(),
+          documentId,
+          userId,
+          userId,
+          CLAIM_ROLE,
+          row.status === "in_review" ? 1 : 0,
+          userId,
+        ]
+      );
+
+      await connection.commit();
+      return { ok: true };
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Put a claimed document back in its queue. The claimant releases their
+   * own claim; admins may release anyone's.
+   */
+  static async release(
+    documentId: string,
+    userId: string,
+    isAdmin: boolean
+  ): Promise<QueueResult<{}>> {
+    const connection = await DatabaseService.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const doc = await lockQueued(connection, documentId, userId);
+      if (!doc.ok) {
+        await connection.rollback();
+        return doc;
+      }
+      const claimant = doc.row.assigned_to_user
+        ? String(doc.row.assigned_to_user)
+        : null;
+      if (!claimant) {
+        await connection.rollback();
+        return { ok: false, status: 409, error: "The document isn't claimed" };
+      }
+      if (claimant !== String(userId) && !isAdmin) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 403,
+          error: "Only the person who claimed the document can release it",
+        };
+      }
+
+      // Their decision, if they made one, stays on the row as history
+      await connection.execute(
+        `UPDATE document_assignments
+         SET status = IF(status = 'assigned', 'released', status),
+             closed_at = NOW()
+         WHERE document_id = ? AND assigned_to = ?
+           AND workflow_step_id IS NULL AND closed_at IS NULL
+           AND status <> 'closed'`,
+        [documentId, claimant]
+      );
+      // MySQL applies the assignments in order, so locked_at sees the new
+      // locked_by
+      await connection.execute(
+        `UPDATE documents
+         SET assigned_to_user = NULL,
+             locked_by = IF(locked_by = ?, NULL, locked_by),
+             locked_at = IF(locked_by IS NULL, NULL, locked_at)
+         WHERE id = ?`,
+        [claimant, documentId]
+      );
+
+      await connection.commit();
+      return { ok: true };
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+}
+
+/** Lock a queued document's row, with whether the user is in its queue */
+async function lockQueued(
+  connection: Connection,
+  documentId: string,
+  userId: string
+): Promise<QueueResult<{ row: any }>> {
+  const [rows]: any = await connection.execute(
+    `SELECT d.id, d.status, d.uploaded_by, d.assigned_to_user,
+            d.assigned_to_role, d.assigned_to_department,
+            cl.name AS claimed_by_name,
+            EXISTS (
+              SELECT 1 FROM users qu WHERE qu.id = ? AND ${QUEUE_MEMBER}
+            ) AS is_member
+     FROM documents d
+     LEFT JOIN users cl ON cl.id = d.assigned_to_user
+     WHERE d.id = ? AND d.deleted_at IS NULL
+     FOR UPDATE`,
+    [userId, documentId]
+  );
+  const row = Array.isArray(rows) ? rows[0] : null;
+  if (!row) {
+    return { ok: false, status: 404, error: "Document not found" };
+  }
+  if (!row.assigned_to_role && !row.assigned_to_department) {
+    return {
+      ok: false,
+      status: 409,
+      error: "The document isn't assigned to a team queue",
+    };
+  }
+  if (!OPEN_STATUSES.includes(row.status)) {
+    return {
+      ok: false,
+      status: 409,
+      error: "The document is no longer waiting for review",
+    };
+  }
+  return { ok: true, row };
+}
@@ -0,0 +1,532 @@
+import { randomUUID } from "crypto";
+import { DatabaseService } from "./database";
+import { SLA_DUE_AT } from "./assignment-sla";
+import { OutOfOfficeService } from "./out-of-office";
+import {
+  OUTCOME_STATUS,
+  previousAssignee,
+  type ReviewOutcome,
+} from "./review-outcomes";
+import {
+  approvalsNeeded,
+  evaluateQuorum,
+  isQuorumRule,
+  QUORUM_RULES,
+  type QuorumRule,
+  type QuorumState,
+  type QuorumTally,
+} from "./review-quorum";
+
+type Connection = Awaited<ReturnType<typeof DatabaseService.getConnection>>;
+
+export type ReviewResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; error: string };
+
+export const MAX_REVIEWERS = 20;
+
+/** A reviewer's row in document_assignments */
+interface ReviewerRow {
+  id: string;
+  assigned_to: string;
+  assigned_by: string | null;
+  status: string;
+  /** The absent user the row was routed away from */
+  delegated_from: string | null;
+}
+
+async function select(
+  connection: Connection,
+  sql: string,
+  params: any[]
+): Promise<any[]> {
+  const [rows]: any = await connection.execute(sql, params);
+  return Array.isArray(rows) ? rows : [];
+}
+
+/**
+ * Stop counting a row; one nobody decided on is closed outright.
+ * `actedBy` is the delegate who closed it for its absent assignee.
+ */
+async function close(
+  connection: Connection,
+  row: ReviewerRow,
+  actedBy: string | null = null
+) {
+  await connection.execute(
+    `UPDATE document_assignments
+     SET status = IF(status = 'assigned', 'closed', status), closed_at = NOW(),
+         acted_by = COALESCE(?, acted_by)
+     WHERE id = ?`,
+    [actedBy, row.id]
+  );
+}
+
+/**
+ * The row the user decides on: their own while they still have to, or
+ * else that of an absent reviewer they are the delegate for
+ */
+function findPending(
+  reviewers: ReviewerRow[],
+  userId: string,
+  actingFor: string[] = []
+): ReviewerRow | undefined {
+  const pending = reviewers.filter((r) => r.status === "assigned");
+  return (
+    pending.find((r) => r.assigned_to === String(userId)) ??
+    pending.find((r) => actingFor.includes(r.assigned_to))
+  );
+}
+
+/** Assign a reviewer row, to the reviewer's delegate while they're away */
+async function insertReviewer(
+  connection: Connection,
+  data: {
+    documentId: string;
+    reviewerId: string;
+    delegatedFrom: string | null;
+    assignedBy: string;
+    notifiedAt: string | null;
+    dueAt: string | null;
+    /** Whether the SLA clock runs, i.e. the document is in review */
+    inReview: boolean;
+  }
+) {
+  await connection.execute(
+    `INSERT INTO document_assignments
+     (id, document_id, assigned_to, delegated_from, assigned_by, roles, status, notified_at, due_at)
+     VALUES (?, ?, ?, ?, ?, 'Reviewer', 'assigned', ?, COALESCE(?, IF(?, ${SLA_DUE_AT}, NULL)))`,
+    [
+      randomUUID(),
+      data.documentId,
+      data.reviewerId,
+      data.delegatedFrom,
+      data.assignedBy,
+      data.notifiedAt,
+      data.dueAt,
+      data.inReview ? 1 : 0,
+      data.reviewerId,
+    ]
+  );
+}
+
+function tally(
+  reviewers: ReviewerRow[],
+  rule: QuorumRule,
+  requiredApprovals: number | null
+): QuorumTally {
+  return {
+    approved: reviewers.filter((r) => r.status === "approved").length,
+    rejected: reviewers.filter((r) => r.status === "rejected").length,
+    total: reviewers.length,
+    needed: approvalsNeeded(rule, requiredApprovals, reviewers.length),
+  };
+}
+
+/**
+ * Reviews of a document outside any workflow. Every reviewer has their
+ * own document_assignments row; its status goes from assigned to
+ * approved, rejected, changes_requested or sent_back as the reviewer's
+ * outcome says, to lapsed when the document leaves review before they
+ * decide, or to closed when the reviewer is replaced before deciding.
+ * Rows that no longer count get a closed_at and keep their decision as
+ * history. The document's review_completion rule decides when the
+ * decisions add up to approving or rejecting it.
+ */
+export class DocumentReviewService {
+  /** The document's reviewers that haven't been replaced, oldest first */
+  static async currentReviewers(
+    connection: Connection,
+    documentId: string
+  ): Promise<ReviewerRow[]> {
+    const rows = await select(
+      connection,
+      `SELECT id, assigned_to, assigned_by, status, delegated_from
+       FROM document_assignments
+       WHERE document_id = ? AND workflow_step_id IS NULL
+         AND status <> 'closed' AND closed_at IS NULL
+       ORDER BY created_at ASC
+       FOR UPDATE`,
+      [documentId]
+    );
+    return rows.map((r) => ({
+      id: String(r.id),
+      assigned_to: String(r.assigned_to),
+      assigned_by: r.assigned_by ? String(r.assigned_by) : null,
+      status: String(r.status),
+      delegated_from: r.delegated_from ? String(r.delegated_from) : null,
+    }));
+  }
+
+  /**
+   * Route the document to a set of reviewers in parallel, replacing the
+   * current ones. Reviewers already on it keep their row and decision.
+   * A due date applies to every reviewer still to decide; without one,
+   * new reviewers get their department's SLA once the document is in
+   * review. New reviewers who are out
+   * of office are replaced by their delegates. Returns the users who were
+   * added. `onBehalfOf` is the absent reviewer a delegate reassigns for.
+   */
+  static async setReviewers(data: {
+    documentId: string;
+    assignedBy: string;
+    reviewerIds: string[];
+    completion?: string | null;
+    requiredApprovals?: number | null;
+    notify?: boolean;
+    /** ISO date and time */
+    dueAt?: string | null;
+    onBehalfOf?: string | null;
+  }): Promise<ReviewResult<{ added: string[] }>> {
+    const reviewerIds = Array.from(
+      new Set(data.reviewerIds.map((id) => String(id)).filter(Boolean))
+    );
+    if (reviewerIds.length === 0 || reviewerIds.length > MAX_REVIEWERS) {
+      return {
+        ok: false,
+        status: 400,
+        error: `Choose 1-${MAX_REVIEWERS} reviewers`,
+      };
+    }
+
+    const completion = data.completion ?? "all";
+    if (!isQuorumRule(completion)) {
+      return {
+        ok: false,
+        status: 400,
+        error: `completion must be one of: ${QUORUM_RULES.join(", ")}`,
+      };
+    }
+    const requiredApprovals =
+      completion === "count" ? Number(data.requiredApprovals) : null;
+    if (
+      requiredApprovals !== null &&
+      (!Number.isInteger(requiredApprovals) ||
+        requiredApprovals < 1 ||
+        requiredApprovals > reviewerIds.length)
+    ) {
+      return {
+        ok: false,
+        status: 400,
+        error: `requiredApprovals must be 1-${reviewerIds.length}`,
+      };
+    }
+
+    const dueDate = data.dueAt ? new Date(data.dueAt) : null;
+    if (dueDate && !(dueDate.getTime() > Date.now())) {
+      return {
+        ok: false,
+        status: 400,
+        error: "dueAt must be a date in the future",
+      };
+    }
+    const dueAt = dueDate
+      ? dueDate.toISOString().slice(0, 19).replace("T", " ")
+      : null;
+
+    const added: string[] = [];
+    const connection = await DatabaseService.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const docs = await select(
+        connection,
+        `SELECT id, status FROM documents
+         WHERE id = ? AND deleted_at IS NULL
+         FOR UPDATE`,
+        [data.documentId]
+      );
+      if (docs.length === 0) {
+        await connection.rollback();
+        return { ok: false, status: 404, error: "Document not found" };
+      }
+
+      const users = await select(
+        connection,
+        `SELECT id FROM users WHERE id IN (${reviewerIds
+          .map(() => "?")
+          .join(",")})`,
+        reviewerIds
+      );
+      if (users.length !== reviewerIds.length) {
+        await connection.rollback();
+        return { ok: false, status: 400, error: "Reviewer not found" };
+      }
+
+      const current = await this.currentReviewers(
+        connection,
+        data.documentId
+      );
+      const kept = current.map((r) => r.assigned_to);
+      // Reviewers already on the document keep their row while away; new
+      // ones go to their delegate, unless that's who is assigning
+      const routes = await OutOfOfficeService.delegateFor(
+        reviewerIds.filter((id) => !kept.includes(id)),
+        connection
+      );
+      routes.forEach((delegateId, reviewerId) => {
+        if (delegateId === String(data.assignedBy)) routes.delete(reviewerId);
+      });
+      const assigneeIds = Array.from(
+        new Set(reviewerIds.map((id) => routes.get(id) ?? id))
+      );
+
+      for (const row of current) {
+        if (!assigneeIds.includes(row.assigned_to)) {
+          await close(
+            connection,
+            row,
+            data.onBehalfOf && row.assigned_to === data.onBehalfOf
+              ? data.assignedBy
+              : null
+          );
+        }
+      }
+      if (dueAt) {
+        // A new due date gets its own reminder and escalation
+        await connection.execute(
+          `UPDATE document_assignments
+           SET due_at = ?, reminded_at = NULL, escalated_at = NULL,
+               escalated_to = NULL
+           WHERE document_id = ? AND workflow_step_id IS NULL
+             AND status = 'assigned' AND closed_at IS NULL`,
+          [dueAt, data.documentId]
+        );
+      }
+      const notifiedAt = data.notify
+        ? new Date().toISOString().slice(0, 19).replace("T", " ")
+        : null;
+      for (const reviewerId of reviewerIds) {
+        const assigneeId = routes.get(reviewerId) ?? reviewerId;
+        if (kept.includes(assigneeId) || added.includes(assigneeId)) continue;
+        await insertReviewer(connection, {
+          documentId: data.documentId,
+          reviewerId: assigneeId,
+          delegatedFrom: routes.has(reviewerId) ? reviewerId : null,
+          assignedBy: data.assignedBy,
+          notifiedAt,
+          dueAt,
+          inReview: docs[0].status === "in_review",
+        });
+        added.push(assigneeId);
+      }
+
+      await connection.execute(
+        `UPDATE documents
+         SET assigned_to_user = ?, review_completion = ?,
+             review_required_approvals = ?
+         WHERE id = ?`,
+        [assigneeIds[0], completion, requiredApprovals, data.documentId]
+      );
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    return { ok: true, added };
+  }
+
+  /**
+   * Record a reviewer's outcome on the caller's transaction, and say
+   * where the review stands after it. Requesting changes doesn't count
+   * towards the quorum; the caller returns the document to draft. A
+   * delegate decides on the row of an absent reviewer they cover for
+   * (`actingFor`) when they have none of their own; `onBehalfOf` says
+   * whose. Returns null when the user isn't waiting to decide.
+   */
+  static async decide(
+    connection: Connection,
+    data: {
+      documentId: string;
+      userId: string;
+      decision: Exclude<ReviewOutcome, "send_back">;
+      note: string | null;
+      completion: string | null;
+      requiredApprovals: number | null;
+      actingFor?: string[];
+    }
+  ): Promise<{
+    state: QuorumState;
+    tally: QuorumTally;
+    onBehalfOf: string | null;
+  } | null> {
+    const reviewers = await this.currentReviewers(connection, data.documentId);
+    const mine = findPending(reviewers, data.userId, data.actingFor);
+    if (!mine) return null;
+    const onBehalfOf =
+      mine.assigned_to === String(data.userId) ? null : mine.assigned_to;
+
+    mine.status = OUTCOME_STATUS[data.decision];
+    await connection.execute(
+      `UPDATE document_assignments
+       SET status = ?, outcome = ?, note = ?, decided_at = NOW(),
+           acted_by = ?
+       WHERE id = ?`,
+      [
+        mine.status,
+        data.decision,
+        data.note,
+        onBehalfOf ? data.userId : null,
+        mine.id,
+      ]
+    );
+
+    const rule = isQuorumRule(data.completion) ? data.completion : "all";
+    const counts = tally(reviewers, rule, data.requiredApprovals);
+    return { state: evaluateQuorum(counts), tally: counts, onBehalfOf };
+  }
+
+  /**
+   * Return the document to the reviewer who handed it to the user, on
+   * the caller's transaction. The user's row is closed as sent back and
+   * the previous reviewer (or their delegate) is assigned again; the
+   * document stays in review. Returns who it went to.
+   */
+  static async sendBack(
+    connection: Connection,
+    data: {
+      documentId: string;
+      userId: string;
+      uploadedBy: string;
+      note: string | null;
+      actingFor?: string[];
+    }
+  ): Promise<ReviewResult<{ to: string; onBehalfOf: string | null }>> {
+    const reviewers = await this.currentReviewers(connection, data.documentId);
+    const mine = findPending(reviewers, data.userId, data.actingFor);
+    if (!mine) {
+      return {
+        ok: false,
+        status: 403,
+        error: "You are not waiting to review this document",
+      };
+    }
+    const previous = previousAssignee(
+      reviewers,
+      [mine.assigned_to],
+      data.uploadedBy
+    );
+    if (!previous) {
+      return {
+        ok: false,
+        status: 409,
+        error: "Nobody reviewed the document before you to send it back to",
+      };
+    }
+    const onBehalfOf =
+      mine.assigned_to === String(data.userId) ? null : mine.assigned_to;
+
+    await connection.execute(
+      `UPDATE document_assignments
+       SET status = ?, outcome = 'send_back', note = ?, decided_at = NOW(),
+           closed_at = NOW(), acted_by = ?
+       WHERE id = ?`,
+      [
+        OUTCOME_STATUS.send_back,
+        data.note,
+        onBehalfOf ? data.userId : null,
+        mine.id,
+      ]
+    );
+
+    const routes = await OutOfOfficeService.delegateFor(
+      [previous],
+      connection
+    );
+    const to = routes.get(previous) ?? previous;
+    const remaining = reviewers
+      .filter((r) => r.id !== mine.id && r.status === "assigned")
+      .map((r) => r.assigned_to);
+    if (!remaining.includes(to)) {
+      await insertReviewer(connection, {
+        documentId: data.documentId,
+        reviewerId: to,
+        delegatedFrom: routes.has(previous) ? previous : null,
+        assignedBy: mine.assigned_to,
+        notifiedAt: new Date().toISOString().slice(0, 19).replace("T", " "),
+        dueAt: null,
+        inReview: true,
+      });
+    }
+    await connection.execute(
+      "UPDATE documents SET assigned_to_user = ? WHERE id = ?",
+      [remaining[0] ?? to, data.documentId]
+    );
+    return { ok: true, to, onBehalfOf };
+  }
+
+  /**
+   * Start a new round when the document goes back in review: reviewers
+   * who already decided, or whose review lapsed, get a fresh assignment,
+   * which goes to their delegate if they are out of office by now. Due
+   * dates from the department SLA count from here.
+   */
+  static async reopen(
+    connection: Connection,
+    documentId: string,
+    assignedBy: string
+  ): Promise<void> {
+    const reviewers = await this.currentReviewers(connection, documentId);
+    const decided = reviewers.filter((r) => r.status !== "assigned");
+    const routes = await OutOfOfficeService.delegateFor(
+      decided.map((r) => r.delegated_from ?? r.assigned_to),
+      connection
+    );
+    const notifiedAt = new Date().toISOString().slice(0, 19).replace("T", " ");
+    for (const row of decided) {
+      await close(connection, row);
+      const reviewerId = row.delegated_from ?? row.assigned_to;
+      await insertReviewer(connection, {
+        documentId,
+        reviewerId: routes.get(reviewerId) ?? reviewerId,
+        delegatedFrom: routes.has(reviewerId) ? reviewerId : null,
+        assignedBy,
+        notifiedAt,
+        dueAt: null,
+        inReview: true,
+      });
+    }
+    // Reviewers assigned while it was a draft start their SLA now
+    for (const row of reviewers.filter((r) => r.status === "assigned")) {
+      await connection.execute(
+        `UPDATE document_assignments SET due_at = ${SLA_DUE_AT}
+         WHERE id = ? AND due_at IS NULL`,
+        [row.assigned_to, row.id]
+      );
+    }
+  }
+
+  /**
+   * The document has left review: reviewers still to decide are no longer
+   * waiting on it. Their rows go to lapsed but stay current, so they get
+   * a fresh assignment when the document is resubmitted.
+   */
+  static async lapseOpen(
+    connection: Connection,
+    documentId: string
+  ): Promise<void> {
+    await connection.execute(
+      `UPDATE document_assignments SET status = 'lapsed'
+       WHERE document_id = ? AND workflow_step_id IS NULL
+         AND status = 'assigned' AND closed_at IS NULL`,
+      [documentId]
+    );
+  }
+
+  /** Workflows assign their own reviewers; the document's are let go */
+  static async closeOpen(
+    connection: Connection,
+    documentId: string
+  ): Promise<void> {
+    await connection.execute(
+      `UPDATE document_assignments SET status = 'closed', closed_at = NOW()
+       WHERE document_id = ? AND workflow_step_id IS NULL
+         AND status = 'assigned'`,
+      [documentId]
+    );
+  }
+}
@@ -0,0 +1,200 @@
+import { DatabaseService } from "./database";
+import { DocumentVersionService } from "./document-versions";
+import { getScanner } from "./scanning";
+import { getStorage } from "./storage";
+import { randomUUID } from "crypto";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+export type ScanStatus = "clean" | "infected" | "error";
+
+export interface ScanOutcome {
+  status: ScanStatus;
+  scanner: string;
+  /** The signature found, or why the scan failed */
+  detail: string | null;
+}
+
+/** activity_logs.action for each outcome */
+const SCAN_ACTIONS: Record<ScanStatus, string> = {
+  clean: "scan_clean",
+  infected: "malware_detected",
+  error: "scan_failed",
+};
+
+export class DocumentScanService {
+  /**
+   * Scan file contents. Scanner failures are returned as an "error"
+   * outcome rather than thrown, so callers can hold the file back.
+   */
+  static async scan(buffer: Buffer, fileName: string): Promise<ScanOutcome> {
+    const scanner = getScanner();
+    try {
+      const verdict = await scanner.scan(buffer, fileName);
+      return verdict.infected
+        ? {
+            status: "infected",
+            scanner: scanner.name,
+            detail: verdict.signature,
+          }
+        : { status: "clean", scanner: scanner.name, detail: null };
+    } catch (error: any) {
+      console.error(`❌ Malware scan of ${fileName} failed:`, error);
+      return {
+        status: "error",
+        scanner: scanner.name,
+        detail: String(error?.message ?? error),
+      };
+    }
+  }
+
+  /**
+   * The upload error for a file that didn't scan clean. `held` says
+   * whether the file was kept as a quarantined document or turned away.
+   */
+  static rejection(
+    outcome: ScanOutcome,
+    held: boolean
+  ): { status: number; error: string } {
+    if (outcome.status === "infected") {
+      return {
+        status: 422,
+        error: held
+          ? `The file was quarantined: malware detected (${outcome.detail})`
+          : `Malware detected (${outcome.detail}); the file was not saved`,
+      };
+    }
+    return {
+      status: 503,
+      error: held
+        ? "The file could not be checked for malware and is held for an administrator"
+        : "The file could not be checked for malware; please try again later",
+    };
+  }
+
+  /**
+   * Record a scan in the activity log and, unless it came back clean,
+   * notify every admin. `versionNumber` is set for revisions of an
+   * existing document, which are refused rather than quarantined.
+   */
+  static async record(data: {
+    documentId: string;
+    title: string;
+    userId: string;
+    outcome: ScanOutcome;
+    versionNumber?: number;
+  }): Promise<void> {
+    const { outcome } = data;
+    const subject =
+      data.versionNumber !== undefined
+        ? `version ${data.versionNumber} of "${data.title}"`
+        : `"${data.title}"`;
+
+    try {
+      await DocumentScanService.logActivity(
+        data.documentId,
+        data.userId,
+        SCAN_ACTIONS[outcome.status],
+        `${outcome.scanner}: ${outcome.detail ?? "no threats found"}`
+      );
+    } catch (logErr) {
+      console.error("❌ Failed to write scan activity:", logErr);
+    }
+    if (outcome.status === "clean") return;
+
+    try {
+      const admins = normalizeRows(
+        await DatabaseService.query(
+          `SELECT u.id
+           FROM users u
+           JOIN roles r ON r.id = u.role_id
+           WHERE LOWER(r.name) = 'admin'`
+        )
+      );
+      // New documents are kept in quarantine; revisions are turned away
+      const held = data.versionNumber === undefined;
+      const message =
+        outcome.status === "infected"
+          ? `Malware (${outcome.detail}) was found in ${subject}; ${
+              held ? "the file is quarantined" : "the upload was refused"
+            }`
+          : `${subject} could not be scanned for malware (${outcome.detail}) and ${
+              held ? "is waiting for review" : "was refused"
+            }`;
+
+      for (const admin of admins) {
+        await DatabaseService.query(
+          `INSERT INTO notifications
+           (id, user_id, type, message, related_document_id, sender_id, is_read, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, 0, NOW())`,
+          [
+            randomUUID(),
+            admin.id,
+            SCAN_ACTIONS[outcome.status],
+            message.charAt(0).toUpperCase() + message.slice(1),
+            data.documentId,
+            data.userId,
+          ]
+        );
+      }
+    } catch (notifyErr) {
+      console.error("❌ Failed to notify admins of scan result:", notifyErr);
+    }
+  }
+
+  static async logActivity(
+    documentId: string,
+    userId: string,
+    action: string,
+    details: string | null
+  ): Promise<void> {
+    await DatabaseService.query(
+      `INSERT INTO activity_logs (id, document_id, user_id, action, details, created_at)
+       VALUES (?, ?, ?, ?, ?, NOW())`,
+      [randomUUID(), documentId, userId, action, details]
+    );
+  }
+
+  /**
+   * Scan a document's current version again and store the result. A
+   * quarantined document stays quarantined; releasing it is up to the
+   * caller.
+   */
+  static async rescan(
+    documentId: string,
+    userId: string
+  ): Promise<{ outcome: ScanOutcome; buffer: Buffer } | null> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT id, title FROM documents
+         WHERE id = ? AND deleted_at IS NULL
+         LIMIT 1`,
+        [documentId]
+      )
+    );
+    const version = await DocumentVersionService.getVersion(documentId, null);
+    if (rows.length === 0 || !version) return null;
+
+    const buffer = await getStorage().get(version.file_path);
+    const outcome = await DocumentScanService.scan(buffer, version.file_path);
+    await DatabaseService.query(
+      `UPDATE documents
+       SET scan_status = ?, scan_result = ?, scanned_at = NOW()
+       WHERE id = ?`,
+      [outcome.status, outcome.detail?.slice(0, 255) ?? null, documentId]
+    );
+    await DocumentScanService.record({
+      documentId,
+      title: rows[0].title,
+      userId,
+      outcome,
+    });
+    return { outcome, buffer };
+  }
+}
@@ -0,0 +1,169 @@
+import { DatabaseService } from "./database";
+import { extractPdfPages } from "./pdf-text";
+import { randomUUID } from "crypto";
+
+export interface DocumentSearchHit {
+  document_id: string;
+  title: string;
+  page_number: number;
+  snippet: string;
+  score: number;
+}
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+// InnoDB ignores tokens shorter than innodb_ft_min_token_size (3 by default)
+const MIN_FULLTEXT_TERM_LENGTH = 3;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+/** Split a user query into plain words, dropping boolean-mode operators */
+export function parseSearchTerms(query: string): string[] {
+  return query
+    .replace(/[+\-<>()~*"@]/g, " ")
+    .split(/\s+/)
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .slice(0, 10);
+}
+
+/** A short excerpt of `content` around the first occurrence of any term */
+function buildSnippet(content: string, terms: string[]): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  const lower = text.toLowerCase();
+
+  let index = -1;
+  for (const term of terms) {
+    const found = lower.indexOf(term.toLowerCase());
+    if (found !== -1 && (index === -1 || found < index)) index = found;
+  }
+  if (index === -1) index = 0;
+
+  const start = Math.max(index - SNIPPET_BEFORE, 0);
+  const end = Math.min(index + SNIPPET_AFTER, text.length);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end)}${
+    end < text.length ? "…" : ""
+  }`;
+}
+
+export class DocumentSearchService {
+  /**
+   * Extract the text of a stored revision and replace its search rows.
+   */
+  static async indexVersion(
+    documentId: string,
+    versionNumber: number,
+    pdf: Buffer
+  ): Promise<number> {
+    const pages = await extractPdfPages(pdf);
+
+    const queries = [
+      {
+        sql: "DELETE FROM document_page_texts WHERE document_id = ? AND version_number = ?",
+        params: [documentId, versionNumber],
+      },
+      ...pages
+        .filter((page) => page.text.length > 0)
+        .map((page) => ({
+          sql: `INSERT INTO document_page_texts
+                (id, document_id, version_number, page_number, content, created_at)
+                VALUES (?, ?, ?, ?, ?, NOW())`,
+          params: [
+            randomUUID(),
+            documentId,
+            versionNumber,
+            page.pageNumber,
+            page.text,
+          ],
+        })),
+    ];
+    await DatabaseService.transaction(queries);
+
+    return pages.length;
+  }
+
+  /**
+   * Search the current version of every document the user can see,
+   * best matches first.
+   */
+  static async search(
+    userId: string,
+    query: string,
+    limit = 25
+  ): Promise<DocumentSearchHit[]> {
+    const terms = parseSearchTerms(query);
+    if (terms.length === 0) return [];
+
+    const safeLimit = Math.min(Math.max(Math.floor(limit) || 25, 1), 100);
+    const fulltextTerms = terms.filter(
+      (term) => term.length >= MIN_FULLTEXT_TERM_LENGTH
+    );
+
+    // Only live documents the user uploaded or is/was involved with
+    const accessSql = `d.deleted_at IS NULL AND (
+        d.uploaded_by = ?
+        OR d.assigned_to_user = ?
+        OR EXISTS (
+          SELECT 1
+          FROM document_assignments da
+          WHERE da.document_id = d.id
+            AND (da.assigned_to = ? OR da.assigned_by = ?)
+        )
+      )`;
+    const accessParams = [userId, userId, userId, userId];
+
+    let rows: any[];
+    if (fulltextTerms.length > 0) {
+      // Every term must appear; trailing * lets "invoic" match "invoices"
+      const booleanQuery = fulltextTerms.map((term) => `+${term}*`).join(" ");
+      rows = normalizeRows(
+        await DatabaseService.query(
+          `SELECT t.document_id, t.page_number, t.content, d.title,
+             MATCH(t.content) AGAINST(? IN BOOLEAN MODE) AS score
+           FROM document_page_texts t
+           JOIN documents d
+             ON d.id = t.document_id
+            AND t.version_number = d.current_version
+           WHERE MATCH(t.content) AGAINST(? IN BOOLEAN MODE)
+             AND ${accessSql}
+           ORDER BY score DESC, d.updated_at DESC, t.page_number ASC
+           LIMIT ${safeLimit}`,
+          [booleanQuery, booleanQuery, ...accessParams]
+        )
+      );
+    } else {
+      // Terms too short for the FULLTEXT index: fall back to a substring scan
+      rows = normalizeRows(
+        await DatabaseService.query(
+          `SELECT t.document_id, t.page_number, t.content, d.title, 0 AS score
+           FROM document_page_texts t
+           JOIN documents d
+             ON d.id = t.document_id
+            AND t.version_number = d.current_version
+           WHERE ${terms.map(() => "t.content LIKE ?").join(" AND ")}
+             AND ${accessSql}
+           ORDER BY d.updated_at DESC, t.page_number ASC
+           LIMIT ${safeLimit}`,
+          [
+            ...terms.map((term) => `%${term.replace(/[\\%_]/g, "\\$&")}%`),
+            ...accessParams,
+          ]
+        )
+      );
+    }
+
+    return rows.map((row) => ({
+      document_id: row.document_id,
+      title: row.title,
+      page_number: Number(row.page_number),
+      snippet: buildSnippet(String(row.content ?? ""), terms),
+      score: Number(row.score ?? 0),
+    }));
+  }
+}
@@ -0,0 +1,226 @@
+// Document lifecycle rules. No server imports: used by API routes and UI alike.
+
+export const DOCUMENT_STATUSES = [
+  "draft",
+  "in_review",
+  "approved",
+  "rejected",
+  "archived",
+  // Failed the malware scan; only an admin release leads out
+  "quarantined",
+] as const;
+
+export type DocumentStatus = (typeof DOCUMENT_STATUSES)[number];
+
+export const STATUS_LABELS: Record<DocumentStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  approved: "Approved",
+  rejected: "Rejected",
+  archived: "Archived",
+  quarantined: "Quarantined",
+};
+
+export type LifecycleAction =
+  | "submit"
+  | "withdraw"
+  | "approve"
+  | "reject"
+  | "request_changes"
+  | "send_back"
+  | "archive"
+  | "unarchive";
+
+/** How the caller relates to the document */
+export type LifecycleActor = "uploader" | "assignee" | "admin";
+
+export interface LifecycleUser {
+  id: string;
+  isAdmin?: boolean;
+  /** Absent users this user is the out-of-office delegate for */
+  actingFor?: string[];
+}
+
+export interface LifecycleTransition {
+  action: LifecycleAction;
+  label: string;
+  from: DocumentStatus[];
+  to: DocumentStatus;
+  allowedActors: LifecycleActor[];
+  requiresReason: boolean;
+  /** Only valid while the document has a current assignee */
+  requiresAssignee?: boolean;
+  /** Only valid when a reviewer handed the document to the user */
+  requiresPreviousAssignee?: boolean;
+}
+
+export const LIFECYCLE_TRANSITIONS: LifecycleTransition[] = [
+  {
+    action: "submit",
+    label: "Submit for Review",
+    from: ["draft", "rejected"],
+    to: "in_review",
+    allowedActors: ["uploader", "admin"],
+    requiresReason: false,
+    requiresAssignee: true,
+  },
+  {
+    action: "withdraw",
+    label: "Withdraw from Review",
+    from: ["in_review"],
+    to: "draft",
+    allowedActors: ["uploader", "admin"],
+    requiresReason: false,
+  },
+  {
+    action: "approve",
+    label: "Approve",
+    from: ["in_review"],
+    to: "approved",
+    allowedActors: ["assignee", "admin"],
+    requiresReason: false,
+  },
+  {
+    action: "reject",
+    label: "Reject",
+    from: ["in_review"],
+    to: "rejected",
+    allowedActors: ["assignee", "admin"],
+    requiresReason: true,
+  },
+  {
+    // Back to the uploader to revise and resubmit
+    action: "request_changes",
+    label: "Request Changes",
+    from: ["in_review"],
+    to: "draft",
+    allowedActors: ["assignee", "admin"],
+    requiresReason: true,
+  },
+  {
+    // Back to the reviewer who handed the document on; it stays in review
+    action: "send_back",
+    label: "Send Back",
+    from: ["in_review"],
+    to: "in_review",
+    allowedActors: ["assignee"],
+    requiresReason: false,
+    requiresPreviousAssignee: true,
+  },
+  {
+    action: "archive",
+    label: "Archive",
+    from: ["draft", "approved", "rejected"],
+    to: "archived",
+    allowedActors: ["uploader", "admin"],
+    requiresReason: false,
+  },
+  {
+    action: "unarchive",
+    label: "Restore from Archive",
+    from: ["archived"],
+    to: "draft",
+    allowedActors: ["uploader", "admin"],
+    requiresReason: false,
+  },
+];
+
+/**
+ * Map a stored status to a lifecycle state. Documents uploaded before the
+ * lifecycle existed were saved as "active" and are treated as drafts.
+ */
+export function normalizeStatus(raw: string | null | undefined): DocumentStatus {
+  const value = String(raw ?? "").toLowerCase();
+  return (DOCUMENT_STATUSES as readonly string[]).includes(value)
+    ? (value as DocumentStatus)
+    : "draft";
+}
+
+export function getTransition(
+  action: string
+): LifecycleTransition | undefined {
+  return LIFECYCLE_TRANSITIONS.find((t) => t.action === action);
+}
+
+/**
+ * Roles the user holds on this document. When the document's reviewers
+ * still to decide are known (`reviewer_ids`), each of them is an
+ * assignee; otherwise the one in assigned_to_user is. A delegate is an
+ * assignee too when one of the users they cover for (`actingFor`) is.
+ */
+export function getLifecycleActors(
+  doc: {
+    uploaded_by?: string | null;
+    assigned_to_user?: string | null;
+    reviewer_ids?: string[];
+  },
+  user: LifecycleUser
+): LifecycleActor[] {
+  const actors: LifecycleActor[] = [];
+  if (doc.uploaded_by && String(doc.uploaded_by) === String(user.id)) {
+    actors.push("uploader");
+  }
+  const assignees = [String(user.id), ...(user.actingFor ?? [])];
+  if (
+    doc.reviewer_ids
+      ? doc.reviewer_ids.some((id) => assignees.includes(id))
+      : doc.assigned_to_user &&
+        assignees.includes(String(doc.assigned_to_user))
+  ) {
+    actors.push("assignee");
+  }
+  if (user.isAdmin) actors.push("admin");
+  return actors;
+}
+
+export interface AvailableAction {
+  action: LifecycleAction;
+  label: string;
+  to: DocumentStatus;
+  requires_reason: boolean;
+}
+
+/**
+ * Whether the document has someone to review it: a user, or a role or
+ * department queue its members claim it from
+ */
+export function hasAssignee(doc: {
+  assigned_to_user?: string | null;
+  assigned_to_role?: string | null;
+  assigned_to_department?: string | null;
+}): boolean {
+  return Boolean(
+    doc.assigned_to_user || doc.assigned_to_role || doc.assigned_to_department
+  );
+}
+
+/** The transitions this user may perform on the document right now */
+export function getAvailableActions(
+  doc: {
+    status?: string | null;
+    uploaded_by?: string | null;
+    assigned_to_user?: string | null;
+    assigned_to_role?: string | null;
+    assigned_to_department?: string | null;
+    reviewer_ids?: string[];
+    /** Who this user would send the document back to, if anyone */
+    previous_assignee?: string | null;
+  },
+  user: LifecycleUser
+): AvailableAction[] {
+  const status = normalizeStatus(doc.status);
+  const actors = getLifecycleActors(doc, user);
+
+  return LIFECYCLE_TRANSITIONS.filter(
+    (t) =>
+      t.from.includes(status) &&
+      t.allowedActors.some((a) => actors.includes(a)) &&
+      (!t.requiresAssignee || hasAssignee(doc)) &&
+      (!t.requiresPreviousAssignee || !!doc.previous_assignee)
+  ).map((t) => ({
+    action: t.action,
+    label: t.label,
+    to: t.to,
+    requires_reason: t.requiresReason,
+  }));
+}
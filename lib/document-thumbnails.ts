@@ -0,0 +1,219 @@
+import { randomUUID } from "crypto";
+import { DatabaseService } from "./database";
+import { renderPdfPages, type PageRenderRequest } from "./pdf-render";
+import { getStorage } from "./storage";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+export type ThumbnailVariant = "thumb" | "preview";
+
+export interface DocumentThumbnail {
+  document_id: string;
+  version_number: number;
+  page_number: number;
+  variant: ThumbnailVariant;
+  file_path: string;
+  width: number;
+  height: number;
+}
+
+export const THUMBNAIL_VARIANTS: ThumbnailVariant[] = ["thumb", "preview"];
+
+const VARIANT_WIDTHS: Record<ThumbnailVariant, number> = {
+  thumb: 160,
+  preview: 600,
+};
+
+/** Pages that get a thumbnail (THUMBNAIL_MAX_PAGES, first page only by default) */
+const MAX_PAGES = Math.max(1, parseInt(process.env.THUMBNAIL_MAX_PAGES || "1"));
+
+// Renders already running, so concurrent requests for a document that has
+// no thumbnails yet don't each render it
+const inFlight = new Map<string, Promise<number>>();
+
+function thumbnailKey(
+  documentId: string,
+  versionNumber: number,
+  pageNumber: number,
+  variant: ThumbnailVariant
+): string {
+  const safeId = documentId.replace(/[^a-zA-Z0-9_-]/g, "");
+  return `thumbnails/${safeId}/v${versionNumber}/page-${pageNumber}-${variant}.png`;
+}
+
+/** Whether a page/variant combination is ever rendered */
+export function isRenderedThumbnail(
+  pageNumber: number,
+  variant: ThumbnailVariant
+): boolean {
+  if (pageNumber < 1 || pageNumber > MAX_PAGES) return false;
+  return variant === "thumb" || pageNumber === 1;
+}
+
+function toThumbnail(row: any): DocumentThumbnail {
+  return {
+    document_id: row.document_id,
+    version_number: Number(row.version_number),
+    page_number: Number(row.page_number),
+    variant: row.variant,
+    file_path: row.file_path,
+    width: Number(row.width),
+    height: Number(row.height),
+  };
+}
+
+export class DocumentThumbnailService {
+  /**
+   * Render and store the thumbnails of a revision, replacing any earlier
+   * ones. The first page also gets a larger preview. Returns how many
+   * images were stored.
+   */
+  static async generateForVersion(
+    documentId: string,
+    versionNumber: number,
+    pdf: Buffer
+  ): Promise<number> {
+    const requests: Array<PageRenderRequest & { variant: ThumbnailVariant }> =
+      [];
+    for (let pageNumber = 1; pageNumber <= MAX_PAGES; pageNumber++) {
+      for (const variant of THUMBNAIL_VARIANTS) {
+        if (isRenderedThumbnail(pageNumber, variant)) {
+          requests.push({ pageNumber, variant, width: VARIANT_WIDTHS[variant] });
+        }
+      }
+    }
+
+    const { pages } = await renderPdfPages(pdf, requests);
+
+    const storage = getStorage();
+    const rows: DocumentThumbnail[] = [];
+    for (const page of pages) {
+      const { variant } = page.request;
+      const stored = await storage.put(
+        thumbnailKey(documentId, versionNumber, page.pageNumber, variant),
+        page.image,
+        { contentType: "image/png" }
+      );
+      rows.push({
+        document_id: documentId,
+        version_number: versionNumber,
+        page_number: page.pageNumber,
+        variant,
+        file_path: stored.key,
+        width: page.width,
+        height: page.height,
+      });
+    }
+
+    await DatabaseService.transaction([
+      {
+        sql: "DELETE FROM document_thumbnails WHERE document_id = ? AND version_number = ?",
+        params: [documentId, versionNumber],
+      },
+      ...rows.map((row) => ({
+        sql: `INSERT INTO document_thumbnails
+              (id, document_id, version_number, page_number, variant, file_path, width, height, created_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+        params: [
+          randomUUID(),
+          row.document_id,
+          row.version_number,
+          row.page_number,
+          row.variant,
+          row.file_path,
+          row.width,
+          row.height,
+        ],
+      })),
+    ]);
+
+    return rows.length;
+  }
+
+  static async getThumbnail(
+    documentId: string,
+    versionNumber: number,
+    pageNumber: number,
+    variant: ThumbnailVariant
+  ): Promise<DocumentThumbnail | null> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT * FROM document_thumbnails
+         WHERE document_id = ? AND version_number = ? AND page_number = ? AND variant = ?
+         LIMIT 1`,
+        [documentId, versionNumber, pageNumber, variant]
+      )
+    );
+    return rows.length > 0 ? toThumbnail(rows[0]) : null;
+  }
+
+  /**
+   * Get a thumbnail, rendering the revision first if it has none yet
+   * (documents uploaded before thumbnails existed, or whose render failed).
+   */
+  static async ensureThumbnail(
+    version: { document_id: string; version_number: number; file_path: string },
+    pageNumber: number,
+    variant: ThumbnailVariant
+  ): Promise<DocumentThumbnail | null> {
+    const existing = await DocumentThumbnailService.getThumbnail(
+      version.document_id,
+      version.version_number,
+      pageNumber,
+      variant
+    );
+    if (existing || !isRenderedThumbnail(pageNumber, variant)) {
+      return existing;
+    }
+
+    // Other pages rendered but not this one: the document is shorter
+    const rendered = normalizeRows(
+      await DatabaseService.query(
+        "SELECT 1 FROM document_thumbnails WHERE document_id = ? AND version_number = ? LIMIT 1",
+        [version.document_id, version.version_number]
+      )
+    );
+    if (rendered.length > 0) return null;
+
+    const key = `${version.document_id}:${version.version_number}`;
+    let pending = inFlight.get(key);
+    if (!pending) {
+      pending = getStorage()
+        .get(version.file_path)
+        .then((pdf) =>
+          DocumentThumbnailService.generateForVersion(
+            version.document_id,
+            version.version_number,
+            pdf
+          )
+        )
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, pending);
+    }
+    await pending;
+
+    return DocumentThumbnailService.getThumbnail(
+      version.document_id,
+      version.version_number,
+      pageNumber,
+      variant
+    );
+  }
+
+  /** Storage keys of every thumbnail of a document, for purging */
+  static async listFilePaths(documentId: string): Promise<string[]> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        "SELECT file_path FROM document_thumbnails WHERE document_id = ?",
+        [documentId]
+      )
+    );
+    return rows.map((r) => r.file_path).filter(Boolean);
+  }
+}
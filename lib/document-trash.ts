@@ -0,0 +1,228 @@
+import { DatabaseService } from "./database";
+import { DocumentContentService } from "./document-content";
+import { DocumentThumbnailService } from "./document-thumbnails";
+import { getStorage } from "./storage";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+export interface TrashedDocument {
+  id: string;
+  title: string;
+  file_size: number;
+  uploaded_by: string;
+  uploader_name: string | null;
+  deleted_at: string;
+  deleted_by: string | null;
+  deleted_by_name: string | null;
+}
+
+export type TrashResult =
+  | { ok: true }
+  | { ok: false; status: number; error: string };
+
+// Tables whose rows belong to a single document and go when it is purged
+const DOCUMENT_CHILD_TABLES: Array<{ table: string; column: string }> = [
+  { table: "annotations", column: "document_id" },
+  { table: "document_annotations_xfdf", column: "document_id" },
+  { table: "document_assignments", column: "document_id" },
+  { table: "document_versions", column: "document_id" },
+  { table: "document_workflows", column: "document_id" },
+  { table: "document_page_texts", column: "document_id" },
+  { table: "document_share_links", column: "document_id" },
+  { table: "document_status_transitions", column: "document_id" },
+  { table: "document_thumbnails", column: "document_id" },
+  { table: "notifications", column: "related_document_id" },
+];
+
+export class DocumentTrashService {
+  /**
+   * Load a document and check the user may delete, restore or purge it.
+   * Only the uploader or an admin may.
+   */
+  private static async authorize(
+    documentId: string,
+    user: { id: string; isAdmin: boolean },
+    expectDeleted: boolean
+  ): Promise<
+    { ok: true; document: any } | Exclude<TrashResult, { ok: true }>
+  > {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        "SELECT id, title, uploaded_by, deleted_at FROM documents WHERE id = ? LIMIT 1",
+        [documentId]
+      )
+    );
+    const document = rows[0];
+    if (!document) {
+      return { ok: false, status: 404, error: "Document not found" };
+    }
+
+    if (!user.isAdmin && String(document.uploaded_by) !== String(user.id)) {
+      return {
+        ok: false,
+        status: 403,
+        error: "Only the uploader or an admin can do this",
+      };
+    }
+
+    if (Boolean(document.deleted_at) !== expectDeleted) {
+      return {
+        ok: false,
+        status: expectDeleted ? 409 : 404,
+        error: expectDeleted
+          ? "Document is not in the trash"
+          : "Document not found",
+      };
+    }
+
+    return { ok: true, document };
+  }
+
+  /** Move a document to the trash */
+  static async softDelete(
+    documentId: string,
+    user: { id: string; isAdmin: boolean }
+  ): Promise<TrashResult> {
+    const check = await this.authorize(documentId, user, false);
+    if (!check.ok) return check;
+
+    await DatabaseService.query(
+      `UPDATE documents
+       SET deleted_at = NOW(), deleted_by = ?, locked_by = NULL, locked_at = NULL
+       WHERE id = ? AND deleted_at IS NULL`,
+      [user.id, documentId]
+    );
+    return { ok: true };
+  }
+
+  /** Bring a document back out of the trash */
+  static async restore(
+    documentId: string,
+    user: { id: string; isAdmin: boolean }
+  ): Promise<TrashResult> {
+    const check = await this.authorize(documentId, user, true);
+    if (!check.ok) return check;
+
+    await DatabaseService.query(
+      "UPDATE documents SET deleted_at = NULL, deleted_by = NULL WHERE id = ?",
+      [documentId]
+    );
+    return { ok: true };
+  }
+
+  /**
+   * Permanently remove a trashed document: its rows in every dependent
+   * table and every stored file of every version.
+   */
+  static async purge(
+    documentId: string,
+    user: { id: string; isAdmin: boolean }
+  ): Promise<TrashResult> {
+    const check = await this.authorize(documentId, user, true);
+    if (!check.ok) return check;
+
+    const versionRows = normalizeRows(
+      await DatabaseService.query(
+        "SELECT file_path FROM document_versions WHERE document_id = ?",
+        [documentId]
+      )
+    );
+    const docRows = normalizeRows(
+      await DatabaseService.query(
+        "SELECT file_path FROM documents WHERE id = ?",
+        [documentId]
+      )
+    );
+    const thumbnailPaths = await DocumentThumbnailService.listFilePaths(
+      documentId
+    );
+    const filePaths = Array.from(
+      new Set(
+        [...versionRows, ...docRows]
+          .map((r) => r.file_path)
+          .filter((p): p is string => Boolean(p))
+      )
+    );
+
+    await DatabaseService.transaction([
+      {
+        sql: `DELETE s FROM document_workflow_steps s
+              JOIN document_workflows w ON w.id = s.workflow_id
+              WHERE w.document_id = ?`,
+        params: [documentId],
+      },
+      // Link events hang off the links, so they go before them
+      {
+        sql: `DELETE e FROM document_share_link_events e
+              JOIN document_share_links l ON l.id = e.share_link_id
+              WHERE l.document_id = ?`,
+        params: [documentId],
+      },
+      ...DOCUMENT_CHILD_TABLES.map(({ table, column }) => ({
+        sql: `DELETE FROM ${table} WHERE ${column} = ?`,
+        params: [documentId],
+      })),
+      { sql: "DELETE FROM documents WHERE id = ?", params: [documentId] },
+    ]);
+
+    // Files go last: a failed delete leaves an orphaned file, never a
+    // document row pointing at a missing file. Files shared with another
+    // document's versions are kept.
+    for (const filePath of filePaths) {
+      try {
+        await DocumentContentService.release(filePath);
+      } catch (error) {
+        console.error("⚠️ Failed to delete stored file:", filePath, error);
+      }
+    }
+    for (const thumbnailPath of thumbnailPaths) {
+      try {
+        await getStorage().delete(thumbnailPath);
+      } catch (error) {
+        console.error("⚠️ Failed to delete thumbnail:", thumbnailPath, error);
+      }
+    }
+
+    return { ok: true };
+  }
+
+  /**
+   * Trashed documents the user may restore: their own uploads, or all of
+   * them for admins. Most recently deleted first.
+   */
+  static async listTrash(user: {
+    id: string;
+    isAdmin: boolean;
+  }): Promise<TrashedDocument[]> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT d.id, d.title, d.file_size, d.uploaded_by, d.deleted_at, d.deleted_by,
+           u.name AS uploader_name, ud.name AS deleted_by_name
+         FROM documents d
+         LEFT JOIN users u ON u.id = d.uploaded_by
+         LEFT JOIN users ud ON ud.id = d.deleted_by
+         WHERE d.deleted_at IS NOT NULL
+           ${user.isAdmin ? "" : "AND d.uploaded_by = ?"}
+         ORDER BY d.deleted_at DESC`,
+        user.isAdmin ? [] : [user.id]
+      )
+    );
+
+    return rows.map((r) => ({
+      id: r.id,
+      title: r.title,
+      file_size: Number(r.file_size ?? 0),
+      uploaded_by: r.uploaded_by,
+      uploader_name: r.uploader_name ?? null,
+      deleted_at: new Date(r.deleted_at).toISOString(),
+      deleted_by: r.deleted_by ?? null,
+      deleted_by_name: r.deleted_by_name ?? null,
+    }));
+  }
+}
@@ -0,0 +1,570 @@
+import { DatabaseService } from "./database";
+import { DocumentVersionService } from "./document-versions";
+import { DocumentSearchService } from "./document-search";
+import { DocumentThumbnailService } from "./document-thumbnails";
+import { DocumentScanService } from "./document-scan";
+import { DocumentQueueService } from "./document-queues";
+import { OutOfOfficeService } from "./out-of-office";
+import {
+  DocumentContentService,
+  hashContent,
+  type DuplicateDocument,
+} from "./document-content";
+import { randomUUID } from "crypto";
+import JSZip from "jszip";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+/**
+ * Who an upload is assigned to: a user, or the shared queue of a role or
+ * department that its members claim documents from
+ */
+export const ASSIGNMENT_TYPES = ["user", "role", "department"] as const;
+export type AssignmentType = (typeof ASSIGNMENT_TYPES)[number];
+
+export function isAssignmentType(value: unknown): value is AssignmentType {
+  return (ASSIGNMENT_TYPES as readonly unknown[]).includes(value);
+}
+
+/**
+ * The assignment an upload form asks for. `assignmentType` picks which of
+ * `selectedUser`, `assignedRole` or `assignedDepartment` is used; forms
+ * that predate queues only send selectedUser.
+ */
+export function assignmentFromForm(get: (field: string) => unknown): {
+  assignmentType: AssignmentType;
+  assignTo: string;
+} {
+  const type = get("assignmentType");
+  const assignmentType = isAssignmentType(type) ? type : "user";
+  const field =
+    assignmentType === "role"
+      ? "assignedRole"
+      : assignmentType === "department"
+      ? "assignedDepartment"
+      : "selectedUser";
+  return { assignmentType, assignTo: String(get(field) ?? "") };
+}
+
+export interface UploadInput {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  title: string;
+  description?: string | null;
+  uploadedBy: string;
+  /** A user id, or a role or department id for a queue */
+  assignTo: string;
+  /** Defaults to user */
+  assignmentType?: AssignmentType;
+  /** Create the document even if the uploader can already see the same file */
+  allowDuplicate?: boolean;
+}
+
+export type UploadResult =
+  | { ok: true; document: { id: string; title: string; file_path: string } }
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      /** Set with status 409 when the same file was already uploaded */
+      duplicates?: DuplicateDocument[];
+    };
+
+/** A single PDF pulled out of an uploaded file or zip archive */
+export interface UploadEntry {
+  fileName: string;
+  buffer: Buffer;
+  mimeType: string;
+}
+
+/** Largest number of PDFs accepted from one zip archive */
+export const MAX_ARCHIVE_ENTRIES = 200;
+
+/** Largest PDF unpacked from a zip archive (ARCHIVE_MAX_ENTRY_BYTES) */
+const MAX_ARCHIVE_ENTRY_SIZE = parseInt(
+  process.env.ARCHIVE_MAX_ENTRY_BYTES || String(100 * 1024 * 1024)
+);
+
+/** Most bytes unpacked from one zip archive (ARCHIVE_MAX_TOTAL_BYTES) */
+const MAX_ARCHIVE_TOTAL_SIZE = parseInt(
+  process.env.ARCHIVE_MAX_TOTAL_BYTES || String(250 * 1024 * 1024)
+);
+
+const PDF_MIME = "application/pdf";
+const ZIP_MIMES = [
+  "application/zip",
+  "application/x-zip-compressed",
+  "application/x-zip",
+  "multipart/x-zip",
+];
+
+/** Default document title for a file: its name without folders or extension */
+export function titleFromFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? fileName;
+  return base.replace(/\.[^.]+$/, "").trim() || base;
+}
+
+export function isZipFile(fileName: string, mimeType: string): boolean {
+  return (
+    ZIP_MIMES.includes(mimeType) || fileName.toLowerCase().endsWith(".zip")
+  );
+}
+
+function looksLikePdf(buffer: Buffer): boolean {
+  return buffer.subarray(0, 5).toString("latin1") === "%PDF-";
+}
+
+function formatMb(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)} MB`;
+}
+
+/** The size an archive entry says it inflates to */
+function declaredSize(entry: JSZip.JSZipObject): number {
+  const data = (entry as { _data?: { uncompressedSize?: number } })._data;
+  return Number(data?.uncompressedSize ?? 0);
+}
+
+/**
+ * Inflate one archive entry, or null as soon as it passes `limit` bytes:
+ * the declared size can't be trusted, so the stream is counted as well
+ */
+function inflateEntry(entry: JSZip.JSZipObject, limit: number) {
+  return new Promise<Buffer | null>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream("nodebuffer") as NodeJS.ReadableStream & {
+      destroy?: () => void;
+    };
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.removeAllListeners("data");
+        stream.destroy?.();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks, size)));
+  });
+}
+
+export class DocumentUploadService {
+  /**
+   * Unpack the PDFs in a zip archive. Folders are flattened and anything
+   * that isn't a PDF (including macOS resource forks) is skipped. Each PDF
+   * and the archive as a whole have a size limit, so a zip bomb is turned
+   * away before it fills the server's memory.
+   */
+  static async extractArchive(buffer: Buffer): Promise<UploadEntry[]> {
+    const zip = await JSZip.loadAsync(buffer);
+    const files = Object.values(zip.files).filter(
+      (entry) =>
+        !entry.dir &&
+        entry.name.toLowerCase().endsWith(".pdf") &&
+        !entry.name.startsWith("__MACOSX/") &&
+        !(entry.name.split("/").pop() ?? "").startsWith(".")
+    );
+
+    if (files.length > MAX_ARCHIVE_ENTRIES) {
+      throw new Error(
+        `Archive contains ${files.length} PDFs; the limit is ${MAX_ARCHIVE_ENTRIES}`
+      );
+    }
+
+    const tooLarge = files.find(
+      (entry) => declaredSize(entry) > MAX_ARCHIVE_ENTRY_SIZE
+    );
+    if (tooLarge) {
+      throw new Error(
+        `"${tooLarge.name}" is larger than ${formatMb(MAX_ARCHIVE_ENTRY_SIZE)}`
+      );
+    }
+    const declaredTotal = files.reduce(
+      (total, entry) => total + declaredSize(entry),
+      0
+    );
+    if (declaredTotal > MAX_ARCHIVE_TOTAL_SIZE) {
+      throw new Error(
+        `Archive unpacks to more than ${formatMb(MAX_ARCHIVE_TOTAL_SIZE)}`
+      );
+    }
+
+    const entries: UploadEntry[] = [];
+    let total = 0;
+    for (const entry of files) {
+      const remaining = MAX_ARCHIVE_TOTAL_SIZE - total;
+      const buffer = await inflateEntry(
+        entry,
+        Math.min(MAX_ARCHIVE_ENTRY_SIZE, remaining)
+      );
+      if (!buffer) {
+        throw new Error(
+          remaining < MAX_ARCHIVE_ENTRY_SIZE
+            ? `Archive unpacks to more than ${formatMb(MAX_ARCHIVE_TOTAL_SIZE)}`
+            : `"${entry.name}" is larger than ${formatMb(MAX_ARCHIVE_ENTRY_SIZE)}`
+        );
+      }
+      total += buffer.length;
+      entries.push({
+        fileName: entry.name.split("/").pop() ?? entry.name,
+        buffer,
+        mimeType: PDF_MIME,
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Why `assignTo` can't receive an upload from `uploadedBy`, or null if
+   * it can
+   */
+  static async checkAssignee(
+    uploadedBy: string,
+    assignTo: string,
+    assignmentType: AssignmentType = "user"
+  ): Promise<string | null> {
+    if (assignmentType !== "user") {
+      return DocumentQueueService.checkQueue(assignmentType, assignTo);
+    }
+    if (!assignTo) return "User assignment is required";
+    if (String(assignTo) === String(uploadedBy)) {
+      return "Cannot assign document to yourself";
+    }
+
+    const rows = normalizeRows(
+      await DatabaseService.query("SELECT id FROM users WHERE id = ?", [
+        assignTo,
+      ])
+    );
+    return rows.length === 0 ? "Assigned user not found" : null;
+  }
+
+  /**
+   * The 409 result for a file the uploader can already see, or null when
+   * the hash is new to them
+   */
+  static async checkDuplicate(
+    contentHash: string,
+    uploadedBy: string
+  ): Promise<Extract<UploadResult, { ok: false }> | null> {
+    const duplicates = await DocumentContentService.findDuplicates(
+      contentHash,
+      uploadedBy
+    );
+    if (duplicates.length === 0) return null;
+
+    return {
+      ok: false,
+      status: 409,
+      error: `This file was already uploaded as "${duplicates[0].title}"`,
+      duplicates,
+    };
+  }
+
+  /**
+   * Store a PDF, create its document row and first version, index its text
+   * and assign it. Any failure before the document row exists removes the
+   * stored file again, so a failed upload leaves nothing behind. Unless
+   * `allowDuplicate` is set, a file the uploader can already see is
+   * rejected with the matching documents.
+   *
+   * The file is scanned for malware first. One that is infected, or that
+   * couldn't be scanned, is kept as a quarantined document that only
+   * admins can release, and the upload is reported as failed.
+   */
+  static async createDocument(input: UploadInput): Promise<UploadResult> {
+    const title = input.title.trim();
+    if (!title) {
+      return { ok: false, status: 400, error: "Title is required" };
+    }
+    if (input.mimeType !== PDF_MIME || !looksLikePdf(input.buffer)) {
+      return { ok: false, status: 400, error: "Only PDF files are allowed" };
+    }
+    const assignmentType = input.assignmentType ?? "user";
+    const assigneeError = await DocumentUploadService.checkAssignee(
+      input.uploadedBy,
+      input.assignTo,
+      assignmentType
+    );
+    if (assigneeError) {
+      return { ok: false, status: 400, error: assigneeError };
+    }
+
+    const contentHash = hashContent(input.buffer);
+    if (!input.allowDuplicate) {
+      const duplicate = await DocumentUploadService.checkDuplicate(
+        contentHash,
+        input.uploadedBy
+      );
+      if (duplicate) return duplicate;
+    }
+
+    const scan = await DocumentScanService.scan(input.buffer, input.fileName);
+
+    const stored = await DocumentContentService.store(
+      input.buffer,
+      input.fileName,
+      input.mimeType,
+      contentHash
+    );
+
+    const documentId = `doc_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 9)}`;
+
+    try {
+      await DatabaseService.query(
+        `INSERT INTO documents
+         (id, title, file_path, file_size, mime_type, content_hash, uploaded_by, assigned_to_user, assigned_to_role, assigned_to_department, status, scan_status, scan_result, scanned_at, created_at, updated_at, description)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW(), NOW(), ?)`,
+        [
+          documentId,
+          title,
+          stored.key,
+          input.buffer.length,
+          input.mimeType,
+          stored.contentHash,
+          input.uploadedBy,
+          assignmentType === "user" ? input.assignTo : null,
+          assignmentType === "role" ? input.assignTo : null,
+          assignmentType === "department" ? input.assignTo : null,
+          scan.status === "clean" ? "draft" : "quarantined",
+          scan.status,
+          scan.detail?.slice(0, 255) ?? null,
+          input.description ?? "",
+        ]
+      );
+    } catch (error) {
+      try {
+        await DocumentContentService.release(stored.key);
+      } catch (cleanupErr) {
+        console.error("Failed to remove file after insert failure:", cleanupErr);
+      }
+      throw error;
+    }
+
+    try {
+      await DocumentVersionService.createVersion({
+        documentId,
+        filePath: stored.key,
+        fileSize: input.buffer.length,
+        mimeType: input.mimeType,
+        contentHash: stored.contentHash,
+        uploadedBy: input.uploadedBy,
+        changeNote: "Initial upload",
+      });
+    } catch (versionErr) {
+      console.error("Document version INSERT failed:", versionErr);
+    }
+
+    await DocumentScanService.record({
+      documentId,
+      title,
+      userId: input.uploadedBy,
+      outcome: scan,
+    });
+    if (scan.status !== "clean") {
+      return { ok: false, ...DocumentScanService.rejection(scan, true) };
+    }
+
+    await DocumentUploadService.publish({
+      documentId,
+      title,
+      buffer: input.buffer,
+      uploadedBy: input.uploadedBy,
+      assignTo: input.assignTo,
+      assignmentType,
+    });
+
+    return {
+      ok: true,
+      document: { id: documentId, title, file_path: stored.key },
+    };
+  }
+
+  /**
+   * Make a stored document usable: index its text, render thumbnails and
+   * assign it, or put it in its queue. Runs right after upload, or when an
+   * admin releases a quarantined document.
+   */
+  static async publish(data: {
+    documentId: string;
+    title: string;
+    buffer: Buffer;
+    uploadedBy: string;
+    assignTo: string;
+    assignmentType: AssignmentType;
+  }): Promise<void> {
+    const { documentId, title } = data;
+
+    // A PDF we can't parse is still a valid upload, it just won't show up
+    // in content search
+    try {
+      await DocumentSearchService.indexVersion(documentId, 1, data.buffer);
+    } catch (indexErr) {
+      console.error("⚠️ Text extraction failed:", indexErr);
+    }
+
+    // Thumbnails are rendered again on first request if this fails
+    try {
+      await DocumentThumbnailService.generateForVersion(
+        documentId,
+        1,
+        data.buffer
+      );
+    } catch (thumbErr) {
+      console.error("⚠️ Thumbnail rendering failed:", thumbErr);
+    }
+
+    // Queued documents get an assignment once someone claims them
+    if (data.assignmentType !== "user") {
+      await DocumentQueueService.announce({
+        documentId,
+        title,
+        uploadedBy: data.uploadedBy,
+        type: data.assignmentType,
+        queueId: data.assignTo,
+      });
+      return;
+    }
+
+    // An assignee who is out of office is covered by their delegate,
+    // unless that would have the uploader review their own document
+    const routes = await OutOfOfficeService.delegateFor([data.assignTo]);
+    const delegate = routes.get(data.assignTo);
+    const assignTo =
+      delegate && delegate !== String(data.uploadedBy)
+        ? delegate
+        : data.assignTo;
+    const delegatedFrom = assignTo !== data.assignTo ? data.assignTo : null;
+
+    // The SLA clock starts when the draft is submitted for review
+    await DatabaseService.query(
+      `INSERT INTO document_assignments
+       (id, document_id, assigned_to, delegated_from, assigned_by, roles, status, notified_at, due_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, NOW(), NULL)`,
+      [
+        randomUUID(),
+        documentId,
+        assignTo,
+        delegatedFrom,
+        data.uploadedBy,
+        "Reviewer",
+        "assigned",
+      ]
+    );
+    if (delegatedFrom) {
+      await DatabaseService.query(
+        "UPDATE documents SET assigned_to_user = ? WHERE id = ?",
+        [assignTo, documentId]
+      );
+    }
+
+    // Notification is best-effort; the document is already assigned
+    try {
+      const uploaderRows = normalizeRows(
+        await DatabaseService.query("SELECT name FROM users WHERE id = ?", [
+          data.uploadedBy,
+        ])
+      );
+      const uploaderName = (uploaderRows[0]?.name as string) || "A user";
+
+      await DatabaseService.query(
+        `INSERT INTO notifications
+         (id, user_id, type, message, related_document_id, sender_id, is_read, created_at)
+         VALUES (?, ?, 'document_assigned', ?, ?, ?, 0, NOW())`,
+        [
+          randomUUID(),
+          assignTo,
+          `${uploaderName} assigned the document "${title}" to you${
+            delegatedFrom ? " while its assignee is out of office" : ""
+          }`,
+          documentId,
+          data.uploadedBy,
+        ]
+      );
+    } catch (notifyErr) {
+      console.error("❌ Failed to create notification:", notifyErr);
+    }
+  }
+
+  /**
+   * Let a quarantined document out: back to draft, then indexed, rendered
+   * and assigned as if it had just been uploaded. Admins only; the caller
+   * checks.
+   */
+  static async releaseQuarantined(
+    documentId: string,
+    releasedBy: string,
+    buffer: Buffer,
+    note: string | null
+  ): Promise<UploadResult> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT id, title, file_path, status, uploaded_by, assigned_to_user,
+                assigned_to_role, assigned_to_department
+         FROM documents
+         WHERE id = ? AND deleted_at IS NULL
+         LIMIT 1`,
+        [documentId]
+      )
+    );
+    const doc = rows[0];
+    if (!doc) {
+      return { ok: false, status: 404, error: "Document not found" };
+    }
+    if (doc.status !== "quarantined") {
+      return { ok: false, status: 409, error: "Document is not quarantined" };
+    }
+
+    // Only one release wins if two admins click at once
+    const result: any = await DatabaseService.query(
+      `UPDATE documents SET status = 'draft', updated_at = NOW()
+       WHERE id = ? AND status = 'quarantined'`,
+      [documentId]
+    );
+    if (Number(result?.affectedRows ?? 0) === 0) {
+      return { ok: false, status: 409, error: "Document is not quarantined" };
+    }
+
+    await DocumentScanService.logActivity(
+      documentId,
+      releasedBy,
+      "quarantine_released",
+      note
+    );
+    const assignmentType: AssignmentType = doc.assigned_to_role
+      ? "role"
+      : !doc.assigned_to_user && doc.assigned_to_department
+      ? "department"
+      : "user";
+    await DocumentUploadService.publish({
+      documentId,
+      title: doc.title,
+      buffer,
+      uploadedBy: String(doc.uploaded_by),
+      assignTo: String(
+        assignmentType === "role"
+          ? doc.assigned_to_role
+          : assignmentType === "department"
+          ? doc.assigned_to_department
+          : doc.assigned_to_user
+      ),
+      assignmentType,
+    });
+
+    return {
+      ok: true,
+      document: { id: documentId, title: doc.title, file_path: doc.file_path },
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import { DatabaseService } from "./database";
+import { randomUUID } from "crypto";
+
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  version_number: number;
+  file_path: string;
+  file_size: number;
+  mime_type: string;
+  content_hash: string | null;
+  uploaded_by: string | null;
+  uploader_name?: string | null;
+  change_note: string | null;
+  created_at: string;
+}
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+function toVersion(row: any): DocumentVersion {
+  return {
+    id: row.id,
+    document_id: row.document_id,
+    version_number: Number(row.version_number),
+    file_path: row.file_path,
+    file_size: Number(row.file_size ?? 0),
+    mime_type: row.mime_type ?? "application/pdf",
+    content_hash: row.content_hash ?? null,
+    uploaded_by: row.uploaded_by ?? null,
+    uploader_name: row.uploader_name ?? null,
+    change_note: row.change_note ?? null,
+    created_at: row.created_at
+      ? new Date(row.created_at).toISOString()
+      : new Date().toISOString(),
+  };
+}
+
+export class DocumentVersionService {
+  /**
+   * List every version of a document, newest first
+   */
+  static async listVersions(documentId: string): Promise<DocumentVersion[]> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT v.*, u.name AS uploader_name
+         FROM document_versions v
+         LEFT JOIN users u ON u.id = v.uploaded_by
+         WHERE v.document_id = ?
+         ORDER BY v.version_number DESC`,
+        [documentId]
+      )
+    );
+    return rows.map(toVersion);
+  }
+
+  /**
+   * Get a specific version, or the latest one when no number is given
+   */
+  static async getVersion(
+    documentId: string,
+    versionNumber?: number | null
+  ): Promise<DocumentVersion | null> {
+    const sql =
+      typeof versionNumber === "number"
+        ? `SELECT v.*, u.name AS uploader_name
+           FROM document_versions v
+           LEFT JOIN users u ON u.id = v.uploaded_by
+           WHERE v.document_id = ? AND v.version_number = ?
+           LIMIT 1`
+        : `SELECT v.*, u.name AS uploader_name
+           FROM document_versions v
+           LEFT JOIN users u ON u.id = v.uploaded_by
+           WHERE v.document_id = ?
+           ORDER BY v.version_number DESC
+           LIMIT 1`;
+    const params =
+      typeof versionNumber === "number"
+        ? [documentId, versionNumber]
+        : [documentId];
+
+    const rows = normalizeRows(await DatabaseService.query(sql, params));
+    return rows.length > 0 ? toVersion(rows[0]) : null;
+  }
+
+  /**
+   * Record a new revision and make it the document's current file.
+   * The version number and the documents row are updated in one transaction.
+   */
+  static async createVersion(data: {
+    documentId: string;
+    filePath: string;
+    fileSize: number;
+    mimeType: string;
+    contentHash?: string | null;
+    uploadedBy: string;
+    changeNote?: string | null;
+  }): Promise<DocumentVersion> {
+    const connection = await DatabaseService.getConnection();
+    const versionId = randomUUID();
+
+    try {
+      await connection.beginTransaction();
+
+      const [maxRows]: any = await connection.execute(
+        `SELECT COALESCE(MAX(version_number), 0) AS max_version
+         FROM document_versions
+         WHERE document_id = ?
+         FOR UPDATE`,
+        [data.documentId]
+      );
+      const versionNumber = Number(maxRows?.[0]?.max_version ?? 0) + 1;
+
+      await connection.execute(
+        `INSERT INTO document_versions
+         (id, document_id, version_number, file_path, file_size, mime_type, content_hash, uploaded_by, change_note, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+        [
+          versionId,
+          data.documentId,
+          versionNumber,
+          data.filePath,
+          data.fileSize,
+          data.mimeType,
+          data.contentHash ?? null,
+          data.uploadedBy,
+          data.changeNote ?? null,
+        ]
+      );
+
+      await connection.execute(
+        `UPDATE documents
+         SET file_path = ?, file_size = ?, mime_type = ?, content_hash = ?, current_version = ?, updated_at = NOW()
+         WHERE id = ?`,
+        [
+          data.filePath,
+          data.fileSize,
+          data.mimeType,
+          data.contentHash ?? null,
+          versionNumber,
+          data.documentId,
+        ]
+      );
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      console.error("Create document version error:", error);
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    const created = normalizeRows(
+      await DatabaseService.query(
+        `SELECT v.*, u.name AS uploader_name
+         FROM document_versions v
+         LEFT JOIN users u ON u.id = v.uploaded_by
+         WHERE v.id = ?
+         LIMIT 1`,
+        [versionId]
+      )
+    );
+    return toVersion(created[0]);
+  }
+}
@@ -0,0 +1,280 @@
+import { randomUUID } from "crypto";
+import { DatabaseService } from "./database";
+import { DocumentListService } from "./document-list";
+import {
+  parseDocumentListQuery,
+  toViewSearchParams,
+} from "./document-list-query";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+export interface SavedDocumentView {
+  id: string;
+  name: string;
+  /** Document list URL parameters, without paging */
+  query: string;
+  user_id: string;
+  owner_name: string | null;
+  shared_department_id: string | null;
+  shared_department_name: string | null;
+  /** Whether the requesting user owns (and may change) the view */
+  is_owner: boolean;
+  /** Matching documents for the requesting user, when asked for */
+  count?: number;
+}
+
+export interface DocumentViewInput {
+  name?: string;
+  query?: string;
+  shareWithDepartment?: boolean;
+}
+
+export type ViewResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; error: string };
+
+const MAX_NAME_LENGTH = 100;
+const MAX_VIEWS_PER_USER = 50;
+
+async function userDepartment(userId: string): Promise<string | null> {
+  const rows = normalizeRows(
+    await DatabaseService.query(
+      `SELECT department_id FROM users WHERE id = ? LIMIT 1`,
+      [userId]
+    )
+  );
+  return rows[0]?.department_id ? String(rows[0].department_id) : null;
+}
+
+/**
+ * Validate a list query and store it in canonical form. Paging is dropped:
+ * a view always opens on its first page.
+ */
+function canonicalQuery(raw: string): ViewResult<{ query: string }> {
+  const { query, errors } = parseDocumentListQuery(
+    new URLSearchParams(raw.replace(/^\?/, ""))
+  );
+  if (errors.length > 0) {
+    return { ok: false, status: 400, error: errors.join("; ") };
+  }
+  return { ok: true, query: toViewSearchParams(query).toString() };
+}
+
+function mapView(row: any, userId: string): SavedDocumentView {
+  return {
+    id: String(row.id),
+    name: row.name,
+    query: row.query ?? "",
+    user_id: String(row.user_id),
+    owner_name: row.owner_name ?? null,
+    shared_department_id: row.shared_department_id ?? null,
+    shared_department_name: row.shared_department_name ?? null,
+    is_owner: String(row.user_id) === String(userId),
+  };
+}
+
+export class DocumentViewService {
+  /** Views the user owns, then views shared with their department */
+  static async list(userId: string): Promise<SavedDocumentView[]> {
+    const departmentId = await userDepartment(userId);
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT v.*, u.name AS owner_name, dep.name AS shared_department_name
+         FROM saved_document_views v
+         LEFT JOIN users u ON u.id = v.user_id
+         LEFT JOIN departments dep ON dep.id = v.shared_department_id
+         WHERE v.user_id = ?
+            OR (v.shared_department_id IS NOT NULL AND v.shared_department_id = ?)
+         ORDER BY (v.user_id = ?) DESC, v.position ASC, v.created_at ASC`,
+        [userId, departmentId ?? "", userId]
+      )
+    );
+    return rows.map((row) => mapView(row, userId));
+  }
+
+  /** Like `list`, with each view's document count for this user */
+  static async listWithCounts(userId: string): Promise<SavedDocumentView[]> {
+    const views = await this.list(userId);
+    for (const view of views) {
+      const { query } = parseDocumentListQuery(new URLSearchParams(view.query));
+      view.count = await DocumentListService.count(userId, query);
+    }
+    return views;
+  }
+
+  static async create(
+    userId: string,
+    input: DocumentViewInput
+  ): Promise<ViewResult<{ view: SavedDocumentView }>> {
+    const name = String(input.name ?? "").trim();
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return {
+        ok: false,
+        status: 400,
+        error: `View name must be 1-${MAX_NAME_LENGTH} characters`,
+      };
+    }
+
+    const canonical = canonicalQuery(String(input.query ?? ""));
+    if (!canonical.ok) return canonical;
+
+    const existing = normalizeRows(
+      await DatabaseService.query(
+        `SELECT name FROM saved_document_views WHERE user_id = ?`,
+        [userId]
+      )
+    );
+    if (existing.length >= MAX_VIEWS_PER_USER) {
+      return {
+        ok: false,
+        status: 400,
+        error: `You can save at most ${MAX_VIEWS_PER_USER} views`,
+      };
+    }
+    if (existing.some((r) => r.name.toLowerCase() === name.toLowerCase())) {
+      return {
+        ok: false,
+        status: 409,
+        error: `You already have a view named "${name}"`,
+      };
+    }
+
+    let sharedDepartmentId: string | null = null;
+    if (input.shareWithDepartment) {
+      sharedDepartmentId = await userDepartment(userId);
+      if (!sharedDepartmentId) {
+        return {
+          ok: false,
+          status: 400,
+          error: "You are not in a department to share with",
+        };
+      }
+    }
+
+    const id = randomUUID();
+    await DatabaseService.query(
+      `INSERT INTO saved_document_views
+         (id, user_id, name, query, shared_department_id, position)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [id, userId, name, canonical.query, sharedDepartmentId, existing.length]
+    );
+
+    const view = (await this.list(userId)).find((v) => v.id === id);
+    return { ok: true, view: view! };
+  }
+
+  /** Rename, re-share or replace the filters of a view the user owns */
+  static async update(
+    userId: string,
+    viewId: string,
+    input: DocumentViewInput
+  ): Promise<ViewResult<{ view: SavedDocumentView }>> {
+    const owned = await this.findOwned(userId, viewId);
+    if (!owned.ok) return owned;
+
+    const sets: string[] = [];
+    const params: any[] = [];
+
+    if (input.name !== undefined) {
+      const name = String(input.name).trim();
+      if (!name || name.length > MAX_NAME_LENGTH) {
+        return {
+          ok: false,
+          status: 400,
+          error: `View name must be 1-${MAX_NAME_LENGTH} characters`,
+        };
+      }
+      const clash = normalizeRows(
+        await DatabaseService.query(
+          `SELECT id FROM saved_document_views
+           WHERE user_id = ? AND LOWER(name) = LOWER(?) AND id <> ?`,
+          [userId, name, viewId]
+        )
+      );
+      if (clash.length > 0) {
+        return {
+          ok: false,
+          status: 409,
+          error: `You already have a view named "${name}"`,
+        };
+      }
+      sets.push("name = ?");
+      params.push(name);
+    }
+
+    if (input.query !== undefined) {
+      const canonical = canonicalQuery(String(input.query));
+      if (!canonical.ok) return canonical;
+      sets.push("query = ?");
+      params.push(canonical.query);
+    }
+
+    if (input.shareWithDepartment !== undefined) {
+      const departmentId = input.shareWithDepartment
+        ? await userDepartment(userId)
+        : null;
+      if (input.shareWithDepartment && !departmentId) {
+        return {
+          ok: false,
+          status: 400,
+          error: "You are not in a department to share with",
+        };
+      }
+      sets.push("shared_department_id = ?");
+      params.push(departmentId);
+    }
+
+    if (sets.length > 0) {
+      await DatabaseService.query(
+        `UPDATE saved_document_views SET ${sets.join(", ")} WHERE id = ?`,
+        [...params, viewId]
+      );
+    }
+
+    const view = (await this.list(userId)).find((v) => v.id === viewId);
+    return { ok: true, view: view! };
+  }
+
+  static async remove(
+    userId: string,
+    viewId: string
+  ): Promise<ViewResult<object>> {
+    const owned = await this.findOwned(userId, viewId);
+    if (!owned.ok) return owned;
+
+    await DatabaseService.query(
+      `DELETE FROM saved_document_views WHERE id = ?`,
+      [viewId]
+    );
+    return { ok: true };
+  }
+
+  private static async findOwned(
+    userId: string,
+    viewId: string
+  ): Promise<ViewResult<object>> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT user_id FROM saved_document_views WHERE id = ? LIMIT 1`,
+        [viewId]
+      )
+    );
+    if (rows.length === 0) {
+      return { ok: false, status: 404, error: "View not found" };
+    }
+    if (String(rows[0].user_id) !== String(userId)) {
+      return {
+        ok: false,
+        status: 403,
+        error: "Only the owner can change this view",
+      };
+    }
+    return { ok: true };
+  }
+}
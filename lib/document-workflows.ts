@@ -0,0 +1,779 @@
+import { randomUUID } from "crypto";
+import { DatabaseService } from "./database";
+import { SLA_DUE_AT } from "./assignment-sla";
+import { DocumentReviewService } from "./document-reviews";
+import { OutOfOfficeService } from "./out-of-office";
+import { normalizeStatus, type DocumentStatus } from "./document-status";
+import { approvalsNeeded, evaluateQuorum } from "./review-quorum";
+import { OUTCOME_STATUS } from "./review-outcomes";
+import {
+  STEP_TARGET_NAME,
+  WorkflowTemplateService,
+} from "./workflow-templates";
+import type {
+  DocumentWorkflow,
+  WorkflowParticipant,
+  WorkflowStepState,
+} from "./workflow";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+type Connection = Awaited<ReturnType<typeof DatabaseService.getConnection>>;
+
+export type WorkflowResult =
+  | { ok: true; workflow: DocumentWorkflow }
+  | { ok: false; status: number; error: string };
+
+export type WorkflowDecision = "approve" | "reject";
+
+/** A notification to send once the transaction has committed */
+interface Notice {
+  userId: string;
+  type: string;
+  message: string;
+}
+
+/** What the steps of one run act on, loaded under lock */
+interface RunContext {
+  workflowId: string;
+  templateName: string;
+  document: { id: string; title: string; uploaded_by: string };
+  steps: any[];
+  actorId: string;
+  /** The absent participant an out-of-office delegate decided for */
+  onBehalfOf: string | null;
+  notices: Notice[];
+}
+
+async function select(
+  connection: Connection,
+  sql: string,
+  params: any[]
+): Promise<any[]> {
+  const [rows]: any = await connection.execute(sql, params);
+  return Array.isArray(rows) ? rows : [];
+}
+
+async function recordTransition(
+  connection: Connection,
+  data: {
+    documentId: string;
+    action: string;
+    from: DocumentStatus;
+    to: DocumentStatus;
+    actorId: string;
+    onBehalfOf?: string | null;
+    reason: string | null;
+  }
+) {
+  await connection.execute(
+    `INSERT INTO document_status_transitions
+     (id, document_id, action, from_status, to_status, actor_id, on_behalf_of, reason, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+    [
+      randomUUID(),
+      data.documentId,
+      data.action,
+      data.from,
+      data.to,
+      data.actorId,
+      data.onBehalfOf ?? null,
+      data.reason,
+    ]
+  );
+}
+
+/**
+ * The users a step is routed to, in name order. The document's uploader
+ * never reviews their own document.
+ */
+async function resolveParticipants(
+  connection: Connection,
+  step: any,
+  uploadedBy: string
+): Promise<string[]> {
+  const column =
+    step.target_type === "user"
+      ? "id"
+      : step.target_type === "role"
+      ? "role_id"
+      : "department_id";
+  const rows = await select(
+    connection,
+    `SELECT id FROM users WHERE ${column} = ? AND id <> ? ORDER BY name ASC`,
+    [step.target_id, uploadedBy]
+  );
+  return rows.map((r) => String(r.id));
+}
+
+/** Assignments of a step nobody has acted on are no longer needed */
+async function closeOpenAssignments(connection: Connection, stepId: string) {
+  await connection.execute(
+    `UPDATE document_assignments SET status = 'closed', closed_at = NOW()
+     WHERE workflow_step_id = ? AND status = 'assigned'`,
+    [stepId]
+  );
+}
+
+/**
+ * Activate the first step from `position` on that has anyone to assign.
+ * Steps that resolve to nobody are skipped. Returns false when no step
+ * is left, i.e. the workflow is done. `sentBack` is the reason when a
+ * later step returned the document.
+ */
+async function activateFrom(
+  connection: Connection,
+  ctx: RunContext,
+  position: number,
+  sentBack: string | null = null
+): Promise<boolean> {
+  for (let i = position; i < ctx.steps.length; i++) {
+    const step = ctx.steps[i];
+    const participants = await resolveParticipants(
+      connection,
+      step,
+      String(ctx.document.uploaded_by)
+    );
+    if (participants.length === 0) {
+      await connection.execute(
+        `UPDATE document_workflow_steps
+         SET status = 'skipped', note = ?, completed_at = NOW()
+         WHERE id = ?`,
+        [
+          `Nobody to assign: the ${step.target_type} has no users besides the uploader`,
+          step.id,
+        ]
+      );
+      continue;
+    }
+
+    await connection.execute(
+      `UPDATE document_workflow_steps
+       SET status = 'active', started_at = NOW(), completed_at = NULL
+       WHERE id = ?`,
+      [step.id]
+    );
+    // Participants who are out of office are covered by their delegates,
+    // unless that would be the uploader
+    const routes = await OutOfOfficeService.delegateFor(
+      participants,
+      connection
+    );
+    routes.forEach((delegateId, participant) => {
+      if (delegateId === String(ctx.document.uploaded_by)) {
+        routes.delete(participant);
+      }
+    });
+    const assigned: string[] = [];
+    for (const participant of participants) {
+      const userId = routes.get(participant) ?? participant;
+      if (assigned.includes(userId)) continue;
+      assigned.push(userId);
+      await connection.execute(
+        `INSERT INTO document_assignments
+         (id, document_id, assigned_to, delegated_from, assigned_by, roles, status, notified_at, workflow_step_id, due_at)
+         VALUES (?, ?, ?, ?, ?, ?, 'assigned', NOW(), ?, ${SLA_DUE_AT})`,
+        [
+          randomUUID(),
+          ctx.document.id,
+          userId,
+          routes.has(participant) ? participant : null,
+          ctx.actorId,
+          step.name,
+          step.id,
+          userId,
+        ]
+      );
+      ctx.notices.push({
+        userId,
+        type: "document_assigned",
+        message: sentBack
+          ? `"${ctx.document.title}" was sent back to you for ${step.name}: ${sentBack}`
+          : `"${ctx.document.title}" needs your approval: ${step.name} (${ctx.templateName})`,
+      });
+    }
+    await connection.execute(
+      "UPDATE documents SET assigned_to_user = ?, updated_at = NOW() WHERE id = ?",
+      [assigned[0], ctx.document.id]
+    );
+    await connection.execute(
+      "UPDATE document_workflows SET current_position = ? WHERE id = ?",
+      [i, ctx.workflowId]
+    );
+    return true;
+  }
+  return false;
+}
+
+/** End the run and move the document to approved or rejected */
+async function finish(
+  connection: Connection,
+  ctx: RunContext,
+  outcome: "completed" | "rejected",
+  reason: string | null
+) {
+  const to: DocumentStatus = outcome === "completed" ? "approved" : "rejected";
+  await connection.execute(
+    `UPDATE document_workflows SET status = ?, finished_at = NOW()
+     WHERE id = ?`,
+    [outcome, ctx.workflowId]
+  );
+  await connection.execute(
+    "UPDATE documents SET status = ?, updated_at = NOW() WHERE id = ?",
+    [to, ctx.document.id]
+  );
+  await recordTransition(connection, {
+    documentId: ctx.document.id,
+    action: outcome === "completed" ? "approve" : "reject",
+    from: "in_review",
+    to,
+    actorId: ctx.actorId,
+    onBehalfOf: ctx.onBehalfOf,
+    reason:
+      reason ??
+      (outcome === "completed"
+        ? `Workflow "${ctx.templateName}" completed`
+        : null),
+  });
+  ctx.notices.push({
+    userId: ctx.document.uploaded_by,
+    type: "document_updated",
+    message:
+      outcome === "completed"
+        ? `"${ctx.document.title}" was approved (${ctx.templateName})`
+        : `"${ctx.document.title}" was rejected (${ctx.templateName}): ${reason}`,
+  });
+}
+
+async function sendNotices(ctx: RunContext, documentId: string) {
+  for (const notice of ctx.notices) {
+    if (!notice.userId || notice.userId === ctx.actorId) continue;
+    try {
+      await DatabaseService.query(
+        `INSERT INTO notifications
+         (id, user_id, type, message, related_document_id, sender_id, is_read, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, 0, NOW())`,
+        [
+          randomUUID(),
+          notice.userId,
+          notice.type,
+          notice.message,
+          documentId,
+          ctx.actorId,
+        ]
+      );
+    } catch (notifyErr) {
+      console.error("❌ Failed to create workflow notification:", notifyErr);
+    }
+  }
+}
+
+function toIso(value: any): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export class DocumentWorkflowService {
+  /** The document's most recent workflow run, with its steps */
+  static async get(documentId: string): Promise<DocumentWorkflow | null> {
+    const runs = normalizeRows(
+      await DatabaseService.query(
+        `SELECT w.*, u.name AS started_by_name
+         FROM document_workflows w
+         LEFT JOIN users u ON u.id = w.started_by
+         WHERE w.document_id = ?
+         ORDER BY w.started_at DESC
+         LIMIT 1`,
+        [documentId]
+      )
+    );
+    const run = runs[0];
+    if (!run) return null;
+
+    const steps = normalizeRows(
+      await DatabaseService.query(
+        `SELECT s.*, ${STEP_TARGET_NAME} AS target_name
+         FROM document_workflow_steps s
+         WHERE s.workflow_id = ?
+         ORDER BY s.position ASC`,
+        [run.id]
+      )
+    );
+    const participants =
+      steps.length > 0
+        ? normalizeRows(
+            await DatabaseService.query(
+              `SELECT a.id, a.workflow_step_id, a.assigned_to, a.status,
+                      a.note, a.decided_at, a.created_at,
+                      a.delegated_from, a.acted_by,
+                      u.name AS user_name, df.name AS delegated_from_name,
+                      ab.name AS acted_by_name
+               FROM document_assignments a
+               LEFT JOIN users u ON u.id = a.assigned_to
+               LEFT JOIN users df ON df.id = a.delegated_from
+               LEFT JOIN users ab ON ab.id = a.acted_by
+               WHERE a.workflow_step_id IN (${steps.map(() => "?").join(",")})
+               ORDER BY a.created_at ASC`,
+              steps.map((s) => s.id)
+            )
+          )
+        : [];
+
+    return {
+      id: String(run.id),
+      document_id: String(run.document_id),
+      template_id: String(run.template_id),
+      template_name: run.template_name,
+      status: run.status,
+      current_position: Number(run.current_position),
+      started_by: String(run.started_by),
+      started_by_name: run.started_by_name ?? null,
+      started_at: new Date(run.started_at).toISOString(),
+      finished_at: toIso(run.finished_at),
+      steps: steps.map(
+        (s): WorkflowStepState => ({
+          id: String(s.id),
+          position: Number(s.position),
+          name: s.name,
+          target_type: s.target_type,
+          target_id: String(s.target_id),
+          target_name: s.target_name ?? null,
+          completion: s.completion,
+          required_approvals:
+            s.required_approvals != null ? Number(s.required_approvals) : null,
+          on_reject: s.on_reject,
+          status: s.status,
+          note: s.note ?? null,
+          started_at: toIso(s.started_at),
+          completed_at: toIso(s.completed_at),
+          // The latest round only, if the step was sent back to
+          participants: participants
+            .filter((p) => String(p.workflow_step_id) === String(s.id))
+            .filter(
+              (p) =>
+                !s.started_at ||
+                new Date(p.created_at) >= new Date(s.started_at)
+            )
+            .map(
+              (p): WorkflowParticipant => ({
+                assignment_id: String(p.id),
+                user_id: String(p.assigned_to),
+                user_name: p.user_name ?? null,
+                status: p.status,
+                note: p.note ?? null,
+                decided_at: toIso(p.decided_at),
+                delegated_from: p.delegated_from
+                  ? String(p.delegated_from)
+                  : null,
+                delegated_from_name: p.delegated_from_name ?? null,
+                acted_by: p.acted_by ? String(p.acted_by) : null,
+                acted_by_name: p.acted_by_name ?? null,
+              })
+            ),
+        })
+      ),
+    };
+  }
+
+  /** The active run's template name, if the document is on a workflow */
+  static async activeWorkflowName(
+    documentId: string,
+    connection?: Connection
+  ): Promise<string | null> {
+    const sql = `SELECT template_name FROM document_workflows
+                 WHERE document_id = ? AND status = 'active'
+                 LIMIT 1`;
+    const rows = connection
+      ? await select(connection, sql, [documentId])
+      : normalizeRows(await DatabaseService.query(sql, [documentId]));
+    return rows[0]?.template_name ?? null;
+  }
+
+  /**
+   * Put a draft or rejected document on a workflow: the template's steps
+   * are copied, the document goes in review and the first step is
+   * assigned.
+   */
+  static async start(data: {
+    documentId: string;
+    templateId: string;
+    userId: string;
+    isAdmin: boolean;
+  }): Promise<WorkflowResult> {
+    const template = await WorkflowTemplateService.get(data.templateId);
+    if (!template || !template.enabled) {
+      return { ok: false, status: 404, error: "Workflow not found" };
+    }
+
+    const ctx: RunContext = {
+      workflowId: randomUUID(),
+      templateName: template.name,
+      document: { id: data.documentId, title: "", uploaded_by: "" },
+      steps: [],
+      actorId: data.userId,
+      onBehalfOf: null,
+      notices: [],
+    };
+
+    const connection = await DatabaseService.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const docs = await select(
+        connection,
+        `SELECT d.id, d.title, d.status, d.uploaded_by,
+                u.department_id AS uploader_department_id
+         FROM documents d
+         LEFT JOIN users u ON u.id = d.uploaded_by
+         WHERE d.id = ? AND d.deleted_at IS NULL
+         FOR UPDATE`,
+        [data.documentId]
+      );
+      const doc = docs[0];
+      if (!doc) {
+        await connection.rollback();
+        return { ok: false, status: 404, error: "Document not found" };
+      }
+      ctx.document = {
+        id: String(doc.id),
+        title: doc.title,
+        uploaded_by: String(doc.uploaded_by),
+      };
+
+      if (!data.isAdmin && String(doc.uploaded_by) !== String(data.userId)) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 403,
+          error: "Only the uploader or an admin can start a workflow",
+        };
+      }
+
+      const fromStatus = normalizeStatus(doc.status);
+      if (fromStatus !== "draft" && fromStatus !== "rejected") {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 409,
+          error: "Only draft or rejected documents can start a workflow",
+        };
+      }
+
+      if (
+        template.department_id &&
+        template.department_id !== String(doc.uploader_department_id ?? "")
+      ) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 400,
+          error: `"${template.name}" is not available for this document`,
+        };
+      }
+
+      if (await this.activeWorkflowName(data.documentId, connection)) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 409,
+          error: "The document is already on a workflow",
+        };
+      }
+
+      await connection.execute(
+        `INSERT INTO document_workflows
+         (id, document_id, template_id, template_name, status, current_position, started_by, started_at)
+         VALUES (?, ?, ?, ?, 'active', 0, ?, NOW())`,
+        [
+          ctx.workflowId,
+          data.documentId,
+          template.id,
+          template.name,
+          data.userId,
+        ]
+      );
+      for (const step of template.steps) {
+        const stepId = randomUUID();
+        await connection.execute(
+          `INSERT INTO document_workflow_steps
+           (id, workflow_id, position, name, target_type, target_id, completion, required_approvals, on_reject, status)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
+          [
+            stepId,
+            ctx.workflowId,
+            step.position,
+            step.name,
+            step.target_type,
+            step.target_id,
+            step.completion,
+            step.required_approvals,
+            step.on_reject,
+          ]
+        );
+        ctx.steps.push({ ...step, id: stepId });
+      }
+
+      await DocumentReviewService.closeOpen(connection, data.documentId);
+      await connection.execute(
+        "UPDATE documents SET status = 'in_review', updated_at = NOW() WHERE id = ?",
+        [data.documentId]
+      );
+      await recordTransition(connection, {
+        documentId: data.documentId,
+        action: "submit",
+        from: fromStatus,
+        to: "in_review",
+        actorId: data.userId,
+        reason: `Started workflow "${template.name}"`,
+      });
+
+      if (!(await activateFrom(connection, ctx, 0))) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 409,
+          error: "None of the workflow's steps has anyone to assign",
+        };
+      }
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    await sendNotices(ctx, data.documentId);
+    return { ok: true, workflow: (await this.get(data.documentId))! };
+  }
+
+  /**
+   * Approve or reject the active step as one of its participants. The
+   * workflow moves on once the step's quorum is met; once enough have
+   * rejected that it can't be, the workflow ends or goes back a step, as
+   * the step says.
+   */
+  static async decide(data: {
+    documentId: string;
+    userId: string;
+    decision: WorkflowDecision;
+    comment?: string | null;
+  }): Promise<WorkflowResult> {
+    const comment = data.comment?.trim() || null;
+    if (data.decision === "reject" && !comment) {
+      return {
+        ok: false,
+        status: 400,
+        error: "A reason is required to reject",
+      };
+    }
+
+    let ctx: RunContext | null = null;
+    const connection = await DatabaseService.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const docs = await select(
+        connection,
+        `SELECT id, title, uploaded_by FROM documents
+         WHERE id = ? AND deleted_at IS NULL
+         FOR UPDATE`,
+        [data.documentId]
+      );
+      const runs = await select(
+        connection,
+        `SELECT id, template_name, current_position FROM document_workflows
+         WHERE document_id = ? AND status = 'active'
+         LIMIT 1
+         FOR UPDATE`,
+        [data.documentId]
+      );
+      if (!docs[0] || !runs[0]) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: docs[0] ? 409 : 404,
+          error: docs[0] ? "No workflow is running" : "Document not found",
+        };
+      }
+      const run = runs[0];
+      ctx = {
+        workflowId: String(run.id),
+        templateName: run.template_name,
+        document: {
+          id: String(docs[0].id),
+          title: docs[0].title,
+          uploaded_by: String(docs[0].uploaded_by),
+        },
+        steps: await select(
+          connection,
+          `SELECT * FROM document_workflow_steps
+           WHERE workflow_id = ?
+           ORDER BY position ASC`,
+          [run.id]
+        ),
+        actorId: data.userId,
+        onBehalfOf: null,
+        notices: [],
+      };
+
+      // A delegate may decide for an absent participant, once they have
+      // no assignment of their own on the step
+      const position = Number(run.current_position);
+      const step = ctx.steps[position];
+      const actingFor = await OutOfOfficeService.delegatorsOf(
+        data.userId,
+        connection
+      );
+      const userIds = [String(data.userId), ...actingFor];
+      const assignments = step
+        ? await select(
+            connection,
+            `SELECT id, assigned_to FROM document_assignments
+             WHERE workflow_step_id = ? AND status = 'assigned'
+               AND assigned_to IN (${userIds.map(() => "?").join(",")})
+             ORDER BY assigned_to = ? DESC
+             LIMIT 1`,
+            [step.id, ...userIds, data.userId]
+          )
+        : [];
+      if (assignments.length === 0) {
+        await connection.rollback();
+        return {
+          ok: false,
+          status: 403,
+          error: "You are not waiting to approve this step",
+        };
+      }
+
+      if (String(assignments[0].assigned_to) !== String(data.userId)) {
+        ctx.onBehalfOf = String(assignments[0].assigned_to);
+      }
+
+      await connection.execute(
+        `UPDATE document_assignments
+         SET status = ?, outcome = ?, note = ?, decided_at = NOW(),
+             acted_by = ?
+         WHERE id = ?`,
+        [
+          OUTCOME_STATUS[data.decision],
+          data.decision,
+          comment,
+          ctx.onBehalfOf ? data.userId : null,
+          assignments[0].id,
+        ]
+      );
+
+      // Decisions of this activation only: a step sent back to keeps
+      // the rows of its earlier round
+      const counts = await select(
+        connection,
+        `SELECT
+           COUNT(*) AS total,
+           SUM(status = 'approved') AS approved,
+           SUM(status = 'rejected') AS rejected
+         FROM document_assignments
+         WHERE workflow_step_id = ? AND status <> 'closed'
+           AND created_at >= ?`,
+        [step.id, step.started_at]
+      );
+      const total = Number(counts[0]?.total ?? 0);
+      const state = evaluateQuorum({
+        approved: Number(counts[0]?.approved ?? 0),
+        rejected: Number(counts[0]?.rejected ?? 0),
+        total,
+        needed: approvalsNeeded(
+          step.completion,
+          step.required_approvals,
+          total
+        ),
+      });
+
+      if (state === "approved") {
+        await closeOpenAssignments(connection, step.id);
+        await connection.execute(
+          `UPDATE document_workflow_steps
+           SET status = 'completed', completed_at = NOW()
+           WHERE id = ?`,
+          [step.id]
+        );
+        if (!(await activateFrom(connection, ctx, position + 1))) {
+          await finish(connection, ctx, "completed", comment);
+        }
+      } else if (state === "rejected") {
+        await closeOpenAssignments(connection, step.id);
+        if (step.on_reject === "previous" && position > 0) {
+          await connection.execute(
+            `UPDATE document_workflow_steps
+             SET status = 'pending', note = ?, started_at = NULL
+             WHERE id = ?`,
+            [comment, step.id]
+          );
+          await activateFrom(connection, ctx, position - 1, comment);
+        } else {
+          await connection.execute(
+            `UPDATE document_workflow_steps
+             SET status = 'rejected', note = ?, completed_at = NOW()
+             WHERE id = ?`,
+            [comment, step.id]
+          );
+          await finish(connection, ctx, "rejected", comment);
+        }
+      }
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    if (ctx) await sendNotices(ctx, data.documentId);
+    return { ok: true, workflow: (await this.get(data.documentId))! };
+  }
+
+  /**
+   * Stop the document's active run, e.g. when it is withdrawn from
+   * review. Runs on the caller's transaction, which holds the document.
+   */
+  static async cancelActive(
+    connection: Connection,
+    documentId: string
+  ): Promise<void> {
+    const runs = await select(
+      connection,
+      `SELECT id FROM document_workflows
+       WHERE document_id = ? AND status = 'active'
+       FOR UPDATE`,
+      [documentId]
+    );
+    for (const run of runs) {
+      const steps = await select(
+        connection,
+        `SELECT id FROM document_workflow_steps
+         WHERE workflow_id = ? AND status IN ('pending', 'active')`,
+        [run.id]
+      );
+      for (const step of steps) {
+        await closeOpenAssignments(connection, step.id);
+      }
+      await connection.execute(
+        `UPDATE document_workflow_steps SET status = 'cancelled'
+         WHERE workflow_id = ? AND status IN ('pending', 'active')`,
+        [run.id]
+      );
+      await connection.execute(
+        `UPDATE document_workflows SET status = 'cancelled', finished_at = NOW()
+         WHERE id = ?`,
+        [run.id]
+      );
+    }
+  }
+}
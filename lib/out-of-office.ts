@@ -0,0 +1,267 @@
+import { randomUUID } from "crypto";
+import { format } from "date-fns";
+import { DatabaseService } from "./database";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+type Connection = Awaited<ReturnType<typeof DatabaseService.getConnection>>;
+
+export type OutOfOfficeResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; error: string };
+
+export const MAX_NOTE_LENGTH = 255;
+
+/** A user's absence and who covers for them */
+export interface OutOfOffice {
+  user_id: string;
+  user_name?: string | null;
+  delegate_id: string;
+  delegate_name: string | null;
+  starts_at: string;
+  ends_at: string;
+  note: string | null;
+  /** Whether the window covers the current time */
+  active: boolean;
+}
+
+/** True while the absence in `alias` is going on */
+function away(alias: string): string {
+  return `${alias}.starts_at <= NOW() AND ${alias}.ends_at > NOW()`;
+}
+
+/**
+ * The users who are away and have the given user as their delegate.
+ * Takes the delegate's id as its one parameter, for use in
+ * `assigned_to IN ${DELEGATORS}`.
+ */
+export const DELEGATORS = `(
+  SELECT oo.user_id FROM user_out_of_office oo
+  WHERE oo.delegate_id = ? AND ${away("oo")}
+)`;
+
+async function select(
+  sql: string,
+  params: any[],
+  connection?: Connection
+): Promise<any[]> {
+  if (!connection) {
+    return normalizeRows(await DatabaseService.query(sql, params));
+  }
+  const [rows]: any = await connection.execute(sql, params);
+  return Array.isArray(rows) ? rows : [];
+}
+
+function toSqlDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function parseDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Out-of-office windows. While a user is away, assignments made to them
+ * go to their delegate instead (recorded in delegated_from), and the
+ * delegate may act on what is still assigned to them; whatever the
+ * delegate does there is recorded on the absent user's behalf.
+ */
+export class OutOfOfficeService {
+  static async get(userId: string): Promise<OutOfOffice | null> {
+    const rows = await select(
+      `SELECT oo.*, u.name AS delegate_name,
+              (${away("oo")}) AS active
+       FROM user_out_of_office oo
+       LEFT JOIN users u ON u.id = oo.delegate_id
+       WHERE oo.user_id = ?`,
+      [userId]
+    );
+    const row = rows[0];
+    if (!row) return null;
+    return {
+      user_id: String(row.user_id),
+      delegate_id: String(row.delegate_id),
+      delegate_name: row.delegate_name ?? null,
+      starts_at: new Date(row.starts_at).toISOString(),
+      ends_at: new Date(row.ends_at).toISOString(),
+      note: row.note ?? null,
+      active: Boolean(Number(row.active)),
+    };
+  }
+
+  /** Set or replace the user's absence; the delegate is told */
+  static async set(
+    userId: string,
+    body: {
+      delegate_id?: unknown;
+      starts_at?: unknown;
+      ends_at?: unknown;
+      note?: unknown;
+    }
+  ): Promise<OutOfOfficeResult<{ outOfOffice: OutOfOffice }>> {
+    const delegateId = body.delegate_id ? String(body.delegate_id) : "";
+    if (!delegateId) {
+      return { ok: false, status: 400, error: "Choose a delegate" };
+    }
+    if (delegateId === String(userId)) {
+      return {
+        ok: false,
+        status: 400,
+        error: "You cannot delegate to yourself",
+      };
+    }
+
+    const startsAt = body.starts_at ? parseDate(body.starts_at) : new Date();
+    const endsAt = parseDate(body.ends_at);
+    if (!startsAt || !endsAt) {
+      return {
+        ok: false,
+        status: 400,
+        error: "starts_at and ends_at must be dates",
+      };
+    }
+    if (endsAt <= startsAt || endsAt.getTime() <= Date.now()) {
+      return {
+        ok: false,
+        status: 400,
+        error: "ends_at must be in the future and after starts_at",
+      };
+    }
+
+    const note = body.note ? String(body.note).trim() || null : null;
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      return {
+        ok: false,
+        status: 400,
+        error: `note must be at most ${MAX_NOTE_LENGTH} characters`,
+      };
+    }
+
+    const users = await select(
+      "SELECT id, name FROM users WHERE id IN (?, ?)",
+      [userId, delegateId]
+    );
+    const delegate = users.find((u) => String(u.id) === delegateId);
+    if (!delegate) {
+      return { ok: false, status: 400, error: "Delegate not found" };
+    }
+    const absent = users.find((u) => String(u.id) === String(userId));
+
+    await DatabaseService.query(
+      `INSERT INTO user_out_of_office
+       (user_id, delegate_id, starts_at, ends_at, note, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, NOW(), NOW())
+       ON DUPLICATE KEY UPDATE
+         delegate_id = VALUES(delegate_id), starts_at = VALUES(starts_at),
+         ends_at = VALUES(ends_at), note = VALUES(note), updated_at = NOW()`,
+      [userId, delegateId, toSqlDate(startsAt), toSqlDate(endsAt), note]
+    );
+
+    try {
+      await DatabaseService.query(
+        `INSERT INTO notifications
+         (id, user_id, type, message, related_document_id, sender_id, is_read, created_at)
+         VALUES (?, ?, ?, ?, NULL, ?, 0, NOW())`,
+        [
+          randomUUID(),
+          delegateId,
+          "out_of_office",
+          `${absent?.name ?? "A colleague"} is out of office from ${format(
+            startsAt,
+            "MMM d, yyyy HH:mm"
+          )} to ${format(
+            endsAt,
+            "MMM d, yyyy HH:mm"
+          )}; their assignments come to you meanwhile`,
+          userId,
+        ]
+      );
+    } catch (notifyErr) {
+      console.error("❌ Failed to notify delegate:", notifyErr);
+    }
+
+    return { ok: true, outOfOffice: (await this.get(userId))! };
+  }
+
+  /** End the user's absence now; returns false when none was set */
+  static async clear(userId: string): Promise<boolean> {
+    const result: any = await DatabaseService.query(
+      "DELETE FROM user_out_of_office WHERE user_id = ?",
+      [userId]
+    );
+    return Number(result?.affectedRows ?? 0) > 0;
+  }
+
+  /**
+   * Where assignments for these users should go instead: absent user to
+   * delegate. Users who are in, and those whose delegate is away as
+   * well, are left out and keep their assignments.
+   */
+  static async delegateFor(
+    userIds: string[],
+    connection?: Connection
+  ): Promise<Map<string, string>> {
+    const routes = new Map<string, string>();
+    if (userIds.length === 0) return routes;
+    const rows = await select(
+      `SELECT oo.user_id, oo.delegate_id
+       FROM user_out_of_office oo
+       WHERE oo.user_id IN (${userIds.map(() => "?").join(",")})
+         AND ${away("oo")}
+         AND NOT EXISTS (
+           SELECT 1 FROM user_out_of_office od
+           WHERE od.user_id = oo.delegate_id AND ${away("od")}
+         )`,
+      userIds,
+      connection
+    );
+    for (const row of rows) {
+      routes.set(String(row.user_id), String(row.delegate_id));
+    }
+    return routes;
+  }
+
+  /** Absences the user is the delegate for that haven't ended */
+  static async covering(userId: string): Promise<OutOfOffice[]> {
+    const rows = await select(
+      `SELECT oo.*, u.name AS user_name, (${away("oo")}) AS active
+       FROM user_out_of_office oo
+       LEFT JOIN users u ON u.id = oo.user_id
+       WHERE oo.delegate_id = ? AND oo.ends_at > NOW()
+       ORDER BY oo.starts_at ASC`,
+      [userId]
+    );
+    return rows.map((row) => ({
+      user_id: String(row.user_id),
+      user_name: row.user_name ?? null,
+      delegate_id: String(row.delegate_id),
+      delegate_name: null,
+      starts_at: new Date(row.starts_at).toISOString(),
+      ends_at: new Date(row.ends_at).toISOString(),
+      note: row.note ?? null,
+      active: Boolean(Number(row.active)),
+    }));
+  }
+
+  /** The absent users this user covers for right now */
+  static async delegatorsOf(
+    userId: string,
+    connection?: Connection
+  ): Promise<string[]> {
+    const rows = await select(
+      `SELECT oo.user_id FROM user_out_of_office oo
+       WHERE oo.delegate_id = ? AND ${away("oo")}`,
+      [userId],
+      connection
+    );
+    return rows.map((r) => String(r.user_id));
+  }
+}
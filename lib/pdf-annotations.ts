@@ -0,0 +1,392 @@
+// Draws stored annotations onto rendered PDF pages so exports can be
+// flattened on the server, without a browser or WebViewer
+import { loadImage, type Image, type SKRSContext2D } from "@napi-rs/canvas";
+import { ANNOTATION_FONT_FAMILY } from "./pdf-flatten";
+import type { XfdfAnnotation, XfdfPoint } from "./xfdf";
+
+const FONT_STACK = `"${ANNOTATION_FONT_FAMILY}", Helvetica, Arial, sans-serif`;
+
+/** Sticky notes flatten to an icon of this size, as in the viewer */
+const NOTE_SIZE = 20;
+const NOTE_COLOR = "#ffcd45";
+const HIGHLIGHT_COLOR = "#ffe066";
+
+/** Stamp images keyed by their data URL */
+export type StampImages = Map<string, Image>;
+
+function clamp(value: number) {
+  return Math.min(Math.max(Number.isFinite(value) ? value : 1, 0), 1);
+}
+
+/** { r, g, b } or WebViewer's { R, G, B } → #rrggbb */
+function hexColor(value: any): string | null {
+  if (!value || typeof value !== "object") return null;
+  const channels = [value.r ?? value.R, value.g ?? value.G, value.b ?? value.B];
+  if (!channels.every((c) => Number.isFinite(Number(c)))) return null;
+  return `#${channels
+    .map((c) => Math.round(clamp(Number(c) / 255) * 255))
+    .map((c) => c.toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+function bounds(points: XfdfPoint[]): XfdfAnnotation["rect"] {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+function blank(
+  type: string,
+  page: number,
+  rect: XfdfAnnotation["rect"]
+): XfdfAnnotation {
+  return {
+    type,
+    page,
+    rect,
+    color: null,
+    interiorColor: null,
+    opacity: 1,
+    width: 1,
+    hidden: false,
+    contents: "",
+    fontSize: 12,
+    textColor: null,
+    paths: [],
+    quads: [],
+    head: null,
+    tail: null,
+    imageData: null,
+  };
+}
+
+/**
+ * Convert a row of the annotations table into the shape XFDF parses to.
+ * Rows hold viewer coordinates (origin top left), so the page height is
+ * needed to flip them into PDF space.
+ */
+export function annotationFromRow(
+  row: {
+    annotation_type: string;
+    page_number: number;
+    position_x?: number | null;
+    position_y?: number | null;
+    content: any;
+  },
+  pageHeight: number
+): XfdfAnnotation | null {
+  let content = row.content;
+  if (typeof content === "string") {
+    try {
+      content = JSON.parse(content);
+    } catch {
+      content = {};
+    }
+  }
+  content ??= {};
+  const page = Number(row.page_number) || 1;
+  const flip = (x: any, y: any): XfdfPoint => [
+    Number(x) || 0,
+    pageHeight - (Number(y) || 0),
+  ];
+
+  switch (row.annotation_type) {
+    case "highlight": {
+      // WebViewer quads run bottom left, bottom right, top right, top
+      // left; XFDF's run top left, top right, bottom left, bottom right
+      const quads: XfdfPoint[][] = (
+        Array.isArray(content.quads) ? content.quads : []
+      ).map((q: any) => [
+        flip(q.x4, q.y4),
+        flip(q.x3, q.y3),
+        flip(q.x1, q.y1),
+        flip(q.x2, q.y2),
+      ]);
+      if (quads.length === 0) return null;
+      return {
+        ...blank("highlight", page, bounds(quads.flat())),
+        color: hexColor(content.color) ?? HIGHLIGHT_COLOR,
+        quads,
+      };
+    }
+    case "drawing": {
+      const raw: any[] = Array.isArray(content.path) ? content.path : [];
+      const strokes = (Array.isArray(raw[0]) ? raw : [raw])
+        .map((stroke: any[]) =>
+          (Array.isArray(stroke) ? stroke : []).map((p) => flip(p?.x, p?.y))
+        )
+        .filter((stroke: XfdfPoint[]) => stroke.length > 0);
+      if (strokes.length === 0) return null;
+      return {
+        ...blank("ink", page, bounds(strokes.flat())),
+        color: hexColor(content.strokeColor) ?? "#000000",
+        paths: strokes,
+      };
+    }
+    default: {
+      const [x, top] = flip(row.position_x, row.position_y);
+      return {
+        ...blank("text", page, [x, top - NOTE_SIZE, x + NOTE_SIZE, top]),
+        color: NOTE_COLOR,
+        contents: String(content.text ?? ""),
+      };
+    }
+  }
+}
+
+/** Decode the images of any stamps up front; drawing is synchronous */
+export async function loadStampImages(
+  annotations: XfdfAnnotation[]
+): Promise<StampImages> {
+  const images: StampImages = new Map();
+  for (const { imageData } of annotations) {
+    if (!imageData || images.has(imageData)) continue;
+    const base64 = imageData.replace(/^data:[^,]*,/, "");
+    try {
+      images.set(imageData, await loadImage(Buffer.from(base64, "base64")));
+    } catch (e) {
+      console.warn("⚠️ Skipping unreadable stamp image:", e);
+    }
+  }
+  return images;
+}
+
+function wrapText(ctx: SKRSContext2D, text: string, maxWidth: number) {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r\n|\r|\n/)) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function drawArrowHead(
+  ctx: SKRSContext2D,
+  tip: XfdfPoint,
+  from: XfdfPoint,
+  size: number,
+  closed: boolean
+) {
+  const angle = Math.atan2(tip[1] - from[1], tip[0] - from[0]);
+  const spread = Math.PI / 6;
+  ctx.beginPath();
+  ctx.moveTo(
+    tip[0] - size * Math.cos(angle - spread),
+    tip[1] - size * Math.sin(angle - spread)
+  );
+  ctx.lineTo(tip[0], tip[1]);
+  ctx.lineTo(
+    tip[0] - size * Math.cos(angle + spread),
+    tip[1] - size * Math.sin(angle + spread)
+  );
+  if (closed) {
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.stroke();
+}
+
+/**
+ * Draw one annotation. Coordinates are PDF points with the origin at the
+ * top left, as in `renderPdfPages`' decorate callback.
+ */
+export function drawAnnotation(
+  ctx: SKRSContext2D,
+  pageHeight: number,
+  annotation: XfdfAnnotation,
+  images: StampImages = new Map()
+) {
+  if (annotation.hidden) return;
+
+  const toCanvas = ([x, y]: XfdfPoint): XfdfPoint => [x, pageHeight - y];
+  const [left, bottom, right, top] = annotation.rect;
+  const x = left;
+  const y = pageHeight - top;
+  const width = right - left;
+  const height = top - bottom;
+  const stroked = annotation.color !== null && annotation.width > 0;
+
+  ctx.save();
+  try {
+    ctx.globalAlpha = clamp(annotation.opacity);
+    ctx.lineWidth = annotation.width;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = annotation.color ?? "#000000";
+    ctx.fillStyle = annotation.interiorColor ?? "#000000";
+
+    switch (annotation.type) {
+      case "square":
+      case "circle": {
+        // The border is drawn inside the rect, as PDF viewers do
+        const inset = stroked ? annotation.width / 2 : 0;
+        ctx.beginPath();
+        if (annotation.type === "square") {
+          ctx.rect(
+            x + inset,
+            y + inset,
+            Math.max(width - inset * 2, 0),
+            Math.max(height - inset * 2, 0)
+          );
+        } else {
+          ctx.ellipse(
+            x + width / 2,
+            y + height / 2,
+            Math.max(width / 2 - inset, 0),
+            Math.max(height / 2 - inset, 0),
+            0,
+            0,
+            Math.PI * 2
+          );
+        }
+        if (annotation.interiorColor) ctx.fill();
+        if (stroked) ctx.stroke();
+        break;
+      }
+
+      case "line":
+      case "polyline":
+      case "polygon":
+      case "ink": {
+        const closed = annotation.type === "polygon";
+        for (const path of annotation.paths) {
+          const points = path.map(toCanvas);
+          ctx.beginPath();
+          points.forEach(([px, py], i) =>
+            i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)
+          );
+          if (points.length === 1) ctx.lineTo(points[0][0], points[0][1]);
+          if (closed) {
+            ctx.closePath();
+            if (annotation.interiorColor) ctx.fill();
+          }
+          if (stroked || annotation.type === "ink") ctx.stroke();
+
+          if (!closed && points.length > 1) {
+            ctx.fillStyle = annotation.color ?? "#000000";
+            const size = Math.max(annotation.width * 4, 6);
+            const last = points.length - 1;
+            const ends: [string | null, XfdfPoint, XfdfPoint][] = [
+              [annotation.head, points[0], points[1]],
+              [annotation.tail, points[last], points[last - 1]],
+            ];
+            for (const [ending, tip, from] of ends) {
+              if (!ending || !/arrow/i.test(ending)) continue;
+              drawArrowHead(ctx, tip, from, size, /closed/i.test(ending));
+            }
+          }
+        }
+        break;
+      }
+
+      case "highlight":
+        ctx.globalCompositeOperation = "multiply";
+        ctx.fillStyle = annotation.color ?? HIGHLIGHT_COLOR;
+        for (const quad of annotation.quads) {
+          const [ul, ur, ll, lr] = quad.map(toCanvas);
+          ctx.beginPath();
+          ctx.moveTo(ul[0], ul[1]);
+          ctx.lineTo(ur[0], ur[1]);
+          ctx.lineTo(lr[0], lr[1]);
+          ctx.lineTo(ll[0], ll[1]);
+          ctx.closePath();
+          ctx.fill();
+        }
+        break;
+
+      case "underline":
+      case "strikeout":
+      case "squiggly":
+        for (const quad of annotation.quads) {
+          const [ul, ur, ll, lr] = quad.map(toCanvas);
+          const lineHeight = Math.hypot(ll[0] - ul[0], ll[1] - ul[1]);
+          ctx.lineWidth = Math.max(lineHeight / 14, 0.75);
+          // Fraction of the way from the top of the line to the bottom
+          const at = annotation.type === "strikeout" ? 0.55 : 0.9;
+          const start: XfdfPoint = [
+            ul[0] + (ll[0] - ul[0]) * at,
+            ul[1] + (ll[1] - ul[1]) * at,
+          ];
+          const end: XfdfPoint = [
+            ur[0] + (lr[0] - ur[0]) * at,
+            ur[1] + (lr[1] - ur[1]) * at,
+          ];
+          ctx.beginPath();
+          ctx.moveTo(start[0], start[1]);
+          if (annotation.type === "squiggly") {
+            const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+            const steps = Math.max(Math.round(length / (lineHeight / 4)), 2);
+            for (let i = 1; i <= steps; i++) {
+              const t = i / steps;
+              const offset = (i % 2 ? -1 : 1) * (lineHeight / 10);
+              ctx.lineTo(
+                start[0] + (end[0] - start[0]) * t,
+                start[1] + (end[1] - start[1]) * t + offset
+              );
+            }
+          } else {
+            ctx.lineTo(end[0], end[1]);
+          }
+          ctx.stroke();
+        }
+        break;
+
+      case "freetext": {
+        if (annotation.interiorColor) ctx.fillRect(x, y, width, height);
+        if (stroked) ctx.strokeRect(x, y, width, height);
+
+        const padding = 2 + (stroked ? annotation.width : 0);
+        const lineHeight = annotation.fontSize * 1.2;
+        ctx.beginPath();
+        ctx.rect(x, y, width, height);
+        ctx.clip();
+        ctx.font = `${annotation.fontSize}px ${FONT_STACK}`;
+        ctx.fillStyle = annotation.textColor ?? "#000000";
+        ctx.textAlign = "left";
+        ctx.textBaseline = "top";
+        wrapText(ctx, annotation.contents, width - padding * 2).forEach(
+          (line, i) =>
+            ctx.fillText(line, x + padding, y + padding + i * lineHeight)
+        );
+        break;
+      }
+
+      case "text": {
+        // A note icon; the comment itself has no place on a flat page
+        ctx.fillStyle = annotation.color ?? NOTE_COLOR;
+        ctx.strokeStyle = "#5c4a00";
+        ctx.lineWidth = 0.75;
+        ctx.beginPath();
+        ctx.roundRect(x, y, NOTE_SIZE, NOTE_SIZE * 0.8, 2);
+        ctx.fill();
+        ctx.stroke();
+        ctx.beginPath();
+        for (const row of [0.25, 0.45, 0.65]) {
+          ctx.moveTo(x + NOTE_SIZE * 0.2, y + NOTE_SIZE * row);
+          ctx.lineTo(x + NOTE_SIZE * 0.8, y + NOTE_SIZE * row);
+        }
+        ctx.stroke();
+        break;
+      }
+
+      case "stamp": {
+        const image = annotation.imageData
+          ? images.get(annotation.imageData)
+          : undefined;
+        if (image) ctx.drawImage(image, x, y, width, height);
+        break;
+      }
+    }
+  } finally {
+    ctx.restore();
+  }
+}
@@ -0,0 +1,225 @@
+// Page-by-page word diff between two PDFs. Page N of one file is compared
+// with page N of the other, and every run of changed words comes with the
+// boxes it covers on both sides so a viewer can highlight it.
+import {
+  extractPdfWords,
+  type PdfBox,
+  type PdfPageWords,
+  type PdfWord,
+} from "./pdf-text";
+
+export type TextChangeType = "added" | "removed" | "changed";
+
+export interface TextChangeSide {
+  text: string;
+  /** One box per line the run covers */
+  boxes: PdfBox[];
+}
+
+export interface TextChange {
+  type: TextChangeType;
+  /** Null for added runs */
+  before: TextChangeSide | null;
+  /** Null for removed runs */
+  after: TextChangeSide | null;
+}
+
+export interface PageComparison {
+  page_number: number;
+  /** Page size in points; null when the page exists on one side only */
+  before: { width: number; height: number } | null;
+  after: { width: number; height: number } | null;
+  changes: TextChange[];
+}
+
+export interface PdfComparison {
+  before_pages: number;
+  after_pages: number;
+  summary: Record<TextChangeType, number> & { pages_changed: number };
+  pages: PageComparison[];
+}
+
+/**
+ * Word pairs a page's LCS table may hold (COMPARE_MAX_CELLS). Beyond it,
+ * everything between the common start and end is reported as one change.
+ */
+const MAX_CELLS = Math.max(
+  10000,
+  parseInt(process.env.COMPARE_MAX_CELLS || "4000000")
+);
+
+type Op = { kind: "equal" | "remove" | "add"; index: number };
+
+/** Edit script from `a` to `b`, by longest common subsequence */
+function diffWords(a: string[], b: string[]): Op[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = [];
+  for (let i = 0; i < start; i++) ops.push({ kind: "equal", index: i });
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n > 0 && m > 0 && (n + 1) * (m + 1) <= MAX_CELLS) {
+    // lengths[i][j]: LCS of a[start + i..endA) and b[start + j..endB)
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          a[start + i] === b[start + j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(
+                lengths[(i + 1) * width + j],
+                lengths[i * width + j + 1]
+              );
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        ops.push({ kind: "equal", index: start + i });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        ops.push({ kind: "remove", index: start + i++ });
+      } else {
+        ops.push({ kind: "add", index: start + j++ });
+      }
+    }
+    for (; i < n; i++) ops.push({ kind: "remove", index: start + i });
+    for (; j < m; j++) ops.push({ kind: "add", index: start + j });
+  } else {
+    for (let i = start; i < endA; i++) ops.push({ kind: "remove", index: i });
+    for (let j = start; j < endB; j++) ops.push({ kind: "add", index: j });
+  }
+
+  for (let i = endA; i < a.length; i++) ops.push({ kind: "equal", index: i });
+  return ops;
+}
+
+/** Merge the boxes of consecutive words that sit on the same line */
+function lineBoxes(words: PdfWord[]): PdfBox[] {
+  const boxes: PdfBox[] = [];
+  for (const word of words) {
+    const last = boxes[boxes.length - 1];
+    const sameLine =
+      last &&
+      Math.abs(last.y - word.y) < Math.max(last.height, word.height) / 2 &&
+      word.x >= last.x - 1 &&
+      word.x - (last.x + last.width) < Math.max(word.height, 1) * 3;
+    if (sameLine) {
+      const right = Math.max(last.x + last.width, word.x + word.width);
+      const bottom = Math.max(last.y + last.height, word.y + word.height);
+      last.y = Math.min(last.y, word.y);
+      last.width = right - last.x;
+      last.height = bottom - last.y;
+    } else {
+      boxes.push({
+        x: word.x,
+        y: word.y,
+        width: word.width,
+        height: word.height,
+      });
+    }
+  }
+  return boxes;
+}
+
+function side(words: PdfWord[]): TextChangeSide | null {
+  if (words.length === 0) return null;
+  return {
+    text: words.map((w) => w.text).join(" "),
+    boxes: lineBoxes(words),
+  };
+}
+
+function comparePage(
+  pageNumber: number,
+  before: PdfPageWords | undefined,
+  after: PdfPageWords | undefined
+): PageComparison {
+  const a = before?.words ?? [];
+  const b = after?.words ?? [];
+  const ops = diffWords(
+    a.map((w) => w.text),
+    b.map((w) => w.text)
+  );
+
+  const changes: TextChange[] = [];
+  let removed: PdfWord[] = [];
+  let added: PdfWord[] = [];
+  const flush = () => {
+    if (removed.length === 0 && added.length === 0) return;
+    changes.push({
+      type:
+        removed.length === 0
+          ? "added"
+          : added.length === 0
+          ? "removed"
+          : "changed",
+      before: side(removed),
+      after: side(added),
+    });
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.kind === "equal") flush();
+    else if (op.kind === "remove") removed.push(a[op.index]);
+    else added.push(b[op.index]);
+  }
+  flush();
+
+  return {
+    page_number: pageNumber,
+    before: before ? { width: before.width, height: before.height } : null,
+    after: after ? { width: after.width, height: after.height } : null,
+    changes,
+  };
+}
+
+/** Compare already extracted pages */
+export function compareWords(
+  before: PdfPageWords[],
+  after: PdfPageWords[]
+): PdfComparison {
+  const pages: PageComparison[] = [];
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    pages.push(comparePage(i + 1, before[i], after[i]));
+  }
+
+  const summary = { added: 0, removed: 0, changed: 0, pages_changed: 0 };
+  for (const page of pages) {
+    if (page.changes.length > 0) summary.pages_changed++;
+    for (const change of page.changes) summary[change.type]++;
+  }
+
+  return {
+    before_pages: before.length,
+    after_pages: after.length,
+    summary,
+    pages,
+  };
+}
+
+export async function comparePdfs(
+  before: Buffer,
+  after: Buffer
+): Promise<PdfComparison> {
+  // One at a time; each extraction holds a whole document in memory
+  const beforeWords = await extractPdfWords(before);
+  const afterWords = await extractPdfWords(after);
+  return compareWords(beforeWords, afterWords);
+}
@@ -0,0 +1,84 @@
+// Flattens a PDF by rendering every page, drawing on top of it, and
+// assembling the images into a new PDF. Whatever was drawn can no longer
+// be lifted off as a separate layer, annotation or form field.
+import * as path from "path";
+import { GlobalFonts } from "@napi-rs/canvas";
+import { jsPDF } from "jspdf";
+import { renderPdfPages, type RenderOptions } from "./pdf-render";
+import { WATERMARK_FONT_FAMILY } from "./watermark";
+
+/** Resolution pages are rendered at (PDF_FLATTEN_DPI) */
+const RENDER_DPI = Math.max(
+  72,
+  parseInt(process.env.PDF_FLATTEN_DPI || "150")
+);
+
+/** Regular weight of the bundled sans, for annotation text */
+export const ANNOTATION_FONT_FAMILY = "Annotation Sans";
+
+let fontsRegistered = false;
+
+/** Servers often have no system fonts; use the ones pdfjs ships */
+function registerFonts() {
+  if (fontsRegistered) return;
+  const fontPath = (file: string) =>
+    path.join(
+      process.cwd(),
+      "node_modules",
+      "pdfjs-dist",
+      "standard_fonts",
+      file
+    );
+  GlobalFonts.registerFromPath(
+    fontPath("LiberationSans-Bold.ttf"),
+    WATERMARK_FONT_FAMILY
+  );
+  GlobalFonts.registerFromPath(
+    fontPath("LiberationSans-Regular.ttf"),
+    ANNOTATION_FONT_FAMILY
+  );
+  fontsRegistered = true;
+}
+
+export async function flattenPdf(
+  pdf: Buffer,
+  decorate: NonNullable<RenderOptions["decorate"]>
+): Promise<Buffer> {
+  registerFonts();
+
+  // Pages are rendered as wide as a letter page at RENDER_DPI; other sizes
+  // keep their aspect ratio and are placed at their original point size
+  const { pages } = await renderPdfPages(
+    pdf,
+    (pageCount) =>
+      Array.from({ length: pageCount }, (_, i) => ({
+        pageNumber: i + 1,
+        width: Math.round((612 / 72) * RENDER_DPI),
+      })),
+    { format: "jpeg", decorate }
+  );
+  if (pages.length === 0) throw new Error("PDF has no pages");
+
+  let output: jsPDF | null = null;
+  for (const page of pages) {
+    const size: [number, number] = [page.pageWidth, page.pageHeight];
+    const orientation = page.pageWidth > page.pageHeight ? "l" : "p";
+    if (!output) {
+      output = new jsPDF({ unit: "pt", format: size, orientation });
+    } else {
+      output.addPage(size, orientation);
+    }
+    output.addImage(
+      new Uint8Array(page.image),
+      "JPEG",
+      0,
+      0,
+      page.pageWidth,
+      page.pageHeight,
+      undefined,
+      "FAST"
+    );
+  }
+
+  return Buffer.from(output!.output("arraybuffer"));
+}
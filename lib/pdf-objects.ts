@@ -0,0 +1,840 @@
+// A small PDF object reader and writer: enough to pull pages out of one or
+// more files and write them back out as a new file without re-rendering
+// them. pdfjs only reads and jsPDF only writes, and the text layer has to
+// survive for search and compare.
+import { constants, inflateSync } from "zlib";
+
+/** The file is damaged, encrypted, or uses a feature this reader lacks */
+export class PdfParseError extends Error {}
+
+export class PdfName {
+  constructor(readonly name: string) {}
+}
+
+export class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+/** A string kept exactly as written, delimiters and escapes included */
+export class PdfString {
+  constructor(readonly raw: string) {}
+}
+
+export class PdfDict {
+  constructor(readonly entries = new Map<string, PdfValue>()) {}
+
+  get(key: string): PdfValue | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: PdfValue) {
+    this.entries.set(key, value);
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+/** Stream data is kept encoded, as it appears in the file */
+export class PdfStream {
+  constructor(readonly dict: PdfDict, readonly data: Buffer) {}
+}
+
+export type PdfValue =
+  | null
+  | boolean
+  | number
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfDict
+  | PdfStream
+  | PdfValue[];
+
+export interface PdfPage {
+  ref: PdfRef;
+  /** The page dictionary with inherited attributes copied onto it */
+  dict: PdfDict;
+}
+
+type XrefEntry =
+  | { type: 0 }
+  | { type: 1; offset: number }
+  | { type: 2; stream: number; index: number };
+
+// Page attributes a page may inherit from its ancestors in the page tree
+const INHERITED = ["Resources", "MediaBox", "CropBox", "Rotate"];
+
+const WHITESPACE = "\0\t\n\f\r ";
+const DELIMITERS = "()<>[]{}/%";
+
+function isRegular(char: string | undefined): boolean {
+  return (
+    char !== undefined &&
+    !WHITESPACE.includes(char) &&
+    !DELIMITERS.includes(char)
+  );
+}
+
+export function isName(value: PdfValue | undefined, name?: string) {
+  return (
+    value instanceof PdfName && (name === undefined || value.name === name)
+  );
+}
+
+class Lexer {
+  constructor(readonly src: string, public pos = 0) {}
+
+  skipWhitespace() {
+    const { src } = this;
+    while (this.pos < src.length) {
+      const char = src[this.pos];
+      if (WHITESPACE.includes(char)) {
+        this.pos++;
+      } else if (char === "%") {
+        while (this.pos < src.length && !"\r\n".includes(src[this.pos])) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** A run of regular characters: a number, keyword or operator */
+  readToken(): string {
+    this.skipWhitespace();
+    const start = this.pos;
+    while (isRegular(this.src[this.pos])) this.pos++;
+    return this.src.slice(start, this.pos);
+  }
+
+  readInteger(): number {
+    const token = this.readToken();
+    if (!/^\d+$/.test(token)) {
+      throw new PdfParseError(`Expected an integer at ${this.pos}`);
+    }
+    return Number(token);
+  }
+
+  readValue(): PdfValue {
+    this.skipWhitespace();
+    const { src } = this;
+    const char = src[this.pos];
+
+    if (char === undefined) {
+      throw new PdfParseError("Unexpected end of file");
+    }
+    if (char === "/") {
+      this.pos++;
+      const start = this.pos;
+      while (isRegular(src[this.pos])) this.pos++;
+      return new PdfName(
+        src
+          .slice(start, this.pos)
+          .replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+            String.fromCharCode(parseInt(hex, 16))
+          )
+      );
+    }
+    if (char === "(") {
+      return new PdfString(this.readLiteralString());
+    }
+    if (char === "<" && src[this.pos + 1] === "<") {
+      this.pos += 2;
+      const dict = new PdfDict();
+      for (;;) {
+        this.skipWhitespace();
+        if (src.startsWith(">>", this.pos)) {
+          this.pos += 2;
+          return dict;
+        }
+        const key = this.readValue();
+        if (!(key instanceof PdfName)) {
+          throw new PdfParseError(`Expected a name at ${this.pos}`);
+        }
+        dict.set(key.name, this.readValue());
+      }
+    }
+    if (char === "<") {
+      const end = src.indexOf(">", this.pos);
+      if (end < 0) throw new PdfParseError("Unterminated hex string");
+      const raw = src.slice(this.pos, end + 1);
+      this.pos = end + 1;
+      return new PdfString(raw);
+    }
+    if (char === "[") {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (src[this.pos] === "]") {
+          this.pos++;
+          return items;
+        }
+        items.push(this.readValue());
+      }
+    }
+
+    const token = this.readToken();
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (token === "null") return null;
+    if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      throw new PdfParseError(
+        `Unexpected ${JSON.stringify(token || char)} at ${this.pos}`
+      );
+    }
+
+    // "12 0 R" is a reference; anything else leaves the number alone
+    if (/^\d+$/.test(token)) {
+      const mark = this.pos;
+      const gen = this.readToken();
+      if (/^\d+$/.test(gen) && this.readToken() === "R") {
+        return new PdfRef(Number(token), Number(gen));
+      }
+      this.pos = mark;
+    }
+    return Number(token);
+  }
+
+  private readLiteralString(): string {
+    const { src } = this;
+    const start = this.pos;
+    let depth = 0;
+    while (this.pos < src.length) {
+      const char = src[this.pos++];
+      if (char === "\\") {
+        this.pos++;
+      } else if (char === "(") {
+        depth++;
+      } else if (char === ")" && --depth === 0) {
+        return src.slice(start, this.pos);
+      }
+    }
+    throw new PdfParseError("Unterminated string");
+  }
+}
+
+/** Undo the PNG row filters used by xref and object streams */
+function unpredict(data: Buffer, params: PdfDict | null): Buffer {
+  const predictor = Number(params?.get("Predictor") ?? 1);
+  if (predictor < 10) {
+    if (predictor === 1) return data;
+    throw new PdfParseError(`Unsupported predictor ${predictor}`);
+  }
+
+  const colors = Number(params?.get("Colors") ?? 1);
+  const bits = Number(params?.get("BitsPerComponent") ?? 8);
+  const columns = Number(params?.get("Columns") ?? 1);
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bits) / 8));
+  const rowLength = Math.ceil((colors * bits * columns) / 8);
+
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = Buffer.alloc(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const input = row * (rowLength + 1) + 1;
+    const offset = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? out[offset + i - bytesPerPixel] : 0;
+      const up = row > 0 ? out[offset + i - rowLength] : 0;
+      const upLeft =
+        row > 0 && i >= bytesPerPixel
+          ? out[offset + i - rowLength - bytesPerPixel]
+          : 0;
+      let value = data[input + i];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += Math.floor((left + up) / 2);
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        value += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      out[offset + i] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+export class PdfDocument {
+  private readonly src: string;
+  private readonly xref = new Map<number, XrefEntry>();
+  private readonly cache = new Map<number, PdfValue>();
+  private readonly objectStreams = new Map<
+    number,
+    { src: string; offsets: number[] }
+  >();
+  trailer = new PdfDict();
+
+  private constructor(data: Buffer) {
+    this.src = data.toString("latin1");
+  }
+
+  /**
+   * Read a file's cross-reference data. Files whose xref is missing or
+   * points at the wrong offsets are recovered by scanning for objects.
+   */
+  static load(data: Buffer): PdfDocument {
+    const doc = new PdfDocument(data);
+    const header = doc.src.indexOf("%PDF-");
+    if (header < 0 || header > 1024) {
+      throw new PdfParseError("Not a PDF file");
+    }
+
+    try {
+      doc.readXrefChain();
+      if (!(doc.resolve(doc.trailer.get("Root")) instanceof PdfDict)) {
+        throw new PdfParseError("Missing document catalog");
+      }
+    } catch {
+      doc.xref.clear();
+      doc.cache.clear();
+      doc.objectStreams.clear();
+      doc.trailer = new PdfDict();
+      doc.reconstructXref();
+    }
+
+    if (doc.trailer.get("Encrypt") !== undefined) {
+      throw new PdfParseError("Encrypted PDFs can't be edited");
+    }
+    if (!(doc.resolve(doc.trailer.get("Root")) instanceof PdfDict)) {
+      throw new PdfParseError("Missing document catalog");
+    }
+    return doc;
+  }
+
+  /** The object with this number, or undefined when there is none */
+  get(num: number): PdfValue | undefined {
+    if (this.cache.has(num)) return this.cache.get(num);
+    const entry = this.xref.get(num);
+    if (!entry || entry.type === 0) return undefined;
+
+    // Cache first so a stream whose /Length refers back to it terminates
+    this.cache.set(num, null);
+    let value: PdfValue;
+    try {
+      value =
+        entry.type === 1
+          ? this.readObjectAt(entry.offset).value
+          : this.readFromObjectStream(entry.stream, entry.index);
+    } catch (err) {
+      this.cache.delete(num);
+      throw err;
+    }
+    this.cache.set(num, value);
+    return value;
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    return value instanceof PdfRef ? this.get(value.num) : value;
+  }
+
+  /** Every page in order, with inherited attributes resolved */
+  getPages(): PdfPage[] {
+    const catalog = this.resolve(this.trailer.get("Root")) as PdfDict;
+    const root = catalog.get("Pages");
+    const pages: PdfPage[] = [];
+    const visited = new Set<number>();
+
+    const walk = (ref: PdfValue | undefined, inherited: PdfDict) => {
+      if (!(ref instanceof PdfRef) || visited.has(ref.num)) return;
+      visited.add(ref.num);
+      const node = this.get(ref.num);
+      if (!(node instanceof PdfDict)) return;
+
+      const kids = this.resolve(node.get("Kids"));
+      if (Array.isArray(kids) && !isName(node.get("Type"), "Page")) {
+        const next = new PdfDict(new Map(inherited.entries));
+        for (const key of INHERITED) {
+          const value = node.get(key);
+          if (value !== undefined) next.set(key, value);
+        }
+        kids.forEach((kid) => walk(kid, next));
+        return;
+      }
+
+      const dict = new PdfDict(new Map(node.entries));
+      for (const key of INHERITED) {
+        if (dict.get(key) === undefined && inherited.get(key) !== undefined) {
+          dict.set(key, inherited.get(key)!);
+        }
+      }
+      pages.push({ ref, dict });
+    };
+
+    walk(root, new PdfDict());
+    if (pages.length === 0) throw new PdfParseError("The PDF has no pages");
+    return pages;
+  }
+
+  /** Decoded contents of a stream; only FlateDecode is supported */
+  decodeStream(stream: PdfStream): Buffer {
+    const filter = this.resolve(stream.dict.get("Filter"));
+    const filters = (Array.isArray(filter) ? filter : [filter]).filter(
+      (f) => f !== undefined && f !== null
+    );
+    const params = this.resolve(stream.dict.get("DecodeParms"));
+    let data = stream.data;
+    filters.forEach((f, i) => {
+      if (!isName(f, "FlateDecode")) {
+        throw new PdfParseError(
+          `Unsupported filter ${f instanceof PdfName ? f.name : "?"}`
+        );
+      }
+      // Tolerate streams that were cut short or lack their checksum
+      data = inflateSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+      const p = Array.isArray(params) ? this.resolve(params[i]) : params;
+      data = unpredict(data, p instanceof PdfDict ? p : null);
+    });
+    return data;
+  }
+
+  private readObjectAt(
+    offset: number,
+    src = this.src
+  ): { num: number; value: PdfValue } {
+    const lexer = new Lexer(src, offset);
+    const num = lexer.readInteger();
+    lexer.readInteger();
+    if (lexer.readToken() !== "obj") {
+      throw new PdfParseError(`No object at offset ${offset}`);
+    }
+    const value = lexer.readValue();
+    if (!(value instanceof PdfDict)) return { num, value };
+
+    const mark = lexer.pos;
+    if (lexer.readToken() !== "stream") {
+      lexer.pos = mark;
+      return { num, value };
+    }
+
+    // The data starts after the EOL that follows the keyword
+    let start = lexer.pos;
+    if (src[start] === "\r") start++;
+    if (src[start] === "\n") start++;
+
+    const length = this.resolve(value.get("Length"));
+    let end =
+      typeof length === "number" && length >= 0 ? start + length : -1;
+    if (end < 0 || !/^\s*endstream/.test(src.slice(end, end + 20))) {
+      // Wrong or missing /Length: the data runs up to the keyword
+      end = src.indexOf("endstream", start);
+      if (end < 0) throw new PdfParseError("Unterminated stream");
+      if (src[end - 1] === "\n") end--;
+      if (src[end - 1] === "\r") end--;
+    }
+    return {
+      num,
+      value: new PdfStream(value, Buffer.from(src.slice(start, end), "latin1")),
+    };
+  }
+
+  private readFromObjectStream(streamNum: number, index: number): PdfValue {
+    let parsed = this.objectStreams.get(streamNum);
+    if (!parsed) {
+      const stream = this.get(streamNum);
+      if (!(stream instanceof PdfStream)) {
+        throw new PdfParseError(`Object stream ${streamNum} is missing`);
+      }
+      const src = this.decodeStream(stream).toString("latin1");
+      const count = Number(this.resolve(stream.dict.get("N")) ?? 0);
+      const first = Number(this.resolve(stream.dict.get("First")) ?? 0);
+      const lexer = new Lexer(src);
+      const offsets: number[] = [];
+      for (let i = 0; i < count; i++) {
+        lexer.readInteger();
+        offsets.push(first + lexer.readInteger());
+      }
+      parsed = { src, offsets };
+      this.objectStreams.set(streamNum, parsed);
+    }
+
+    const offset = parsed.offsets[index];
+    if (offset === undefined) {
+      throw new PdfParseError(`No object ${index} in stream ${streamNum}`);
+    }
+    return new Lexer(parsed.src, offset).readValue();
+  }
+
+  /** Follow startxref and every /Prev; newer sections win */
+  private readXrefChain() {
+    const startxref = this.src.lastIndexOf("startxref");
+    if (startxref < 0) throw new PdfParseError("Missing startxref");
+    let offset: number | null = new Lexer(
+      this.src,
+      startxref + "startxref".length
+    ).readInteger();
+
+    const seen = new Set<number>();
+    while (offset !== null && !seen.has(offset)) {
+      seen.add(offset);
+      const trailer = this.readXrefSection(offset);
+      for (const [key, value] of Array.from(trailer.entries)) {
+        if (this.trailer.get(key) === undefined) this.trailer.set(key, value);
+      }
+
+      // Hybrid files list their compressed objects in a separate stream
+      const xrefStm = trailer.get("XRefStm");
+      if (typeof xrefStm === "number" && !seen.has(xrefStm)) {
+        seen.add(xrefStm);
+        this.readXrefSection(xrefStm);
+      }
+      const prev = trailer.get("Prev");
+      offset = typeof prev === "number" ? prev : null;
+    }
+  }
+
+  private setEntry(num: number, entry: XrefEntry) {
+    // Sections are read newest first; a free entry hides older ones too
+    if (!this.xref.has(num)) this.xref.set(num, entry);
+  }
+
+  private readXrefSection(offset: number): PdfDict {
+    const lexer = new Lexer(this.src, offset);
+    if (lexer.readToken() === "xref") {
+      for (;;) {
+        const mark = lexer.pos;
+        const token = lexer.readToken();
+        if (token === "trailer") break;
+        if (!/^\d+$/.test(token)) {
+          lexer.pos = mark;
+          throw new PdfParseError("Malformed xref table");
+        }
+        const first = Number(token);
+        const count = lexer.readInteger();
+        for (let i = 0; i < count; i++) {
+          const entryOffset = lexer.readInteger();
+          lexer.readInteger();
+          const type = lexer.readToken();
+          this.setEntry(
+            first + i,
+            type === "n" ? { type: 1, offset: entryOffset } : { type: 0 }
+          );
+        }
+      }
+      const trailer = lexer.readValue();
+      if (!(trailer instanceof PdfDict)) {
+        throw new PdfParseError("Malformed trailer");
+      }
+      return trailer;
+    }
+
+    const { value } = this.readObjectAt(offset);
+    if (
+      !(value instanceof PdfStream) ||
+      !isName(value.dict.get("Type"), "XRef")
+    ) {
+      throw new PdfParseError(`No xref at offset ${offset}`);
+    }
+    const dict = value.dict;
+    const widths = (this.resolve(dict.get("W")) as number[]) ?? [];
+    const size = Number(dict.get("Size") ?? 0);
+    const index = (this.resolve(dict.get("Index")) as number[]) ?? [0, size];
+    const data = this.decodeStream(value);
+    const rowLength = widths.reduce((sum, w) => sum + Number(w), 0);
+
+    const field = (row: number, column: number, fallback: number) => {
+      if (!widths[column]) return fallback;
+      let start = row * rowLength;
+      for (let i = 0; i < column; i++) start += widths[i];
+      let result = 0;
+      for (let i = 0; i < widths[column]; i++) {
+        result = result * 256 + data[start + i];
+      }
+      return result;
+    };
+
+    let row = 0;
+    for (let i = 0; i + 1 < index.length; i += 2) {
+      for (let j = 0; j < index[i + 1]; j++, row++) {
+        if ((row + 1) * rowLength > data.length) break;
+        const type = field(row, 0, 1);
+        const a = field(row, 1, 0);
+        const b = field(row, 2, 0);
+        this.setEntry(
+          index[i] + j,
+          type === 1
+            ? { type: 1, offset: a }
+            : type === 2
+              ? { type: 2, stream: a, index: b }
+              : { type: 0 }
+        );
+      }
+    }
+    return dict;
+  }
+
+  /** Rebuild the xref of a damaged file from the objects it contains */
+  private reconstructXref() {
+    const pattern = /(?:^|[\r\n\s])(\d+)\s+(\d+)\s+obj\b/g;
+    const offsets = new Map<number, number>();
+    for (const match of Array.from(this.src.matchAll(pattern))) {
+      const offset = (match.index ?? 0) + match[0].indexOf(match[1]);
+      // Later definitions replace earlier ones, as in an incremental update
+      offsets.set(Number(match[1]), offset);
+    }
+    offsets.forEach((offset, num) => this.xref.set(num, { type: 1, offset }));
+
+    // Objects packed into object streams, unless also stored directly
+    for (const num of Array.from(offsets.keys())) {
+      let value: PdfValue | undefined;
+      try {
+        value = this.get(num);
+      } catch {
+        continue;
+      }
+      if (!(value instanceof PdfStream)) continue;
+      const type = value.dict.get("Type");
+      if (isName(type, "ObjStm")) {
+        try {
+          const src = this.decodeStream(value).toString("latin1");
+          const lexer = new Lexer(src);
+          const count = Number(value.dict.get("N") ?? 0);
+          for (let i = 0; i < count; i++) {
+            const objNum = lexer.readInteger();
+            lexer.readInteger();
+            if (!offsets.has(objNum)) {
+              this.xref.set(objNum, { type: 2, stream: num, index: i });
+            }
+          }
+        } catch {
+          // An unreadable object stream just loses its objects
+        }
+      } else if (isName(type, "XRef")) {
+        for (const [key, entry] of Array.from(value.dict.entries)) {
+          if (this.trailer.get(key) === undefined) this.trailer.set(key, entry);
+        }
+      }
+    }
+
+    const trailerPattern = /trailer\s*<</g;
+    for (const match of Array.from(this.src.matchAll(trailerPattern))) {
+      try {
+        const trailer = new Lexer(
+          this.src,
+          (match.index ?? 0) + "trailer".length
+        ).readValue();
+        if (trailer instanceof PdfDict) {
+          trailer.entries.forEach((value, key) => this.trailer.set(key, value));
+        }
+      } catch {
+        // Keep whatever the other trailers provided
+      }
+    }
+
+    if (!(this.resolve(this.trailer.get("Root")) instanceof PdfDict)) {
+      // Last resort: any catalog in the file
+      for (const num of Array.from(offsets.keys())) {
+        try {
+          const value = this.get(num);
+          if (
+            value instanceof PdfDict &&
+            isName(value.get("Type"), "Catalog")
+          ) {
+            this.trailer.set("Root", new PdfRef(num, 0));
+            break;
+          }
+        } catch {
+          continue;
+        }
+      }
+    }
+  }
+}
+
+export interface PageToWrite {
+  doc: PdfDocument;
+  page: PdfPage;
+  /** Degrees clockwise, a multiple of 90 */
+  rotate?: number;
+}
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  return value.toFixed(6).replace(/\.?0+$/, "") || "0";
+}
+
+function formatName(name: string): string {
+  return (
+    "/" +
+    name.replace(/[^\x21-\x7e]|[#()<>[\]{}/%]/g, (char) =>
+      "#" + char.charCodeAt(0).toString(16).padStart(2, "0")
+    )
+  );
+}
+
+function serialize(value: PdfValue): string {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") return formatNumber(value);
+  if (value instanceof PdfName) return formatName(value.name);
+  if (value instanceof PdfString) return value.raw;
+  if (value instanceof PdfRef) return `${value.num} ${value.gen} R`;
+  if (Array.isArray(value)) return `[${value.map(serialize).join(" ")}]`;
+  if (value instanceof PdfDict) {
+    let out = "<<";
+    value.entries.forEach((entry, key) => {
+      out += `${formatName(key)} ${serialize(entry)}`;
+    });
+    return out + ">>";
+  }
+  throw new PdfParseError("Streams must be indirect objects");
+}
+
+/**
+ * Write the given pages, which may come from different files, as a new
+ * PDF. Everything the pages use (content, fonts, images, annotations) is
+ * copied; references to pages that aren't written become null. Document
+ * level structures such as outlines and form fields are not carried over.
+ */
+export function writePdf(pages: PageToWrite[]): Buffer {
+  if (pages.length === 0) throw new PdfParseError("No pages to write");
+
+  const objects: (PdfValue | undefined)[] = [null];
+  const allocate = () => objects.push(undefined) - 1;
+  const catalogNum = allocate();
+  const pagesNum = allocate();
+
+  // Old object number → new, per source file
+  const numbers = new Map<PdfDocument, Map<number, number>>();
+  const pageNumbers = new Map<PdfDocument, Map<number, number>>();
+  const queue: { doc: PdfDocument; from: number; to: number }[] = [];
+
+  const mapFor = <K, V>(
+    map: Map<PdfDocument, Map<K, V>>,
+    doc: PdfDocument
+  ) => {
+    let inner = map.get(doc);
+    if (!inner) {
+      inner = new Map<K, V>();
+      map.set(doc, inner);
+    }
+    return inner;
+  };
+
+  const pageNums = pages.map(({ doc, page }) => {
+    const num = allocate();
+    const byDoc = mapFor(pageNumbers, doc);
+    // A page written twice is still one link target: the first copy
+    if (!byDoc.has(page.ref.num)) byDoc.set(page.ref.num, num);
+    return num;
+  });
+
+  const copy = (doc: PdfDocument, value: PdfValue): PdfValue => {
+    if (value instanceof PdfRef) {
+      const pageNum = pageNumbers.get(doc)?.get(value.num);
+      if (pageNum !== undefined) return new PdfRef(pageNum, 0);
+
+      const byDoc = mapFor(numbers, doc);
+      const known = byDoc.get(value.num);
+      if (known !== undefined) return new PdfRef(known, 0);
+
+      const target = doc.get(value.num);
+      if (target === undefined) return null;
+      if (target instanceof PdfDict && isName(target.get("Type"), "Page")) {
+        return null;
+      }
+      const num = allocate();
+      byDoc.set(value.num, num);
+      queue.push({ doc, from: value.num, to: num });
+      return new PdfRef(num, 0);
+    }
+    if (Array.isArray(value)) return value.map((item) => copy(doc, item));
+    if (value instanceof PdfDict) {
+      const dict = new PdfDict();
+      value.entries.forEach((entry, key) => dict.set(key, copy(doc, entry)));
+      return dict;
+    }
+    if (value instanceof PdfStream) {
+      const dict = copy(doc, value.dict) as PdfDict;
+      dict.set("Length", value.data.length);
+      return new PdfStream(dict, value.data);
+    }
+    return value;
+  };
+
+  pages.forEach(({ doc, page, rotate = 0 }, i) => {
+    const dict = new PdfDict();
+    page.dict.entries.forEach((value, key) => {
+      // Article beads and structure keys point into trees we don't copy
+      if (["Parent", "B", "StructParents"].includes(key)) return;
+      dict.set(key, copy(doc, value));
+    });
+    dict.set("Type", new PdfName("Page"));
+    dict.set("Parent", new PdfRef(pagesNum, 0));
+
+    const current = Number(doc.resolve(page.dict.get("Rotate")) ?? 0) || 0;
+    const angle = (((current + rotate) % 360) + 360) % 360;
+    if (angle) dict.set("Rotate", angle);
+    else dict.delete("Rotate");
+    objects[pageNums[i]] = dict;
+  });
+
+  const first = pages[0].doc;
+  const info = first.resolve(first.trailer.get("Info"));
+  const infoNum = info instanceof PdfDict ? allocate() : null;
+  if (infoNum) objects[infoNum] = copy(first, info!);
+
+  for (let i = 0; i < queue.length; i++) {
+    const { doc, from, to } = queue[i];
+    objects[to] = copy(doc, doc.get(from) ?? null);
+  }
+
+  objects[pagesNum] = new PdfDict(
+    new Map<string, PdfValue>([
+      ["Type", new PdfName("Pages")],
+      ["Kids", pageNums.map((num) => new PdfRef(num, 0))],
+      ["Count", pageNums.length],
+    ])
+  );
+  objects[catalogNum] = new PdfDict(
+    new Map<string, PdfValue>([
+      ["Type", new PdfName("Catalog")],
+      ["Pages", new PdfRef(pagesNum, 0)],
+    ])
+  );
+
+  const chunks: Buffer[] = [];
+  let length = 0;
+  const write = (data: string | Buffer) => {
+    const chunk = typeof data === "string" ? Buffer.from(data, "latin1") : data;
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  // The binary comment tells transfer tools the file isn't plain text
+  write("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n");
+  const offsets: number[] = [0];
+
+  for (let num = 1; num < objects.length; num++) {
+    offsets[num] = length;
+    const value = objects[num] ?? null;
+    write(`${num} 0 obj\n`);
+    if (value instanceof PdfStream) {
+      write(`${serialize(value.dict)}\nstream\n`);
+      write(value.data);
+      write("\nendstream");
+    } else {
+      write(serialize(value));
+    }
+    write("\nendobj\n");
+  }
+
+  const xrefOffset = length;
+  let xref = `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let num = 1; num < objects.length; num++) {
+    xref += `${String(offsets[num]).padStart(10, "0")} 00000 n \n`;
+  }
+  write(xref);
+  write(
+    `trailer\n<</Size ${objects.length} /Root ${catalogNum} 0 R${
+      infoNum ? ` /Info ${infoNum} 0 R` : ""
+    }>>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+  return Buffer.concat(chunks, length);
+}
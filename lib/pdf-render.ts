@@ -0,0 +1,167 @@
+// Server-side PDF page rendering using the legacy (Node-compatible) pdfjs
+// build and @napi-rs/canvas, which ships prebuilt binaries for every platform
+import * as path from "path";
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf";
+import {
+  createCanvas,
+  DOMMatrix,
+  Path2D,
+  type Canvas,
+  type SKRSContext2D,
+} from "@napi-rs/canvas";
+
+// pdfjs looks these up on globalThis while drawing and Node has neither
+const globals = globalThis as any;
+globals.DOMMatrix ??= DOMMatrix;
+globals.Path2D ??= Path2D;
+
+export interface PageRenderRequest {
+  pageNumber: number;
+  /** Output width in pixels; the height follows the page's aspect ratio */
+  width: number;
+}
+
+export interface RenderedPage<R extends PageRenderRequest> {
+  /** The request this image was rendered for */
+  request: R;
+  pageNumber: number;
+  width: number;
+  height: number;
+  /** Page size in PDF points */
+  pageWidth: number;
+  pageHeight: number;
+  /** Encoded in the requested format, PNG by default */
+  image: Buffer;
+}
+
+export interface RenderOptions {
+  format?: "png" | "jpeg";
+  /** JPEG quality, 0-1 */
+  quality?: number;
+  /**
+   * Draw on top of a rendered page before it is encoded. The context is
+   * scaled so one unit is one PDF point.
+   */
+  decorate?: (
+    context: SKRSContext2D,
+    page: { pageNumber: number; pageWidth: number; pageHeight: number }
+  ) => void;
+}
+
+interface CanvasAndContext {
+  canvas: Canvas | null;
+  context: SKRSContext2D | null;
+}
+
+/**
+ * pdfjs's built-in Node factory requires the `canvas` package, which
+ * needs native build tools; this one hands it @napi-rs/canvas instead.
+ */
+class NapiCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext("2d") };
+  }
+
+  reset(entry: CanvasAndContext, width: number, height: number) {
+    if (!entry.canvas) throw new Error("Canvas is not specified");
+    entry.canvas.width = width;
+    entry.canvas.height = height;
+  }
+
+  destroy(entry: CanvasAndContext) {
+    if (entry.canvas) {
+      entry.canvas.width = 0;
+      entry.canvas.height = 0;
+    }
+    entry.canvas = null;
+    entry.context = null;
+  }
+}
+
+/**
+ * Render the requested pages of a PDF on a white background. Requests for
+ * pages past the end of the document are skipped; pass a function to build
+ * them once the page count is known.
+ */
+export async function renderPdfPages<R extends PageRenderRequest>(
+  data: Buffer,
+  requests: R[] | ((pageCount: number) => R[]),
+  options: RenderOptions = {}
+): Promise<{ pageCount: number; pages: RenderedPage<R>[] }> {
+  const canvasFactory = new NapiCanvasFactory();
+  const loadingTask = pdfjs.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    disableFontFace: true,
+    canvasFactory,
+    // Fonts a PDF references but doesn't embed (Helvetica, Times, ...)
+    standardFontDataUrl:
+      path.join(process.cwd(), "node_modules", "pdfjs-dist", "standard_fonts") +
+      path.sep,
+  });
+  const pdf = await loadingTask.promise;
+
+  try {
+    const pages: RenderedPage<R>[] = [];
+    const wanted =
+      typeof requests === "function" ? requests(pdf.numPages) : requests;
+    for (const request of wanted) {
+      if (request.pageNumber < 1 || request.pageNumber > pdf.numPages) continue;
+
+      const page = await pdf.getPage(request.pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({
+        scale: request.width / unscaled.width,
+      });
+      const width = Math.max(1, Math.round(viewport.width));
+      const height = Math.max(1, Math.round(viewport.height));
+
+      const entry = canvasFactory.create(width, height);
+      try {
+        const context = entry.context!;
+        context.fillStyle = "#ffffff";
+        context.fillRect(0, 0, width, height);
+
+        await page.render({
+          canvasContext: context as unknown as CanvasRenderingContext2D,
+          viewport,
+        }).promise;
+
+        if (options.decorate) {
+          context.save();
+          context.scale(width / unscaled.width, height / unscaled.height);
+          options.decorate(context, {
+            pageNumber: request.pageNumber,
+            pageWidth: unscaled.width,
+            pageHeight: unscaled.height,
+          });
+          context.restore();
+        }
+
+        pages.push({
+          request,
+          pageNumber: request.pageNumber,
+          width,
+          height,
+          pageWidth: unscaled.width,
+          pageHeight: unscaled.height,
+          image:
+            options.format === "jpeg"
+              ? entry.canvas!.toBuffer(
+                  "image/jpeg",
+                  Math.round((options.quality ?? 0.85) * 100)
+                )
+              : entry.canvas!.toBuffer("image/png"),
+        });
+      } finally {
+        canvasFactory.destroy(entry);
+        page.cleanup();
+      }
+    }
+    return { pageCount: pdf.numPages, pages };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,127 @@
+// Server-side PDF text extraction using the legacy (Node-compatible) pdfjs build
+import * as path from "path";
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf";
+
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+}
+
+/** A box in PDF points, measured from the top left of the page */
+export interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfWord extends PdfBox {
+  text: string;
+}
+
+export interface PdfPageWords {
+  pageNumber: number;
+  /** Page size in PDF points */
+  width: number;
+  height: number;
+  words: PdfWord[];
+}
+
+function loadPdf(data: Buffer) {
+  return pdfjs.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    disableFontFace: true,
+    // Fonts a PDF references but doesn't embed (Helvetica, Times, ...)
+    standardFontDataUrl:
+      path.join(process.cwd(), "node_modules", "pdfjs-dist", "standard_fonts") +
+      path.sep,
+  }).promise;
+}
+
+/**
+ * Extract the text of every page of a PDF.
+ * Text items are joined with spaces, and with newlines where pdfjs marks an
+ * end of line, so words from adjacent runs don't run together.
+ */
+export async function extractPdfPages(data: Buffer): Promise<PdfPageText[]> {
+  const pdf = await loadPdf(data);
+
+  try {
+    const pages: PdfPageText[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      let text = "";
+      for (const item of content.items as any[]) {
+        if (typeof item.str !== "string") continue;
+        text += item.str;
+        text += item.hasEOL ? "\n" : " ";
+      }
+
+      pages.push({
+        pageNumber,
+        text: text.replace(/[ \t]+/g, " ").trim(),
+      });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Extract the words of every page with their positions. pdfjs reports
+ * runs of text, so words within a run get a share of its width in
+ * proportion to their length.
+ */
+export async function extractPdfWords(data: Buffer): Promise<PdfPageWords[]> {
+  const pdf = await loadPdf(data);
+
+  try {
+    const pages: PdfPageWords[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const words: PdfWord[] = [];
+      for (const item of content.items as any[]) {
+        if (typeof item.str !== "string" || !item.str.trim()) continue;
+
+        // Baseline origin and font height in viewport (top-left) space
+        const [, , c, d, x, baseline] = pdfjs.Util.transform(
+          viewport.transform,
+          item.transform
+        );
+        const height = Math.hypot(c, d) || Number(item.height) || 0;
+        const charWidth = Number(item.width || 0) / item.str.length;
+
+        const matches = Array.from((item.str as string).matchAll(/\S+/g));
+        for (const match of matches) {
+          words.push({
+            text: match[0],
+            x: x + (match.index ?? 0) * charWidth,
+            y: baseline - height,
+            width: match[0].length * charWidth,
+            height,
+          });
+        }
+      }
+
+      pages.push({
+        pageNumber,
+        width: viewport.width,
+        height: viewport.height,
+        words,
+      });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
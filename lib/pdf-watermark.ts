@@ -0,0 +1,13 @@
+// Burns a watermark into a PDF. The pages are flattened with the mark on
+// top, so it cannot be lifted off as a separate layer or annotation.
+import { flattenPdf } from "./pdf-flatten";
+import { drawWatermark, type ResolvedWatermark } from "./watermark";
+
+export async function burnWatermark(
+  pdf: Buffer,
+  watermark: ResolvedWatermark
+): Promise<Buffer> {
+  return flattenPdf(pdf, (context, page) =>
+    drawWatermark(context, page.pageWidth, page.pageHeight, watermark)
+  );
+}
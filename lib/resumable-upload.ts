@@ -0,0 +1,239 @@
+// Browser side of the chunked upload protocol in lib/upload-sessions.ts.
+// Session ids are remembered in localStorage by file fingerprint, so after
+// a page refresh re-selecting the same file continues where it stopped.
+
+import type { DuplicateDocument } from "@/lib/document-content";
+import type { AssignmentType } from "@/lib/document-upload";
+
+const STORAGE_KEY = "dms:pending-uploads";
+const MAX_ATTEMPTS = 4;
+
+export interface PendingUpload {
+  sessionId: string;
+  fileName: string;
+  fileSize: number;
+  title: string;
+  savedAt: string;
+}
+
+export interface ResumableUploadMeta {
+  title: string;
+  description: string;
+  selectedUser: string;
+  /** A user (the default), or a role or department queue */
+  assignmentType?: AssignmentType;
+  assignedRole?: string;
+  assignedDepartment?: string;
+  /** Upload even if the same file is already among the user's documents */
+  allowDuplicate?: boolean;
+}
+
+/** Error from the server that retrying the same request won't fix */
+class PermanentUploadError extends Error {}
+
+/** The server found documents the user can see with the same file */
+export class DuplicateUploadError extends PermanentUploadError {
+  constructor(message: string, readonly duplicates: DuplicateDocument[]) {
+    super(message);
+  }
+}
+
+function fingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readPending(): Record<string, PendingUpload> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function writePending(pending: Record<string, PendingUpload>) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+}
+
+function rememberSession(file: File, entry: PendingUpload) {
+  writePending({ ...readPending(), [fingerprint(file)]: entry });
+}
+
+function forgetSession(sessionId: string) {
+  const pending = readPending();
+  for (const [key, entry] of Object.entries(pending)) {
+    if (entry.sessionId === sessionId) delete pending[key];
+  }
+  writePending(pending);
+}
+
+/** Uploads started in an earlier page load that never finished */
+export function listPendingUploads(): PendingUpload[] {
+  if (typeof window === "undefined") return [];
+  return Object.values(readPending());
+}
+
+/** Cancel an unfinished upload on the server and forget it locally */
+export async function discardPendingUpload(sessionId: string): Promise<void> {
+  try {
+    await fetch(
+      `/api/documents/upload/sessions/${encodeURIComponent(sessionId)}`,
+      { method: "DELETE" }
+    );
+  } finally {
+    forgetSession(sessionId);
+  }
+}
+
+/** Chunked uploads need SubtleCrypto, which is only on secure origins */
+export function canUploadResumably(): boolean {
+  return typeof window !== "undefined" && !!window.crypto?.subtle;
+}
+
+async function sha256Hex(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Send a request, retrying network failures and 5xx/408/429 responses with
+ * exponential backoff. Other 4xx responses fail straight away.
+ */
+async function requestWithRetry(
+  url: string,
+  init: RequestInit
+): Promise<any> {
+  let lastError: Error = new Error("Upload failed");
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (attempt > 0) await sleep(1000 * 2 ** (attempt - 1));
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      lastError = new Error("Network error during upload");
+      continue;
+    }
+
+    const json = await response.json().catch(() => ({}));
+    if (response.ok) return json;
+
+    const message = json?.error || `Upload failed (${response.status})`;
+    const retryable =
+      response.status >= 500 ||
+      response.status === 408 ||
+      response.status === 429;
+    if (!retryable) {
+      if (response.status === 409 && Array.isArray(json?.duplicates)) {
+        throw new DuplicateUploadError(message, json.duplicates);
+      }
+      const error = new PermanentUploadError(message);
+      (error as any).status = response.status;
+      throw error;
+    }
+    lastError = new Error(message);
+  }
+
+  throw lastError;
+}
+
+/** The server's view of a remembered session, or null if it's unusable */
+async function loadRememberedSession(file: File): Promise<any | null> {
+  const entry = readPending()[fingerprint(file)];
+  if (!entry) return null;
+
+  try {
+    const { session } = await requestWithRetry(
+      `/api/documents/upload/sessions/${encodeURIComponent(entry.sessionId)}`,
+      { method: "GET" }
+    );
+    if (session?.status === "uploading" || session?.status === "completed") {
+      return session;
+    }
+  } catch (error) {
+    if (!(error instanceof PermanentUploadError)) throw error;
+  }
+
+  forgetSession(entry.sessionId);
+  return null;
+}
+
+/**
+ * Upload a PDF through a resumable session and return the new document id.
+ * `onProgress` receives the percentage of bytes the server has confirmed.
+ */
+export async function uploadFileResumable(
+  file: File,
+  meta: ResumableUploadMeta,
+  onProgress: (percent: number) => void
+): Promise<string> {
+  let session = await loadRememberedSession(file);
+
+  if (!session) {
+    const sha256 = await sha256Hex(file);
+    ({ session } = await requestWithRetry("/api/documents/upload/sessions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type || "application/pdf",
+        sha256,
+        title: meta.title,
+        description: meta.description,
+        selectedUser: meta.selectedUser,
+        assignmentType: meta.assignmentType ?? "user",
+        assignedRole: meta.assignedRole ?? "",
+        assignedDepartment: meta.assignedDepartment ?? "",
+        allowDuplicate: meta.allowDuplicate === true,
+      }),
+    }));
+    rememberSession(file, {
+      sessionId: session.id,
+      fileName: file.name,
+      fileSize: file.size,
+      title: meta.title,
+      savedAt: new Date().toISOString(),
+    });
+  }
+
+  const sessionUrl = `/api/documents/upload/sessions/${encodeURIComponent(
+    session.id
+  )}`;
+
+  if (session.status !== "completed") {
+    const received = new Set<number>(session.received ?? []);
+    const chunkSize: number = session.chunk_size;
+    const total: number = session.total_chunks;
+    onProgress(Math.round((received.size / total) * 100));
+
+    for (let index = 0; index < total; index++) {
+      if (received.has(index)) continue;
+
+      const chunk = file.slice(index * chunkSize, (index + 1) * chunkSize);
+      await requestWithRetry(`${sessionUrl}/chunks/${index}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: chunk,
+      });
+      received.add(index);
+      onProgress(Math.round((received.size / total) * 100));
+    }
+  }
+
+  try {
+    const { document } = await requestWithRetry(`${sessionUrl}/finalize`, {
+      method: "POST",
+    });
+    forgetSession(session.id);
+    return document.id;
+  } catch (error) {
+    // A checksum mismatch or rejected file can't be resumed
+    if (error instanceof PermanentUploadError) forgetSession(session.id);
+    throw error;
+  }
+}
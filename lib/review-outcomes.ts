@@ -0,0 +1,67 @@
+// Review outcomes. No server imports: used by API routes and UI alike.
+
+/**
+ * What a reviewer decided on their assignment: approve or reject the
+ * document, ask the uploader for changes, or send it back to the reviewer
+ * who handed it to them
+ */
+export const REVIEW_OUTCOMES = [
+  "approve",
+  "reject",
+  "request_changes",
+  "send_back",
+] as const;
+export type ReviewOutcome = (typeof REVIEW_OUTCOMES)[number];
+
+export const OUTCOME_LABELS: Record<ReviewOutcome, string> = {
+  approve: "Approved",
+  reject: "Rejected",
+  request_changes: "Changes requested",
+  send_back: "Sent back",
+};
+
+/** The status an outcome leaves the reviewer's assignment row in */
+export const OUTCOME_STATUS: Record<ReviewOutcome, string> = {
+  approve: "approved",
+  reject: "rejected",
+  request_changes: "changes_requested",
+  send_back: "sent_back",
+};
+
+export function isReviewOutcome(value: unknown): value is ReviewOutcome {
+  return (REVIEW_OUTCOMES as readonly unknown[]).includes(value);
+}
+
+/** Outcomes the reviewer has to explain in a comment */
+export function outcomeRequiresComment(outcome: ReviewOutcome): boolean {
+  return outcome === "reject" || outcome === "request_changes";
+}
+
+/**
+ * Who a reviewer's send-back returns the document to: the reviewer who
+ * handed it to the first of `userIds` (or, for a delegate, to one of the
+ * users they cover for) still to decide. Null when the uploader assigned
+ * it, as nobody reviewed it before.
+ */
+export function previousAssignee(
+  assignments: Array<{
+    assigned_to?: string | null;
+    assigned_by?: string | null;
+    status?: string | null;
+    workflow_step_id?: string | null;
+    closed_at?: string | Date | null;
+  }>,
+  userIds: string[],
+  uploadedBy: string | null | undefined
+): string | null {
+  const pending = assignments.filter(
+    (a) => a.status === "assigned" && !a.workflow_step_id && !a.closed_at
+  );
+  for (const userId of userIds) {
+    const mine = pending.find((a) => String(a.assigned_to) === userId);
+    if (!mine) continue;
+    const by = mine.assigned_by ? String(mine.assigned_by) : null;
+    return by && by !== String(uploadedBy) && by !== userId ? by : null;
+  }
+  return null;
+}
@@ -0,0 +1,108 @@
+// Quorum rules for reviewing in parallel. No server imports: used by API
+// routes and UI alike.
+
+/**
+ * How many of a group of reviewers must approve: every one of them, any
+ * one, or a set number (N of M)
+ */
+export const QUORUM_RULES = ["all", "any", "count"] as const;
+export type QuorumRule = (typeof QUORUM_RULES)[number];
+
+export const QUORUM_LABELS: Record<QuorumRule, string> = {
+  all: "Everyone approves",
+  any: "Any one approves",
+  count: "A number of them approve",
+};
+
+/** Where a group of parallel reviews stands */
+export type QuorumState = "approved" | "rejected" | "pending";
+
+export interface QuorumTally {
+  approved: number;
+  rejected: number;
+  /** Reviewers in the group, decided or not */
+  total: number;
+  /** Approvals the group needs */
+  needed: number;
+}
+
+export function isQuorumRule(value: unknown): value is QuorumRule {
+  return (QUORUM_RULES as readonly unknown[]).includes(value);
+}
+
+/** Approvals `total` reviewers need under a rule; never more than total */
+export function approvalsNeeded(
+  rule: QuorumRule,
+  requiredApprovals: number | null | undefined,
+  total: number
+): number {
+  if (total <= 0) return 0;
+  if (rule === "any") return 1;
+  if (rule === "count") {
+    return Math.min(total, Math.max(1, Number(requiredApprovals) || 1));
+  }
+  return total;
+}
+
+/**
+ * Approved once enough reviewers approve; rejected as soon as so many
+ * have rejected that the approvals can no longer be reached.
+ */
+export function evaluateQuorum(tally: QuorumTally): QuorumState {
+  if (tally.approved >= tally.needed) return "approved";
+  if (tally.total - tally.rejected < tally.needed) return "rejected";
+  return "pending";
+}
+
+/** e.g. "2 of 3 must approve" */
+export function describeQuorum(
+  rule: QuorumRule,
+  requiredApprovals: number | null | undefined,
+  total?: number
+): string {
+  if (rule === "any") return "Any one must approve";
+  if (rule === "all") return "Everyone must approve";
+  const needed = total
+    ? approvalsNeeded(rule, requiredApprovals, total)
+    : Math.max(1, Number(requiredApprovals) || 1);
+  return total
+    ? `${needed} of ${total} must approve`
+    : `${needed} must approve`;
+}
+
+/**
+ * Reviewers still to decide on a document outside any workflow, from its
+ * assignment rows
+ */
+export function pendingReviewerIds(
+  assignments: Array<{
+    assigned_to?: string | null;
+    status?: string | null;
+    workflow_step_id?: string | null;
+  }>
+): string[] {
+  const ids = assignments
+    .filter((a) => a.assigned_to && a.status === "assigned")
+    .filter((a) => !a.workflow_step_id)
+    .map((a) => String(a.assigned_to));
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Who may decide on a document as its assignee: the reviewers still to
+ * decide when it has reviewer rows of its own, or undefined to fall back
+ * to documents.assigned_to_user
+ */
+export function assigneeReviewerIds(
+  assignments: Array<{
+    assigned_to?: string | null;
+    status?: string | null;
+    workflow_step_id?: string | null;
+    closed_at?: string | Date | null;
+  }>
+): string[] | undefined {
+  const current = assignments.filter(
+    (a) => !a.workflow_step_id && !a.closed_at && a.status !== "closed"
+  );
+  return current.length > 0 ? pendingReviewerIds(current) : undefined;
+}
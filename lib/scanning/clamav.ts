@@ -0,0 +1,87 @@
+import * as net from "net";
+import type { MalwareScanner, ScanVerdict } from "./types";
+
+export type ClamAVConfig =
+  | { socketPath: string; timeoutMs?: number }
+  | { host: string; port: number; timeoutMs?: number };
+
+// clamd reads INSTREAM data in length-prefixed chunks
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Scans through a clamd daemon with the INSTREAM command, over TCP or a
+ * unix socket. Files larger than clamd's StreamMaxLength come back as an
+ * error, not as clean.
+ */
+export class ClamAVScanner implements MalwareScanner {
+  readonly name = "clamav" as const;
+
+  constructor(private readonly config: ClamAVConfig) {}
+
+  private connect(): net.Socket {
+    return "socketPath" in this.config
+      ? net.createConnection({ path: this.config.socketPath })
+      : net.createConnection({
+          host: this.config.host,
+          port: this.config.port,
+        });
+  }
+
+  /** Send one command and collect clamd's NUL-terminated reply */
+  private request(write: (socket: net.Socket) => void): Promise<string> {
+    const timeoutMs = this.config.timeoutMs ?? 60 * 1000;
+
+    return new Promise((resolve, reject) => {
+      const socket = this.connect();
+      const chunks: Buffer[] = [];
+      let settled = false;
+
+      const finish = (error: Error | null, reply?: string) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        if (error) reject(error);
+        else resolve(reply ?? "");
+      };
+
+      socket.setTimeout(timeoutMs, () =>
+        finish(new Error(`clamd did not answer within ${timeoutMs} ms`))
+      );
+      socket.on("error", (err) => finish(err));
+      socket.on("data", (chunk) => {
+        chunks.push(chunk);
+        const reply = Buffer.concat(chunks);
+        const end = reply.indexOf(0);
+        if (end >= 0) finish(null, reply.subarray(0, end).toString("utf8"));
+      });
+      socket.on("end", () =>
+        finish(
+          null,
+          Buffer.concat(chunks).toString("utf8").replace(/\0+$/, "")
+        )
+      );
+      socket.on("connect", () => write(socket));
+    });
+  }
+
+  async scan(data: Buffer, _fileName: string): Promise<ScanVerdict> {
+    const reply = await this.request((socket) => {
+      socket.write("zINSTREAM\0");
+      for (let offset = 0; offset < data.length; offset += STREAM_CHUNK_SIZE) {
+        const chunk = data.subarray(offset, offset + STREAM_CHUNK_SIZE);
+        const size = Buffer.alloc(4);
+        size.writeUInt32BE(chunk.length, 0);
+        socket.write(size);
+        socket.write(chunk);
+      }
+      socket.write(Buffer.alloc(4));
+    });
+
+    // "stream: OK", "stream: Eicar-Signature FOUND" or "... ERROR"
+    const result = reply.replace(/^stream:\s*/, "").trim();
+    if (result === "OK") return { infected: false };
+    const found = /^(.+)\s+FOUND$/.exec(result);
+    if (found) return { infected: true, signature: found[1] };
+    throw new Error(`clamd: ${result || "empty reply"}`);
+  }
+}
@@ -0,0 +1,50 @@
+import { ClamAVScanner } from "./clamav";
+import { NoopScanner } from "./noop";
+import type { MalwareScanner } from "./types";
+
+export type { MalwareScanner, ScanVerdict } from "./types";
+
+let scanner: MalwareScanner | null = null;
+
+/**
+ * Build the scanner selected by MALWARE_SCANNER (clamav | none). Defaults
+ * to none so development works without a virus scanner.
+ */
+function createScanner(): MalwareScanner {
+  const driver = (process.env.MALWARE_SCANNER || "none").toLowerCase();
+  const timeoutMs = Number(process.env.CLAMAV_TIMEOUT_MS) || undefined;
+
+  switch (driver) {
+    case "clamav":
+      if (process.env.CLAMAV_SOCKET) {
+        return new ClamAVScanner({
+          socketPath: process.env.CLAMAV_SOCKET,
+          timeoutMs,
+        });
+      }
+      return new ClamAVScanner({
+        host: process.env.CLAMAV_HOST || "127.0.0.1",
+        port: Number(process.env.CLAMAV_PORT) || 3310,
+        timeoutMs,
+      });
+
+    case "none":
+      return new NoopScanner();
+
+    default:
+      throw new Error(`Unknown MALWARE_SCANNER: ${driver}`);
+  }
+}
+
+/** The configured malware scanner (created once per server process) */
+export function getScanner(): MalwareScanner {
+  if (!scanner) {
+    scanner = createScanner();
+    console.log(
+      scanner.name === "none"
+        ? "⚠️ Malware scanning is disabled (MALWARE_SCANNER=none)"
+        : `🛡️ Scanning uploads with ${scanner.name}`
+    );
+  }
+  return scanner;
+}
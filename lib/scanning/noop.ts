@@ -0,0 +1,10 @@
+import type { MalwareScanner, ScanVerdict } from "./types";
+
+/** Reports every file as clean. For development without a scanner. */
+export class NoopScanner implements MalwareScanner {
+  readonly name = "none" as const;
+
+  async scan(_data: Buffer, _fileName: string): Promise<ScanVerdict> {
+    return { infected: false };
+  }
+}
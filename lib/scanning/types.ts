@@ -0,0 +1,14 @@
+export type ScanVerdict =
+  | { infected: false }
+  | { infected: true; signature: string };
+
+/**
+ * Inspects file contents before a document becomes visible. A scanner
+ * that can't reach a verdict (daemon down, timeout, file too large)
+ * throws instead of guessing.
+ */
+export interface MalwareScanner {
+  readonly name: "clamav" | "none";
+
+  scan(data: Buffer, fileName: string): Promise<ScanVerdict>;
+}
@@ -0,0 +1,176 @@
+import { DatabaseService } from "./database";
+import type { ShareLink, ShareResult } from "./share-links";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+const ANNOTATION_TYPES = ["sticky_note", "drawing", "highlight"];
+
+export interface GuestAnnotationInput {
+  page_number?: number;
+  annotation_type?: string;
+  content?: any;
+  position_x?: number;
+  position_y?: number;
+}
+
+/** Same shape as GET /api/annotations, so the viewer handles both */
+function mapAnnotation(row: any, link: ShareLink) {
+  let content = row.content;
+  try {
+    if (typeof content === "string" && content) content = JSON.parse(content);
+  } catch {
+    // leave as-is
+  }
+  return {
+    id: row.id,
+    document_id: row.document_id,
+    user_id: null,
+    share_link_id: row.share_link_id,
+    page_number: Number(row.page_number),
+    annotation_type: row.annotation_type,
+    content,
+    sequence_number: Number(row.sequence_number),
+    position_x: Number(row.position_x),
+    position_y: Number(row.position_y),
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at ?? row.created_at).toISOString(),
+    user_name: guestName(link),
+  };
+}
+
+export function guestName(link: ShareLink): string {
+  return `${link.recipient} (guest)`;
+}
+
+/** The guest's identity for watermarks; recipients are a name or an email */
+export function guestViewer(link: ShareLink): { name: string; email: string } {
+  return {
+    name: guestName(link),
+    email: link.recipient.includes("@") ? link.recipient : "",
+  };
+}
+
+/**
+ * Annotations made through a share link. They are stored with the link's
+ * id instead of a user, and a guest only ever sees and edits their own.
+ */
+export class ShareAnnotationService {
+  static async list(link: ShareLink) {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT * FROM annotations
+         WHERE document_id = ? AND share_link_id = ?
+         ORDER BY sequence_number ASC`,
+        [link.document_id, link.id]
+      )
+    );
+    return rows.map((row) => mapAnnotation(row, link));
+  }
+
+  static async create(
+    link: ShareLink,
+    input: GuestAnnotationInput
+  ): Promise<ShareResult<{ annotation: ReturnType<typeof mapAnnotation> }>> {
+    if (
+      input.page_number == null ||
+      !ANNOTATION_TYPES.includes(String(input.annotation_type)) ||
+      input.content == null
+    ) {
+      return {
+        ok: false,
+        status: 400,
+        error:
+          "Missing required fields (page_number, annotation_type, content)",
+      };
+    }
+
+    const id = `annotation_${Date.now()}_${Math.random()
+      .toString(36)
+      .slice(2, 11)}`;
+
+    // Guests share the document's numbering with everyone else
+    await DatabaseService.query(
+      `INSERT INTO annotations (
+         id, document_id, user_id, share_link_id, page_number,
+         annotation_type, content, sequence_number, position_x, position_y,
+         created_at, updated_at
+       )
+       SELECT ?, ?, NULL, ?, ?, ?, ?, COALESCE(MAX(sequence_number), 0) + 1,
+              ?, ?, NOW(), NOW()
+       FROM annotations WHERE document_id = ?`,
+      [
+        id,
+        link.document_id,
+        link.id,
+        Number(input.page_number),
+        input.annotation_type,
+        JSON.stringify(input.content),
+        Number(input.position_x ?? 0),
+        Number(input.position_y ?? 0),
+        link.document_id,
+      ]
+    );
+
+    const row = await this.find(link, id);
+    return { ok: true, annotation: mapAnnotation(row, link) };
+  }
+
+  static async update(
+    link: ShareLink,
+    annotationId: string,
+    input: GuestAnnotationInput
+  ): Promise<ShareResult<{ annotation: ReturnType<typeof mapAnnotation> }>> {
+    const existing = await this.find(link, annotationId);
+    if (!existing) {
+      return { ok: false, status: 404, error: "Annotation not found" };
+    }
+
+    await DatabaseService.query(
+      `UPDATE annotations
+       SET content = ?, position_x = ?, position_y = ?, updated_at = NOW()
+       WHERE id = ?`,
+      [
+        JSON.stringify(input.content ?? existing.content),
+        Number(input.position_x ?? existing.position_x),
+        Number(input.position_y ?? existing.position_y),
+        annotationId,
+      ]
+    );
+
+    const row = await this.find(link, annotationId);
+    return { ok: true, annotation: mapAnnotation(row, link) };
+  }
+
+  static async remove(
+    link: ShareLink,
+    annotationId: string
+  ): Promise<ShareResult<object>> {
+    const existing = await this.find(link, annotationId);
+    if (!existing) {
+      return { ok: false, status: 404, error: "Annotation not found" };
+    }
+
+    await DatabaseService.query(`DELETE FROM annotations WHERE id = ?`, [
+      annotationId,
+    ]);
+    return { ok: true };
+  }
+
+  private static async find(link: ShareLink, annotationId: string) {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT * FROM annotations
+         WHERE id = ? AND share_link_id = ? AND document_id = ?
+         LIMIT 1`,
+        [annotationId, link.id, link.document_id]
+      )
+    );
+    return rows[0] ?? null;
+  }
+}
@@ -0,0 +1,434 @@
+import { createHmac, hkdfSync, randomUUID, timingSafeEqual } from "crypto";
+import bcrypt from "bcryptjs";
+import { SignJWT, jwtVerify } from "jose";
+import { DatabaseService } from "./database";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+/** Viewing is always granted; the others are opt-in per link */
+export const SHARE_SCOPES = ["view", "annotate", "download"] as const;
+export type ShareScope = (typeof SHARE_SCOPES)[number];
+
+export type ShareLinkStatus = "active" | "expired" | "revoked";
+
+export type ShareLinkEvent =
+  | "opened"
+  | "unlocked"
+  | "password_failed"
+  | "downloaded"
+  | "annotated"
+  | "revoked";
+
+export interface ShareLink {
+  id: string;
+  document_id: string;
+  recipient: string;
+  scopes: ShareScope[];
+  has_password: boolean;
+  created_by: string;
+  created_by_name: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+  last_accessed_at: string | null;
+  access_count: number;
+  created_at: string;
+  status: ShareLinkStatus;
+  /** Path of the public page, e.g. /share/<token> */
+  url: string;
+}
+
+export interface ShareLinkInput {
+  recipient?: string;
+  scopes?: string[];
+  /** Hours until the link stops working */
+  expiresInHours?: number;
+  password?: string;
+}
+
+export interface RequestMeta {
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export type ShareResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; error: string; code?: string };
+
+/** Cookie proving a guest entered a link's password (scoped to its API) */
+export const SHARE_ACCESS_COOKIE = "share-access";
+
+const DEFAULT_EXPIRY_HOURS = parseInt(
+  process.env.SHARE_LINK_DEFAULT_HOURS || "72"
+);
+const MAX_EXPIRY_HOURS = 90 * 24;
+/** Longest a password unlock lasts before the guest is asked again */
+const UNLOCK_HOURS = 12;
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * The key link tokens and unlock cookies are signed with:
+ * SHARE_LINK_SECRET, or else a key derived from JWT_SECRET, so a share
+ * token or cookie is never signed with the login key
+ */
+function secret(): Buffer {
+  if (process.env.SHARE_LINK_SECRET) {
+    return Buffer.from(process.env.SHARE_LINK_SECRET);
+  }
+  if (!process.env.JWT_SECRET) {
+    throw new Error("SHARE_LINK_SECRET or JWT_SECRET must be set");
+  }
+  return Buffer.from(
+    hkdfSync("sha256", process.env.JWT_SECRET, "", "share-link", 32)
+  );
+}
+
+function sign(linkId: string): string {
+  return createHmac("sha256", secret())
+    .update(`share-link:${linkId}`)
+    .digest("base64url");
+}
+
+/** `<link id>.<signature>`; only the server can mint one for an id */
+function tokenFor(linkId: string): string {
+  return `${linkId}.${sign(linkId)}`;
+}
+
+function linkIdFromToken(token: string): string | null {
+  const [linkId, signature, extra] = String(token).split(".");
+  if (!linkId || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(sign(linkId));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return null;
+  }
+  return linkId;
+}
+
+function toIso(value: any): string | null {
+  if (!value) return null;
+  return new Date(value).toISOString();
+}
+
+function linkStatus(row: any): ShareLinkStatus {
+  if (row.revoked_at) return "revoked";
+  if (new Date(row.expires_at).getTime() <= Date.now()) return "expired";
+  return "active";
+}
+
+function mapLink(row: any): ShareLink {
+  const scopes: ShareScope[] = ["view"];
+  if (Number(row.can_annotate) === 1) scopes.push("annotate");
+  if (Number(row.can_download) === 1) scopes.push("download");
+
+  return {
+    id: String(row.id),
+    document_id: String(row.document_id),
+    recipient: row.recipient,
+    scopes,
+    has_password: Boolean(row.password_hash),
+    created_by: String(row.created_by),
+    created_by_name: row.created_by_name ?? null,
+    expires_at: toIso(row.expires_at)!,
+    revoked_at: toIso(row.revoked_at),
+    last_accessed_at: toIso(row.last_accessed_at),
+    access_count: Number(row.access_count ?? 0),
+    created_at: toIso(row.created_at)!,
+    status: linkStatus(row),
+    url: `/share/${tokenFor(String(row.id))}`,
+  };
+}
+
+async function findLink(linkId: string): Promise<any | null> {
+  const rows = normalizeRows(
+    await DatabaseService.query(
+      `SELECT sl.*, u.name AS created_by_name
+       FROM document_share_links sl
+       LEFT JOIN users u ON u.id = sl.created_by
+       WHERE sl.id = ?
+       LIMIT 1`,
+      [linkId]
+    )
+  );
+  return rows[0] ?? null;
+}
+
+export class ShareLinkService {
+  static async list(documentId: string): Promise<ShareLink[]> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT sl.*, u.name AS created_by_name
+         FROM document_share_links sl
+         LEFT JOIN users u ON u.id = sl.created_by
+         WHERE sl.document_id = ?
+         ORDER BY sl.created_at DESC`,
+        [documentId]
+      )
+    );
+    return rows.map(mapLink);
+  }
+
+  static async create(
+    documentId: string,
+    userId: string,
+    input: ShareLinkInput
+  ): Promise<ShareResult<{ link: ShareLink }>> {
+    const recipient = String(input.recipient ?? "").trim();
+    if (!recipient || recipient.length > 150) {
+      return {
+        ok: false,
+        status: 400,
+        error: "Recipient must be 1-150 characters",
+      };
+    }
+
+    const scopes = input.scopes ?? ["view"];
+    const unknown = scopes.filter(
+      (s) => !(SHARE_SCOPES as readonly string[]).includes(s)
+    );
+    if (unknown.length > 0) {
+      return {
+        ok: false,
+        status: 400,
+        error: `Unknown scope: ${unknown.join(", ")}`,
+      };
+    }
+
+    const hours = input.expiresInHours ?? DEFAULT_EXPIRY_HOURS;
+    if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_EXPIRY_HOURS) {
+      return {
+        ok: false,
+        status: 400,
+        error: `expiresInHours must be between 1 and ${MAX_EXPIRY_HOURS}`,
+      };
+    }
+
+    let passwordHash: string | null = null;
+    if (input.password) {
+      if (input.password.length < MIN_PASSWORD_LENGTH) {
+        return {
+          ok: false,
+          status: 400,
+          error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+        };
+      }
+      passwordHash = await bcrypt.hash(input.password, 10);
+    }
+
+    const id = randomUUID();
+    const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+    await DatabaseService.query(
+      `INSERT INTO document_share_links
+         (id, document_id, recipient, can_annotate, can_download,
+          password_hash, created_by, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        documentId,
+        recipient,
+        scopes.includes("annotate") ? 1 : 0,
+        scopes.includes("download") ? 1 : 0,
+        passwordHash,
+        userId,
+        expiresAt,
+      ]
+    );
+
+    return { ok: true, link: mapLink(await findLink(id)) };
+  }
+
+  /** The sharer or the document's uploader can revoke a link */
+  static async revoke(
+    documentId: string,
+    linkId: string,
+    userId: string,
+    uploadedBy: string
+  ): Promise<ShareResult<{ link: ShareLink }>> {
+    const row = await findLink(linkId);
+    if (!row || String(row.document_id) !== String(documentId)) {
+      return { ok: false, status: 404, error: "Share link not found" };
+    }
+    if (
+      String(row.created_by) !== String(userId) &&
+      String(uploadedBy) !== String(userId)
+    ) {
+      return {
+        ok: false,
+        status: 403,
+        error: "Only the person who shared it or the uploader can revoke",
+      };
+    }
+
+    if (!row.revoked_at) {
+      await DatabaseService.query(
+        `UPDATE document_share_links
+         SET revoked_at = NOW(), revoked_by = ?
+         WHERE id = ?`,
+        [userId, linkId]
+      );
+      await this.recordEvent(linkId, "revoked", {}, `by ${userId}`);
+    }
+
+    return { ok: true, link: mapLink(await findLink(linkId)) };
+  }
+
+  /**
+   * Look up the link behind a token and check it still works.
+   * Password-protected links also need `accessCookie` to hold a valid
+   * unlock, unless `skipPassword` is set for callers that only describe
+   * the link.
+   */
+  static async resolve(
+    token: string,
+    accessCookie: string | null,
+    options: { skipPassword?: boolean } = {}
+  ): Promise<ShareResult<{ link: ShareLink; document: any }>> {
+    const linkId = linkIdFromToken(token);
+    const row = linkId ? await findLink(linkId) : null;
+    if (!row) {
+      return { ok: false, status: 404, error: "Link not found" };
+    }
+
+    const link = mapLink(row);
+    if (link.status === "revoked") {
+      return { ok: false, status: 410, error: "This link has been revoked" };
+    }
+    if (link.status === "expired") {
+      return { ok: false, status: 410, error: "This link has expired" };
+    }
+
+    const documents = normalizeRows(
+      await DatabaseService.query(
+        `SELECT * FROM documents WHERE id = ? AND deleted_at IS NULL LIMIT 1`,
+        [link.document_id]
+      )
+    );
+    if (documents.length === 0) {
+      return {
+        ok: false,
+        status: 410,
+        error: "The shared document is no longer available",
+      };
+    }
+
+    if (
+      !options.skipPassword &&
+      row.password_hash &&
+      !(await this.verifyUnlock(link.id, accessCookie))
+    ) {
+      return {
+        ok: false,
+        status: 401,
+        error: "This link needs a password",
+        code: "password_required",
+      };
+    }
+
+    return { ok: true, link, document: documents[0] };
+  }
+
+  /** Check a link password; on success returns the unlock cookie value */
+  static async unlock(
+    token: string,
+    password: string,
+    meta: RequestMeta
+  ): Promise<ShareResult<{ cookie: string; expires: Date }>> {
+    const resolved = await this.resolve(token, null, { skipPassword: true });
+    if (!resolved.ok) return resolved;
+
+    const row = await findLink(resolved.link.id);
+    if (!row.password_hash) {
+      return { ok: false, status: 400, error: "This link has no password" };
+    }
+    if (!(await bcrypt.compare(String(password ?? ""), row.password_hash))) {
+      await this.recordEvent(resolved.link.id, "password_failed", meta);
+      return { ok: false, status: 403, error: "Incorrect password" };
+    }
+
+    const expires = new Date(
+      Math.min(
+        Date.now() + UNLOCK_HOURS * 60 * 60 * 1000,
+        new Date(resolved.link.expires_at).getTime()
+      )
+    );
+    const cookie = await new SignJWT({ lid: resolved.link.id })
+      .setProtectedHeader({ alg: "HS256" })
+      .setExpirationTime(Math.floor(expires.getTime() / 1000))
+      .sign(secret());
+
+    await this.recordEvent(resolved.link.id, "unlocked", meta);
+    return { ok: true, cookie, expires };
+  }
+
+  static async recordEvent(
+    linkId: string,
+    event: ShareLinkEvent,
+    meta: RequestMeta = {},
+    detail: string | null = null
+  ): Promise<void> {
+    await DatabaseService.query(
+      `INSERT INTO document_share_link_events
+         (id, share_link_id, event, detail, ip_address, user_agent)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        randomUUID(),
+        linkId,
+        event,
+        detail,
+        meta.ip?.slice(0, 64) ?? null,
+        meta.userAgent?.slice(0, 255) ?? null,
+      ]
+    );
+    if (event === "opened") {
+      await DatabaseService.query(
+        `UPDATE document_share_links
+         SET last_accessed_at = NOW(), access_count = access_count + 1
+         WHERE id = ?`,
+        [linkId]
+      );
+    }
+  }
+
+  /** A link's audit trail, newest first */
+  static async listEvents(linkId: string): Promise<any[]> {
+    return normalizeRows(
+      await DatabaseService.query(
+        `SELECT id, event, detail, ip_address, user_agent, created_at
+         FROM document_share_link_events
+         WHERE share_link_id = ?
+         ORDER BY created_at DESC
+         LIMIT 200`,
+        [linkId]
+      )
+    );
+  }
+
+  private static async verifyUnlock(
+    linkId: string,
+    cookie: string | null
+  ): Promise<boolean> {
+    if (!cookie) return false;
+    try {
+      const { payload } = await jwtVerify(cookie, secret());
+      return payload.lid === linkId;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/** Caller details for a link's audit trail */
+export function shareRequestMeta(request: Request): RequestMeta {
+  return {
+    ip:
+      request.headers.get("x-forwarded-for")?.split(",")[0].trim() ??
+      request.headers.get("x-real-ip"),
+    userAgent: request.headers.get("user-agent"),
+  };
+}
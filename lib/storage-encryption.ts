@@ -0,0 +1,225 @@
+import { randomUUID } from "crypto";
+import { DatabaseService } from "./database";
+import { StorageKeyService } from "./storage-keys";
+import { getStorage } from "./storage";
+import {
+  parseMasterKeys,
+  unwrapDataKey,
+  wrapDataKey,
+} from "./storage/encryption";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+function currentMasterKeys() {
+  const keys = parseMasterKeys(process.env.STORAGE_ENCRYPTION_KEYS);
+  if (keys.length === 0) {
+    throw new Error("STORAGE_ENCRYPTION_KEYS is not set");
+  }
+  return keys;
+}
+
+/** "documents/1760000000000-Report.pdf" → "documents/enc-<uuid>-Report.pdf" */
+function encryptedKeyFor(key: string): string {
+  const name = (key.split("?")[0].split("/").pop() || "document.pdf").replace(
+    /[^a-zA-Z0-9._-]/g,
+    ""
+  );
+  return `documents/enc-${randomUUID()}-${name}`;
+}
+
+export interface EncryptExistingResult {
+  encrypted: number;
+  missing: string[];
+  failed: { key: string; error: string }[];
+  thumbnails_removed: number;
+}
+
+export interface RotateKeysResult {
+  master_key_id: string;
+  rewrapped: number;
+  failed: { key: string; error: string }[];
+  /** Data keys per master key after the run */
+  remaining: Record<string, number>;
+}
+
+export class StorageEncryptionService {
+  /**
+   * Encrypt every document file stored before encryption was turned on.
+   *
+   * Each file is written encrypted under a new key and the rows pointing
+   * at it are switched over in one transaction before the plaintext is
+   * deleted, so readers always find either the old file or the new one.
+   * Thumbnails are simply removed; they are rendered again, encrypted,
+   * the next time they are requested.
+   */
+  static async encryptExistingFiles(
+    onProgress?: (key: string, index: number, total: number) => void
+  ): Promise<EncryptExistingResult> {
+    currentMasterKeys();
+    const storage = getStorage();
+
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT p.file_path, MAX(p.mime_type) AS mime_type
+         FROM (
+           SELECT file_path, mime_type FROM documents
+           UNION ALL
+           SELECT file_path, mime_type FROM document_versions
+         ) p
+         LEFT JOIN storage_encryption_keys k ON k.storage_key = p.file_path
+         WHERE p.file_path IS NOT NULL
+           AND p.file_path <> ''
+           AND k.storage_key IS NULL
+         GROUP BY p.file_path`
+      )
+    );
+
+    const result: EncryptExistingResult = {
+      encrypted: 0,
+      missing: [],
+      failed: [],
+      thumbnails_removed: 0,
+    };
+
+    for (let i = 0; i < rows.length; i++) {
+      const oldKey: string = rows[i].file_path;
+      onProgress?.(oldKey, i, rows.length);
+
+      let data: Buffer;
+      try {
+        data = await storage.get(oldKey);
+      } catch (err: any) {
+        if (err?.code === "ENOENT" || err?.name === "NoSuchKey") {
+          result.missing.push(oldKey);
+        } else {
+          result.failed.push({ key: oldKey, error: String(err?.message) });
+        }
+        continue;
+      }
+
+      let newKey: string | null = null;
+      try {
+        const stored = await storage.put(encryptedKeyFor(oldKey), data, {
+          contentType: rows[i].mime_type || "application/pdf",
+        });
+        newKey = stored.key;
+        await DatabaseService.transaction([
+          {
+            sql: "UPDATE documents SET file_path = ? WHERE file_path = ?",
+            params: [newKey, oldKey],
+          },
+          {
+            sql: "UPDATE document_versions SET file_path = ? WHERE file_path = ?",
+            params: [newKey, oldKey],
+          },
+        ]);
+      } catch (err: any) {
+        result.failed.push({ key: oldKey, error: String(err?.message) });
+        if (newKey) {
+          try {
+            await storage.delete(newKey);
+          } catch (cleanupErr) {
+            console.error("Failed to remove encrypted copy:", cleanupErr);
+          }
+        }
+        continue;
+      }
+
+      try {
+        await storage.delete(oldKey);
+      } catch (err) {
+        // The rows already point at the encrypted copy
+        console.error(`⚠️ Failed to delete plaintext ${oldKey}:`, err);
+      }
+      result.encrypted++;
+    }
+
+    const thumbnails = normalizeRows(
+      await DatabaseService.query(
+        `SELECT t.id, t.file_path
+         FROM document_thumbnails t
+         LEFT JOIN storage_encryption_keys k ON k.storage_key = t.file_path
+         WHERE k.storage_key IS NULL`
+      )
+    );
+    for (const thumbnail of thumbnails) {
+      try {
+        await storage.delete(thumbnail.file_path);
+        await DatabaseService.query(
+          "DELETE FROM document_thumbnails WHERE id = ?",
+          [thumbnail.id]
+        );
+        result.thumbnails_removed++;
+      } catch (err: any) {
+        result.failed.push({
+          key: thumbnail.file_path,
+          error: String(err?.message),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Rewrap every data key with the first master key in
+   * STORAGE_ENCRYPTION_KEYS. Files are not touched. Older master keys can
+   * be removed from the configuration once nothing is left wrapped with
+   * them.
+   */
+  static async rotateKeys(batchSize = 200): Promise<RotateKeysResult> {
+    const keys = currentMasterKeys();
+    const current = keys[0];
+    const failed: RotateKeysResult["failed"] = [];
+    const skipped = new Set<string>();
+    let rewrapped = 0;
+
+    for (;;) {
+      const batch = (
+        await StorageKeyService.listWrappedWithOtherKeys(
+          current.id,
+          batchSize + skipped.size
+        )
+      ).filter((record) => !skipped.has(record.storage_key));
+      if (batch.length === 0) break;
+
+      for (const record of batch) {
+        const master = keys.find((k) => k.id === record.master_key_id);
+        try {
+          if (!master) {
+            throw new Error(
+              `Master key "${record.master_key_id}" is not configured`
+            );
+          }
+          const dataKey = unwrapDataKey(
+            record.wrapped_key,
+            master,
+            record.storage_key
+          );
+          const changed = await StorageKeyService.rewrap(
+            record,
+            wrapDataKey(dataKey, current, record.storage_key),
+            current.id
+          );
+          if (changed) rewrapped++;
+        } catch (err: any) {
+          skipped.add(record.storage_key);
+          failed.push({ key: record.storage_key, error: String(err?.message) });
+        }
+      }
+    }
+
+    return {
+      master_key_id: current.id,
+      rewrapped,
+      failed,
+      remaining: await StorageKeyService.countByMasterKey(),
+    };
+  }
+}
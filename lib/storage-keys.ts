@@ -0,0 +1,116 @@
+import { DatabaseService } from "./database";
+import type { DataKeyRecord } from "./storage/encrypted";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+function toRecord(row: any): DataKeyRecord {
+  return {
+    storage_key: row.storage_key,
+    wrapped_key: row.wrapped_key,
+    master_key_id: row.master_key_id,
+    plaintext_size: Number(row.plaintext_size ?? 0),
+    chunk_size: Number(row.chunk_size),
+    content_type: row.content_type ?? null,
+  };
+}
+
+/** Wrapped data keys of encrypted files, in storage_encryption_keys */
+export class StorageKeyService {
+  static async find(storageKey: string): Promise<DataKeyRecord | null> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT * FROM storage_encryption_keys
+         WHERE storage_key = ?
+         LIMIT 1`,
+        [storageKey]
+      )
+    );
+    return rows.length > 0 ? toRecord(rows[0]) : null;
+  }
+
+  static async save(record: DataKeyRecord): Promise<void> {
+    await DatabaseService.query(
+      `INSERT INTO storage_encryption_keys
+       (storage_key, wrapped_key, master_key_id, plaintext_size, chunk_size, content_type, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, NOW())
+       ON DUPLICATE KEY UPDATE
+         wrapped_key = VALUES(wrapped_key),
+         master_key_id = VALUES(master_key_id),
+         plaintext_size = VALUES(plaintext_size),
+         chunk_size = VALUES(chunk_size),
+         content_type = VALUES(content_type),
+         created_at = NOW(),
+         rotated_at = NULL`,
+      [
+        record.storage_key,
+        record.wrapped_key,
+        record.master_key_id,
+        record.plaintext_size,
+        record.chunk_size,
+        record.content_type,
+      ]
+    );
+  }
+
+  static async remove(storageKey: string): Promise<void> {
+    await DatabaseService.query(
+      "DELETE FROM storage_encryption_keys WHERE storage_key = ?",
+      [storageKey]
+    );
+  }
+
+  /** Keys still wrapped with anything other than `masterKeyId` */
+  static async listWrappedWithOtherKeys(
+    masterKeyId: string,
+    limit: number
+  ): Promise<DataKeyRecord[]> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT * FROM storage_encryption_keys
+         WHERE master_key_id <> ?
+         ORDER BY storage_key ASC
+         LIMIT ${Math.max(1, Math.floor(limit))}`,
+        [masterKeyId]
+      )
+    );
+    return rows.map(toRecord);
+  }
+
+  /**
+   * Replace a wrapped key, unless another process already did: the row
+   * only changes while it still has the wrapping that was read.
+   */
+  static async rewrap(
+    record: DataKeyRecord,
+    wrappedKey: string,
+    masterKeyId: string
+  ): Promise<boolean> {
+    const result: any = await DatabaseService.query(
+      `UPDATE storage_encryption_keys
+       SET wrapped_key = ?, master_key_id = ?, rotated_at = NOW()
+       WHERE storage_key = ? AND wrapped_key = ?`,
+      [wrappedKey, masterKeyId, record.storage_key, record.wrapped_key]
+    );
+    return Number(result?.affectedRows ?? 0) > 0;
+  }
+
+  /** How many keys each master key wraps */
+  static async countByMasterKey(): Promise<Record<string, number>> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT master_key_id, COUNT(*) AS count
+         FROM storage_encryption_keys
+         GROUP BY master_key_id`
+      )
+    );
+    const counts: Record<string, number> = {};
+    for (const row of rows) counts[row.master_key_id] = Number(row.count);
+    return counts;
+  }
+}
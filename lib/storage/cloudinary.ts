@@ -0,0 +1,106 @@
+import * as path from "path";
+import { Readable } from "stream";
+import cloudinary, { CloudinaryService } from "../cloudinary";
+import type {
+  ByteRange,
+  PutOptions,
+  StorageProvider,
+  StorageStream,
+  StoredObject,
+} from "./types";
+
+/**
+ * Stores files as Cloudinary "raw" resources. Keys are Cloudinary public ids.
+ */
+export class CloudinaryStorageProvider implements StorageProvider {
+  readonly name = "cloudinary" as const;
+
+  /**
+   * Older rows store the full delivery URL instead of the public id,
+   * sometimes with an image/upload path or a doubled ".pdf" extension.
+   */
+  normalizeKey(key: string): string {
+    if (!key.includes("cloudinary.com")) {
+      return key.replace(/^\/+/, "");
+    }
+    const publicIdMatch = key.match(/\/(documents\/[^?]+)/);
+    const publicId = publicIdMatch
+      ? publicIdMatch[1]
+      : key.split("/upload/")[1] ?? key;
+    return publicId
+      .split("?")[0]
+      .replace(/^v\d+\//, "")
+      .replace(/\.pdf\.pdf$/, ".pdf");
+  }
+
+  private deliveryUrl(key: string): string {
+    return CloudinaryService.getDirectPdfUrl(this.normalizeKey(key));
+  }
+
+  async put(
+    key: string,
+    data: Buffer,
+    _options?: PutOptions
+  ): Promise<StoredObject> {
+    const normalized = this.normalizeKey(key);
+    const folder = path.posix.dirname(normalized);
+    const result = await CloudinaryService.uploadFile(
+      data,
+      path.posix.basename(normalized),
+      folder === "." ? "" : folder,
+      {
+        public_id: path.posix.basename(normalized),
+        use_filename: false,
+        unique_filename: false,
+        overwrite: true,
+      }
+    );
+    return { key: result.public_id, size: result.bytes };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const res = await fetch(this.deliveryUrl(key));
+    if (!res.ok) {
+      throw new Error(`Cloudinary fetch failed (${res.status}) for ${key}`);
+    }
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    await cloudinary.uploader.destroy(this.normalizeKey(key), {
+      resource_type: "raw",
+    });
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<StorageStream> {
+    const res = await fetch(this.deliveryUrl(key), {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+    });
+    if (!res.ok || !res.body) {
+      throw new Error(`Cloudinary fetch failed (${res.status}) for ${key}`);
+    }
+
+    const length = Number(res.headers.get("content-length") ?? 0);
+    const contentRange = res.headers.get("content-range");
+    const size = contentRange ? Number(contentRange.split("/")[1]) : length;
+    const start = range && contentRange ? range.start : 0;
+    const end = start + length - 1;
+
+    return {
+      body: Readable.fromWeb(res.body as any),
+      size,
+      start,
+      end,
+      contentType: res.headers.get("content-type") ?? "application/pdf",
+    };
+  }
+
+  async signedUrl(key: string): Promise<string> {
+    // Raw "upload" resources are public and Cloudinary only enforces expiry
+    // on authenticated/private delivery, so no URL here would ever expire;
+    // files go through the access-checked file route instead
+    throw new Error(
+      `Cloudinary storage cannot issue expiring URLs (key: ${key}); use /api/documents/[id]/file`
+    );
+  }
+}
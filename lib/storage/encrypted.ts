@@ -0,0 +1,192 @@
+import { Readable } from "stream";
+import {
+  CHUNK_SIZE,
+  createDecryptStream,
+  decryptBuffer,
+  encryptBuffer,
+  encryptedRange,
+  generateDataKey,
+  unwrapDataKey,
+  wrapDataKey,
+  type MasterKey,
+} from "./encryption";
+import type {
+  ByteRange,
+  PutOptions,
+  StorageProvider,
+  StorageStream,
+  StoredObject,
+} from "./types";
+
+/** The wrapped data key of one encrypted object */
+export interface DataKeyRecord {
+  storage_key: string;
+  wrapped_key: string;
+  master_key_id: string;
+  plaintext_size: number;
+  chunk_size: number;
+  content_type: string | null;
+}
+
+/** Where wrapped data keys are kept, by storage key */
+export interface DataKeyStore {
+  find(storageKey: string): Promise<DataKeyRecord | null>;
+  save(record: DataKeyRecord): Promise<void>;
+  remove(storageKey: string): Promise<void>;
+}
+
+// Unwrapped data keys kept in memory, so reading a file twice doesn't
+// unwrap twice. Rotation rewraps but never changes a data key.
+const MAX_CACHED_KEYS = 500;
+
+/**
+ * Encrypts everything written to another provider and decrypts it on the
+ * way out. Objects without a data key were stored before encryption was
+ * turned on and are passed through unchanged until they are migrated.
+ */
+export class EncryptedStorageProvider implements StorageProvider {
+  private readonly dataKeys = new Map<string, Buffer>();
+
+  constructor(
+    private readonly inner: StorageProvider,
+    /** The first key wraps new data keys; empty turns encryption off */
+    private readonly masterKeys: MasterKey[],
+    private readonly keyStore: DataKeyStore
+  ) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get encrypting(): boolean {
+    return this.masterKeys.length > 0;
+  }
+
+  private remember(storageKey: string, dataKey: Buffer) {
+    this.dataKeys.delete(storageKey);
+    this.dataKeys.set(storageKey, dataKey);
+    if (this.dataKeys.size > MAX_CACHED_KEYS) {
+      this.dataKeys.delete(this.dataKeys.keys().next().value as string);
+    }
+  }
+
+  private unwrap(record: DataKeyRecord): Buffer {
+    const cached = this.dataKeys.get(record.storage_key);
+    if (cached) return cached;
+
+    const master = this.masterKeys.find((k) => k.id === record.master_key_id);
+    if (!master) {
+      throw new Error(
+        `Master key "${record.master_key_id}" is not configured (STORAGE_ENCRYPTION_KEYS)`
+      );
+    }
+    const dataKey = unwrapDataKey(
+      record.wrapped_key,
+      master,
+      record.storage_key
+    );
+    this.remember(record.storage_key, dataKey);
+    return dataKey;
+  }
+
+  async put(
+    key: string,
+    data: Buffer,
+    options?: PutOptions
+  ): Promise<StoredObject> {
+    const master = this.masterKeys[0];
+    if (!master) {
+      // A plaintext write replaces any encrypted object under this key
+      const stored = await this.inner.put(key, data, options);
+      await this.keyStore.remove(stored.key);
+      this.dataKeys.delete(stored.key);
+      return stored;
+    }
+
+    const dataKey = generateDataKey();
+    const stored = await this.inner.put(key, encryptBuffer(data, dataKey), {
+      contentType: "application/octet-stream",
+    });
+    try {
+      await this.keyStore.save({
+        storage_key: stored.key,
+        wrapped_key: wrapDataKey(dataKey, master, stored.key),
+        master_key_id: master.id,
+        plaintext_size: data.length,
+        chunk_size: CHUNK_SIZE,
+        content_type: options?.contentType ?? null,
+      });
+    } catch (error) {
+      // Without its key the object is unreadable, so don't leave it behind
+      try {
+        await this.inner.delete(stored.key);
+      } catch (cleanupErr) {
+        console.error(
+          "Failed to remove file after key save failure:",
+          cleanupErr
+        );
+      }
+      throw error;
+    }
+    this.remember(stored.key, dataKey);
+    return { key: stored.key, size: data.length };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const [record, data] = await Promise.all([
+      this.keyStore.find(key),
+      this.inner.get(key),
+    ]);
+    return record ? decryptBuffer(data, this.unwrap(record)) : data;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.inner.delete(key);
+    await this.keyStore.remove(key);
+    this.dataKeys.delete(key);
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<StorageStream> {
+    const record = await this.keyStore.find(key);
+    if (!record) return this.inner.stream(key, range);
+
+    const dataKey = this.unwrap(record);
+    const size = record.plaintext_size;
+    const contentType = record.content_type || "application/pdf";
+    const start = range ? range.start : 0;
+    const end = range ? Math.min(range.end, size - 1) : size - 1;
+    if (size === 0 || end < start) {
+      return { body: Readable.from([]), size, start, end, contentType };
+    }
+
+    const source = await this.inner.stream(
+      key,
+      encryptedRange(size, record.chunk_size, start, end)
+    );
+    const decrypt = createDecryptStream({
+      dataKey,
+      plaintextSize: size,
+      chunkSize: record.chunk_size,
+      start,
+      end,
+    });
+    source.body.on("error", (err) => decrypt.destroy(err));
+    return {
+      body: source.body.pipe(decrypt),
+      size,
+      start,
+      end,
+      contentType,
+    };
+  }
+
+  async signedUrl(key: string, expiresInSeconds?: number): Promise<string> {
+    if (await this.keyStore.find(key)) {
+      // The provider would hand out ciphertext
+      throw new Error(
+        `Encrypted files cannot be served by URL (key: ${key}); use /api/documents/[id]/file`
+      );
+    }
+    return this.inner.signedUrl(key, expiresInSeconds);
+  }
+}
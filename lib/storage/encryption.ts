@@ -0,0 +1,277 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { Transform } from "stream";
+
+/**
+ * Envelope encryption for stored files. Every object gets its own random
+ * data key; the data key is wrapped with a master key from configuration
+ * and kept in the database, so rotating master keys never touches files.
+ *
+ * Objects are sealed in fixed-size AES-256-GCM chunks rather than as one
+ * message, so a byte range can be decrypted (and authenticated) without
+ * reading the whole file:
+ *
+ *   "DMS-ENC" | format (1) | chunk size (4) | chunk 0 + tag | chunk 1 + tag ...
+ *
+ * Each chunk's nonce is its index, which is safe because a data key is
+ * never reused for another object. The index and a last-chunk flag are
+ * authenticated too, so chunks can't be reordered or the file truncated.
+ */
+
+export const CHUNK_SIZE = 64 * 1024;
+const MAGIC = Buffer.from("DMS-ENC", "latin1");
+const FORMAT = 1;
+const HEADER_SIZE = MAGIC.length + 1 + 4;
+const TAG_SIZE = 16;
+const KEY_SIZE = 32;
+const ALGORITHM = "aes-256-gcm";
+
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Parse STORAGE_ENCRYPTION_KEYS: comma separated `id:base64` entries of
+ * 32-byte keys, e.g. `2026a:q3V...=,2025b:Zx1...=`. The first key wraps new
+ * data keys; the others can still unwrap until a rotation has moved
+ * everything to the first.
+ */
+export function parseMasterKeys(value: string | undefined): MasterKey[] {
+  if (!value?.trim()) return [];
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator).trim();
+      const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+      if (separator < 1 || !/^[\w.-]{1,64}$/.test(id)) {
+        throw new Error(
+          "STORAGE_ENCRYPTION_KEYS entries must look like <id>:<base64 key>"
+        );
+      }
+      if (key.length !== KEY_SIZE) {
+        throw new Error(
+          `Master key "${id}" must be ${KEY_SIZE} bytes, base64 encoded`
+        );
+      }
+      return { id, key };
+    });
+}
+
+export function generateDataKey(): Buffer {
+  return randomBytes(KEY_SIZE);
+}
+
+/**
+ * Encrypt a data key with a master key. `context` (the storage key) is
+ * authenticated, so a wrapped key only opens the object it belongs to.
+ */
+export function wrapDataKey(
+  dataKey: Buffer,
+  master: MasterKey,
+  context: string
+): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, master.key, iv);
+  cipher.setAAD(Buffer.from(context, "utf8"));
+  const sealed = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  return Buffer.concat([iv, sealed, cipher.getAuthTag()]).toString("base64");
+}
+
+export function unwrapDataKey(
+  wrapped: string,
+  master: MasterKey,
+  context: string
+): Buffer {
+  const data = Buffer.from(wrapped, "base64");
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    master.key,
+    data.subarray(0, 12)
+  );
+  decipher.setAAD(Buffer.from(context, "utf8"));
+  decipher.setAuthTag(data.subarray(data.length - TAG_SIZE));
+  return Buffer.concat([
+    decipher.update(data.subarray(12, data.length - TAG_SIZE)),
+    decipher.final(),
+  ]);
+}
+
+function chunkCount(plaintextSize: number, chunkSize: number): number {
+  // An empty file is still one (empty, authenticated) chunk
+  return Math.max(1, Math.ceil(plaintextSize / chunkSize));
+}
+
+/** 96-bit nonce and associated data for one chunk */
+function chunkParams(index: number, last: boolean) {
+  const nonce = Buffer.alloc(12);
+  nonce.writeUInt32BE(Math.floor(index / 0x100000000), 4);
+  nonce.writeUInt32BE(index % 0x100000000, 8);
+  const aad = Buffer.alloc(9);
+  nonce.copy(aad, 0, 4);
+  aad[8] = last ? 1 : 0;
+  return { nonce, aad };
+}
+
+function sealChunk(
+  dataKey: Buffer,
+  index: number,
+  last: boolean,
+  plaintext: Buffer
+): Buffer {
+  const { nonce, aad } = chunkParams(index, last);
+  const cipher = createCipheriv(ALGORITHM, dataKey, nonce);
+  cipher.setAAD(aad);
+  return Buffer.concat([
+    cipher.update(plaintext),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+}
+
+function openChunk(
+  dataKey: Buffer,
+  index: number,
+  last: boolean,
+  sealed: Buffer
+): Buffer {
+  if (sealed.length < TAG_SIZE) {
+    throw new Error(`Encrypted chunk ${index} is truncated`);
+  }
+  const { nonce, aad } = chunkParams(index, last);
+  const decipher = createDecipheriv(ALGORITHM, dataKey, nonce);
+  decipher.setAAD(aad);
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_SIZE));
+  return Buffer.concat([
+    decipher.update(sealed.subarray(0, sealed.length - TAG_SIZE)),
+    decipher.final(),
+  ]);
+}
+
+export function isEncrypted(data: Buffer): boolean {
+  return (
+    data.length >= HEADER_SIZE &&
+    data.subarray(0, MAGIC.length).equals(MAGIC) &&
+    data[MAGIC.length] === FORMAT
+  );
+}
+
+export function encryptBuffer(
+  plaintext: Buffer,
+  dataKey: Buffer,
+  chunkSize = CHUNK_SIZE
+): Buffer {
+  const header = Buffer.alloc(HEADER_SIZE);
+  MAGIC.copy(header);
+  header[MAGIC.length] = FORMAT;
+  header.writeUInt32BE(chunkSize, MAGIC.length + 1);
+
+  const count = chunkCount(plaintext.length, chunkSize);
+  const parts = [header];
+  for (let i = 0; i < count; i++) {
+    parts.push(
+      sealChunk(
+        dataKey,
+        i,
+        i === count - 1,
+        plaintext.subarray(i * chunkSize, (i + 1) * chunkSize)
+      )
+    );
+  }
+  return Buffer.concat(parts);
+}
+
+export function decryptBuffer(data: Buffer, dataKey: Buffer): Buffer {
+  if (!isEncrypted(data)) {
+    throw new Error("Stored object is not in the encrypted format");
+  }
+  const chunkSize = data.readUInt32BE(MAGIC.length + 1);
+  const sealedSize = chunkSize + TAG_SIZE;
+  const body = data.subarray(HEADER_SIZE);
+  const count = Math.max(1, Math.ceil(body.length / sealedSize));
+
+  const parts: Buffer[] = [];
+  for (let i = 0; i < count; i++) {
+    parts.push(
+      openChunk(
+        dataKey,
+        i,
+        i === count - 1,
+        body.subarray(i * sealedSize, (i + 1) * sealedSize)
+      )
+    );
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * The bytes of the stored object that hold plaintext bytes start..end
+ * (inclusive), whole chunks included.
+ */
+export function encryptedRange(
+  plaintextSize: number,
+  chunkSize: number,
+  start: number,
+  end: number
+): { start: number; end: number } {
+  const first = Math.floor(start / chunkSize);
+  const last = Math.floor(end / chunkSize);
+  const lastLength = Math.min(chunkSize, plaintextSize - last * chunkSize);
+  const sealedSize = chunkSize + TAG_SIZE;
+  return {
+    start: HEADER_SIZE + first * sealedSize,
+    end: HEADER_SIZE + last * sealedSize + lastLength + TAG_SIZE - 1,
+  };
+}
+
+/**
+ * Decrypt the ciphertext of `encryptedRange(...)` as it streams in,
+ * passing on only plaintext bytes start..end.
+ */
+export function createDecryptStream(options: {
+  dataKey: Buffer;
+  plaintextSize: number;
+  chunkSize: number;
+  start: number;
+  end: number;
+}): Transform {
+  const { dataKey, chunkSize, start, end } = options;
+  const sealedSize = chunkSize + TAG_SIZE;
+  const lastChunk = chunkCount(options.plaintextSize, chunkSize) - 1;
+  let index = Math.floor(start / chunkSize);
+  let pending = Buffer.alloc(0);
+
+  const open = (stream: Transform, sealed: Buffer) => {
+    const plaintext = openChunk(dataKey, index, index === lastChunk, sealed);
+    const base = index * chunkSize;
+    const from = Math.max(0, start - base);
+    const to = Math.min(plaintext.length, end - base + 1);
+    if (to > from) stream.push(plaintext.subarray(from, to));
+    index++;
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+      try {
+        while (pending.length >= sealedSize) {
+          open(this, pending.subarray(0, sealedSize));
+          pending = pending.subarray(sealedSize);
+        }
+        callback();
+      } catch (err) {
+        callback(err as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        if (pending.length > 0) open(this, pending);
+        callback();
+      } catch (err) {
+        callback(err as Error);
+      }
+    },
+  });
+}
@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as path from "path";
+import type {
+  ByteRange,
+  PutOptions,
+  StorageProvider,
+  StorageStream,
+  StoredObject,
+} from "./types";
+
+/**
+ * Where files written before the private storage root existed live.
+ * Older rows hold public URLs such as "/uploads/documents/x.pdf".
+ */
+export interface LegacyPublicDir {
+  dir: string;
+  urlPrefix: string;
+}
+
+/**
+ * Stores files on the local disk under `rootDir`, which should not be
+ * served statically; files are delivered by /api/documents/[id]/file.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = "local" as const;
+
+  constructor(
+    private readonly rootDir: string,
+    private readonly legacy?: LegacyPublicDir
+  ) {}
+
+  private isLegacyKey(key: string): boolean {
+    return !!this.legacy && key.startsWith(`${this.legacy.urlPrefix}/`);
+  }
+
+  /**
+   * Map a key to an absolute path, refusing anything that would escape
+   * the directory it belongs to.
+   */
+  private resolvePath(key: string): string {
+    let relative = key.split("?")[0];
+    let baseDir = this.rootDir;
+    if (this.legacy && this.isLegacyKey(relative)) {
+      relative = relative.slice(this.legacy.urlPrefix.length + 1);
+      baseDir = this.legacy.dir;
+    }
+    relative = relative.replace(/^\/+/, "");
+
+    const resolved = path.resolve(baseDir, relative);
+    if (!resolved.startsWith(path.resolve(baseDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(
+    key: string,
+    data: Buffer,
+    _options?: PutOptions
+  ): Promise<StoredObject> {
+    if (this.isLegacyKey(key)) {
+      throw new Error(`Refusing to write to public storage: ${key}`);
+    }
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+    return { key: key.replace(/^\/+/, ""), size: data.length };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolvePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolvePath(key));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+    }
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<StorageStream> {
+    const filePath = this.resolvePath(key);
+    const { size } = await fs.promises.stat(filePath);
+    const start = range ? range.start : 0;
+    const end = range ? Math.min(range.end, size - 1) : size - 1;
+
+    return {
+      body: fs.createReadStream(filePath, { start, end }),
+      size,
+      start,
+      end,
+      contentType: "application/pdf",
+    };
+  }
+
+  async signedUrl(key: string): Promise<string> {
+    // Local files are private; only the access-checked file route serves them
+    throw new Error(
+      `Local storage cannot issue direct URLs (key: ${key}); use /api/documents/[id]/file`
+    );
+  }
+}
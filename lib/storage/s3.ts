@@ -0,0 +1,132 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Readable } from "stream";
+import type {
+  ByteRange,
+  PutOptions,
+  StorageProvider,
+  StorageStream,
+  StoredObject,
+} from "./types";
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /** Required by MinIO and most self-hosted S3-compatible servers */
+  forcePathStyle?: boolean;
+}
+
+/**
+ * Stores files in an S3-compatible bucket (AWS S3, MinIO, ...).
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly name = "s3" as const;
+  private readonly client: S3Client;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? {
+              accessKeyId: config.accessKeyId,
+              secretAccessKey: config.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  private normalizeKey(key: string): string {
+    return key.replace(/^\/+/, "");
+  }
+
+  async put(
+    key: string,
+    data: Buffer,
+    options?: PutOptions
+  ): Promise<StoredObject> {
+    const normalized = this.normalizeKey(key);
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: normalized,
+        Body: data,
+        ContentType: options?.contentType ?? "application/octet-stream",
+      })
+    );
+    return { key: normalized, size: data.length };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const res = await this.client.send(
+      new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.normalizeKey(key),
+      })
+    );
+    if (!res.Body) throw new Error(`Empty object: ${key}`);
+    const bytes = await res.Body.transformToByteArray();
+    return Buffer.from(bytes);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.normalizeKey(key),
+      })
+    );
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<StorageStream> {
+    const res = await this.client.send(
+      new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.normalizeKey(key),
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      })
+    );
+    if (!res.Body) throw new Error(`Empty object: ${key}`);
+
+    // ContentRange looks like "bytes 0-1023/52311" when a range was requested
+    const totalFromRange = res.ContentRange
+      ? Number(res.ContentRange.split("/")[1])
+      : NaN;
+    const size = Number.isFinite(totalFromRange)
+      ? totalFromRange
+      : Number(res.ContentLength ?? 0);
+    const start = range ? range.start : 0;
+    const end = range
+      ? start + Number(res.ContentLength ?? 0) - 1
+      : Math.max(size - 1, 0);
+
+    return {
+      body: res.Body as Readable,
+      size,
+      start,
+      end,
+      contentType: res.ContentType ?? "application/pdf",
+    };
+  }
+
+  async signedUrl(key: string, expiresInSeconds = 3600): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.normalizeKey(key),
+      }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+}
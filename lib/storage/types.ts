@@ -0,0 +1,48 @@
+import type { Readable } from "stream";
+
+export interface StoredObject {
+  key: string;
+  size: number;
+}
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+/** Inclusive byte range, as used by HTTP Range requests */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageStream {
+  body: Readable;
+  /** Total size of the stored object (not just the returned range) */
+  size: number;
+  start: number;
+  end: number;
+  contentType: string;
+}
+
+/**
+ * Backend-agnostic file storage. Keys are the values kept in
+ * `documents.file_path` / `document_versions.file_path`.
+ */
+export interface StorageProvider {
+  readonly name: "local" | "s3" | "cloudinary";
+
+  /** Store bytes under the given key, overwriting anything already there */
+  put(key: string, data: Buffer, options?: PutOptions): Promise<StoredObject>;
+
+  /** Read the whole object into memory */
+  get(key: string): Promise<Buffer>;
+
+  /** Remove the object; missing objects are not an error */
+  delete(key: string): Promise<void>;
+
+  /** Stream the object, optionally limited to a byte range */
+  stream(key: string, range?: ByteRange): Promise<StorageStream>;
+
+  /** A time-limited URL a browser can fetch the object from */
+  signedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+}
@@ -0,0 +1,506 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash, randomUUID } from "crypto";
+import { DatabaseService } from "./database";
+import {
+  DocumentUploadService,
+  isAssignmentType,
+  type AssignmentType,
+} from "./document-upload";
+import type { DuplicateDocument } from "./document-content";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+export type UploadSessionStatus =
+  | "uploading"
+  | "finalizing"
+  | "completed"
+  | "failed";
+
+export interface UploadSessionInfo {
+  id: string;
+  file_name: string;
+  file_size: number;
+  sha256: string;
+  chunk_size: number;
+  total_chunks: number;
+  status: UploadSessionStatus;
+  document_id: string | null;
+  expires_at: string;
+  /** Indexes of the chunks the server already has, ascending */
+  received: number[];
+}
+
+export type SessionResult<T> =
+  | ({ ok: true } & T)
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      duplicates?: DuplicateDocument[];
+    };
+
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const MIN_CHUNK_SIZE = 256 * 1024;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Largest file accepted through an upload session (UPLOAD_MAX_BYTES).
+ * Finalize holds the whole file in memory, and storage, encryption and
+ * text extraction copy it again, so this has to fit several times over.
+ */
+const MAX_FILE_SIZE = parseInt(
+  process.env.UPLOAD_MAX_BYTES || String(100 * 1024 * 1024)
+);
+
+/** Hours an unfinished session survives after its last chunk */
+const SESSION_TTL_HOURS = parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || "24");
+
+function tmpRoot(): string {
+  return (
+    process.env.UPLOAD_TMP_DIR ||
+    path.join(process.cwd(), "storage", ".uploads")
+  );
+}
+
+function sessionDir(sessionId: string): string {
+  // Session ids are UUIDs; anything else never reaches the filesystem
+  if (!/^[a-f0-9-]{36}$/i.test(sessionId)) {
+    throw new Error(`Invalid upload session id: ${sessionId}`);
+  }
+  return path.join(tmpRoot(), sessionId);
+}
+
+function chunkPath(sessionId: string, index: number): string {
+  return path.join(sessionDir(sessionId), `${index}.part`);
+}
+
+async function removeSessionFiles(sessionId: string): Promise<void> {
+  await fs.promises.rm(sessionDir(sessionId), { recursive: true, force: true });
+}
+
+export class UploadSessionService {
+  /**
+   * Start a chunked upload. Nothing is written to storage until finalize,
+   * so abandoned sessions only cost temporary disk space until they expire.
+   */
+  static async create(data: {
+    userId: string;
+    fileName: string;
+    fileSize: number;
+    mimeType: string;
+    sha256: string;
+    chunkSize?: number;
+    title: string;
+    description?: string | null;
+    assignTo: string;
+    assignmentType?: AssignmentType;
+    allowDuplicate?: boolean;
+  }): Promise<SessionResult<{ session: UploadSessionInfo }>> {
+    const fileSize = Math.floor(Number(data.fileSize));
+    if (!Number.isFinite(fileSize) || fileSize <= 0) {
+      return { ok: false, status: 400, error: "fileSize must be positive" };
+    }
+    if (fileSize > MAX_FILE_SIZE) {
+      return {
+        ok: false,
+        status: 413,
+        error: `File is larger than the ${Math.round(
+          MAX_FILE_SIZE / 1024 / 1024
+        )} MB limit`,
+      };
+    }
+    if (data.mimeType !== "application/pdf") {
+      return { ok: false, status: 400, error: "Only PDF files are allowed" };
+    }
+
+    const sha256 = String(data.sha256 ?? "").toLowerCase();
+    if (!/^[a-f0-9]{64}$/.test(sha256)) {
+      return { ok: false, status: 400, error: "sha256 must be a hex digest" };
+    }
+
+    const title = String(data.title ?? "").trim();
+    if (!title) {
+      return { ok: false, status: 400, error: "Title is required" };
+    }
+
+    const assignmentType = data.assignmentType ?? "user";
+    const assigneeError = await DocumentUploadService.checkAssignee(
+      data.userId,
+      data.assignTo,
+      assignmentType
+    );
+    if (assigneeError) {
+      return { ok: false, status: 400, error: assigneeError };
+    }
+
+    // The checksum is known up front, so duplicates are caught before any
+    // bytes are sent; finalize verifies the file really has this hash
+    if (!data.allowDuplicate) {
+      const duplicate = await DocumentUploadService.checkDuplicate(
+        sha256,
+        data.userId
+      );
+      if (duplicate) return duplicate;
+    }
+
+    const chunkSize = Math.min(
+      MAX_CHUNK_SIZE,
+      Math.max(MIN_CHUNK_SIZE, Math.floor(data.chunkSize || DEFAULT_CHUNK_SIZE))
+    );
+    const totalChunks = Math.ceil(fileSize / chunkSize);
+    const id = randomUUID();
+
+    await UploadSessionService.purgeExpired();
+
+    await DatabaseService.query(
+      `INSERT INTO upload_sessions
+       (id, user_id, file_name, file_size, mime_type, sha256, chunk_size, total_chunks,
+        title, description, assign_to, assignment_type, status, expires_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'uploading',
+        DATE_ADD(NOW(), INTERVAL ${SESSION_TTL_HOURS} HOUR), NOW(), NOW())`,
+      [
+        id,
+        data.userId,
+        data.fileName,
+        fileSize,
+        data.mimeType,
+        sha256,
+        chunkSize,
+        totalChunks,
+        title,
+        data.description ?? "",
+        data.assignTo,
+        assignmentType,
+      ]
+    );
+    await fs.promises.mkdir(sessionDir(id), { recursive: true });
+
+    const session = await UploadSessionService.getInfo(id);
+    return { ok: true, session: session! };
+  }
+
+  /** Session details plus received chunks, or null if it doesn't exist */
+  private static async getInfo(
+    sessionId: string
+  ): Promise<UploadSessionInfo | null> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT id, file_name, file_size, sha256, chunk_size, total_chunks,
+                status, document_id, expires_at
+         FROM upload_sessions WHERE id = ?`,
+        [sessionId]
+      )
+    );
+    if (rows.length === 0) return null;
+
+    const chunks = normalizeRows(
+      await DatabaseService.query(
+        `SELECT chunk_index FROM upload_session_chunks
+         WHERE session_id = ? ORDER BY chunk_index`,
+        [sessionId]
+      )
+    );
+
+    const row = rows[0];
+    return {
+      id: row.id,
+      file_name: row.file_name,
+      file_size: Number(row.file_size),
+      sha256: row.sha256,
+      chunk_size: Number(row.chunk_size),
+      total_chunks: Number(row.total_chunks),
+      status: row.status,
+      document_id: row.document_id ?? null,
+      expires_at: new Date(row.expires_at).toISOString(),
+      received: chunks.map((c) => Number(c.chunk_index)),
+    };
+  }
+
+  /**
+   * Load a session for its owner. Expired sessions that haven't been
+   * swept yet are reported as gone rather than resumed.
+   */
+  private static async loadOwned(
+    sessionId: string,
+    userId: string
+  ): Promise<SessionResult<{ row: any }>> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT *, expires_at < NOW() AS is_expired
+         FROM upload_sessions WHERE id = ?`,
+        [sessionId]
+      )
+    );
+    const row = rows[0];
+    if (!row || String(row.user_id) !== String(userId)) {
+      return { ok: false, status: 404, error: "Upload session not found" };
+    }
+    if (Number(row.is_expired) === 1 && row.status !== "completed") {
+      return { ok: false, status: 410, error: "Upload session has expired" };
+    }
+    return { ok: true, row };
+  }
+
+  static async status(
+    sessionId: string,
+    userId: string
+  ): Promise<SessionResult<{ session: UploadSessionInfo }>> {
+    const loaded = await UploadSessionService.loadOwned(sessionId, userId);
+    if (!loaded.ok) return loaded;
+
+    const session = await UploadSessionService.getInfo(sessionId);
+    return { ok: true, session: session! };
+  }
+
+  /**
+   * Store one chunk. Re-sending a chunk overwrites it, so clients can
+   * retry freely. Every chunk but the last must be exactly `chunk_size`.
+   */
+  static async putChunk(
+    sessionId: string,
+    userId: string,
+    index: number,
+    data: Buffer
+  ): Promise<SessionResult<{ received: number }>> {
+    const loaded = await UploadSessionService.loadOwned(sessionId, userId);
+    if (!loaded.ok) return loaded;
+    const row = loaded.row;
+
+    if (row.status !== "uploading") {
+      return {
+        ok: false,
+        status: 409,
+        error: `Upload session is ${row.status}`,
+      };
+    }
+
+    const totalChunks = Number(row.total_chunks);
+    if (!Number.isInteger(index) || index < 0 || index >= totalChunks) {
+      return { ok: false, status: 400, error: "Chunk index out of range" };
+    }
+
+    const chunkSize = Number(row.chunk_size);
+    const expected =
+      index === totalChunks - 1
+        ? Number(row.file_size) - chunkSize * (totalChunks - 1)
+        : chunkSize;
+    if (data.length !== expected) {
+      return {
+        ok: false,
+        status: 400,
+        error: `Chunk ${index} should be ${expected} bytes, got ${data.length}`,
+      };
+    }
+
+    // Write then rename so a dropped request never leaves a partial chunk
+    const target = chunkPath(sessionId, index);
+    const partial = `${target}.${randomUUID()}.tmp`;
+    await fs.promises.mkdir(sessionDir(sessionId), { recursive: true });
+    await fs.promises.writeFile(partial, data);
+    await fs.promises.rename(partial, target);
+
+    await DatabaseService.query(
+      `INSERT INTO upload_session_chunks (session_id, chunk_index, size, created_at)
+       VALUES (?, ?, ?, NOW())
+       ON DUPLICATE KEY UPDATE size = VALUES(size), created_at = NOW()`,
+      [sessionId, index, data.length]
+    );
+    await DatabaseService.query(
+      `UPDATE upload_sessions
+       SET expires_at = DATE_ADD(NOW(), INTERVAL ${SESSION_TTL_HOURS} HOUR), updated_at = NOW()
+       WHERE id = ?`,
+      [sessionId]
+    );
+
+    const counted = normalizeRows(
+      await DatabaseService.query(
+        "SELECT COUNT(*) AS received FROM upload_session_chunks WHERE session_id = ?",
+        [sessionId]
+      )
+    );
+    return { ok: true, received: Number(counted[0]?.received ?? 0) };
+  }
+
+  /**
+   * Assemble the chunks, verify the checksum and create the document.
+   * Calling finalize again on a completed session returns the same
+   * document, so a client that lost the response can simply retry.
+   */
+  static async finalize(
+    sessionId: string,
+    userId: string
+  ): Promise<SessionResult<{ documentId: string }>> {
+    const loaded = await UploadSessionService.loadOwned(sessionId, userId);
+    if (!loaded.ok) return loaded;
+    const row = loaded.row;
+
+    if (row.status === "completed" && row.document_id) {
+      return { ok: true, documentId: row.document_id };
+    }
+
+    // Claim the session so two finalize calls can't both create a document
+    const claimed: any = await DatabaseService.query(
+      `UPDATE upload_sessions SET status = 'finalizing', updated_at = NOW()
+       WHERE id = ? AND status = 'uploading'`,
+      [sessionId]
+    );
+    if (Number(claimed?.affectedRows ?? 0) !== 1) {
+      return {
+        ok: false,
+        status: 409,
+        error: `Upload session is ${row.status}`,
+      };
+    }
+
+    const setStatus = (status: UploadSessionStatus, documentId?: string) =>
+      DatabaseService.query(
+        `UPDATE upload_sessions SET status = ?, document_id = ?, updated_at = NOW()
+         WHERE id = ?`,
+        [status, documentId ?? null, sessionId]
+      );
+
+    const totalChunks = Number(row.total_chunks);
+    const chunks = normalizeRows(
+      await DatabaseService.query(
+        "SELECT chunk_index FROM upload_session_chunks WHERE session_id = ?",
+        [sessionId]
+      )
+    );
+    const received = new Set(chunks.map((c) => Number(c.chunk_index)));
+    const missing: number[] = [];
+    for (let i = 0; i < totalChunks; i++) {
+      if (!received.has(i)) missing.push(i);
+    }
+    if (missing.length > 0) {
+      await setStatus("uploading");
+      return {
+        ok: false,
+        status: 409,
+        error: `Missing chunks: ${missing.slice(0, 20).join(", ")}${
+          missing.length > 20 ? "…" : ""
+        }`,
+      };
+    }
+
+    try {
+      // Read the chunks straight into one buffer; it's needed whole for
+      // storage and text extraction anyway
+      const fileSize = Number(row.file_size);
+      const chunkSize = Number(row.chunk_size);
+      const buffer = Buffer.allocUnsafe(fileSize);
+      for (let i = 0; i < totalChunks; i++) {
+        const handle = await fs.promises.open(chunkPath(sessionId, i), "r");
+        try {
+          const length = Math.min(chunkSize, fileSize - i * chunkSize);
+          await handle.read(buffer, i * chunkSize, length, 0);
+        } finally {
+          await handle.close();
+        }
+      }
+
+      const digest = createHash("sha256").update(buffer).digest("hex");
+      if (digest !== row.sha256) {
+        // Some chunk was corrupted, and there's no telling which one
+        await setStatus("failed");
+        await removeSessionFiles(sessionId);
+        return {
+          ok: false,
+          status: 422,
+          error: "Checksum mismatch; the file must be uploaded again",
+        };
+      }
+
+      const result = await DocumentUploadService.createDocument({
+        buffer,
+        fileName: row.file_name,
+        mimeType: row.mime_type,
+        title: row.title,
+        description: row.description,
+        uploadedBy: String(row.user_id),
+        assignTo: String(row.assign_to),
+        assignmentType: isAssignmentType(row.assignment_type)
+          ? row.assignment_type
+          : "user",
+        // Duplicates were already checked (or allowed) when the session began
+        allowDuplicate: true,
+      });
+
+      if (!result.ok) {
+        await setStatus("failed");
+        await removeSessionFiles(sessionId);
+        return result;
+      }
+
+      await setStatus("completed", result.document.id);
+      await removeSessionFiles(sessionId);
+      await DatabaseService.query(
+        "DELETE FROM upload_session_chunks WHERE session_id = ?",
+        [sessionId]
+      );
+      return { ok: true, documentId: result.document.id };
+    } catch (error) {
+      // Leave the chunks in place so finalize can be retried
+      await setStatus("uploading");
+      throw error;
+    }
+  }
+
+  /** Abandon a session and delete its chunks */
+  static async abort(
+    sessionId: string,
+    userId: string
+  ): Promise<SessionResult<object>> {
+    const loaded = await UploadSessionService.loadOwned(sessionId, userId);
+    if (!loaded.ok && loaded.status !== 410) return loaded;
+
+    await UploadSessionService.remove(sessionId);
+    return { ok: true };
+  }
+
+  private static async remove(sessionId: string): Promise<void> {
+    await removeSessionFiles(sessionId);
+    await DatabaseService.transaction([
+      {
+        sql: "DELETE FROM upload_session_chunks WHERE session_id = ?",
+        params: [sessionId],
+      },
+      { sql: "DELETE FROM upload_sessions WHERE id = ?", params: [sessionId] },
+    ]);
+  }
+
+  /**
+   * Delete sessions past their expiry, finished or not, together with any
+   * chunks left on disk. A finalize that has been running for over an hour
+   * is assumed to have crashed. Returns how many were removed.
+   */
+  static async purgeExpired(): Promise<number> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT id FROM upload_sessions
+         WHERE expires_at < NOW()
+           AND (status <> 'finalizing' OR updated_at < NOW() - INTERVAL 1 HOUR)`
+      )
+    );
+
+    let removed = 0;
+    for (const row of rows) {
+      try {
+        await UploadSessionService.remove(row.id);
+        removed++;
+      } catch (error) {
+        console.error(`Failed to remove expired upload session ${row.id}:`, error);
+      }
+    }
+    if (removed > 0) {
+      console.log(`🧹 Removed ${removed} expired upload session(s)`);
+    }
+    return removed;
+  }
+}
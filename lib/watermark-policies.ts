@@ -0,0 +1,360 @@
+import { randomUUID } from "crypto";
+import { DatabaseService } from "./database";
+import {
+  formatWatermarkTimestamp,
+  isDocumentClassification,
+  isWatermarkPosition,
+  renderWatermarkText,
+  DOCUMENT_CLASSIFICATIONS,
+  WATERMARK_POSITIONS,
+  type ResolvedWatermark,
+  type WatermarkPosition,
+} from "./watermark";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+export interface WatermarkPolicy {
+  id: string;
+  name: string;
+  department_id: string | null;
+  department_name: string | null;
+  classification: string | null;
+  text_template: string;
+  opacity: number;
+  position: WatermarkPosition;
+  font_size: number;
+  color: string;
+  enabled: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WatermarkPolicyInput {
+  name?: string;
+  departmentId?: string | null;
+  classification?: string | null;
+  textTemplate?: string;
+  opacity?: number;
+  position?: string;
+  fontSize?: number;
+  color?: string;
+  enabled?: boolean;
+}
+
+/** Who the mark identifies */
+export interface WatermarkViewer {
+  name: string;
+  email: string;
+}
+
+export type PolicyResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; error: string };
+
+const MAX_NAME_LENGTH = 100;
+const MAX_TEMPLATE_LENGTH = 300;
+
+function mapPolicy(row: any): WatermarkPolicy {
+  return {
+    id: String(row.id),
+    name: row.name,
+    department_id: row.department_id ?? null,
+    department_name: row.department_name ?? null,
+    classification: row.classification ?? null,
+    text_template: row.text_template,
+    opacity: Number(row.opacity),
+    position: row.position,
+    font_size: Number(row.font_size),
+    color: row.color,
+    enabled: Number(row.enabled) === 1,
+    created_by: String(row.created_by),
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at ?? row.created_at).toISOString(),
+  };
+}
+
+type PolicyValues = Omit<
+  WatermarkPolicy,
+  "id" | "department_name" | "created_by" | "created_at" | "updated_at"
+>;
+
+/** Merge input over the current values (if any) and validate the result */
+function validate(
+  input: WatermarkPolicyInput,
+  current?: WatermarkPolicy
+): PolicyResult<{ values: PolicyValues }> {
+  const name = String(input.name ?? current?.name ?? "").trim();
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Policy name must be 1-${MAX_NAME_LENGTH} characters`,
+    };
+  }
+
+  const textTemplate = String(
+    input.textTemplate ?? current?.text_template ?? ""
+  ).trim();
+  if (!textTemplate || textTemplate.length > MAX_TEMPLATE_LENGTH) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Text template must be 1-${MAX_TEMPLATE_LENGTH} characters`,
+    };
+  }
+
+  const classification =
+    input.classification !== undefined
+      ? input.classification || null
+      : current?.classification ?? null;
+  if (classification !== null && !isDocumentClassification(classification)) {
+    return {
+      ok: false,
+      status: 400,
+      error: `classification must be one of: ${DOCUMENT_CLASSIFICATIONS.join(
+        ", "
+      )}`,
+    };
+  }
+
+  const position = input.position ?? current?.position ?? "diagonal";
+  if (!isWatermarkPosition(position)) {
+    return {
+      ok: false,
+      status: 400,
+      error: `position must be one of: ${WATERMARK_POSITIONS.join(", ")}`,
+    };
+  }
+
+  const opacity = Number(input.opacity ?? current?.opacity ?? 0.15);
+  if (!Number.isFinite(opacity) || opacity < 0.05 || opacity > 1) {
+    return {
+      ok: false,
+      status: 400,
+      error: "opacity must be between 0.05 and 1",
+    };
+  }
+
+  const fontSize = Number(input.fontSize ?? current?.font_size ?? 36);
+  if (!Number.isInteger(fontSize) || fontSize < 6 || fontSize > 144) {
+    return {
+      ok: false,
+      status: 400,
+      error: "fontSize must be a whole number between 6 and 144",
+    };
+  }
+
+  const color = String(input.color ?? current?.color ?? "#ff0000");
+  if (!/^#[0-9a-fA-F]{6}$/.test(color)) {
+    return { ok: false, status: 400, error: "color must look like #rrggbb" };
+  }
+
+  return {
+    ok: true,
+    values: {
+      name,
+      department_id:
+        input.departmentId !== undefined
+          ? input.departmentId || null
+          : current?.department_id ?? null,
+      classification,
+      text_template: textTemplate,
+      opacity,
+      position,
+      font_size: fontSize,
+      color: color.toLowerCase(),
+      enabled: input.enabled ?? current?.enabled ?? true,
+    },
+  };
+}
+
+export class WatermarkPolicyService {
+  static async list(): Promise<WatermarkPolicy[]> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT p.*, dep.name AS department_name
+         FROM watermark_policies p
+         LEFT JOIN departments dep ON dep.id = p.department_id
+         ORDER BY p.name ASC`
+      )
+    );
+    return rows.map(mapPolicy);
+  }
+
+  static async get(id: string): Promise<WatermarkPolicy | null> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT p.*, dep.name AS department_name
+         FROM watermark_policies p
+         LEFT JOIN departments dep ON dep.id = p.department_id
+         WHERE p.id = ?
+         LIMIT 1`,
+        [id]
+      )
+    );
+    return rows[0] ? mapPolicy(rows[0]) : null;
+  }
+
+  static async create(
+    userId: string,
+    input: WatermarkPolicyInput
+  ): Promise<PolicyResult<{ policy: WatermarkPolicy }>> {
+    const validated = validate(input);
+    if (!validated.ok) return validated;
+    const v = validated.values;
+
+    const id = randomUUID();
+    await DatabaseService.query(
+      `INSERT INTO watermark_policies
+         (id, name, department_id, classification, text_template, opacity,
+          position, font_size, color, enabled, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        v.name,
+        v.department_id,
+        v.classification,
+        v.text_template,
+        v.opacity,
+        v.position,
+        v.font_size,
+        v.color,
+        v.enabled ? 1 : 0,
+        userId,
+      ]
+    );
+    return { ok: true, policy: (await this.get(id))! };
+  }
+
+  static async update(
+    id: string,
+    input: WatermarkPolicyInput
+  ): Promise<PolicyResult<{ policy: WatermarkPolicy }>> {
+    const current = await this.get(id);
+    if (!current) {
+      return { ok: false, status: 404, error: "Policy not found" };
+    }
+
+    const validated = validate(input, current);
+    if (!validated.ok) return validated;
+    const v = validated.values;
+
+    await DatabaseService.query(
+      `UPDATE watermark_policies
+       SET name = ?, department_id = ?, classification = ?,
+           text_template = ?, opacity = ?, position = ?, font_size = ?,
+           color = ?, enabled = ?
+       WHERE id = ?`,
+      [
+        v.name,
+        v.department_id,
+        v.classification,
+        v.text_template,
+        v.opacity,
+        v.position,
+        v.font_size,
+        v.color,
+        v.enabled ? 1 : 0,
+        id,
+      ]
+    );
+    return { ok: true, policy: (await this.get(id))! };
+  }
+
+  static async remove(id: string): Promise<PolicyResult<object>> {
+    if (!(await this.get(id))) {
+      return { ok: false, status: 404, error: "Policy not found" };
+    }
+    await DatabaseService.query(`DELETE FROM watermark_policies WHERE id = ?`, [
+      id,
+    ]);
+    return { ok: true };
+  }
+
+  /**
+   * The enabled policy that applies to a document: department and
+   * classification, then classification, then the uploader's department,
+   * then a default with neither.
+   */
+  static async forDocument(doc: {
+    uploaded_by?: string | null;
+    classification?: string | null;
+  }): Promise<WatermarkPolicy | null> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT p.*, NULL AS department_name
+         FROM watermark_policies p
+         WHERE p.enabled = 1
+           AND (p.classification IS NULL OR p.classification = ?)
+           AND (
+             p.department_id IS NULL
+             OR p.department_id = (
+               SELECT department_id FROM users WHERE id = ? LIMIT 1
+             )
+           )
+         ORDER BY (p.classification IS NOT NULL) DESC,
+                  (p.department_id IS NOT NULL) DESC,
+                  p.updated_at DESC
+         LIMIT 1`,
+        [doc.classification ?? "", doc.uploaded_by ?? ""]
+      )
+    );
+    return rows[0] ? mapPolicy(rows[0]) : null;
+  }
+
+  /** The watermark one viewer sees on a document, if a policy applies */
+  static async resolve(
+    doc: {
+      id: string;
+      uploaded_by?: string | null;
+      classification?: string | null;
+    },
+    viewer: WatermarkViewer,
+    now: Date = new Date()
+  ): Promise<ResolvedWatermark | null> {
+    const policy = await this.forDocument(doc);
+    if (!policy) return null;
+
+    return {
+      policy_id: policy.id,
+      text: renderWatermarkText(policy.text_template, {
+        user_name: viewer.name,
+        user_email: viewer.email,
+        timestamp: formatWatermarkTimestamp(now),
+        document_id: String(doc.id),
+      }),
+      opacity: policy.opacity,
+      position: policy.position,
+      font_size: policy.font_size,
+      color: policy.color,
+    };
+  }
+
+  /** Like `resolve`, for a signed-in user */
+  static async resolveForUser(
+    doc: {
+      id: string;
+      uploaded_by?: string | null;
+      classification?: string | null;
+    },
+    userId: string
+  ): Promise<ResolvedWatermark | null> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT name, email FROM users WHERE id = ? LIMIT 1`,
+        [userId]
+      )
+    );
+    return this.resolve(doc, {
+      name: rows[0]?.name ?? rows[0]?.email ?? String(userId),
+      email: rows[0]?.email ?? "",
+    });
+  }
+}
@@ -0,0 +1,171 @@
+// Watermark templates and drawing, shared by the viewer overlay and the
+// server-side render that burns the mark into downloaded PDFs
+
+export const WATERMARK_POSITIONS = [
+  "diagonal",
+  "center",
+  "top",
+  "bottom",
+  "tiled",
+] as const;
+export type WatermarkPosition = (typeof WATERMARK_POSITIONS)[number];
+
+export const DOCUMENT_CLASSIFICATIONS = [
+  "public",
+  "internal",
+  "confidential",
+  "restricted",
+] as const;
+export type DocumentClassification = (typeof DOCUMENT_CLASSIFICATIONS)[number];
+
+/** Placeholders a template may use, e.g. "Copy for {user_name}" */
+export const WATERMARK_PLACEHOLDERS = [
+  "user_name",
+  "user_email",
+  "timestamp",
+  "document_id",
+] as const;
+export type WatermarkPlaceholder = (typeof WATERMARK_PLACEHOLDERS)[number];
+
+export type WatermarkValues = Record<WatermarkPlaceholder, string>;
+
+/** A policy's template filled in for one viewer of one document */
+export interface ResolvedWatermark {
+  policy_id: string;
+  text: string;
+  /** 0 (invisible) to 1 (opaque) */
+  opacity: number;
+  position: WatermarkPosition;
+  /** In PDF points */
+  font_size: number;
+  /** #rrggbb */
+  color: string;
+}
+
+/** The subset of a 2D canvas context the watermark is drawn with */
+export interface WatermarkCanvas {
+  globalAlpha: number;
+  fillStyle: unknown;
+  font: string;
+  textAlign: string;
+  textBaseline: string;
+  save(): void;
+  restore(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  fillText(text: string, x: number, y: number): void;
+  measureText(text: string): { width: number };
+}
+
+/** Server canvases register this name for the bundled Liberation Sans */
+export const WATERMARK_FONT_FAMILY = "Watermark Sans";
+const FONT_STACK = `"${WATERMARK_FONT_FAMILY}", Helvetica, Arial, sans-serif`;
+
+const MARGIN = 24;
+
+export function isWatermarkPosition(
+  value: unknown
+): value is WatermarkPosition {
+  return (WATERMARK_POSITIONS as readonly unknown[]).includes(value);
+}
+
+export function isDocumentClassification(
+  value: unknown
+): value is DocumentClassification {
+  return (DOCUMENT_CLASSIFICATIONS as readonly unknown[]).includes(value);
+}
+
+/** e.g. "2026-10-19 17:05 UTC" */
+export function formatWatermarkTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/** Fill in {placeholders}; unknown ones are left as typed */
+export function renderWatermarkText(
+  template: string,
+  values: WatermarkValues
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key as WatermarkPlaceholder] : match
+  );
+}
+
+/**
+ * Draw the watermark over one page. Coordinates are PDF points with the
+ * origin at the top left; callers scale the context to match.
+ */
+export function drawWatermark(
+  ctx: WatermarkCanvas,
+  pageWidth: number,
+  pageHeight: number,
+  watermark: ResolvedWatermark
+) {
+  if (!watermark.text) return;
+
+  ctx.save();
+  try {
+    ctx.globalAlpha = Math.min(Math.max(watermark.opacity, 0), 1);
+    ctx.fillStyle = watermark.color;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    // Shrink long texts so they stay on the page
+    const fitTo = (maxWidth: number) => {
+      let size = watermark.font_size;
+      ctx.font = `bold ${size}px ${FONT_STACK}`;
+      const width = ctx.measureText(watermark.text).width;
+      if (width > maxWidth && width > 0) {
+        size = Math.max(6, (size * maxWidth) / width);
+        ctx.font = `bold ${size}px ${FONT_STACK}`;
+      }
+      return size;
+    };
+
+    switch (watermark.position) {
+      case "diagonal": {
+        const angle = Math.atan2(pageHeight, pageWidth);
+        fitTo(Math.hypot(pageWidth, pageHeight) * 0.75);
+        ctx.translate(pageWidth / 2, pageHeight / 2);
+        ctx.rotate(-angle);
+        ctx.fillText(watermark.text, 0, 0);
+        break;
+      }
+      case "center":
+        fitTo(pageWidth - MARGIN * 2);
+        ctx.fillText(watermark.text, pageWidth / 2, pageHeight / 2);
+        break;
+      case "top": {
+        const size = fitTo(pageWidth - MARGIN * 2);
+        ctx.fillText(watermark.text, pageWidth / 2, MARGIN + size / 2);
+        break;
+      }
+      case "bottom": {
+        const size = fitTo(pageWidth - MARGIN * 2);
+        ctx.fillText(
+          watermark.text,
+          pageWidth / 2,
+          pageHeight - MARGIN - size / 2
+        );
+        break;
+      }
+      case "tiled": {
+        const size = fitTo(pageWidth * 0.8);
+        const stepX = ctx.measureText(watermark.text).width + size * 3;
+        const stepY = size * 5;
+        const reach = Math.hypot(pageWidth, pageHeight);
+        ctx.translate(pageWidth / 2, pageHeight / 2);
+        ctx.rotate(-Math.PI / 6);
+        for (let y = -reach / 2; y <= reach / 2; y += stepY) {
+          // Offset every other row so the marks form a brick pattern
+          const shift = (Math.round(y / stepY) % 2) * (stepX / 2);
+          for (let x = -reach / 2; x <= reach / 2; x += stepX) {
+            ctx.fillText(watermark.text, x + shift, y);
+          }
+        }
+        break;
+      }
+    }
+  } finally {
+    ctx.restore();
+  }
+}
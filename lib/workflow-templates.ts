@@ -0,0 +1,433 @@
+import { randomUUID } from "crypto";
+import { DatabaseService } from "./database";
+import { isQuorumRule, QUORUM_RULES } from "./review-quorum";
+import {
+  isWorkflowTargetType,
+  STEP_REJECTION_RULES,
+  WORKFLOW_TARGET_TYPES,
+  type StepRejectionRule,
+  type WorkflowStepDefinition,
+  type WorkflowTargetType,
+  type WorkflowTemplate,
+} from "./workflow";
+
+/** Normalize mysql2 return shapes into an array of rows. */
+function normalizeRows(result: any): any[] {
+  if (!result) return [];
+  if (Array.isArray(result) && Array.isArray(result[0])) return result[0];
+  if (Array.isArray(result)) return result;
+  return [];
+}
+
+export interface WorkflowStepInput {
+  name?: string;
+  targetType?: string;
+  targetId?: string;
+  completion?: string;
+  requiredApprovals?: number | null;
+  onReject?: string;
+}
+
+export interface WorkflowTemplateInput {
+  name?: string;
+  description?: string | null;
+  departmentId?: string | null;
+  enabled?: boolean;
+  steps?: WorkflowStepInput[];
+}
+
+export type TemplateResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; error: string };
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+export const MAX_WORKFLOW_STEPS = 20;
+const MAX_REQUIRED_APPROVALS = 100;
+
+/** The display name of the user, role or department step `s` targets */
+export const STEP_TARGET_NAME = `CASE s.target_type
+    WHEN 'user' THEN (SELECT name FROM users WHERE id = s.target_id)
+    WHEN 'role' THEN (SELECT name FROM roles WHERE id = s.target_id)
+    ELSE (SELECT name FROM departments WHERE id = s.target_id)
+  END`;
+
+const STEP_SELECT = `SELECT s.*, ${STEP_TARGET_NAME} AS target_name`;
+
+const TARGET_TABLES: Record<WorkflowTargetType, string> = {
+  user: "users",
+  role: "roles",
+  department: "departments",
+};
+
+export function mapStep(row: any): WorkflowStepDefinition {
+  return {
+    id: String(row.id),
+    position: Number(row.position),
+    name: row.name,
+    target_type: row.target_type,
+    target_id: String(row.target_id),
+    target_name: row.target_name ?? null,
+    completion: row.completion,
+    required_approvals:
+      row.required_approvals != null ? Number(row.required_approvals) : null,
+    on_reject: row.on_reject,
+  };
+}
+
+function mapTemplate(row: any, steps: any[]): WorkflowTemplate {
+  return {
+    id: String(row.id),
+    name: row.name,
+    description: row.description ?? null,
+    department_id: row.department_id ?? null,
+    department_name: row.department_name ?? null,
+    enabled: Number(row.enabled) === 1,
+    steps: steps
+      .filter((s) => String(s.template_id) === String(row.id))
+      .map(mapStep)
+      .sort((a, b) => a.position - b.position),
+    created_by: String(row.created_by),
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at ?? row.created_at).toISOString(),
+  };
+}
+
+type StepValues = Omit<WorkflowStepDefinition, "id" | "target_name">;
+
+type TemplateValues = {
+  name: string;
+  description: string | null;
+  department_id: string | null;
+  enabled: boolean;
+  steps: StepValues[];
+};
+
+/** Merge input over the current values (if any) and validate the result */
+async function validate(
+  input: WorkflowTemplateInput,
+  current?: WorkflowTemplate
+): Promise<TemplateResult<{ values: TemplateValues }>> {
+  const name = String(input.name ?? current?.name ?? "").trim();
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Workflow name must be 1-${MAX_NAME_LENGTH} characters`,
+    };
+  }
+
+  const description =
+    input.description !== undefined
+      ? String(input.description ?? "").trim() || null
+      : current?.description ?? null;
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`,
+    };
+  }
+
+  const rawSteps: WorkflowStepInput[] =
+    input.steps ??
+    (current?.steps ?? []).map((s) => ({
+      name: s.name,
+      targetType: s.target_type,
+      targetId: s.target_id,
+      completion: s.completion,
+      requiredApprovals: s.required_approvals,
+      onReject: s.on_reject,
+    }));
+  if (
+    !Array.isArray(rawSteps) ||
+    rawSteps.length === 0 ||
+    rawSteps.length > MAX_WORKFLOW_STEPS
+  ) {
+    return {
+      ok: false,
+      status: 400,
+      error: `A workflow needs 1-${MAX_WORKFLOW_STEPS} steps`,
+    };
+  }
+
+  const steps: StepValues[] = [];
+  for (let i = 0; i < rawSteps.length; i++) {
+    const step = rawSteps[i] ?? {};
+    const label = `Step ${i + 1}`;
+
+    const stepName = String(step.name ?? "").trim();
+    if (!stepName || stepName.length > MAX_NAME_LENGTH) {
+      return {
+        ok: false,
+        status: 400,
+        error: `${label}: name must be 1-${MAX_NAME_LENGTH} characters`,
+      };
+    }
+    if (!isWorkflowTargetType(step.targetType)) {
+      return {
+        ok: false,
+        status: 400,
+        error: `${label}: targetType must be one of: ${WORKFLOW_TARGET_TYPES.join(
+          ", "
+        )}`,
+      };
+    }
+    // A single user is the whole group; nothing to count
+    const completion =
+      step.targetType === "user" ? "any" : step.completion ?? "any";
+    if (!isQuorumRule(completion)) {
+      return {
+        ok: false,
+        status: 400,
+        error: `${label}: completion must be one of: ${QUORUM_RULES.join(
+          ", "
+        )}`,
+      };
+    }
+    const requiredApprovals =
+      completion === "count" ? Number(step.requiredApprovals) : null;
+    if (
+      requiredApprovals !== null &&
+      (!Number.isInteger(requiredApprovals) ||
+        requiredApprovals < 1 ||
+        requiredApprovals > MAX_REQUIRED_APPROVALS)
+    ) {
+      return {
+        ok: false,
+        status: 400,
+        error: `${label}: requiredApprovals must be 1-${MAX_REQUIRED_APPROVALS}`,
+      };
+    }
+    const onReject = (step.onReject ?? "reject") as StepRejectionRule;
+    if (!STEP_REJECTION_RULES.includes(onReject)) {
+      return {
+        ok: false,
+        status: 400,
+        error: `${label}: onReject must be one of: ${STEP_REJECTION_RULES.join(
+          ", "
+        )}`,
+      };
+    }
+    if (onReject === "previous" && i === 0) {
+      return {
+        ok: false,
+        status: 400,
+        error: `${label}: the first step has no step to send back to`,
+      };
+    }
+
+    const targetId = String(step.targetId ?? "").trim();
+    const found = targetId
+      ? normalizeRows(
+          await DatabaseService.query(
+            `SELECT id FROM ${TARGET_TABLES[step.targetType]} WHERE id = ? LIMIT 1`,
+            [targetId]
+          )
+        )
+      : [];
+    if (found.length === 0) {
+      return {
+        ok: false,
+        status: 400,
+        error: `${label}: ${step.targetType} not found`,
+      };
+    }
+
+    steps.push({
+      position: i,
+      name: stepName,
+      target_type: step.targetType,
+      target_id: targetId,
+      completion,
+      required_approvals: requiredApprovals,
+      on_reject: onReject,
+    });
+  }
+
+  return {
+    ok: true,
+    values: {
+      name,
+      description,
+      department_id:
+        input.departmentId !== undefined
+          ? input.departmentId || null
+          : current?.department_id ?? null,
+      enabled: input.enabled ?? current?.enabled ?? true,
+      steps,
+    },
+  };
+}
+
+function stepInserts(templateId: string, steps: StepValues[]) {
+  return steps.map((s) => ({
+    sql: `INSERT INTO workflow_template_steps
+            (id, template_id, position, name, target_type, target_id,
+             completion, required_approvals, on_reject)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    params: [
+      randomUUID(),
+      templateId,
+      s.position,
+      s.name,
+      s.target_type,
+      s.target_id,
+      s.completion,
+      s.required_approvals,
+      s.on_reject,
+    ],
+  }));
+}
+
+export class WorkflowTemplateService {
+  /** Every template, or only enabled ones */
+  static async list(onlyEnabled = false): Promise<WorkflowTemplate[]> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT t.*, dep.name AS department_name
+         FROM workflow_templates t
+         LEFT JOIN departments dep ON dep.id = t.department_id
+         ${onlyEnabled ? "WHERE t.enabled = 1" : ""}
+         ORDER BY t.name ASC`
+      )
+    );
+    if (rows.length === 0) return [];
+
+    const steps = normalizeRows(
+      await DatabaseService.query(
+        `${STEP_SELECT}
+         FROM workflow_template_steps s
+         WHERE s.template_id IN (${rows.map(() => "?").join(",")})`,
+        rows.map((r) => r.id)
+      )
+    );
+    return rows.map((row) => mapTemplate(row, steps));
+  }
+
+  static async get(id: string): Promise<WorkflowTemplate | null> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT t.*, dep.name AS department_name
+         FROM workflow_templates t
+         LEFT JOIN departments dep ON dep.id = t.department_id
+         WHERE t.id = ?
+         LIMIT 1`,
+        [id]
+      )
+    );
+    if (!rows[0]) return null;
+
+    const steps = normalizeRows(
+      await DatabaseService.query(
+        `${STEP_SELECT}
+         FROM workflow_template_steps s
+         WHERE s.template_id = ?`,
+        [id]
+      )
+    );
+    return mapTemplate(rows[0], steps);
+  }
+
+  /**
+   * Enabled templates that may be started on a document: ones for every
+   * department, and ones for the uploader's department.
+   */
+  static async listForDocument(doc: {
+    uploaded_by?: string | null;
+  }): Promise<WorkflowTemplate[]> {
+    const rows = normalizeRows(
+      await DatabaseService.query(
+        `SELECT department_id FROM users WHERE id = ? LIMIT 1`,
+        [doc.uploaded_by ?? ""]
+      )
+    );
+    const departmentId = rows[0]?.department_id
+      ? String(rows[0].department_id)
+      : null;
+    return (await this.list(true)).filter(
+      (t) => !t.department_id || t.department_id === departmentId
+    );
+  }
+
+  static async create(
+    userId: string,
+    input: WorkflowTemplateInput
+  ): Promise<TemplateResult<{ template: WorkflowTemplate }>> {
+    const validated = await validate(input);
+    if (!validated.ok) return validated;
+    const v = validated.values;
+
+    const id = randomUUID();
+    await DatabaseService.transaction([
+      {
+        sql: `INSERT INTO workflow_templates
+                (id, name, description, department_id, enabled, created_by)
+              VALUES (?, ?, ?, ?, ?, ?)`,
+        params: [
+          id,
+          v.name,
+          v.description,
+          v.department_id,
+          v.enabled ? 1 : 0,
+          userId,
+        ],
+      },
+      ...stepInserts(id, v.steps),
+    ]);
+    return { ok: true, template: (await this.get(id))! };
+  }
+
+  /**
+   * Update a template; `steps`, when given, replaces all of them.
+   * Documents already on the workflow keep the steps they started with.
+   */
+  static async update(
+    id: string,
+    input: WorkflowTemplateInput
+  ): Promise<TemplateResult<{ template: WorkflowTemplate }>> {
+    const current = await this.get(id);
+    if (!current) {
+      return { ok: false, status: 404, error: "Workflow not found" };
+    }
+
+    const validated = await validate(input, current);
+    if (!validated.ok) return validated;
+    const v = validated.values;
+
+    await DatabaseService.transaction([
+      {
+        sql: `UPDATE workflow_templates
+              SET name = ?, description = ?, department_id = ?, enabled = ?
+              WHERE id = ?`,
+        params: [
+          v.name,
+          v.description,
+          v.department_id,
+          v.enabled ? 1 : 0,
+          id,
+        ],
+      },
+      {
+        sql: "DELETE FROM workflow_template_steps WHERE template_id = ?",
+        params: [id],
+      },
+      ...stepInserts(id, v.steps),
+    ]);
+    return { ok: true, template: (await this.get(id))! };
+  }
+
+  static async remove(id: string): Promise<TemplateResult<object>> {
+    if (!(await this.get(id))) {
+      return { ok: false, status: 404, error: "Workflow not found" };
+    }
+    await DatabaseService.transaction([
+      {
+        sql: "DELETE FROM workflow_template_steps WHERE template_id = ?",
+        params: [id],
+      },
+      { sql: "DELETE FROM workflow_templates WHERE id = ?", params: [id] },
+    ]);
+    return { ok: true };
+  }
+}
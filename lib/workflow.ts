@@ -0,0 +1,100 @@
+// Approval workflow vocabulary. No server imports: used by API routes and
+// UI alike.
+
+import type { QuorumRule } from "./review-quorum";
+
+/** Who a step is routed to */
+export const WORKFLOW_TARGET_TYPES = ["user", "role", "department"] as const;
+export type WorkflowTargetType = (typeof WORKFLOW_TARGET_TYPES)[number];
+
+/** What a rejection does: end the workflow or go back one step */
+export const STEP_REJECTION_RULES = ["reject", "previous"] as const;
+export type StepRejectionRule = (typeof STEP_REJECTION_RULES)[number];
+
+export type WorkflowStatus = "active" | "completed" | "rejected" | "cancelled";
+
+export type WorkflowStepStatus =
+  | "pending"
+  | "active"
+  | "completed"
+  | "rejected"
+  | "skipped"
+  | "cancelled";
+
+export const REJECTION_LABELS: Record<StepRejectionRule, string> = {
+  reject: "Reject the document",
+  previous: "Send back one step",
+};
+
+export interface WorkflowStepDefinition {
+  id: string;
+  position: number;
+  name: string;
+  target_type: WorkflowTargetType;
+  target_id: string;
+  /** User, role or department name */
+  target_name: string | null;
+  /** How many of the people the step resolves to must approve */
+  completion: QuorumRule;
+  /** For "count": approvals needed, capped at the number of people */
+  required_approvals: number | null;
+  on_reject: StepRejectionRule;
+}
+
+export interface WorkflowTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  department_id: string | null;
+  department_name: string | null;
+  enabled: boolean;
+  steps: WorkflowStepDefinition[];
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowParticipant {
+  assignment_id: string;
+  user_id: string;
+  user_name: string | null;
+  /** assigned, approved, rejected or closed */
+  status: string;
+  note: string | null;
+  decided_at: string | null;
+  /** The absent user this participant covers for */
+  delegated_from: string | null;
+  delegated_from_name: string | null;
+  /** The delegate who decided for this participant while they were away */
+  acted_by: string | null;
+  acted_by_name: string | null;
+}
+
+export interface WorkflowStepState extends WorkflowStepDefinition {
+  status: WorkflowStepStatus;
+  note: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  participants: WorkflowParticipant[];
+}
+
+/** One run of a template on a document */
+export interface DocumentWorkflow {
+  id: string;
+  document_id: string;
+  template_id: string;
+  template_name: string;
+  status: WorkflowStatus;
+  current_position: number;
+  started_by: string;
+  started_by_name: string | null;
+  started_at: string;
+  finished_at: string | null;
+  steps: WorkflowStepState[];
+}
+
+export function isWorkflowTargetType(
+  value: unknown
+): value is WorkflowTargetType {
+  return (WORKFLOW_TARGET_TYPES as readonly unknown[]).includes(value);
+}
@@ -0,0 +1,291 @@
+// Reads the annotations out of an XFDF document, as exported by WebViewer's
+// annotation manager and stored in document_annotations_xfdf. Coordinates
+// stay in PDF user space: points, origin at the bottom left of the page.
+
+export type XfdfPoint = [number, number];
+
+export interface XfdfAnnotation {
+  /** Element name, lower case: square, ink, freetext, highlight, ... */
+  type: string;
+  /** 1-based, unlike XFDF's own page attribute */
+  page: number;
+  /** [left, bottom, right, top] */
+  rect: [number, number, number, number];
+  /** #rrggbb stroke color, null for none */
+  color: string | null;
+  /** #rrggbb fill color, null for none */
+  interiorColor: string | null;
+  opacity: number;
+  /** Border / stroke width in points */
+  width: number;
+  /** Annotations flagged hidden or noview are not drawn */
+  hidden: boolean;
+  contents: string;
+  fontSize: number;
+  textColor: string | null;
+  /** Ink strokes, polygon / polyline vertices, or a line's two ends */
+  paths: XfdfPoint[][];
+  /** Text markup quads, four corners each */
+  quads: XfdfPoint[][];
+  /** Line endings, e.g. "OpenArrow" */
+  head: string | null;
+  tail: string | null;
+  /** Stamp image as a data URL */
+  imageData: string | null;
+}
+
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const TOKEN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g,
+    (_, entity: string) => {
+      switch (entity) {
+        case "lt":
+          return "<";
+        case "gt":
+          return ">";
+        case "amp":
+          return "&";
+        case "quot":
+          return '"';
+        case "apos":
+          return "'";
+      }
+      const code =
+        entity[1] === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : "";
+    }
+  );
+}
+
+/** A forgiving, namespace-blind XML reader; XFDF needs nothing more */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = {
+    name: "#root",
+    attrs: {},
+    children: [],
+    text: "",
+  };
+  const stack = [root];
+
+  for (const match of Array.from(xml.matchAll(TOKEN))) {
+    const [, cdata, closing, rawName, rawAttrs, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    } else if (rawName) {
+      // Drop namespace prefixes
+      const name = rawName.replace(/^.*:/, "").toLowerCase();
+      if (closing) {
+        const index = stack.map((e) => e.name).lastIndexOf(name);
+        if (index > 0) stack.length = index;
+        continue;
+      }
+
+      const attrs: Record<string, string> = {};
+      const matches = Array.from((rawAttrs ?? "").matchAll(ATTRIBUTE));
+      for (const [, key, double, single] of matches) {
+        attrs[key.toLowerCase()] = decodeEntities(double ?? single ?? "");
+      }
+      const element: XmlElement = { name, attrs, children: [], text: "" };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+  return root;
+}
+
+function find(element: XmlElement, name: string): XmlElement | null {
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const nested = find(child, name);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+function numbers(value: string | undefined): number[] {
+  if (!value) return [];
+  return value
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter(Number.isFinite);
+}
+
+function pairs(values: number[]): XfdfPoint[] {
+  const points: XfdfPoint[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    points.push([values[i], values[i + 1]]);
+  }
+  return points;
+}
+
+function color(value: string | undefined): string | null {
+  if (!value) return null;
+  const hex = value.trim();
+  if (/^#[0-9a-fA-F]{6}$/.test(hex)) return hex.toLowerCase();
+  if (/^#[0-9a-fA-F]{3}$/.test(hex)) {
+    const [r, g, b] = hex.slice(1).split("");
+    return `#${r}${r}${g}${g}${b}${b}`.toLowerCase();
+  }
+  return null;
+}
+
+/** "font: Helvetica 12pt; color: #E44234" → { font, color } */
+function parseStyle(value: string): Record<string, string> {
+  const style: Record<string, string> = {};
+  for (const declaration of value.split(";")) {
+    const [key, ...rest] = declaration.split(":");
+    if (key && rest.length) {
+      style[key.trim().toLowerCase()] = rest.join(":").trim();
+    }
+  }
+  return style;
+}
+
+function toAnnotation(element: XmlElement): XfdfAnnotation | null {
+  const { attrs } = element;
+  const rect = numbers(attrs.rect);
+  if (rect.length !== 4) return null;
+
+  const child = (name: string) => find(element, name);
+  const flags = (attrs.flags ?? "").toLowerCase().split(/[\s,]+/);
+  const style = parseStyle(child("defaultstyle")?.text ?? "");
+
+  let paths: XfdfPoint[][] = [];
+  const inklist = child("inklist");
+  if (inklist) {
+    paths = inklist.children
+      .filter((g) => g.name === "gesture")
+      .map((g) => pairs(numbers(g.text)));
+  } else if (child("vertices")) {
+    paths = [pairs(numbers(child("vertices")!.text))];
+  } else if (attrs.start && attrs.end) {
+    paths = [pairs([...numbers(attrs.start), ...numbers(attrs.end)])];
+  }
+
+  const quads: XfdfPoint[][] = [];
+  const coords = pairs(numbers(attrs.coords));
+  for (let i = 0; i + 3 < coords.length; i += 4) {
+    quads.push(coords.slice(i, i + 4));
+  }
+
+  const fontSize =
+    Number(attrs.fontsize) ||
+    parseFloat(style["font-size"] ?? "") ||
+    parseFloat(/(\d+(?:\.\d+)?)pt/.exec(style.font ?? "")?.[1] ?? "") ||
+    12;
+  const opacity = attrs.opacity !== undefined ? Number(attrs.opacity) : 1;
+  const [x1, y1, x2, y2] = rect;
+
+  return {
+    type: element.name,
+    page: Math.max(0, Math.floor(Number(attrs.page) || 0)) + 1,
+    rect: [
+      Math.min(x1, x2),
+      Math.min(y1, y2),
+      Math.max(x1, x2),
+      Math.max(y1, y2),
+    ],
+    color: color(attrs.color),
+    interiorColor: color(attrs["interior-color"]),
+    opacity: Number.isFinite(opacity) ? opacity : 1,
+    width: attrs.width !== undefined ? Number(attrs.width) || 0 : 1,
+    hidden: flags.includes("hidden") || flags.includes("noview"),
+    contents: child("contents")?.text ?? "",
+    fontSize,
+    textColor: color(attrs.textcolor) ?? color(style.color),
+    paths: paths.filter((path) => path.length > 0),
+    quads,
+    head: attrs.head ?? null,
+    tail: attrs.tail ?? null,
+    imageData: child("imagedata")?.text.trim() || null,
+  };
+}
+
+/** Annotations in document order, leaving out malformed entries */
+export function parseXfdf(xml: string): XfdfAnnotation[] {
+  const annots = find(parseXml(xml), "annots");
+  if (!annots) return [];
+  return annots.children
+    .map(toAnnotation)
+    .filter((a): a is XfdfAnnotation => a !== null);
+}
+
+/**
+ * Move annotations to other pages after pages were reordered or removed.
+ * `pageFor` maps a 1-based page to its new number, or null to drop the
+ * annotations on it. Everything else in the document is kept as written.
+ */
+export function remapXfdfPages(
+  xml: string,
+  pageFor: (page: number) => number | null
+): string {
+  const PAGE = /(^|\s)(page\s*=\s*["'])([^"']*)(["'])/i;
+  let out = "";
+  let last = 0;
+  let inAnnots = false;
+  // Nesting below <annots>, and whether the current annotation is dropped
+  let depth = 0;
+  let dropping = false;
+
+  for (const match of Array.from(xml.matchAll(TOKEN))) {
+    const [token, , closing, rawName, rawAttrs, selfClosing] = match;
+    const gap = xml.slice(last, match.index);
+    last = (match.index ?? 0) + token.length;
+    const name = rawName?.replace(/^.*:/, "").toLowerCase();
+
+    if (!inAnnots) {
+      out += gap + token;
+      if (name === "annots" && !closing && !selfClosing) inAnnots = true;
+      continue;
+    }
+    if (name && closing) {
+      if (depth === 0) {
+        inAnnots = false;
+        out += gap + token;
+        continue;
+      }
+      if (!dropping) out += gap + token;
+      if (--depth === 0) dropping = false;
+      continue;
+    }
+    if (name && depth === 0) {
+      // One annotation; its page attribute is 0-based
+      const page =
+        Math.max(0, Math.floor(Number(PAGE.exec(rawAttrs ?? "")?.[3]) || 0)) +
+        1;
+      const next = pageFor(page);
+      if (!selfClosing) depth++;
+      if (next === null) {
+        dropping = !selfClosing;
+        continue;
+      }
+      out +=
+        gap +
+        (PAGE.test(rawAttrs ?? "")
+          ? token.replace(PAGE, `$1$2${next - 1}$4`)
+          : token);
+      continue;
+    }
+    if (name && !selfClosing) depth++;
+    if (!dropping) out += gap + token;
+  }
+  return out + xml.slice(last);
+}
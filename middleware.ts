@@ -3,6 +3,12 @@ import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 
 export async function middleware(req: NextRequest) {
+  // Files uploaded before documents moved out of public/ are still on disk
+  // there; they must only be reachable via /api/documents/[id]/file
+  if (req.nextUrl.pathname.startsWith('/uploads/documents/')) {
+    return new NextResponse('Not found', { status: 404 })
+  }
+
   const res = NextResponse.next()
   
   // Temporarily disable middleware to avoid redirect loops
@@ -12,5 +18,5 @@ export async function middleware(req: NextRequest) {
 }
 
 export const config = {
-  matcher: []
+  matcher: ['/uploads/documents/:path*']
 }
\ No newline at end of file
@@ -14,6 +14,18 @@ const nextConfig = {
     unoptimized: true,
   },
 
+  experimental: {
+    // pdfjs and the canvas it renders onto load their worker and native
+    // binaries with require() at runtime, so server code must use them
+    // from node_modules unbundled. jspdf's bundler entry is the browser
+    // build; unbundled, Node picks its server build.
+    serverComponentsExternalPackages: [
+      "pdfjs-dist",
+      "@napi-rs/canvas",
+      "jspdf",
+    ],
+  },
+
   webpack: (config, { isServer }) => {
     // prevent Next.js from trying to polyfill Node core libs
     config.resolve.fallback = {
@@ -0,0 +1,34 @@
+/**
+ * Assignment due date reminders and escalations.
+ *
+ *   npm run assignments:sla    remind assignees and escalate overdue work
+ *
+ * Run it on a schedule, e.g. every 15 minutes from cron. Reads the same
+ * .env files as the app.
+ */
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  // Imported after the environment is loaded
+  const { AssignmentSlaService } = await import("../lib/assignment-sla");
+
+  const result = await AssignmentSlaService.run();
+  console.log(
+    `✅ Sent ${result.reminded} reminder(s), escalated ${result.escalated} overdue assignment(s)`
+  );
+  if (result.unrouted > 0) {
+    console.warn(
+      `⚠️ ${result.unrouted} overdue assignment(s) have no department head; set SLA_ESCALATION_USER_ID`
+    );
+  }
+  return 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error("❌", err);
+    process.exit(1);
+  });
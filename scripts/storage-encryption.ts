@@ -0,0 +1,62 @@
+/**
+ * Storage encryption maintenance.
+ *
+ *   npm run storage:generate-key [id]  print a new STORAGE_ENCRYPTION_KEYS entry
+ *   npm run storage:encrypt            encrypt files stored before encryption
+ *   npm run storage:rotate-keys        rewrap data keys with the first master key
+ *
+ * Reads the same .env files as the app.
+ */
+import { randomBytes } from "crypto";
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+async function main(command: string | undefined, args: string[]) {
+  if (command === "generate-key") {
+    const id = args[0] || new Date().toISOString().slice(0, 10);
+    console.log(`${id}:${randomBytes(32).toString("base64")}`);
+    return 0;
+  }
+
+  // Imported after the environment is loaded
+  const { StorageEncryptionService } = await import(
+    "../lib/storage-encryption"
+  );
+
+  if (command === "encrypt") {
+    const result = await StorageEncryptionService.encryptExistingFiles(
+      (key, index, total) => console.log(`🔒 [${index + 1}/${total}] ${key}`)
+    );
+    console.log(
+      `✅ Encrypted ${result.encrypted} file(s), removed ${result.thumbnails_removed} thumbnail(s)`
+    );
+    for (const key of result.missing) console.warn(`⚠️ Missing: ${key}`);
+    for (const f of result.failed) console.error(`❌ ${f.key}: ${f.error}`);
+    return result.failed.length > 0 ? 1 : 0;
+  }
+
+  if (command === "rotate-keys") {
+    const result = await StorageEncryptionService.rotateKeys();
+    console.log(
+      `✅ Rewrapped ${result.rewrapped} data key(s) with "${result.master_key_id}"`
+    );
+    for (const [id, count] of Object.entries(result.remaining)) {
+      console.log(`   ${id}: ${count}`);
+    }
+    for (const f of result.failed) console.error(`❌ ${f.key}: ${f.error}`);
+    return result.failed.length > 0 ? 1 : 0;
+  }
+
+  console.error(
+    "Usage: storage-encryption <generate-key [id] | encrypt | rotate-keys>"
+  );
+  return 1;
+}
+
+main(process.argv[2], process.argv.slice(3))
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error("❌", err);
+    process.exit(1);
+  });